@@ -6,6 +6,7 @@ import { Dashboard } from './pages/Dashboard';
 import { CampaignList } from './pages/CampaignList';
 import { CampaignDetail } from './pages/CampaignDetail';
 import { CampaignSetup } from './pages/CampaignSetup';
+import { CampaignSearch } from './pages/CampaignSearch';
 import { LiveSession } from './pages/LiveSession';
 import { SessionDetail } from './pages/SessionDetail';
 import { Landing } from './pages/Landing';
@@ -36,6 +37,7 @@ function AppRoutes() {
                   <Route path="/campaigns/new" element={<CampaignSetup />} />
                   <Route path="/campaigns/:id" element={<CampaignDetail />} />
                   <Route path="/campaigns/:id/edit" element={<CampaignSetup />} />
+                  <Route path="/campaigns/:id/search" element={<CampaignSearch />} />
                   <Route path="/campaigns/:campaignId/sessions/:sessionId" element={<SessionDetail />} />
                   <Route path="/campaigns/:campaignId/live" element={<LiveSession />} />
                   <Route path="/campaigns/:campaignId/live/:sessionId" element={<LiveSession />} />
@@ -0,0 +1,56 @@
+import { ArrowRight } from 'lucide-react';
+
+// Types
+export interface CharacterImportPreview {
+  format: 'dnd-companion' | 'dndbeyond' | 'foundry';
+  character: { characterName: string; maxHp: number };
+  changes: { field: string; label: string; before: string | null; after: string | null }[];
+}
+
+interface CharacterImportDiffProps {
+  preview: CharacterImportPreview;
+  isNewPlayer: boolean; // Everything is new, so there's nothing to compare against
+}
+
+const FORMAT_LABELS: Record<CharacterImportPreview['format'], string> = {
+  'dnd-companion': 'D&D Companion',
+  dndbeyond: 'D&D Beyond',
+  foundry: 'Foundry VTT',
+};
+
+export function CharacterImportDiff({ preview, isNewPlayer }: CharacterImportDiffProps) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-dungeon-400">
+        <span className="badge badge-mystic mr-2">{FORMAT_LABELS[preview.format]}</span>
+        {isNewPlayer
+          ? `Creates ${preview.character.characterName} with:`
+          : preview.changes.length > 0
+            ? 'Importing changes:'
+            : 'This file matches the character already; nothing would change.'}
+      </p>
+      {preview.changes.length > 0 && (
+        <div className="divide-y divide-dungeon-700/50 border border-dungeon-700/50 rounded-lg max-h-80 overflow-y-auto">
+          {preview.changes.map((change) => (
+            <div key={change.field} className="p-2 text-sm grid grid-cols-[8rem_1fr] gap-2">
+              <span className="text-dungeon-400">{change.label}</span>
+              <span className="flex items-start gap-2 min-w-0">
+                {!isNewPlayer && (
+                  <>
+                    <span className="text-dragon-300 line-through break-words">{change.before ?? '—'}</span>
+                    <ArrowRight className="w-3.5 h-3.5 mt-0.5 text-dungeon-500 flex-shrink-0" />
+                  </>
+                )}
+                <span className="text-emerald-300 break-words">{change.after ?? '—'}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-dungeon-500">
+        Anything the file doesn't include keeps its current value.
+        {!isNewPlayer && ' Current HP is kept, capped at the new max.'}
+      </p>
+    </div>
+  );
+}
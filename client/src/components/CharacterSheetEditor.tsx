@@ -0,0 +1,534 @@
+import { useEffect, useRef, useState } from 'react';
+import { X, Plus, Trash2, Download, Upload, AlertCircle } from 'lucide-react';
+import { api } from '@/services/api';
+
+// Types
+export type Ability = 'strength' | 'dexterity' | 'constitution' | 'intelligence' | 'wisdom' | 'charisma';
+
+export type Skill =
+  | 'acrobatics' | 'animal_handling' | 'arcana' | 'athletics' | 'deception' | 'history'
+  | 'insight' | 'intimidation' | 'investigation' | 'medicine' | 'nature' | 'perception'
+  | 'performance' | 'persuasion' | 'religion' | 'sleight_of_hand' | 'stealth' | 'survival';
+
+export interface CharacterSheet {
+  level: number;
+  background: string | null;
+  alignment: string | null;
+  armorClass: number;
+  speed: number;
+  strength: number;
+  dexterity: number;
+  constitution: number;
+  intelligence: number;
+  wisdom: number;
+  charisma: number;
+  savingThrows: Ability[];
+  skillProficiencies: Skill[];
+  skillExpertise: Skill[];
+  spellcastingAbility: Ability | null;
+  spellSlots: number[]; // 1st to 9th level
+  inventory: { name: string; quantity: number; notes: string | null }[];
+  features: {
+    name: string;
+    source: string | null;
+    description: string | null;
+    uses: number | null; // Limited uses, tracked in the live session
+    recharge: 'short' | 'long' | null;
+  }[];
+}
+
+interface CharacterSheetEditorProps {
+  player: { id: string; characterName: string };
+  onClose: () => void;
+  onImported: () => void; // The import also changed the player's name, class, race or HP
+}
+
+const ABILITIES: Ability[] = ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'];
+
+const SKILL_ABILITIES: Record<Skill, Ability> = {
+  acrobatics: 'dexterity',
+  animal_handling: 'wisdom',
+  arcana: 'intelligence',
+  athletics: 'strength',
+  deception: 'charisma',
+  history: 'intelligence',
+  insight: 'wisdom',
+  intimidation: 'charisma',
+  investigation: 'intelligence',
+  medicine: 'wisdom',
+  nature: 'intelligence',
+  perception: 'wisdom',
+  performance: 'charisma',
+  persuasion: 'charisma',
+  religion: 'intelligence',
+  sleight_of_hand: 'dexterity',
+  stealth: 'dexterity',
+  survival: 'wisdom',
+};
+
+const SKILLS = Object.keys(SKILL_ABILITIES) as Skill[];
+
+const SPELL_LEVELS = 9;
+
+const emptySheet: CharacterSheet = {
+  level: 1,
+  background: null,
+  alignment: null,
+  armorClass: 10,
+  speed: 30,
+  strength: 10,
+  dexterity: 10,
+  constitution: 10,
+  intelligence: 10,
+  wisdom: 10,
+  charisma: 10,
+  savingThrows: [],
+  skillProficiencies: [],
+  skillExpertise: [],
+  spellcastingAbility: null,
+  spellSlots: [],
+  inventory: [],
+  features: [],
+};
+
+const abilityModifier = (score: number) => Math.floor((score - 10) / 2);
+
+const proficiencyBonus = (level: number) => 2 + Math.floor((level - 1) / 4);
+
+const signed = (n: number) => (n >= 0 ? `+${n}` : `${n}`);
+
+const skillLabel = (skill: Skill) => skill.replace(/_/g, ' ');
+
+// Clicking a skill steps through these
+const SKILL_LEVELS = ['none', 'proficient', 'expertise'] as const;
+
+type SkillLevel = (typeof SKILL_LEVELS)[number];
+
+const skillLevel = (sheet: CharacterSheet, skill: Skill): SkillLevel =>
+  sheet.skillExpertise.includes(skill) ? 'expertise' : sheet.skillProficiencies.includes(skill) ? 'proficient' : 'none';
+
+function skillBonus(sheet: CharacterSheet, skill: Skill): number {
+  const level = skillLevel(sheet, skill);
+  const multiplier = level === 'expertise' ? 2 : level === 'proficient' ? 1 : 0;
+  return abilityModifier(sheet[SKILL_ABILITIES[skill]]) + multiplier * proficiencyBonus(sheet.level);
+}
+
+export const passivePerception = (sheet: CharacterSheet) => 10 + skillBonus(sheet, 'perception');
+
+const toNumber = (value: string, fallback = 0) => {
+  const n = parseInt(value, 10);
+  return Number.isNaN(n) ? fallback : n;
+};
+
+export function CharacterSheetEditor({ player, onClose, onImported }: CharacterSheetEditorProps) {
+  const [sheet, setSheet] = useState<CharacterSheet>(emptySheet);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    api.get<CharacterSheet | null>(`/players/${player.id}/sheet`)
+      .then((response) => setSheet(response.data ?? emptySheet))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load character sheet'))
+      .finally(() => setIsLoading(false));
+  }, [player.id]);
+
+  const update = (patch: Partial<CharacterSheet>) => setSheet((current) => ({ ...current, ...patch }));
+
+  const cycleSkill = (skill: Skill) => {
+    const next = SKILL_LEVELS[(SKILL_LEVELS.indexOf(skillLevel(sheet, skill)) + 1) % SKILL_LEVELS.length];
+    const without = (list: Skill[]) => list.filter((s) => s !== skill);
+    update({
+      skillProficiencies: next === 'none' ? without(sheet.skillProficiencies) : [...without(sheet.skillProficiencies), skill],
+      skillExpertise: next === 'expertise' ? [...without(sheet.skillExpertise), skill] : without(sheet.skillExpertise),
+    });
+  };
+
+  const toggleSave = (ability: Ability) => {
+    update({
+      savingThrows: sheet.savingThrows.includes(ability)
+        ? sheet.savingThrows.filter((a) => a !== ability)
+        : [...sheet.savingThrows, ability],
+    });
+  };
+
+  const setSpellSlots = (level: number, count: number) => {
+    const slots = Array.from({ length: SPELL_LEVELS }, (_, i) => sheet.spellSlots[i] ?? 0);
+    slots[level] = Math.max(0, count);
+    // Trailing empty levels aren't worth storing
+    while (slots.length > 0 && slots[slots.length - 1] === 0) slots.pop();
+    update({ spellSlots: slots });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await api.put(`/players/${player.id}/sheet`, {
+        ...sheet,
+        inventory: sheet.inventory.filter((item) => item.name.trim()),
+        features: sheet.features.filter((feature) => feature.name.trim()),
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save character sheet');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      const blob = await api.getBlob(`/players/${player.id}/sheet/export`);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${player.characterName.replace(/[^\w-]+/g, '-').toLowerCase() || 'character'}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export character');
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      const data: unknown = JSON.parse(await file.text());
+      const response = await api.post<{ sheet: CharacterSheet }>(`/players/${player.id}/sheet/import`, data);
+      if (response.data) setSheet(response.data.sheet);
+      onImported();
+    } catch (err) {
+      setError(err instanceof SyntaxError ? 'That file isn\'t JSON' : err instanceof Error ? err.message : 'Failed to import character');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50">
+      <div className="bg-dungeon-900 border border-dungeon-700 rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-dungeon-700">
+          <h3 className="font-display text-lg font-semibold">{player.characterName}'s Character Sheet</h3>
+          <button onClick={onClose} className="text-dungeon-400 hover:text-parchment-200">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="p-8 text-center text-dungeon-400">Loading character sheet...</div>
+        ) : (
+          <div className="p-4 space-y-6 overflow-y-auto">
+            {/* Basics */}
+            <div className="grid grid-cols-5 gap-4">
+              <div>
+                <label className="block text-sm text-dungeon-400 mb-1">Level</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={sheet.level}
+                  onChange={(e) => update({ level: Math.min(20, Math.max(1, toNumber(e.target.value, 1))) })}
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-dungeon-400 mb-1">AC</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={sheet.armorClass}
+                  onChange={(e) => update({ armorClass: toNumber(e.target.value) })}
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-dungeon-400 mb-1">Speed (ft)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={sheet.speed}
+                  onChange={(e) => update({ speed: toNumber(e.target.value) })}
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-dungeon-400 mb-1">Background</label>
+                <input
+                  type="text"
+                  value={sheet.background ?? ''}
+                  onChange={(e) => update({ background: e.target.value || null })}
+                  className="input w-full"
+                  placeholder="Sage"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-dungeon-400 mb-1">Alignment</label>
+                <input
+                  type="text"
+                  value={sheet.alignment ?? ''}
+                  onChange={(e) => update({ alignment: e.target.value || null })}
+                  className="input w-full"
+                  placeholder="Neutral Good"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-dungeon-500">
+              Proficiency bonus {signed(proficiencyBonus(sheet.level))} · Passive Perception {passivePerception(sheet)}
+            </p>
+
+            {/* Ability scores and saving throws */}
+            <div>
+              <h4 className="text-sm font-semibold text-parchment-200 mb-2">Abilities</h4>
+              <div className="grid grid-cols-6 gap-3">
+                {ABILITIES.map((ability) => (
+                  <div key={ability} className="text-center">
+                    <label className="block text-xs text-dungeon-400 uppercase mb-1">{ability.slice(0, 3)}</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={30}
+                      value={sheet[ability]}
+                      onChange={(e) => update({ [ability]: Math.min(30, Math.max(1, toNumber(e.target.value, 10))) })}
+                      className="input w-full text-center"
+                    />
+                    <p className="text-sm text-parchment-200 mt-1">{signed(abilityModifier(sheet[ability]))}</p>
+                    <label className="flex items-center justify-center gap-1 text-xs text-dungeon-400 mt-1 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={sheet.savingThrows.includes(ability)}
+                        onChange={() => toggleSave(ability)}
+                      />
+                      Save
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Skills */}
+            <div>
+              <h4 className="text-sm font-semibold text-parchment-200 mb-2">Skills</h4>
+              <div className="flex flex-wrap gap-1.5">
+                {SKILLS.map((skill) => {
+                  const level = skillLevel(sheet, skill);
+                  return (
+                    <button
+                      key={skill}
+                      type="button"
+                      onClick={() => cycleSkill(skill)}
+                      className={`badge capitalize ${
+                        level === 'expertise' ? 'badge-success' : level === 'proficient' ? 'badge-mystic' : 'text-dungeon-400 border border-dungeon-700'
+                      }`}
+                      title={level === 'none' ? 'Not proficient' : level === 'proficient' ? 'Proficient' : 'Expertise'}
+                    >
+                      {skillLabel(skill)} {signed(skillBonus(sheet, skill))}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-dungeon-500 mt-2">
+                Click to cycle: not proficient, <span className="text-mystic-400">proficient</span>,{' '}
+                <span className="text-emerald-400">expertise</span>
+              </p>
+            </div>
+
+            {/* Spellcasting */}
+            <div>
+              <h4 className="text-sm font-semibold text-parchment-200 mb-2">Spellcasting</h4>
+              <div className="flex items-end gap-3">
+                <div>
+                  <label className="block text-xs text-dungeon-400 mb-1">Ability</label>
+                  <select
+                    value={sheet.spellcastingAbility ?? ''}
+                    onChange={(e) => update({ spellcastingAbility: (e.target.value || null) as Ability | null })}
+                    className="input w-auto capitalize"
+                  >
+                    <option value="">None</option>
+                    {ABILITIES.map((ability) => (
+                      <option key={ability} value={ability}>{ability}</option>
+                    ))}
+                  </select>
+                </div>
+                {Array.from({ length: SPELL_LEVELS }, (_, i) => (
+                  <div key={i} className="w-12">
+                    <label className="block text-xs text-dungeon-400 mb-1 text-center">{i + 1}</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={sheet.spellSlots[i] ?? 0}
+                      onChange={(e) => setSpellSlots(i, toNumber(e.target.value))}
+                      className="input w-full px-1 text-center"
+                      title={`Level ${i + 1} slots`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Features */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-parchment-200">Features &amp; Traits</h4>
+                <button
+                  onClick={() => update({ features: [...sheet.features, { name: '', source: null, description: null, uses: null, recharge: null }] })}
+                  className="btn-ghost text-xs px-2 py-1 flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" />
+                  Feature
+                </button>
+              </div>
+              <div className="space-y-2">
+                {sheet.features.map((feature, i) => (
+                  <div key={i} className="flex gap-2 items-start">
+                    <input
+                      type="text"
+                      value={feature.name}
+                      onChange={(e) => update({ features: sheet.features.map((f, j) => (j === i ? { ...f, name: e.target.value } : f)) })}
+                      className="input w-40"
+                      placeholder="Second Wind"
+                    />
+                    <input
+                      type="text"
+                      value={feature.source ?? ''}
+                      onChange={(e) => update({ features: sheet.features.map((f, j) => (j === i ? { ...f, source: e.target.value || null } : f)) })}
+                      className="input w-28"
+                      placeholder="Fighter 1"
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={feature.uses ?? ''}
+                      onChange={(e) => update({
+                        features: sheet.features.map((f, j) => (j === i ? { ...f, uses: e.target.value ? Math.max(1, toNumber(e.target.value)) : null } : f)),
+                      })}
+                      className="input w-16 px-1 text-center"
+                      placeholder="Uses"
+                      title="Uses, if limited"
+                    />
+                    <select
+                      value={feature.recharge ?? 'long'}
+                      onChange={(e) => update({
+                        features: sheet.features.map((f, j) => (j === i ? { ...f, recharge: e.target.value as 'short' | 'long' } : f)),
+                      })}
+                      disabled={!feature.uses}
+                      className="input w-auto"
+                      title="Recharges on"
+                    >
+                      <option value="short">Short rest</option>
+                      <option value="long">Long rest</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={feature.description ?? ''}
+                      onChange={(e) => update({ features: sheet.features.map((f, j) => (j === i ? { ...f, description: e.target.value || null } : f)) })}
+                      className="input flex-1"
+                      placeholder="Regain 1d10 + level HP as a bonus action"
+                    />
+                    <button
+                      onClick={() => update({ features: sheet.features.filter((_, j) => j !== i) })}
+                      className="btn-ghost p-2 text-dungeon-400 hover:text-dragon-400"
+                      title="Remove feature"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Inventory */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-parchment-200">Inventory</h4>
+                <button
+                  onClick={() => update({ inventory: [...sheet.inventory, { name: '', quantity: 1, notes: null }] })}
+                  className="btn-ghost text-xs px-2 py-1 flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" />
+                  Item
+                </button>
+              </div>
+              <div className="space-y-2">
+                {sheet.inventory.map((item, i) => (
+                  <div key={i} className="flex gap-2 items-start">
+                    <input
+                      type="number"
+                      min={0}
+                      value={item.quantity}
+                      onChange={(e) => update({ inventory: sheet.inventory.map((it, j) => (j === i ? { ...it, quantity: Math.max(0, toNumber(e.target.value)) } : it)) })}
+                      className="input w-16 text-center"
+                      title="Quantity"
+                    />
+                    <input
+                      type="text"
+                      value={item.name}
+                      onChange={(e) => update({ inventory: sheet.inventory.map((it, j) => (j === i ? { ...it, name: e.target.value } : it)) })}
+                      className="input w-48"
+                      placeholder="Rope, hempen (50 feet)"
+                    />
+                    <input
+                      type="text"
+                      value={item.notes ?? ''}
+                      onChange={(e) => update({ inventory: sheet.inventory.map((it, j) => (j === i ? { ...it, notes: e.target.value || null } : it)) })}
+                      className="input flex-1"
+                      placeholder="Notes"
+                    />
+                    <button
+                      onClick={() => update({ inventory: sheet.inventory.filter((_, j) => j !== i) })}
+                      className="btn-ghost p-2 text-dungeon-400 hover:text-dragon-400"
+                      title="Remove item"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="px-4 pb-2 text-sm text-dragon-400 flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between p-4 border-t border-dungeon-700">
+          <div className="flex gap-2">
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+            <button onClick={() => fileInput.current?.click()} className="btn-ghost text-sm flex items-center gap-2">
+              <Upload className="w-4 h-4" />
+              Import
+            </button>
+            <button onClick={handleExport} className="btn-ghost text-sm flex items-center gap-2">
+              <Download className="w-4 h-4" />
+              Export
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="btn-secondary">
+              Cancel
+            </button>
+            <button onClick={handleSave} disabled={isLoading || isSaving} className="btn-primary">
+              {isSaving ? 'Saving...' : 'Save Sheet'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { Swords, SkipBack, SkipForward, Skull, X, Plus, Flag } from 'lucide-react';
+import { ConditionList, Condition } from '@/components/ConditionList';
+
+// Types
+export interface Combatant {
+  id: string;
+  name: string;
+  kind: 'player' | 'monster';
+  initiative: number | null;
+  maxHp: number | null; // Enemies only; unknown until the DM enters it
+  damageTaken: number;
+  defeated: boolean;
+  playerId: string | null;
+}
+
+export interface Encounter {
+  id: string;
+  name: string | null;
+  status: 'active' | 'ended';
+  round: number;
+  activeCombatantId: string | null; // Null while initiative is being rolled
+  combatants: Combatant[]; // In initiative order
+}
+
+interface CombatTrackerProps {
+  encounter: Encounter | null;
+  canStart: boolean; // Only while the session is running
+  onStart: () => void;
+  onTurn: (step: 1 | -1) => void;
+  onEnd: () => void;
+  onAddCombatant: (combatant: { name: string; initiative: number | null; maxHp: number | null }) => void;
+  onUpdateCombatant: (
+    combatantId: string,
+    patch: { initiative?: number | null; maxHp?: number | null; defeated?: boolean }
+  ) => void;
+  onRemoveCombatant: (combatantId: string) => void;
+  conditions: Condition[]; // Everyone's in the session; shown next to whoever has them
+  elapsedMs: number;
+  onRemoveCondition: (conditionId: string) => void;
+}
+
+const parseNumber = (value: string) => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const getHealthStatus = (current: number, max: number) => {
+  const percentage = (current / max) * 100;
+  if (percentage > 50) return 'healthy';
+  if (percentage > 25) return 'injured';
+  return 'critical';
+};
+
+export function CombatTracker({
+  encounter,
+  canStart,
+  onStart,
+  onTurn,
+  onEnd,
+  onAddCombatant,
+  onUpdateCombatant,
+  onRemoveCombatant,
+  conditions,
+  elapsedMs,
+  onRemoveCondition,
+}: CombatTrackerProps) {
+  const [newName, setNewName] = useState('');
+  const [newInitiative, setNewInitiative] = useState('');
+  const [newMaxHp, setNewMaxHp] = useState('');
+
+  if (!encounter) {
+    return (
+      <div className="p-4 border-b border-dungeon-700/50">
+        <div className="flex items-center justify-between">
+          <h3 className="font-display font-semibold flex items-center gap-2">
+            <Swords className="w-4 h-4 text-dragon-400" />
+            Combat
+          </h3>
+          <button
+            onClick={onStart}
+            disabled={!canStart}
+            className="btn-secondary text-sm"
+            title="Also starts when someone says &quot;roll for initiative&quot;"
+          >
+            Start Combat
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isRolling = encounter.activeCombatantId === null;
+
+  const addCombatant = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const maxHp = parseNumber(newMaxHp);
+    onAddCombatant({
+      name: newName.trim(),
+      initiative: parseNumber(newInitiative),
+      maxHp: maxHp !== null && maxHp > 0 ? maxHp : null,
+    });
+    setNewName('');
+    setNewInitiative('');
+    setNewMaxHp('');
+  };
+
+  return (
+    <div className="p-4 border-b border-dungeon-700/50">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-display font-semibold flex items-center gap-2">
+          <Swords className="w-4 h-4 text-dragon-400" />
+          {encounter.name || 'Combat'}
+        </h3>
+        <span className="badge badge-dragon">
+          {isRolling ? 'Rolling initiative' : `Round ${encounter.round}`}
+        </span>
+      </div>
+
+      <div className="space-y-1 mb-3">
+        {encounter.combatants.map((combatant) => {
+          const isActive = combatant.id === encounter.activeCombatantId;
+          return (
+            <div
+              key={combatant.id}
+              className={`flex items-center gap-2 rounded-lg px-2 py-1.5 ${
+                isActive ? 'bg-mystic-600/30 ring-1 ring-mystic-500' : 'bg-dungeon-800/50'
+              } ${combatant.defeated ? 'opacity-50' : ''}`}
+            >
+              <input
+                key={`${combatant.id}:${combatant.initiative}`}
+                type="number"
+                defaultValue={combatant.initiative ?? ''}
+                onBlur={(e) => {
+                  const initiative = parseNumber(e.target.value);
+                  if (initiative !== combatant.initiative) {
+                    onUpdateCombatant(combatant.id, { initiative });
+                  }
+                }}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="input w-14 px-2 py-1 text-sm text-center"
+                placeholder="–"
+                title="Initiative"
+              />
+              <div className="flex-1 min-w-0">
+                <span className={`block text-sm truncate ${combatant.defeated ? 'line-through' : ''} ${
+                  combatant.kind === 'monster' ? 'text-dragon-300' : ''
+                }`}>
+                  {combatant.name}
+                </span>
+                {combatant.kind === 'monster' && (
+                  combatant.maxHp !== null ? (
+                    <div className="health-bar h-1.5 mt-1" title={`${combatant.maxHp - combatant.damageTaken}/${combatant.maxHp} HP`}>
+                      <div
+                        className={`health-bar-fill ${getHealthStatus(combatant.maxHp - combatant.damageTaken, combatant.maxHp)}`}
+                        style={{ width: `${Math.max(0, (combatant.maxHp - combatant.damageTaken) / combatant.maxHp) * 100}%` }}
+                      />
+                    </div>
+                  ) : combatant.damageTaken > 0 && (
+                    <span className="block text-xs text-dungeon-400">{combatant.damageTaken} damage taken</span>
+                  )
+                )}
+                <ConditionList
+                  conditions={conditions.filter((c) =>
+                    combatant.playerId ? c.playerId === combatant.playerId : c.combatantId === combatant.id
+                  )}
+                  encounter={encounter}
+                  elapsedMs={elapsedMs}
+                  onRemove={onRemoveCondition}
+                />
+              </div>
+              {combatant.kind === 'monster' && (
+                <input
+                  key={`${combatant.id}:hp:${combatant.maxHp}`}
+                  type="number"
+                  min={1}
+                  defaultValue={combatant.maxHp ?? ''}
+                  onBlur={(e) => {
+                    const maxHp = parseNumber(e.target.value);
+                    if (maxHp !== combatant.maxHp && (maxHp === null || maxHp > 0)) {
+                      onUpdateCombatant(combatant.id, { maxHp });
+                    }
+                  }}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="input w-14 px-2 py-1 text-sm text-center"
+                  placeholder="HP"
+                  title="Max HP"
+                />
+              )}
+              <button
+                onClick={() => onUpdateCombatant(combatant.id, { defeated: !combatant.defeated })}
+                className={`btn-ghost p-1 ${combatant.defeated ? 'text-dragon-400' : 'text-dungeon-400'}`}
+                title={combatant.defeated ? 'Back in the fight' : 'Defeated'}
+              >
+                <Skull className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => onRemoveCombatant(combatant.id)}
+                className="btn-ghost p-1 text-dungeon-400"
+                title="Remove from combat"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={addCombatant} className="flex items-center gap-2 mb-3">
+        <input
+          type="number"
+          value={newInitiative}
+          onChange={(e) => setNewInitiative(e.target.value)}
+          className="input w-14 px-2 py-1 text-sm text-center"
+          placeholder="Init"
+        />
+        <input
+          type="number"
+          min={1}
+          value={newMaxHp}
+          onChange={(e) => setNewMaxHp(e.target.value)}
+          className="input w-14 px-2 py-1 text-sm text-center"
+          placeholder="HP"
+        />
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          className="input flex-1 px-2 py-1 text-sm"
+          placeholder="Add a monster..."
+        />
+        <button type="submit" disabled={!newName.trim()} className="btn-ghost p-1" title="Add">
+          <Plus className="w-4 h-4" />
+        </button>
+      </form>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onTurn(-1)}
+          disabled={isRolling}
+          className="btn-ghost p-2"
+          title="Previous turn"
+        >
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onTurn(1)}
+          className="btn-primary text-sm flex-1 flex items-center justify-center gap-2"
+        >
+          <SkipForward className="w-4 h-4" />
+          {isRolling ? 'Begin' : 'Next Turn'}
+        </button>
+        <button onClick={onEnd} className="btn-ghost p-2 text-dragon-400" title="End combat">
+          <Flag className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+
+// Types
+export interface Condition {
+  id: string;
+  name: string;
+  source: string | null;
+  startedAt: number; // ms from session start
+  startRound: number | null;
+  durationRounds: number | null;
+  durationMinutes: number | null;
+  playerId: string | null;
+  combatantId: string | null;
+  encounterId: string | null; // Round durations count this encounter's rounds
+}
+
+export interface NewCondition {
+  name: string;
+  source: string | null;
+  durationRounds: number | null;
+  durationMinutes: number | null;
+}
+
+interface ConditionListProps {
+  conditions: Condition[]; // Just the ones on this player or enemy
+  encounter: { id: string; round: number } | null;
+  elapsedMs: number; // Session time, for minute durations
+  onAdd?: (condition: NewCondition) => void;
+  onRemove: (conditionId: string) => void;
+}
+
+const STANDARD_CONDITIONS = [
+  'blinded',
+  'charmed',
+  'deafened',
+  'exhaustion',
+  'frightened',
+  'grappled',
+  'incapacitated',
+  'invisible',
+  'paralyzed',
+  'petrified',
+  'poisoned',
+  'prone',
+  'restrained',
+  'stunned',
+  'unconscious',
+];
+
+const CUSTOM = 'custom';
+
+const getTimeLeft = (
+  condition: Condition,
+  encounter: { id: string; round: number } | null,
+  elapsedMs: number
+): string | null => {
+  if (condition.durationRounds !== null && condition.startRound !== null && encounter?.id === condition.encounterId) {
+    return `${Math.max(1, condition.startRound + condition.durationRounds - encounter.round)} rnd`;
+  }
+  if (condition.durationMinutes !== null) {
+    const minutesLeft = Math.ceil((condition.startedAt + condition.durationMinutes * 60000 - elapsedMs) / 60000);
+    return `${Math.max(1, minutesLeft)} min`;
+  }
+  if (condition.durationRounds !== null) return `${condition.durationRounds} rnd`;
+  return null;
+};
+
+export function ConditionList({ conditions, encounter, elapsedMs, onAdd, onRemove }: ConditionListProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState(STANDARD_CONDITIONS[0]);
+  const [customName, setCustomName] = useState('');
+  const [duration, setDuration] = useState('');
+  const [unit, setUnit] = useState<'rounds' | 'minutes'>('rounds');
+
+  const conditionName = name === CUSTOM ? customName.trim() : name;
+
+  const addCondition = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onAdd || !conditionName) return;
+    const amount = parseInt(duration, 10);
+    const length = Number.isNaN(amount) || amount < 1 ? null : amount;
+    onAdd({
+      name: conditionName,
+      source: null,
+      durationRounds: unit === 'rounds' ? length : null,
+      durationMinutes: unit === 'minutes' ? length : null,
+    });
+    setIsAdding(false);
+    setCustomName('');
+    setDuration('');
+  };
+
+  if (conditions.length === 0 && !onAdd) return null;
+
+  return (
+    <div className="mt-2">
+      <div className="flex flex-wrap items-center gap-1">
+        {conditions.map((condition) => {
+          const timeLeft = getTimeLeft(condition, encounter, elapsedMs);
+          return (
+            <span
+              key={condition.id}
+              className="badge badge-mystic flex items-center gap-1 capitalize"
+              title={condition.source ?? undefined}
+            >
+              {condition.name}
+              {timeLeft && <span className="text-mystic-300/70 normal-case">· {timeLeft}</span>}
+              <button
+                onClick={() => onRemove(condition.id)}
+                className="hover:text-parchment-100"
+                title="Remove condition"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          );
+        })}
+        {onAdd && !isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="btn-ghost px-1.5 py-0.5 text-xs text-dungeon-400 flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" />
+            Condition
+          </button>
+        )}
+      </div>
+
+      {isAdding && (
+        <form onSubmit={addCondition} className="mt-2 space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="input flex-1 px-2 py-1 text-sm capitalize"
+            >
+              {STANDARD_CONDITIONS.map((condition) => (
+                <option key={condition} value={condition}>{condition}</option>
+              ))}
+              <option value={CUSTOM}>Custom...</option>
+            </select>
+            {name === CUSTOM && (
+              <input
+                type="text"
+                value={customName}
+                onChange={(e) => setCustomName(e.target.value)}
+                className="input flex-1 px-2 py-1 text-sm"
+                placeholder="Hexed"
+                maxLength={50}
+                autoFocus
+              />
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              className="input w-16 px-2 py-1 text-sm text-center"
+              placeholder="∞"
+              title="Leave empty until removed"
+            />
+            <select
+              value={unit}
+              onChange={(e) => setUnit(e.target.value as 'rounds' | 'minutes')}
+              className="input w-auto px-2 py-1 text-sm"
+            >
+              <option value="rounds">rounds</option>
+              <option value="minutes">minutes</option>
+            </select>
+            <button type="submit" disabled={!conditionName} className="btn-primary text-xs px-2 py-1">
+              Add
+            </button>
+            <button type="button" onClick={() => setIsAdding(false)} className="btn-ghost p-1" title="Cancel">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+// Types
+export type DamageType =
+  | 'acid' | 'bludgeoning' | 'cold' | 'fire' | 'force' | 'lightning' | 'necrotic'
+  | 'piercing' | 'poison' | 'psychic' | 'radiant' | 'slashing' | 'thunder';
+
+export interface DamageDefenses {
+  resistances: DamageType[];
+  immunities: DamageType[];
+  vulnerabilities: DamageType[];
+}
+
+interface DamageDefensesEditorProps {
+  defenses: DamageDefenses;
+  onChange: (defenses: DamageDefenses) => void;
+}
+
+type Defense = keyof DamageDefenses | null;
+
+export const DAMAGE_TYPES: DamageType[] = [
+  'acid', 'bludgeoning', 'cold', 'fire', 'force', 'lightning', 'necrotic',
+  'piercing', 'poison', 'psychic', 'radiant', 'slashing', 'thunder',
+];
+
+// Clicking a damage type steps through these
+const CYCLE: Defense[] = [null, 'resistances', 'immunities', 'vulnerabilities'];
+
+const DEFENSE_STYLES: Record<keyof DamageDefenses, { className: string; label: string }> = {
+  resistances: { className: 'badge-mystic', label: 'Resistant' },
+  immunities: { className: 'badge-success', label: 'Immune' },
+  vulnerabilities: { className: 'badge-dragon', label: 'Vulnerable' },
+};
+
+export function DamageDefensesEditor({ defenses, onChange }: DamageDefensesEditorProps) {
+  const defenseFor = (type: DamageType): Defense =>
+    CYCLE.find((defense) => defense !== null && defenses[defense].includes(type)) ?? null;
+
+  const cycle = (type: DamageType) => {
+    const next = CYCLE[(CYCLE.indexOf(defenseFor(type)) + 1) % CYCLE.length];
+    onChange({
+      resistances: defenses.resistances.filter((t) => t !== type),
+      immunities: defenses.immunities.filter((t) => t !== type),
+      vulnerabilities: defenses.vulnerabilities.filter((t) => t !== type),
+      ...(next && { [next]: [...defenses[next].filter((t) => t !== type), type] }),
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-1.5">
+        {DAMAGE_TYPES.map((type) => {
+          const defense = defenseFor(type);
+          return (
+            <button
+              key={type}
+              type="button"
+              onClick={() => cycle(type)}
+              className={`badge capitalize ${defense ? DEFENSE_STYLES[defense].className : 'text-dungeon-400 border border-dungeon-700'}`}
+              title={defense ? DEFENSE_STYLES[defense].label : 'Normal damage'}
+            >
+              {type}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-dungeon-500 mt-2">
+        Click to cycle: normal, <span className="text-mystic-400">resistant</span>,{' '}
+        <span className="text-emerald-400">immune</span>, <span className="text-dragon-400">vulnerable</span>
+      </p>
+    </div>
+  );
+}
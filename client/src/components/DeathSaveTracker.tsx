@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Skull, HeartPulse, Dices } from 'lucide-react';
+
+// Types
+interface DeathSaveTrackerProps {
+  successes: number;
+  failures: number;
+  stable: boolean;
+  canRoll: boolean; // Only while the session is running
+  onRoll: (roll: number) => void;
+  onFail: () => void; // A failure from damage the transcript missed, e.g. a critical hit
+  onStabilize: () => void;
+}
+
+const SAVES_NEEDED = 3;
+
+const Pips = ({ count, className, title }: { count: number; className: string; title: string }) => (
+  <span className="flex gap-1" title={title}>
+    {Array.from({ length: SAVES_NEEDED }, (_, i) => (
+      <span
+        key={i}
+        className={`w-2.5 h-2.5 rounded-full border ${i < count ? className : 'border-dungeon-500'}`}
+      />
+    ))}
+  </span>
+);
+
+export function DeathSaveTracker({
+  successes,
+  failures,
+  stable,
+  canRoll,
+  onRoll,
+  onFail,
+  onStabilize,
+}: DeathSaveTrackerProps) {
+  const [roll, setRoll] = useState('');
+
+  if (failures >= SAVES_NEEDED) {
+    return (
+      <div className="mt-2 flex items-center gap-2 text-sm text-dragon-400">
+        <Skull className="w-4 h-4" />
+        Dead
+      </div>
+    );
+  }
+
+  if (stable) {
+    return (
+      <div className="mt-2 flex items-center gap-2 text-sm text-emerald-400">
+        <HeartPulse className="w-4 h-4" />
+        Unconscious, stable
+      </div>
+    );
+  }
+
+  const submitRoll = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseInt(roll, 10);
+    if (value >= 1 && value <= 20) {
+      onRoll(value);
+      setRoll('');
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-dragon-300 font-semibold">Dying</span>
+        <span className="flex items-center gap-3">
+          <Pips count={successes} className="bg-emerald-500 border-emerald-500" title="Successes" />
+          <Pips count={failures} className="bg-dragon-500 border-dragon-500" title="Failures" />
+        </span>
+      </div>
+      {canRoll && (
+        <form onSubmit={submitRoll} className="flex items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={roll}
+            onChange={(e) => setRoll(e.target.value)}
+            className="input w-16 px-2 py-1 text-sm text-center"
+            placeholder="d20"
+          />
+          <button type="submit" disabled={!roll} className="btn-ghost p-1" title="Record death save">
+            <Dices className="w-4 h-4" />
+          </button>
+          <button type="button" onClick={onFail} className="btn-ghost px-2 py-1 text-xs text-dragon-400">
+            +1 Failure
+          </button>
+          <button type="button" onClick={onStabilize} className="btn-ghost px-2 py-1 text-xs text-emerald-400">
+            Stabilize
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
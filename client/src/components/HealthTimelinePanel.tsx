@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import { Activity, AlertCircle, Undo2 } from 'lucide-react';
+import { api } from '@/services/api';
+
+// Types
+interface TimelinePoint {
+  timestamp: number; // ms from session start
+  hp: number;
+  tempHp: number;
+  healthEventId: string | null; // null for the HP they started the session with
+}
+
+interface PlayerLine {
+  playerId: string;
+  characterName: string;
+  maxHp: number;
+  points: TimelinePoint[];
+}
+
+interface TimelineEvent {
+  id: string;
+  type: 'damage' | 'healing' | 'status' | 'death' | 'revive' | 'temp_hp' | 'death_save';
+  value: number | null;
+  damageType: string | null;
+  statusEffect: string | null;
+  description: string;
+  timestamp: number;
+  target: string;
+  playerId: string | null;
+  undoneAt: string | null;
+  causeId: string | null; // A death or revival that followed from another event
+  undoable: boolean;
+}
+
+interface HealthTimeline {
+  players: PlayerLine[];
+  events: TimelineEvent[];
+}
+
+interface HealthTimelinePanelProps {
+  sessionId: string;
+}
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 200;
+const PADDING = 24;
+
+const LINE_COLORS = ['#a78bfa', '#f87171', '#34d399', '#fbbf24', '#60a5fa', '#f472b6', '#2dd4bf', '#fb923c'];
+
+const formatTimestamp = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+// HP holds until the next change, so each line steps rather than slopes
+function stepPath(points: TimelinePoint[], x: (ms: number) => number, y: (hp: number) => number, endMs: number) {
+  if (points.length === 0) return '';
+  const [first, ...rest] = points;
+  let path = `M ${x(first.timestamp)} ${y(first.hp)}`;
+  for (const point of rest) {
+    path += ` H ${x(point.timestamp)} V ${y(point.hp)}`;
+  }
+  return `${path} H ${x(endMs)}`;
+}
+
+export function HealthTimelinePanel({ sessionId }: HealthTimelinePanelProps) {
+  const [timeline, setTimeline] = useState<HealthTimeline | null>(null);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTimeline = async () => {
+    try {
+      const response = await api.get<HealthTimeline>(`/sessions/${sessionId}/health-timeline`);
+      setTimeline(response.data || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load HP timeline');
+    }
+  };
+
+  useEffect(() => {
+    loadTimeline();
+  }, [sessionId]);
+
+  const undoEvent = async (eventId: string) => {
+    setUndoingId(eventId);
+    setError(null);
+    try {
+      await api.post(`/sessions/${sessionId}/health-events/${eventId}/undo`);
+      await loadTimeline();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo health event');
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  if (!timeline) {
+    return (
+      <div className="card">
+        <div className="card-body text-center py-8">
+          {error ? (
+            <p className="text-sm text-dragon-400 flex items-center justify-center gap-2">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </p>
+          ) : (
+            <p className="text-dungeon-400">Loading HP timeline...</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const allPoints = timeline.players.flatMap((p) => p.points);
+  const endMs = Math.max(1, ...allPoints.map((p) => p.timestamp), ...timeline.events.map((e) => e.timestamp));
+  const topHp = Math.max(1, ...timeline.players.map((p) => p.maxHp), ...allPoints.map((p) => p.hp));
+  const x = (ms: number) => PADDING + (ms / endMs) * (CHART_WIDTH - PADDING * 2);
+  const y = (hp: number) => CHART_HEIGHT - PADDING - (hp / topHp) * (CHART_HEIGHT - PADDING * 2);
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <div className="card-header">
+          <h3 className="font-display text-lg font-semibold flex items-center gap-2">
+            <Activity className="w-5 h-5 text-dragon-400" />
+            HP Over the Session
+          </h3>
+        </div>
+        <div className="card-body">
+          {timeline.players.length === 0 ? (
+            <p className="text-dungeon-400 text-center py-4">No HP was tracked in this session.</p>
+          ) : (
+            <>
+              <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+                <line
+                  x1={PADDING}
+                  y1={y(0)}
+                  x2={CHART_WIDTH - PADDING}
+                  y2={y(0)}
+                  className="stroke-dungeon-600"
+                  strokeWidth={1}
+                />
+                <text x={PADDING} y={CHART_HEIGHT - 6} className="fill-dungeon-500 text-[10px]">
+                  {formatTimestamp(0)}
+                </text>
+                <text x={CHART_WIDTH - PADDING} y={CHART_HEIGHT - 6} textAnchor="end" className="fill-dungeon-500 text-[10px]">
+                  {formatTimestamp(endMs)}
+                </text>
+                {timeline.players.map((player, i) => {
+                  const color = LINE_COLORS[i % LINE_COLORS.length];
+                  return (
+                    <g key={player.playerId}>
+                      <path
+                        d={stepPath(player.points, x, y, endMs)}
+                        fill="none"
+                        stroke={color}
+                        strokeWidth={2}
+                      />
+                      {player.points.map((point, j) => (
+                        <circle key={j} cx={x(point.timestamp)} cy={y(point.hp)} r={3} fill={color}>
+                          <title>
+                            {`${player.characterName}: ${point.hp}/${player.maxHp} HP`}
+                            {point.tempHp > 0 ? ` (+${point.tempHp} temp)` : ''}
+                            {` at ${formatTimestamp(point.timestamp)}`}
+                          </title>
+                        </circle>
+                      ))}
+                    </g>
+                  );
+                })}
+              </svg>
+              <div className="flex flex-wrap gap-4 mt-3 text-sm">
+                {timeline.players.map((player, i) => (
+                  <span key={player.playerId} className="flex items-center gap-2 text-parchment-200">
+                    <span
+                      className="w-3 h-3 rounded-full"
+                      style={{ backgroundColor: LINE_COLORS[i % LINE_COLORS.length] }}
+                    />
+                    {player.characterName}
+                  </span>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h3 className="font-display text-lg font-semibold">Health Events</h3>
+        </div>
+        <div className="card-body">
+          {error && (
+            <p className="text-sm text-dragon-400 flex items-center gap-2 mb-4">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </p>
+          )}
+          {timeline.events.length === 0 ? (
+            <p className="text-dungeon-400 text-center py-4">No health events were confirmed.</p>
+          ) : (
+            <div className="space-y-2">
+              {timeline.events.map((event) => (
+                <div
+                  key={event.id}
+                  className={`flex items-center gap-3 text-sm ${event.causeId ? 'pl-6' : ''} ${event.undoneAt ? 'opacity-50' : ''}`}
+                >
+                  <span className="text-xs text-dungeon-500 font-mono w-14 flex-shrink-0">
+                    {formatTimestamp(event.timestamp)}
+                  </span>
+                  <span className={`flex-1 ${event.undoneAt ? 'line-through text-dungeon-400' : 'text-parchment-200'}`}>
+                    {event.description}
+                    {event.damageType && <span className="badge-dragon ml-2 capitalize">{event.damageType}</span>}
+                  </span>
+                  {event.undoneAt ? (
+                    <span className="badge text-dungeon-400">Undone</span>
+                  ) : event.undoable && (
+                    <button
+                      onClick={() => undoEvent(event.id)}
+                      disabled={undoingId !== null}
+                      className="btn-ghost p-1 text-dungeon-400 hover:text-parchment-100"
+                      title="Undo"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Sparkles, Check, X, Edit2, AlertCircle } from 'lucide-react';
+import { api } from '@/services/api';
+
+// Types
+type LoreKind = 'npc' | 'location' | 'faction' | 'item' | 'quest';
+
+interface LoreSource {
+  id: string;
+  sessionId: string;
+  timestamp: number;
+  speakerLabel: string;
+  speakerName: string | null;
+  text: string;
+}
+
+interface LoreProposal {
+  id: string;
+  kind: LoreKind;
+  name: string;
+  description: string | null;
+  details: Record<string, string>;
+  session: { id: string; sessionNumber: number; title: string | null };
+  sources: LoreSource[];
+}
+
+interface LoreQueueProps {
+  campaignId: string;
+  onReviewed: () => void; // Called after an approval created a record
+}
+
+const KIND_LABELS: Record<LoreKind, string> = {
+  npc: 'NPC',
+  location: 'Location',
+  faction: 'Faction',
+  item: 'Item',
+  quest: 'Quest',
+};
+
+// The one kind-specific field each record takes
+const DETAIL_FIELDS: Record<LoreKind, { key: string; label: string }> = {
+  npc: { key: 'speechPatterns', label: 'Speech Patterns' },
+  location: { key: 'kind', label: 'Kind' },
+  faction: { key: 'goals', label: 'Goals' },
+  item: { key: 'holder', label: 'Held By' },
+  quest: { key: 'reward', label: 'Reward' },
+};
+
+export function LoreQueue({ campaignId, onReviewed }: LoreQueueProps) {
+  const [proposals, setProposals] = useState<LoreProposal[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState({ name: '', description: '', detail: '' });
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProposals = useCallback(async () => {
+    try {
+      const response = await api.get<LoreProposal[]>(`/lore-proposals?campaignId=${campaignId}`);
+      setProposals(response.data || []);
+    } catch (error) {
+      console.error('Failed to load lore proposals:', error);
+    }
+  }, [campaignId]);
+
+  useEffect(() => {
+    loadProposals();
+  }, [loadProposals]);
+
+  const startEdit = (proposal: LoreProposal) => {
+    setEditingId(proposal.id);
+    setEditForm({
+      name: proposal.name,
+      description: proposal.description || '',
+      detail: proposal.details[DETAIL_FIELDS[proposal.kind].key] || '',
+    });
+  };
+
+  const approve = async (proposal: LoreProposal) => {
+    setBusyId(proposal.id);
+    setError(null);
+    try {
+      const edits = editingId === proposal.id
+        ? {
+            name: editForm.name.trim() || proposal.name,
+            description: editForm.description || null,
+            details: { [DETAIL_FIELDS[proposal.kind].key]: editForm.detail || null },
+          }
+        : {};
+      await api.post(`/lore-proposals/${proposal.id}/approve`, edits);
+      setProposals(prev => prev.filter(p => p.id !== proposal.id));
+      setEditingId(null);
+      onReviewed();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to approve proposal');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const reject = async (proposal: LoreProposal) => {
+    setBusyId(proposal.id);
+    setError(null);
+    try {
+      await api.post(`/lore-proposals/${proposal.id}/reject`);
+      setProposals(prev => prev.filter(p => p.id !== proposal.id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to reject proposal');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (proposals.length === 0) return null;
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-display text-xl font-semibold flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-mystic-400" />
+          New Lore ({proposals.length})
+        </h2>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-dragon-400 mb-3">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <div className="card">
+        <div className="divide-y divide-dungeon-700/50">
+          {proposals.map((proposal) => {
+            const detailField = DETAIL_FIELDS[proposal.kind];
+            const isEditing = editingId === proposal.id;
+            return (
+              <div key={proposal.id} className="p-4 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    {isEditing ? (
+                      <div className="space-y-2">
+                        <input
+                          type="text"
+                          value={editForm.name}
+                          onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                          className="input w-full"
+                        />
+                        <textarea
+                          value={editForm.description}
+                          onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+                          className="input w-full h-20 resize-none"
+                          placeholder="Description"
+                        />
+                        <input
+                          type="text"
+                          value={editForm.detail}
+                          onChange={(e) => setEditForm({ ...editForm, detail: e.target.value })}
+                          className="input w-full"
+                          placeholder={detailField.label}
+                        />
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <h4 className="font-semibold">{proposal.name}</h4>
+                          <span className="badge badge-mystic">{KIND_LABELS[proposal.kind]}</span>
+                        </div>
+                        {proposal.description && (
+                          <p className="text-sm text-dungeon-400">{proposal.description}</p>
+                        )}
+                        {proposal.details[detailField.key] && (
+                          <p className="text-sm text-dungeon-400">
+                            {detailField.label}: {proposal.details[detailField.key]}
+                          </p>
+                        )}
+                      </>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {!isEditing && (
+                      <button
+                        onClick={() => startEdit(proposal)}
+                        className="btn-ghost text-sm p-1"
+                        title="Edit before approving"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => approve(proposal)}
+                      disabled={busyId === proposal.id}
+                      className="btn-primary text-sm flex items-center gap-1"
+                    >
+                      <Check className="w-4 h-4" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => (isEditing ? setEditingId(null) : reject(proposal))}
+                      disabled={busyId === proposal.id}
+                      className="btn-ghost text-sm p-1"
+                      title={isEditing ? 'Cancel editing' : 'Reject'}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="text-xs text-dungeon-500 space-y-1">
+                  <p>
+                    From Session {proposal.session.sessionNumber}
+                    {proposal.session.title && `: ${proposal.session.title}`}
+                  </p>
+                  {proposal.sources.slice(0, 3).map((source) => (
+                    <Link
+                      key={source.id}
+                      to={`/app/campaigns/${campaignId}/sessions/${source.sessionId}?segment=${source.id}`}
+                      className="block border-l-2 border-dungeon-700 pl-2 hover:text-parchment-200 truncate"
+                    >
+                      <span className="text-dungeon-400">{source.speakerName || source.speakerLabel}:</span>{' '}
+                      {source.text}
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import { BookOpen, RefreshCw, Volume2, Download, AlertCircle } from 'lucide-react';
+import { api } from '@/services/api';
+
+// Types
+type RecapStyle = 'narrative' | 'bard' | 'newspaper' | 'bullets' | 'letter';
+type RecapLength = 'short' | 'medium' | 'long';
+
+interface NPC {
+  id: string;
+  name: string;
+}
+
+interface RecapPanelProps {
+  sessionId: string;
+  sessionNumber: number;
+  campaignId: string;
+  campaignName: string;
+  recap: string | null;
+  canRegenerate: boolean; // Not while the session is still running
+  onChange: (recap: string) => void;
+}
+
+const STYLE_LABELS: Record<RecapStyle, string> = {
+  narrative: 'Dramatic narration',
+  bard: "Bard's tale",
+  newspaper: 'Newspaper report',
+  bullets: 'Bullet summary',
+  letter: 'Letter from an NPC',
+};
+
+export function RecapPanel({
+  sessionId,
+  sessionNumber,
+  campaignId,
+  campaignName,
+  recap,
+  canRegenerate,
+  onChange,
+}: RecapPanelProps) {
+  const [showOptions, setShowOptions] = useState(false);
+  // Empty means the campaign's recap setting
+  const [style, setStyle] = useState<RecapStyle | ''>('');
+  const [length, setLength] = useState<RecapLength | ''>('');
+  const [letterFromNpcId, setLetterFromNpcId] = useState('');
+  const [npcs, setNpcs] = useState<NPC[]>([]);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [isLoadingAudio, setIsLoadingAudio] = useState(false);
+  const [audio, setAudio] = useState<{ url: string; filename: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (style !== 'letter' || npcs.length > 0) return;
+    api.get<NPC[]>(`/npcs?campaignId=${campaignId}`)
+      .then((response) => setNpcs(response.data || []))
+      .catch((error) => console.error('Failed to load NPCs:', error));
+  }, [style, campaignId, npcs.length]);
+
+  // Narration is for the recap it was made from
+  useEffect(() => {
+    setAudio(null);
+  }, [recap]);
+
+  useEffect(() => {
+    return () => {
+      if (audio) URL.revokeObjectURL(audio.url);
+    };
+  }, [audio]);
+
+  const regenerate = async () => {
+    setIsRegenerating(true);
+    setError(null);
+    try {
+      const response = await api.post<{ recap: string }>(`/sessions/${sessionId}/recap`, {
+        ...(style && { style }),
+        ...(length && { length }),
+        ...(style === 'letter' && letterFromNpcId && { letterFromNpcId }),
+      });
+      if (response.data) onChange(response.data.recap);
+      setShowOptions(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to rewrite recap');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const readAloud = async () => {
+    setIsLoadingAudio(true);
+    setError(null);
+    try {
+      const blob = await api.getBlob(`/sessions/${sessionId}/recap/audio`);
+      const extension = blob.type === 'audio/wav' ? 'wav' : 'mp3';
+      setAudio({ url: URL.createObjectURL(blob), filename: `session-${sessionNumber}-recap.${extension}` });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to narrate recap');
+    } finally {
+      setIsLoadingAudio(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between gap-2">
+        <h3 className="font-display text-lg font-semibold">
+          Previously on {campaignName}...
+        </h3>
+        <div className="flex items-center gap-2">
+          {recap && (
+            <button
+              onClick={readAloud}
+              disabled={isLoadingAudio}
+              className="btn-secondary text-sm flex items-center gap-2"
+            >
+              <Volume2 className={`w-4 h-4 ${isLoadingAudio ? 'animate-pulse' : ''}`} />
+              {isLoadingAudio ? 'Narrating...' : 'Read Aloud'}
+            </button>
+          )}
+          {canRegenerate && (
+            <button
+              onClick={() => setShowOptions(!showOptions)}
+              className="btn-secondary text-sm flex items-center gap-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${isRegenerating ? 'animate-spin' : ''}`} />
+              {recap ? 'Rewrite' : 'Generate'}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="card-body space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-dragon-400">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {showOptions && (
+          <div className="flex flex-wrap items-center gap-2 pb-4 border-b border-dungeon-700/50">
+            <select
+              value={style}
+              onChange={(e) => setStyle(e.target.value as RecapStyle | '')}
+              className="input w-auto"
+            >
+              <option value="">Campaign style</option>
+              {Object.entries(STYLE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            {style === 'letter' && (
+              <select
+                value={letterFromNpcId}
+                onChange={(e) => setLetterFromNpcId(e.target.value)}
+                className="input w-auto"
+              >
+                <option value="">Any NPC from the session</option>
+                {npcs.map((npc) => (
+                  <option key={npc.id} value={npc.id}>{npc.name}</option>
+                ))}
+              </select>
+            )}
+            <select
+              value={length}
+              onChange={(e) => setLength(e.target.value as RecapLength | '')}
+              className="input w-auto"
+            >
+              <option value="">Campaign length</option>
+              <option value="short">Short</option>
+              <option value="medium">Medium</option>
+              <option value="long">Long</option>
+            </select>
+            <button
+              onClick={regenerate}
+              disabled={isRegenerating}
+              className="btn-primary text-sm"
+            >
+              {isRegenerating ? 'Writing...' : recap ? 'Replace Recap' : 'Write Recap'}
+            </button>
+          </div>
+        )}
+
+        {audio && (
+          <div className="flex items-center gap-3">
+            <audio src={audio.url} controls autoPlay className="flex-1" />
+            <a
+              href={audio.url}
+              download={audio.filename}
+              className="btn-ghost text-sm flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Download
+            </a>
+          </div>
+        )}
+
+        {recap ? (
+          <div className="prose prose-invert max-w-none">
+            <p className="text-parchment-200 whitespace-pre-wrap leading-relaxed italic">
+              {recap}
+            </p>
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <BookOpen className="w-12 h-12 text-dungeon-500 mx-auto mb-4" />
+            <p className="text-dungeon-400">
+              No recap available. Recaps are generated when a session ends.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
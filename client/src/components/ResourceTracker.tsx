@@ -0,0 +1,62 @@
+// Types
+export interface CharacterResource {
+  id: string;
+  kind: 'spell_slot' | 'feature' | 'hit_dice';
+  name: string;
+  spellLevel: number | null;
+  max: number;
+  used: number;
+  recharge: 'short' | 'long';
+  playerId: string;
+}
+
+interface ResourceTrackerProps {
+  resources: CharacterResource[];
+  onSetUsed?: (resourceId: string, used: number) => void; // Corrections; omitted when the session isn't running
+}
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th', '6th', '7th', '8th', '9th'];
+
+const resourceLabel = (resource: CharacterResource) =>
+  resource.kind === 'spell_slot' && resource.spellLevel ? `${ORDINALS[resource.spellLevel - 1]} level` : resource.name;
+
+// Filled pips are what's left; clicking one spends down to it, clicking an empty one gets it back
+const Pips = ({ resource, onSetUsed }: { resource: CharacterResource; onSetUsed?: ResourceTrackerProps['onSetUsed'] }) => {
+  const left = resource.max - resource.used;
+  return (
+    <span className="flex flex-wrap gap-1">
+      {Array.from({ length: resource.max }, (_, i) => (
+        <button
+          key={i}
+          type="button"
+          disabled={!onSetUsed}
+          onClick={() => onSetUsed?.(resource.id, i < left ? resource.max - i : resource.max - i - 1)}
+          className={`w-2.5 h-2.5 rounded-full border ${
+            i < left
+              ? resource.kind === 'spell_slot' ? 'bg-mystic-500 border-mystic-400' : 'bg-parchment-500 border-parchment-400'
+              : 'border-dungeon-500'
+          }`}
+        />
+      ))}
+    </span>
+  );
+};
+
+export function ResourceTracker({ resources, onSetUsed }: ResourceTrackerProps) {
+  if (resources.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1">
+      {resources.map((resource) => (
+        <div
+          key={resource.id}
+          className="flex items-center justify-between gap-2 text-xs"
+          title={`${resource.max - resource.used}/${resource.max} left, back on a ${resource.recharge} rest`}
+        >
+          <span className="text-dungeon-400 truncate">{resourceLabel(resource)}</span>
+          <Pips resource={resource} onSetUsed={onSetUsed} />
+        </div>
+      ))}
+    </div>
+  );
+}
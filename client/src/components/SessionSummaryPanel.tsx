@@ -0,0 +1,432 @@
+import { useState } from 'react';
+import {
+  ListChecks,
+  Edit2,
+  Save,
+  RefreshCw,
+  Plus,
+  Trash2,
+  AlertCircle,
+} from 'lucide-react';
+import { api } from '@/services/api';
+
+// Types
+export interface SessionSummary {
+  keyEvents: { description: string; segmentId: string | null; timestamp: number | null }[];
+  decisions: string[];
+  loot: { item: string; recipient: string | null }[];
+  xp: number | null;
+  npcsMet: string[];
+  combats: { description: string; outcome: string | null }[];
+  openThreads: string[];
+}
+
+interface SessionSummaryPanelProps {
+  sessionId: string;
+  summary: SessionSummary | null;
+  canRegenerate: boolean; // Not while the session is still running
+  onChange: (summary: SessionSummary | null) => void;
+  onJumpToSegment: (segmentId: string) => void;
+}
+
+const emptySummary: SessionSummary = {
+  keyEvents: [],
+  decisions: [],
+  loot: [],
+  xp: null,
+  npcsMet: [],
+  combats: [],
+  openThreads: [],
+};
+
+// The plain string lists are edited as one entry per line
+const LIST_FIELDS = [
+  { key: 'decisions', label: 'Decisions' },
+  { key: 'npcsMet', label: 'NPCs Met' },
+  { key: 'openThreads', label: 'Open Threads' },
+] as const;
+
+type ListField = (typeof LIST_FIELDS)[number]['key'];
+
+const formatTimestamp = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+// Drop rows left blank in the editor
+function cleanSummary(draft: SessionSummary, lists: Record<ListField, string>): SessionSummary {
+  const lines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+  return {
+    keyEvents: draft.keyEvents
+      .map(e => ({ ...e, description: e.description.trim() }))
+      .filter(e => e.description),
+    decisions: lines(lists.decisions),
+    loot: draft.loot
+      .map(l => ({ item: l.item.trim(), recipient: l.recipient?.trim() || null }))
+      .filter(l => l.item),
+    xp: draft.xp,
+    npcsMet: lines(lists.npcsMet),
+    combats: draft.combats
+      .map(c => ({ description: c.description.trim(), outcome: c.outcome?.trim() || null }))
+      .filter(c => c.description),
+    openThreads: lines(lists.openThreads),
+  };
+}
+
+export function SessionSummaryPanel({
+  sessionId,
+  summary,
+  canRegenerate,
+  onChange,
+  onJumpToSegment,
+}: SessionSummaryPanelProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<SessionSummary>(emptySummary);
+  const [lists, setLists] = useState<Record<ListField, string>>({ decisions: '', npcsMet: '', openThreads: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [confirmRegenerate, setConfirmRegenerate] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    const current = summary ?? emptySummary;
+    setDraft(current);
+    setLists({
+      decisions: current.decisions.join('\n'),
+      npcsMet: current.npcsMet.join('\n'),
+      openThreads: current.openThreads.join('\n'),
+    });
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const cleaned = cleanSummary(draft, lists);
+      await api.patch(`/sessions/${sessionId}`, { summary: cleaned });
+      onChange(cleaned);
+      setIsEditing(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save summary');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const regenerate = async () => {
+    setConfirmRegenerate(false);
+    setIsRegenerating(true);
+    setError(null);
+    try {
+      const response = await api.post<SessionSummary>(`/sessions/${sessionId}/summary`);
+      onChange(response.data ?? null);
+      setIsEditing(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to regenerate summary');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const updateRow = <K extends 'keyEvents' | 'loot' | 'combats'>(
+    key: K,
+    index: number,
+    patch: Partial<SessionSummary[K][number]>
+  ) => {
+    setDraft(prev => ({
+      ...prev,
+      [key]: prev[key].map((row, i) => (i === index ? { ...row, ...patch } : row)),
+    }));
+  };
+
+  const removeRow = (key: 'keyEvents' | 'loot' | 'combats', index: number) => {
+    setDraft(prev => ({ ...prev, [key]: prev[key].filter((_, i) => i !== index) }));
+  };
+
+  const isEmpty = !summary || (
+    summary.keyEvents.length === 0 &&
+    summary.decisions.length === 0 &&
+    summary.loot.length === 0 &&
+    summary.xp === null &&
+    summary.npcsMet.length === 0 &&
+    summary.combats.length === 0 &&
+    summary.openThreads.length === 0
+  );
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between gap-2">
+        <h3 className="font-display text-lg font-semibold">Session Summary</h3>
+        <div className="flex items-center gap-2">
+          {confirmRegenerate ? (
+            <>
+              <span className="text-sm text-dungeon-400">Replace the summary and your edits?</span>
+              <button onClick={regenerate} className="btn-danger text-sm">
+                Replace
+              </button>
+              <button onClick={() => setConfirmRegenerate(false)} className="btn-ghost text-sm">
+                Cancel
+              </button>
+            </>
+          ) : (
+            canRegenerate && (
+              <button
+                onClick={() => (summary ? setConfirmRegenerate(true) : regenerate())}
+                disabled={isRegenerating}
+                className="btn-secondary text-sm flex items-center gap-2"
+              >
+                <RefreshCw className={`w-4 h-4 ${isRegenerating ? 'animate-spin' : ''}`} />
+                {isRegenerating ? 'Summarizing...' : summary ? 'Regenerate' : 'Generate'}
+              </button>
+            )
+          )}
+          {isEditing ? (
+            <button
+              onClick={save}
+              disabled={isSaving}
+              className="btn-primary text-sm flex items-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          ) : (
+            <button onClick={startEditing} className="btn-secondary text-sm flex items-center gap-2">
+              <Edit2 className="w-4 h-4" />
+              Edit
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="card-body space-y-6">
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-dragon-400">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {isEditing ? (
+          <>
+            <div>
+              <h4 className="font-display font-semibold mb-2">Key Events</h4>
+              <div className="space-y-2">
+                {draft.keyEvents.map((event, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="text-xs text-dungeon-500 font-mono w-14 flex-shrink-0">
+                      {event.timestamp !== null ? formatTimestamp(event.timestamp) : '--:--'}
+                    </span>
+                    <input
+                      type="text"
+                      value={event.description}
+                      onChange={(e) => updateRow('keyEvents', index, { description: e.target.value })}
+                      className="input flex-1"
+                    />
+                    <button onClick={() => removeRow('keyEvents', index)} className="btn-ghost p-1" title="Remove">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setDraft(prev => ({
+                    ...prev,
+                    keyEvents: [...prev.keyEvents, { description: '', segmentId: null, timestamp: null }],
+                  }))}
+                  className="btn-ghost text-sm flex items-center gap-1"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Event
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-display font-semibold mb-2">Loot</h4>
+              <div className="space-y-2">
+                {draft.loot.map((loot, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={loot.item}
+                      onChange={(e) => updateRow('loot', index, { item: e.target.value })}
+                      className="input flex-1"
+                      placeholder="Item"
+                    />
+                    <input
+                      type="text"
+                      value={loot.recipient ?? ''}
+                      onChange={(e) => updateRow('loot', index, { recipient: e.target.value })}
+                      className="input w-40"
+                      placeholder="Taken by"
+                    />
+                    <button onClick={() => removeRow('loot', index)} className="btn-ghost p-1" title="Remove">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setDraft(prev => ({ ...prev, loot: [...prev.loot, { item: '', recipient: null }] }))}
+                  className="btn-ghost text-sm flex items-center gap-1"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Loot
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block font-display font-semibold mb-2">XP per Character</label>
+              <input
+                type="number"
+                min={0}
+                value={draft.xp ?? ''}
+                onChange={(e) => setDraft(prev => ({
+                  ...prev,
+                  xp: e.target.value === '' ? null : Math.max(0, Math.round(Number(e.target.value))),
+                }))}
+                className="input w-40"
+              />
+            </div>
+
+            <div>
+              <h4 className="font-display font-semibold mb-2">Combat Encounters</h4>
+              <div className="space-y-2">
+                {draft.combats.map((combat, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={combat.description}
+                      onChange={(e) => updateRow('combats', index, { description: e.target.value })}
+                      className="input flex-1"
+                      placeholder="Encounter"
+                    />
+                    <input
+                      type="text"
+                      value={combat.outcome ?? ''}
+                      onChange={(e) => updateRow('combats', index, { outcome: e.target.value })}
+                      className="input flex-1"
+                      placeholder="Outcome"
+                    />
+                    <button onClick={() => removeRow('combats', index)} className="btn-ghost p-1" title="Remove">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setDraft(prev => ({
+                    ...prev,
+                    combats: [...prev.combats, { description: '', outcome: null }],
+                  }))}
+                  className="btn-ghost text-sm flex items-center gap-1"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Encounter
+                </button>
+              </div>
+            </div>
+
+            {LIST_FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <label className="block font-display font-semibold mb-2">{label}</label>
+                <textarea
+                  value={lists[key]}
+                  onChange={(e) => setLists(prev => ({ ...prev, [key]: e.target.value }))}
+                  className="input w-full h-24 resize-y"
+                  placeholder="One per line"
+                />
+              </div>
+            ))}
+
+            <div className="flex justify-end">
+              <button onClick={() => setIsEditing(false)} className="btn-secondary text-sm">
+                Cancel
+              </button>
+            </div>
+          </>
+        ) : isEmpty ? (
+          <div className="text-center py-8">
+            <ListChecks className="w-12 h-12 text-dungeon-500 mx-auto mb-4" />
+            <p className="text-dungeon-400">
+              No summary yet. Summaries are generated with the recap when a session ends.
+            </p>
+          </div>
+        ) : (
+          <>
+            {summary!.keyEvents.length > 0 && (
+              <div>
+                <h4 className="font-display font-semibold mb-2">Key Events</h4>
+                <ul className="space-y-1">
+                  {summary!.keyEvents.map((event, index) => (
+                    <li key={index} className="flex items-start gap-3 text-parchment-200">
+                      {event.segmentId && event.timestamp !== null ? (
+                        <button
+                          onClick={() => onJumpToSegment(event.segmentId!)}
+                          className="text-xs text-mystic-400 hover:text-mystic-300 font-mono w-14 flex-shrink-0 text-left pt-0.5"
+                          title="Show in transcript"
+                        >
+                          {formatTimestamp(event.timestamp)}
+                        </button>
+                      ) : (
+                        <span className="w-14 flex-shrink-0" />
+                      )}
+                      <span>{event.description}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {(summary!.loot.length > 0 || summary!.xp !== null) && (
+              <div>
+                <h4 className="font-display font-semibold mb-2">Loot &amp; XP</h4>
+                <ul className="list-disc list-inside space-y-1 text-parchment-200">
+                  {summary!.loot.map((loot, index) => (
+                    <li key={index}>
+                      {loot.item}
+                      {loot.recipient && <span className="text-dungeon-400"> ({loot.recipient})</span>}
+                    </li>
+                  ))}
+                </ul>
+                {summary!.xp !== null && (
+                  <span className="badge badge-mystic mt-2">{summary!.xp} XP each</span>
+                )}
+              </div>
+            )}
+
+            {summary!.combats.length > 0 && (
+              <div>
+                <h4 className="font-display font-semibold mb-2">Combat Encounters</h4>
+                <ul className="list-disc list-inside space-y-1 text-parchment-200">
+                  {summary!.combats.map((combat, index) => (
+                    <li key={index}>
+                      {combat.description}
+                      {combat.outcome && <span className="text-dungeon-400"> - {combat.outcome}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {LIST_FIELDS.map(({ key, label }) =>
+              summary![key].length > 0 && (
+                <div key={key}>
+                  <h4 className="font-display font-semibold mb-2">{label}</h4>
+                  <ul className="list-disc list-inside space-y-1 text-parchment-200">
+                    {summary![key].map((entry, index) => (
+                      <li key={index}>{entry}</li>
+                    ))}
+                  </ul>
+                </div>
+              )
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
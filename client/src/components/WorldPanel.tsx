@@ -0,0 +1,435 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  MapPin,
+  Shield,
+  Gem,
+  ScrollText,
+  Plus,
+  Edit2,
+  X,
+  AlertCircle,
+  Globe,
+} from 'lucide-react';
+import { api } from '@/services/api';
+
+// Types
+type WorldKind = 'locations' | 'factions' | 'items' | 'quests';
+type QuestStatus = 'active' | 'completed' | 'failed';
+
+interface WorldEntity {
+  id: string;
+  name: string;
+  description: string | null;
+  kind?: string | null; // locations
+  goals?: string | null; // factions
+  holder?: string | null; // items
+  status?: QuestStatus; // quests
+  reward?: string | null; // quests
+  npcs: { id: string; name: string }[];
+  sessions: { id: string; sessionNumber: number; title: string | null }[];
+}
+
+interface WorldPanelProps {
+  campaignId: string;
+  npcs: { id: string; name: string }[];
+  sessions: { id: string; sessionNumber: number; title: string | null }[];
+  refreshKey?: number; // Changing it reloads the lists
+}
+
+const KINDS: Record<WorldKind, { label: string; singular: string; icon: typeof MapPin; npcLabel: string }> = {
+  locations: { label: 'Locations', singular: 'Location', icon: MapPin, npcLabel: 'NPCs found here' },
+  factions: { label: 'Factions', singular: 'Faction', icon: Shield, npcLabel: 'Members' },
+  items: { label: 'Items', singular: 'Item', icon: Gem, npcLabel: 'Linked NPCs' },
+  quests: { label: 'Quests', singular: 'Quest', icon: ScrollText, npcLabel: 'NPCs involved' },
+};
+
+const emptyForm = {
+  name: '',
+  description: '',
+  kind: '',
+  goals: '',
+  holder: '',
+  status: 'active' as QuestStatus,
+  reward: '',
+  npcIds: [] as string[],
+  sessionIds: [] as string[],
+};
+
+export function WorldPanel({ campaignId, npcs, sessions, refreshKey }: WorldPanelProps) {
+  const [activeKind, setActiveKind] = useState<WorldKind>('locations');
+  const [entities, setEntities] = useState<Record<WorldKind, WorldEntity[]>>({
+    locations: [],
+    factions: [],
+    items: [],
+    quests: [],
+  });
+
+  // Modal state
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<WorldEntity | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntities = useCallback(async () => {
+    try {
+      const [locationsRes, factionsRes, itemsRes, questsRes] = await Promise.all([
+        api.get<WorldEntity[]>(`/locations?campaignId=${campaignId}`),
+        api.get<WorldEntity[]>(`/factions?campaignId=${campaignId}`),
+        api.get<WorldEntity[]>(`/items?campaignId=${campaignId}`),
+        api.get<WorldEntity[]>(`/quests?campaignId=${campaignId}`),
+      ]);
+
+      setEntities({
+        locations: locationsRes.data || [],
+        factions: factionsRes.data || [],
+        items: itemsRes.data || [],
+        quests: questsRes.data || [],
+      });
+    } catch (error) {
+      console.error('Failed to load world entities:', error);
+    }
+  }, [campaignId]);
+
+  useEffect(() => {
+    loadEntities();
+  }, [loadEntities, refreshKey]);
+
+  const openAdd = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setError(null);
+    setShowModal(true);
+  };
+
+  const openEdit = (entity: WorldEntity) => {
+    setEditing(entity);
+    setForm({
+      name: entity.name,
+      description: entity.description || '',
+      kind: entity.kind || '',
+      goals: entity.goals || '',
+      holder: entity.holder || '',
+      status: entity.status || 'active',
+      reward: entity.reward || '',
+      npcIds: entity.npcs.map(n => n.id),
+      sessionIds: entity.sessions.map(s => s.id),
+    });
+    setError(null);
+    setShowModal(true);
+  };
+
+  // Only send the fields the active kind has
+  const buildPayload = () => {
+    const base = {
+      name: form.name.trim(),
+      description: form.description || null,
+      npcIds: form.npcIds,
+      sessionIds: form.sessionIds,
+    };
+    switch (activeKind) {
+      case 'locations':
+        return { ...base, kind: form.kind || null };
+      case 'factions':
+        return { ...base, goals: form.goals || null };
+      case 'items':
+        return { ...base, holder: form.holder || null };
+      case 'quests':
+        return { ...base, status: form.status, reward: form.reward || null };
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    try {
+      if (editing) {
+        await api.patch(`/${activeKind}/${editing.id}`, buildPayload());
+      } else {
+        await api.post(`/${activeKind}`, { ...buildPayload(), campaignId });
+      }
+      await loadEntities();
+      setShowModal(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : `Failed to save ${KINDS[activeKind].singular.toLowerCase()}`);
+    }
+  };
+
+  const handleDelete = async (entityId: string) => {
+    try {
+      await api.delete(`/${activeKind}/${entityId}`);
+      await loadEntities();
+      setShowModal(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : `Failed to delete ${KINDS[activeKind].singular.toLowerCase()}`);
+    }
+  };
+
+  const toggleId = (field: 'npcIds' | 'sessionIds', linkedId: string) => {
+    setForm(prev => ({
+      ...prev,
+      [field]: prev[field].includes(linkedId)
+        ? prev[field].filter(existing => existing !== linkedId)
+        : [...prev[field], linkedId],
+    }));
+  };
+
+  const { singular, npcLabel } = KINDS[activeKind];
+  const list = entities[activeKind];
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-display text-xl font-semibold flex items-center gap-2">
+          <Globe className="w-5 h-5 text-mystic-400" />
+          World
+        </h2>
+        <button onClick={openAdd} className="btn-ghost text-sm flex items-center gap-1">
+          <Plus className="w-4 h-4" />
+          Add {singular}
+        </button>
+      </div>
+
+      <div className="card">
+        <div className="flex border-b border-dungeon-700 overflow-x-auto">
+          {(Object.keys(KINDS) as WorldKind[]).map((kind) => {
+            const Icon = KINDS[kind].icon;
+            return (
+              <button
+                key={kind}
+                onClick={() => setActiveKind(kind)}
+                className={`px-4 py-3 font-display text-sm flex items-center gap-2 transition-colors relative ${
+                  activeKind === kind
+                    ? 'text-mystic-400'
+                    : 'text-dungeon-400 hover:text-parchment-200'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {KINDS[kind].label} ({entities[kind].length})
+                {activeKind === kind && (
+                  <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-mystic-500" />
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="divide-y divide-dungeon-700/50">
+          {list.length === 0 ? (
+            <div className="p-4 text-center text-dungeon-400">
+              No {KINDS[activeKind].label.toLowerCase()} added
+            </div>
+          ) : (
+            list.map((entity) => (
+              <div key={entity.id} className="p-4 group">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <h4 className="font-semibold">{entity.name}</h4>
+                      {entity.kind && <span className="badge badge-mystic">{entity.kind}</span>}
+                      {entity.status && (
+                        <span
+                          className={`badge ${
+                            entity.status === 'completed'
+                              ? 'badge-success'
+                              : entity.status === 'failed'
+                              ? 'badge-dragon'
+                              : 'badge-mystic'
+                          }`}
+                        >
+                          {entity.status}
+                        </span>
+                      )}
+                    </div>
+                    {entity.description && (
+                      <p className="text-sm text-dungeon-400 line-clamp-2">{entity.description}</p>
+                    )}
+                    {entity.goals && (
+                      <p className="text-sm text-dungeon-400 line-clamp-1">Goals: {entity.goals}</p>
+                    )}
+                    {entity.holder && (
+                      <p className="text-sm text-dungeon-400">Held by {entity.holder}</p>
+                    )}
+                    {entity.reward && (
+                      <p className="text-sm text-dungeon-400">Reward: {entity.reward}</p>
+                    )}
+                    {(entity.npcs.length > 0 || entity.sessions.length > 0) && (
+                      <p className="text-xs text-dungeon-500 mt-1">
+                        {entity.npcs.map(n => n.name).join(', ')}
+                        {entity.npcs.length > 0 && entity.sessions.length > 0 && ' • '}
+                        {entity.sessions.length > 0 &&
+                          `Sessions ${entity.sessions.map(s => s.sessionNumber).join(', ')}`}
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => openEdit(entity)}
+                    className="text-dungeon-500 hover:text-parchment-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title={`Edit ${singular}`}
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Entity Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50">
+          <div className="bg-dungeon-900 border border-dungeon-700 rounded-lg w-full max-w-md max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b border-dungeon-700">
+              <h3 className="font-display text-lg font-semibold">
+                {editing ? `Edit ${singular}` : `Add ${singular}`}
+              </h3>
+              <button
+                onClick={() => setShowModal(false)}
+                className="text-dungeon-400 hover:text-parchment-200"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-4 overflow-y-auto">
+              {error && (
+                <div className="flex items-center gap-2 text-sm text-dragon-400">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  {error}
+                </div>
+              )}
+              <div>
+                <label className="block text-sm text-dungeon-400 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="input w-full"
+                />
+              </div>
+              {activeKind === 'locations' && (
+                <div>
+                  <label className="block text-sm text-dungeon-400 mb-1">Kind</label>
+                  <input
+                    type="text"
+                    value={form.kind}
+                    onChange={(e) => setForm({ ...form, kind: e.target.value })}
+                    className="input w-full"
+                    placeholder="City, dungeon, tavern..."
+                  />
+                </div>
+              )}
+              {activeKind === 'quests' && (
+                <div>
+                  <label className="block text-sm text-dungeon-400 mb-1">Status</label>
+                  <select
+                    value={form.status}
+                    onChange={(e) => setForm({ ...form, status: e.target.value as QuestStatus })}
+                    className="input w-full"
+                  >
+                    <option value="active">Active</option>
+                    <option value="completed">Completed</option>
+                    <option value="failed">Failed</option>
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm text-dungeon-400 mb-1">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="input w-full h-24 resize-none"
+                />
+              </div>
+              {activeKind === 'factions' && (
+                <div>
+                  <label className="block text-sm text-dungeon-400 mb-1">Goals</label>
+                  <textarea
+                    value={form.goals}
+                    onChange={(e) => setForm({ ...form, goals: e.target.value })}
+                    className="input w-full h-20 resize-none"
+                  />
+                </div>
+              )}
+              {activeKind === 'items' && (
+                <div>
+                  <label className="block text-sm text-dungeon-400 mb-1">Held By</label>
+                  <input
+                    type="text"
+                    value={form.holder}
+                    onChange={(e) => setForm({ ...form, holder: e.target.value })}
+                    className="input w-full"
+                    placeholder="A character, an NPC, or where it was last seen"
+                  />
+                </div>
+              )}
+              {activeKind === 'quests' && (
+                <div>
+                  <label className="block text-sm text-dungeon-400 mb-1">Reward</label>
+                  <input
+                    type="text"
+                    value={form.reward}
+                    onChange={(e) => setForm({ ...form, reward: e.target.value })}
+                    className="input w-full"
+                  />
+                </div>
+              )}
+              {npcs.length > 0 && (
+                <div>
+                  <label className="block text-sm text-dungeon-400 mb-1">{npcLabel}</label>
+                  <div className="max-h-32 overflow-y-auto space-y-1">
+                    {npcs.map((npc) => (
+                      <label key={npc.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={form.npcIds.includes(npc.id)}
+                          onChange={() => toggleId('npcIds', npc.id)}
+                        />
+                        {npc.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {sessions.length > 0 && (
+                <div>
+                  <label className="block text-sm text-dungeon-400 mb-1">Appears In</label>
+                  <div className="max-h-32 overflow-y-auto space-y-1">
+                    {sessions.map((session) => (
+                      <label key={session.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={form.sessionIds.includes(session.id)}
+                          onChange={() => toggleId('sessionIds', session.id)}
+                        />
+                        Session {session.sessionNumber}
+                        {session.title && `: ${session.title}`}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="flex items-center justify-between p-4 border-t border-dungeon-700">
+              {editing && (
+                <button onClick={() => handleDelete(editing.id)} className="btn-danger">
+                  Delete
+                </button>
+              )}
+              <div className={`flex gap-2 ${!editing ? 'ml-auto' : ''}`}>
+                <button onClick={() => setShowModal(false)} className="btn-secondary">
+                  Cancel
+                </button>
+                <button onClick={handleSave} className="btn-primary">
+                  {editing ? 'Save Changes' : `Add ${singular}`}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
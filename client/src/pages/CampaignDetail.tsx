@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import {
   ArrowLeft,
@@ -11,9 +11,21 @@ import {
   Edit2,
   UserPlus,
   X,
+  Mic,
+  Search,
+  BookOpen,
+  RefreshCw,
+  AlertCircle,
+  ScrollText,
+  Upload,
 } from 'lucide-react';
 import { useCampaignStore } from '@/stores/campaignStore';
 import { api } from '@/services/api';
+import { WorldPanel } from '@/components/WorldPanel';
+import { LoreQueue } from '@/components/LoreQueue';
+import { DamageDefensesEditor, DamageType } from '@/components/DamageDefensesEditor';
+import { CharacterSheetEditor, CharacterSheet, passivePerception } from '@/components/CharacterSheetEditor';
+import { CharacterImportDiff, CharacterImportPreview } from '@/components/CharacterImportDiff';
 
 interface Player {
   id: string;
@@ -23,7 +35,12 @@ interface Player {
   characterRace: string | null;
   maxHp: number;
   currentHp: number;
+  tempHp: number;
+  resistances: DamageType[];
+  immunities: DamageType[];
+  vulnerabilities: DamageType[];
   notes?: string | null;
+  characterSheet: CharacterSheet | null;
 }
 
 interface Session {
@@ -41,6 +58,20 @@ interface NPC {
   speechPatterns?: string | null;
 }
 
+interface StorySoFar {
+  story: string | null;
+  throughSessionNumber: number | null;
+  updatedAt: string | null;
+}
+
+interface VoiceProfile {
+  id: string;
+  speakerName: string;
+  playerId: string | null;
+  sampleMs: number;
+  updatedAt: string;
+}
+
 export function CampaignDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -49,12 +80,26 @@ export function CampaignDetail() {
   const [players, setPlayers] = useState<Player[]>([]);
   const [sessions, setSessions] = useState<Session[]>([]);
   const [npcs, setNpcs] = useState<NPC[]>([]);
+  const [voiceProfiles, setVoiceProfiles] = useState<VoiceProfile[]>([]);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [story, setStory] = useState<StorySoFar | null>(null);
+  const [isStoryExpanded, setIsStoryExpanded] = useState(false);
+  const [isRebuildingStory, setIsRebuildingStory] = useState(false);
+  const [storyError, setStoryError] = useState<string | null>(null);
+  // Bumped when approved lore adds records the world panel should show
+  const [worldVersion, setWorldVersion] = useState(0);
   
   // Modal states
   const [showPlayerModal, setShowPlayerModal] = useState(false);
   const [showNpcModal, setShowNpcModal] = useState(false);
   const [editingPlayer, setEditingPlayer] = useState<Player | null>(null);
+  const [sheetPlayer, setSheetPlayer] = useState<Player | null>(null);
+  // Importing a character file into the player modal: preview first, then apply
+  const [importFile, setImportFile] = useState<unknown>(null);
+  const [importPreview, setImportPreview] = useState<CharacterImportPreview | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInput = useRef<HTMLInputElement>(null);
   const [editingNpc, setEditingNpc] = useState<NPC | null>(null);
   
   // Form states
@@ -65,6 +110,10 @@ export function CampaignDetail() {
     characterRace: '',
     maxHp: 10,
     currentHp: 10,
+    tempHp: 0,
+    resistances: [] as DamageType[],
+    immunities: [] as DamageType[],
+    vulnerabilities: [] as DamageType[],
     notes: '',
   });
   const [npcForm, setNpcForm] = useState({
@@ -82,15 +131,19 @@ export function CampaignDetail() {
 
   const loadRelatedData = async (campaignId: string) => {
     try {
-      const [playersRes, sessionsRes, npcsRes] = await Promise.all([
+      const [playersRes, sessionsRes, npcsRes, voiceProfilesRes, storyRes] = await Promise.all([
         api.get<Player[]>(`/players?campaignId=${campaignId}`),
         api.get<Session[]>(`/sessions?campaignId=${campaignId}`),
         api.get<NPC[]>(`/npcs?campaignId=${campaignId}`),
+        api.get<VoiceProfile[]>(`/voice-profiles?campaignId=${campaignId}`),
+        api.get<StorySoFar>(`/campaigns/${campaignId}/story`),
       ]);
       
       setPlayers(playersRes.data || []);
       setSessions(sessionsRes.data || []);
       setNpcs(npcsRes.data || []);
+      setVoiceProfiles(voiceProfilesRes.data || []);
+      setStory(storyRes.data || null);
     } catch (error) {
       console.error('Failed to load related data:', error);
     }
@@ -128,7 +181,14 @@ export function CampaignDetail() {
   };
 
   // Player CRUD
+  const resetImport = () => {
+    setImportFile(null);
+    setImportPreview(null);
+    setImportError(null);
+  };
+
   const openAddPlayer = () => {
+    resetImport();
     setEditingPlayer(null);
     setPlayerForm({
       playerName: '',
@@ -137,12 +197,17 @@ export function CampaignDetail() {
       characterRace: '',
       maxHp: 10,
       currentHp: 10,
+      tempHp: 0,
+      resistances: [],
+      immunities: [],
+      vulnerabilities: [],
       notes: '',
     });
     setShowPlayerModal(true);
   };
 
   const openEditPlayer = (player: Player) => {
+    resetImport();
     setEditingPlayer(player);
     setPlayerForm({
       playerName: player.playerName,
@@ -151,6 +216,10 @@ export function CampaignDetail() {
       characterRace: player.characterRace || '',
       maxHp: player.maxHp,
       currentHp: player.currentHp,
+      tempHp: player.tempHp,
+      resistances: player.resistances,
+      immunities: player.immunities,
+      vulnerabilities: player.vulnerabilities,
       notes: player.notes || '',
     });
     setShowPlayerModal(true);
@@ -162,7 +231,7 @@ export function CampaignDetail() {
     try {
       if (editingPlayer) {
         // Update existing player
-        await api.put(`/players/${editingPlayer.id}`, playerForm);
+        await api.patch(`/players/${editingPlayer.id}`, playerForm);
       } else {
         // Create new player
         await api.post('/players', { ...playerForm, campaignId: id });
@@ -174,6 +243,51 @@ export function CampaignDetail() {
     }
   };
 
+  const handlePreviewImport = async (file: File) => {
+    if (!id) return;
+    setImportError(null);
+    setIsImporting(true);
+    try {
+      const data: unknown = JSON.parse(await file.text());
+      const response = await api.post<CharacterImportPreview>('/players/import/preview', {
+        campaignId: id,
+        playerId: editingPlayer?.id,
+        file: data,
+      });
+      setImportFile(data);
+      setImportPreview(response.data || null);
+    } catch (error) {
+      setImportError(error instanceof SyntaxError ? 'That file isn\'t JSON' : error instanceof Error ? error.message : 'Failed to read character file');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleApplyImport = async () => {
+    if (!id) return;
+    if (!editingPlayer && !playerForm.playerName.trim()) {
+      setImportError('Enter the player\'s name first');
+      return;
+    }
+    setImportError(null);
+    setIsImporting(true);
+    try {
+      await api.post('/players/import', {
+        campaignId: id,
+        playerId: editingPlayer?.id,
+        playerName: editingPlayer ? undefined : playerForm.playerName.trim(),
+        file: importFile,
+      });
+      await loadRelatedData(id);
+      setShowPlayerModal(false);
+      resetImport();
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to import character');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleDeletePlayer = async (playerId: string) => {
     if (!id) return;
     
@@ -235,6 +349,31 @@ export function CampaignDetail() {
     }
   };
 
+  const handleRebuildStory = async () => {
+    if (!id) return;
+    setIsRebuildingStory(true);
+    setStoryError(null);
+    try {
+      const response = await api.post<StorySoFar>(`/campaigns/${id}/story/rebuild`);
+      setStory(response.data || null);
+    } catch (error) {
+      setStoryError(error instanceof Error ? error.message : 'Failed to rebuild the story so far');
+    } finally {
+      setIsRebuildingStory(false);
+    }
+  };
+
+  const handleDeleteVoiceProfile = async (profileId: string) => {
+    if (!id) return;
+    
+    try {
+      await api.delete(`/voice-profiles/${profileId}`);
+      await loadRelatedData(id);
+    } catch (error) {
+      console.error('Failed to delete voice profile:', error);
+    }
+  };
+
   if (isLoading || !currentCampaign) {
     return (
       <div className="p-8">
@@ -269,6 +408,13 @@ export function CampaignDetail() {
         </div>
         
         <div className="flex items-center gap-3">
+          <Link
+            to={`/app/campaigns/${id}/search`}
+            className="btn-secondary flex items-center gap-2"
+          >
+            <Search className="w-4 h-4" />
+            Search
+          </Link>
           <Link
             to={`/app/campaigns/${id}/edit`}
             className="btn-secondary flex items-center gap-2"
@@ -289,6 +435,61 @@ export function CampaignDetail() {
       <div className="grid lg:grid-cols-3 gap-8">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-8">
+          {/* Story So Far */}
+          {(story?.story || sessions.some((session) => session.status === 'completed')) && (
+            <section>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="font-display text-xl font-semibold flex items-center gap-2">
+                  <BookOpen className="w-5 h-5 text-mystic-400" />
+                  The Story So Far
+                </h2>
+                <button
+                  onClick={handleRebuildStory}
+                  disabled={isRebuildingStory}
+                  className="btn-ghost text-sm flex items-center gap-1"
+                  title="Retell the story from every completed session's recap"
+                >
+                  <RefreshCw className={`w-4 h-4 ${isRebuildingStory ? 'animate-spin' : ''}`} />
+                  {isRebuildingStory ? 'Rebuilding...' : 'Rebuild'}
+                </button>
+              </div>
+              <div className="card">
+                <div className="card-body">
+                  {storyError && (
+                    <div className="flex items-center gap-2 text-sm text-dragon-400 mb-3">
+                      <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                      {storyError}
+                    </div>
+                  )}
+                  {story?.story ? (
+                    <>
+                      <p
+                        className={`text-parchment-200 whitespace-pre-wrap leading-relaxed ${
+                          isStoryExpanded ? '' : 'line-clamp-6'
+                        }`}
+                      >
+                        {story.story}
+                      </p>
+                      <div className="flex items-center justify-between mt-3 text-xs text-dungeon-500">
+                        <span>Through Session {story.throughSessionNumber}</span>
+                        <button
+                          onClick={() => setIsStoryExpanded(!isStoryExpanded)}
+                          className="text-mystic-400 hover:text-mystic-300"
+                        >
+                          {isStoryExpanded ? 'Show less' : 'Read all'}
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-dungeon-400 text-center">
+                      The story is written from session recaps as sessions end. Rebuild to start it from past sessions.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </section>
+          )}
+
           {/* Sessions */}
           <section>
             <div className="flex items-center justify-between mb-4">
@@ -354,6 +555,20 @@ export function CampaignDetail() {
             )}
           </section>
 
+          {/* Lore proposed from session transcripts */}
+          {id && (
+            <LoreQueue
+              campaignId={id}
+              onReviewed={() => {
+                loadRelatedData(id);
+                setWorldVersion(v => v + 1);
+              }}
+            />
+          )}
+
+          {/* Locations, factions, items and quests */}
+          {id && <WorldPanel campaignId={id} npcs={npcs} sessions={sessions} refreshKey={worldVersion} />}
+
           {/* World Context */}
           {currentCampaign.worldContext && (
             <section>
@@ -402,13 +617,22 @@ export function CampaignDetail() {
                             {player.characterClass}
                           </p>
                         </div>
-                        <button 
-                          onClick={() => openEditPlayer(player)}
-                          className="text-dungeon-500 hover:text-parchment-200"
-                          title="Edit Player"
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </button>
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => setSheetPlayer(player)}
+                            className="text-dungeon-500 hover:text-parchment-200"
+                            title="Character Sheet"
+                          >
+                            <ScrollText className="w-4 h-4" />
+                          </button>
+                          <button 
+                            onClick={() => openEditPlayer(player)}
+                            className="text-dungeon-500 hover:text-parchment-200"
+                            title="Edit Player"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        </div>
                       </div>
                       <div className="health-bar">
                         <div
@@ -426,6 +650,12 @@ export function CampaignDetail() {
                       </div>
                       <p className="text-xs text-dungeon-400 mt-1">
                         HP: {player.currentHp} / {player.maxHp}
+                        {player.characterSheet && (
+                          <>
+                            {' '}• Level {player.characterSheet.level} • AC {player.characterSheet.armorClass}
+                            {' '}• Passive Perception {passivePerception(player.characterSheet)}
+                          </>
+                        )}
                       </p>
                     </div>
                   ))
@@ -479,6 +709,45 @@ export function CampaignDetail() {
             </div>
           </section>
 
+          {/* Voice Profiles */}
+          <section>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-display text-lg font-semibold flex items-center gap-2">
+                <Mic className="w-5 h-5 text-mystic-400" />
+                Voice Profiles ({voiceProfiles.length})
+              </h2>
+            </div>
+
+            <div className="card">
+              <div className="divide-y divide-dungeon-700/50">
+                {voiceProfiles.length === 0 ? (
+                  <div className="p-4 text-center text-sm text-dungeon-400">
+                    Voices are learned from the speakers you confirm in session transcripts
+                  </div>
+                ) : (
+                  voiceProfiles.map((profile) => (
+                    <div key={profile.id} className="p-4 group flex items-center justify-between">
+                      <div>
+                        <h4 className="font-semibold">{profile.speakerName}</h4>
+                        <p className="text-xs text-dungeon-400">
+                          {Math.max(1, Math.round(profile.sampleMs / 60000))} min of speech • updated{' '}
+                          {new Date(profile.updatedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleDeleteVoiceProfile(profile.id)}
+                        className="text-dungeon-500 hover:text-dragon-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Forget Voice"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </section>
+
           {/* Danger Zone */}
           <section>
             <h2 className="font-display text-lg font-semibold text-dragon-400 mb-4">
@@ -525,92 +794,159 @@ export function CampaignDetail() {
           <div className="bg-dungeon-900 border border-dungeon-700 rounded-lg w-full max-w-md">
             <div className="flex items-center justify-between p-4 border-b border-dungeon-700">
               <h3 className="font-display text-lg font-semibold">
-                {editingPlayer ? 'Edit Player' : 'Add Player'}
+                {importPreview ? 'Review Import' : editingPlayer ? 'Edit Player' : 'Add Player'}
               </h3>
-              <button 
-                onClick={() => setShowPlayerModal(false)}
-                className="text-dungeon-400 hover:text-parchment-200"
-              >
-                <X className="w-5 h-5" />
-              </button>
+              <div className="flex items-center gap-2">
+                {!importPreview && (
+                  <>
+                    <input
+                      ref={importInput}
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handlePreviewImport(file);
+                        e.target.value = '';
+                      }}
+                    />
+                    <button
+                      onClick={() => importInput.current?.click()}
+                      disabled={isImporting}
+                      className="btn-ghost text-sm flex items-center gap-1"
+                      title="Import a D&D Beyond, Foundry VTT or exported character JSON file"
+                    >
+                      <Upload className="w-4 h-4" />
+                      Import
+                    </button>
+                  </>
+                )}
+                <button 
+                  onClick={() => setShowPlayerModal(false)}
+                  className="text-dungeon-400 hover:text-parchment-200"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
             </div>
-            <div className="p-4 space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm text-dungeon-400 mb-1">Player Name</label>
-                  <input
-                    type="text"
-                    value={playerForm.playerName}
-                    onChange={(e) => setPlayerForm({ ...playerForm, playerName: e.target.value })}
-                    className="input w-full"
-                    placeholder="John"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm text-dungeon-400 mb-1">Character Name</label>
-                  <input
-                    type="text"
-                    value={playerForm.characterName}
-                    onChange={(e) => setPlayerForm({ ...playerForm, characterName: e.target.value })}
-                    className="input w-full"
-                    placeholder="Gandalf"
-                  />
-                </div>
+            {importError && (
+              <p className="px-4 pt-4 text-sm text-dragon-400 flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                {importError}
+              </p>
+            )}
+            {importPreview ? (
+              <div className="p-4 space-y-4">
+                {!editingPlayer && (
+                  <div>
+                    <label className="block text-sm text-dungeon-400 mb-1">Player Name</label>
+                    <input
+                      type="text"
+                      value={playerForm.playerName}
+                      onChange={(e) => setPlayerForm({ ...playerForm, playerName: e.target.value })}
+                      className="input w-full"
+                      placeholder="John"
+                    />
+                  </div>
+                )}
+                <CharacterImportDiff preview={importPreview} isNewPlayer={!editingPlayer} />
               </div>
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm text-dungeon-400 mb-1">Race</label>
-                  <input
-                    type="text"
-                    value={playerForm.characterRace}
-                    onChange={(e) => setPlayerForm({ ...playerForm, characterRace: e.target.value })}
-                    className="input w-full"
-                    placeholder="Human"
-                  />
+            ) : (
+              <div className="p-4 space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm text-dungeon-400 mb-1">Player Name</label>
+                    <input
+                      type="text"
+                      value={playerForm.playerName}
+                      onChange={(e) => setPlayerForm({ ...playerForm, playerName: e.target.value })}
+                      className="input w-full"
+                      placeholder="John"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-dungeon-400 mb-1">Character Name</label>
+                    <input
+                      type="text"
+                      value={playerForm.characterName}
+                      onChange={(e) => setPlayerForm({ ...playerForm, characterName: e.target.value })}
+                      className="input w-full"
+                      placeholder="Gandalf"
+                    />
+                  </div>
                 </div>
-                <div>
-                  <label className="block text-sm text-dungeon-400 mb-1">Class</label>
-                  <input
-                    type="text"
-                    value={playerForm.characterClass}
-                    onChange={(e) => setPlayerForm({ ...playerForm, characterClass: e.target.value })}
-                    className="input w-full"
-                    placeholder="Wizard"
-                  />
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm text-dungeon-400 mb-1">Race</label>
+                    <input
+                      type="text"
+                      value={playerForm.characterRace}
+                      onChange={(e) => setPlayerForm({ ...playerForm, characterRace: e.target.value })}
+                      className="input w-full"
+                      placeholder="Human"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-dungeon-400 mb-1">Class</label>
+                    <input
+                      type="text"
+                      value={playerForm.characterClass}
+                      onChange={(e) => setPlayerForm({ ...playerForm, characterClass: e.target.value })}
+                      className="input w-full"
+                      placeholder="Wizard"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm text-dungeon-400 mb-1">Max HP</label>
+                    <input
+                      type="number"
+                      value={playerForm.maxHp}
+                      onChange={(e) => setPlayerForm({ ...playerForm, maxHp: parseInt(e.target.value) || 0 })}
+                      className="input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-dungeon-400 mb-1">Current HP</label>
+                    <input
+                      type="number"
+                      value={playerForm.currentHp}
+                      onChange={(e) => setPlayerForm({ ...playerForm, currentHp: parseInt(e.target.value) || 0 })}
+                      className="input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-dungeon-400 mb-1">Temp HP</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={playerForm.tempHp}
+                      onChange={(e) => setPlayerForm({ ...playerForm, tempHp: parseInt(e.target.value) || 0 })}
+                      className="input w-full"
+                    />
+                  </div>
                 </div>
-              </div>
-              <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-sm text-dungeon-400 mb-1">Max HP</label>
-                  <input
-                    type="number"
-                    value={playerForm.maxHp}
-                    onChange={(e) => setPlayerForm({ ...playerForm, maxHp: parseInt(e.target.value) || 0 })}
-                    className="input w-full"
+                  <label className="block text-sm text-dungeon-400 mb-1">Damage Resistances</label>
+                  <DamageDefensesEditor
+                    defenses={playerForm}
+                    onChange={(defenses) => setPlayerForm({ ...playerForm, ...defenses })}
                   />
                 </div>
                 <div>
-                  <label className="block text-sm text-dungeon-400 mb-1">Current HP</label>
-                  <input
-                    type="number"
-                    value={playerForm.currentHp}
-                    onChange={(e) => setPlayerForm({ ...playerForm, currentHp: parseInt(e.target.value) || 0 })}
-                    className="input w-full"
+                  <label className="block text-sm text-dungeon-400 mb-1">Notes</label>
+                  <textarea
+                    value={playerForm.notes}
+                    onChange={(e) => setPlayerForm({ ...playerForm, notes: e.target.value })}
+                    className="input w-full h-20 resize-none"
+                    placeholder="Character background, special items, etc."
                   />
                 </div>
               </div>
-              <div>
-                <label className="block text-sm text-dungeon-400 mb-1">Notes</label>
-                <textarea
-                  value={playerForm.notes}
-                  onChange={(e) => setPlayerForm({ ...playerForm, notes: e.target.value })}
-                  className="input w-full h-20 resize-none"
-                  placeholder="Character background, special items, etc."
-                />
-              </div>
-            </div>
+            )}
             <div className="flex items-center justify-between p-4 border-t border-dungeon-700">
-              {editingPlayer && (
+              {editingPlayer && !importPreview && (
                 <button 
                   onClick={() => {
                     handleDeletePlayer(editingPlayer.id);
@@ -621,19 +957,42 @@ export function CampaignDetail() {
                   Delete
                 </button>
               )}
-              <div className={`flex gap-2 ${!editingPlayer ? 'ml-auto' : ''}`}>
-                <button onClick={() => setShowPlayerModal(false)} className="btn-secondary">
-                  Cancel
-                </button>
-                <button onClick={handleSavePlayer} className="btn-primary">
-                  {editingPlayer ? 'Save Changes' : 'Add Player'}
-                </button>
-              </div>
+              {importPreview ? (
+                <div className="flex gap-2 ml-auto">
+                  <button onClick={resetImport} className="btn-secondary">
+                    Back
+                  </button>
+                  <button onClick={handleApplyImport} disabled={isImporting} className="btn-primary">
+                    {isImporting ? 'Importing...' : editingPlayer ? 'Apply Import' : 'Create Player'}
+                  </button>
+                </div>
+              ) : (
+                <div className={`flex gap-2 ${!editingPlayer ? 'ml-auto' : ''}`}>
+                  <button onClick={() => setShowPlayerModal(false)} className="btn-secondary">
+                    Cancel
+                  </button>
+                  <button onClick={handleSavePlayer} className="btn-primary">
+                    {editingPlayer ? 'Save Changes' : 'Add Player'}
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         </div>
       )}
 
+      {/* Character Sheet Modal */}
+      {sheetPlayer && (
+        <CharacterSheetEditor
+          player={sheetPlayer}
+          onClose={() => {
+            setSheetPlayer(null);
+            if (id) loadRelatedData(id);
+          }}
+          onImported={() => id && loadRelatedData(id)}
+        />
+      )}
+
       {/* NPC Modal */}
       {showNpcModal && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50">
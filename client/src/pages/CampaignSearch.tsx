@@ -0,0 +1,456 @@
+import { FormEvent, Fragment, useEffect, useState } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Search,
+  MessageSquare,
+  BookOpen,
+  Edit2,
+  AlertCircle,
+  Sparkles,
+  RefreshCw,
+} from 'lucide-react';
+import { api } from '@/services/api';
+
+interface SearchContextLine {
+  speakerLabel: string;
+  speakerName: string | null;
+  text: string;
+}
+
+interface TranscriptSearchHit {
+  sessionId: string;
+  sessionNumber: number;
+  sessionTitle: string | null;
+  sessionDate: string;
+  segmentId: string;
+  timestamp: number;
+  speakerLabel: string;
+  speakerName: string | null;
+  text: string;
+  headline: string;
+  before: SearchContextLine[];
+  after: SearchContextLine[];
+}
+
+interface SessionTextSearchHit {
+  sessionId: string;
+  sessionNumber: number;
+  sessionTitle: string | null;
+  sessionDate: string;
+  field: 'notes' | 'recap';
+  headline: string;
+}
+
+interface SearchResults {
+  query: string;
+  segments: {
+    items: TranscriptSearchHit[];
+    total: number;
+    page: number;
+    totalPages: number;
+  };
+  sessionText: SessionTextSearchHit[];
+}
+
+interface Citation {
+  ref: number;
+  label: string;
+  text: string;
+  source: 'transcript' | 'recap' | 'npc' | 'world';
+  sessionId: string | null;
+  segmentId: string | null;
+  timestamp: number | null;
+}
+
+interface CampaignAnswer {
+  question: string;
+  answer: string;
+  citations: Citation[];
+}
+
+// Renders a search headline, highlighting the <mark>ed terms without trusting it as HTML
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/<mark>(.*?)<\/mark>/g).map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-mystic-500/30 text-parchment-100 rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={i}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+function formatTimestamp(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function sessionLabel(hit: { sessionNumber: number; sessionTitle: string | null }) {
+  return `Session ${hit.sessionNumber}${hit.sessionTitle ? `: ${hit.sessionTitle}` : ''}`;
+}
+
+export function CampaignSearch() {
+  const { id } = useParams<{ id: string }>();
+  // The query lives in the URL so results survive following a link and coming back
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const mode = searchParams.get('mode') === 'ask' ? 'ask' : 'search';
+  const [input, setInput] = useState(query);
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState<CampaignAnswer | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const [indexedPassages, setIndexedPassages] = useState<number | null>(null);
+
+  useEffect(() => {
+    setInput(query);
+    if (query) {
+      search(1);
+    } else {
+      setResults(null);
+    }
+  }, [id, query]);
+
+  const search = async (page: number) => {
+    setIsSearching(true);
+    setError(null);
+    try {
+      const response = await api.get<SearchResults>(
+        `/campaigns/${id}/search?q=${encodeURIComponent(query)}&page=${page}`
+      );
+      if (!response.data) return;
+      const data = response.data;
+      setResults((current) =>
+        page === 1 || !current
+          ? data
+          : { ...data, segments: { ...data.segments, items: [...current.segments.items, ...data.segments.items] } }
+      );
+    } catch (error) {
+      console.error('Failed to search campaign:', error);
+      setError(error instanceof Error ? error.message : 'Search failed');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const q = input.trim();
+    if (q) setSearchParams({ q });
+  };
+
+  const ask = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+    setIsAsking(true);
+    setError(null);
+    try {
+      const response = await api.post<CampaignAnswer>(`/campaigns/${id}/ask`, { question: question.trim() });
+      setAnswer(response.data || null);
+    } catch (error) {
+      console.error('Failed to ask campaign:', error);
+      setError(error instanceof Error ? error.message : 'Failed to answer the question');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  // Sessions are indexed as they end; this catches up older sessions and edited notes
+  const rebuildIndex = async () => {
+    setIsRebuilding(true);
+    setError(null);
+    try {
+      const response = await api.post<{ passages: number }>(`/campaigns/${id}/knowledge/rebuild`);
+      setIndexedPassages(response.data?.passages ?? 0);
+    } catch (error) {
+      console.error('Failed to rebuild campaign index:', error);
+      setError(error instanceof Error ? error.message : 'Failed to rebuild the index');
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
+  const citationLink = (citation: Citation) => {
+    if (citation.source === 'transcript') {
+      return `/app/campaigns/${id}/sessions/${citation.sessionId}?segment=${citation.segmentId}`;
+    }
+    if (citation.source === 'recap') {
+      return `/app/campaigns/${id}/sessions/${citation.sessionId}?tab=recap`;
+    }
+    return `/app/campaigns/${id}`;
+  };
+
+  const switchMode = (next: 'search' | 'ask') => {
+    setError(null);
+    setSearchParams(next === 'ask' ? { mode: 'ask' } : query ? { q: query } : {});
+  };
+
+  const hasResults = results && (results.segments.total > 0 || results.sessionText.length > 0);
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          to={`/app/campaigns/${id}`}
+          className="inline-flex items-center text-dungeon-400 hover:text-parchment-200 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Campaign
+        </Link>
+        <h1 className="font-display text-3xl font-bold mb-2">Search Sessions</h1>
+        <p className="text-dungeon-300">
+          Find anything said at the table, or ask a question and get an answer from past sessions
+        </p>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-2 mb-6 border-b border-dungeon-700/50">
+        <button
+          onClick={() => switchMode('search')}
+          className={`px-4 py-3 font-display text-sm transition-colors relative
+            ${mode === 'search' ? 'text-mystic-400' : 'text-dungeon-400 hover:text-parchment-200'}
+          `}
+        >
+          <Search className="w-4 h-4 inline mr-2" />
+          Search
+          {mode === 'search' && (
+            <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-mystic-500" />
+          )}
+        </button>
+        <button
+          onClick={() => switchMode('ask')}
+          className={`px-4 py-3 font-display text-sm transition-colors relative
+            ${mode === 'ask' ? 'text-mystic-400' : 'text-dungeon-400 hover:text-parchment-200'}
+          `}
+        >
+          <Sparkles className="w-4 h-4 inline mr-2" />
+          Ask the Campaign
+          {mode === 'ask' && (
+            <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-mystic-500" />
+          )}
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-dragon-400 mb-6">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {mode === 'ask' ? (
+        <div className="space-y-6">
+          <form onSubmit={ask} className="flex items-center gap-3">
+            <input
+              type="text"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder="e.g. What did Lord Varn promise the party?"
+              className="input flex-1"
+              autoFocus
+            />
+            <button type="submit" disabled={!question.trim() || isAsking} className="btn-primary flex items-center gap-2">
+              <Sparkles className="w-4 h-4" />
+              {isAsking ? 'Thinking...' : 'Ask'}
+            </button>
+          </form>
+
+          <div className="flex items-center gap-3 text-sm text-dungeon-400">
+            <button
+              onClick={rebuildIndex}
+              disabled={isRebuilding}
+              className="btn-ghost text-sm flex items-center gap-1"
+              title="Index every session, NPC and the world notes again"
+            >
+              <RefreshCw className={`w-4 h-4 ${isRebuilding ? 'animate-spin' : ''}`} />
+              {isRebuilding ? 'Indexing...' : 'Rebuild Index'}
+            </button>
+            {indexedPassages !== null && <span className="badge badge-success">{indexedPassages} passages indexed</span>}
+          </div>
+
+          {answer && (
+            <div className="card">
+              <div className="card-header">
+                <h3 className="font-display text-lg font-semibold">{answer.question}</h3>
+              </div>
+              <div className="card-body space-y-4">
+                <p className="text-parchment-200 whitespace-pre-wrap leading-relaxed">
+                  {answer.answer.split(/\[(\d+)\]/g).map((part, i) => {
+                    if (i % 2 === 0) return <Fragment key={i}>{part}</Fragment>;
+                    const citation = answer.citations.find((c) => c.ref === Number(part));
+                    return citation ? (
+                      <Link key={i} to={citationLink(citation)} className="text-mystic-400 hover:text-mystic-300 text-xs align-super">
+                        [{part}]
+                      </Link>
+                    ) : null;
+                  })}
+                </p>
+                {answer.citations.length > 0 && (
+                  <div className="space-y-2 border-t border-dungeon-700/50 pt-4">
+                    {answer.citations.map((citation) => (
+                      <Link
+                        key={citation.ref}
+                        to={citationLink(citation)}
+                        className="flex items-start gap-3 text-sm hover:bg-dungeon-800/50 rounded p-2 -mx-2"
+                      >
+                        <span className="text-mystic-400 font-mono">[{citation.ref}]</span>
+                        <span className="flex-1">
+                          <span className="text-dungeon-400">
+                            {citation.label}
+                            {citation.timestamp !== null && ` · ${formatTimestamp(citation.timestamp)}`}
+                          </span>
+                          <span className="block text-parchment-200">{citation.text}</span>
+                        </span>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      ) : (
+        <>
+          <form onSubmit={handleSubmit} className="flex items-center gap-3 mb-8">
+            <input
+              type="search"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder='e.g. merchant, "silver key", dragon -wyrmling'
+              className="input flex-1"
+              autoFocus
+            />
+            <button type="submit" disabled={!input.trim() || isSearching} className="btn-primary flex items-center gap-2">
+              <Search className="w-4 h-4" />
+              Search
+            </button>
+          </form>
+
+          {isSearching && !results ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="card animate-pulse">
+                  <div className="card-body">
+                    <div className="h-4 bg-dungeon-700 rounded w-1/4 mb-3" />
+                    <div className="h-4 bg-dungeon-700 rounded w-3/4" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : results && !hasResults ? (
+            <div className="card">
+              <div className="card-body text-center py-12">
+                <Search className="w-12 h-12 text-dungeon-500 mx-auto mb-4" />
+                <p className="text-dungeon-400">Nothing matched “{results.query}”.</p>
+              </div>
+            </div>
+          ) : results ? (
+            <div className="space-y-8">
+              {results.sessionText.length > 0 && (
+                <section>
+                  <h2 className="font-display text-xl font-semibold flex items-center gap-2 mb-4">
+                    <BookOpen className="w-5 h-5 text-mystic-400" />
+                    Notes & Recaps
+                  </h2>
+                  <div className="space-y-3">
+                    {results.sessionText.map((hit) => (
+                      <Link
+                        key={`${hit.sessionId}-${hit.field}`}
+                        to={`/app/campaigns/${id}/sessions/${hit.sessionId}?tab=${hit.field}`}
+                        className="card block hover:border-mystic-500/50 transition-colors"
+                      >
+                        <div className="card-body">
+                          <div className="flex items-center gap-2 text-sm text-dungeon-400 mb-2">
+                            {hit.field === 'notes' ? <Edit2 className="w-4 h-4" /> : <BookOpen className="w-4 h-4" />}
+                            <span className="font-semibold text-parchment-200">{sessionLabel(hit)}</span>
+                            <span className="badge badge-mystic">{hit.field}</span>
+                          </div>
+                          <p className="text-parchment-200">
+                            <Highlighted text={hit.headline} />
+                          </p>
+                        </div>
+                      </Link>
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              {results.segments.total > 0 && (
+                <section>
+                  <h2 className="font-display text-xl font-semibold flex items-center gap-2 mb-4">
+                    <MessageSquare className="w-5 h-5 text-mystic-400" />
+                    Transcripts
+                    <span className="text-sm font-normal text-dungeon-400">
+                      {results.segments.total} {results.segments.total === 1 ? 'match' : 'matches'}
+                    </span>
+                  </h2>
+                  <div className="space-y-3">
+                    {results.segments.items.map((hit) => (
+                      <Link
+                        key={hit.segmentId}
+                        to={`/app/campaigns/${id}/sessions/${hit.sessionId}?segment=${hit.segmentId}`}
+                        className="card block hover:border-mystic-500/50 transition-colors"
+                      >
+                        <div className="card-body">
+                          <div className="flex items-center gap-3 text-sm text-dungeon-400 mb-2">
+                            <span className="font-semibold text-parchment-200">{sessionLabel(hit)}</span>
+                            <span>{new Date(hit.sessionDate).toLocaleDateString()}</span>
+                            <span className="font-mono">{formatTimestamp(hit.timestamp)}</span>
+                          </div>
+                          <div className="space-y-1 text-sm">
+                            {hit.before.map((line, i) => (
+                              <p key={`before-${i}`} className="text-dungeon-400">
+                                <span className="font-semibold">{line.speakerName || line.speakerLabel}:</span> {line.text}
+                              </p>
+                            ))}
+                            <p className="text-parchment-200">
+                              <span className="font-semibold text-mystic-400">{hit.speakerName || hit.speakerLabel}:</span>{' '}
+                              <Highlighted text={hit.headline} />
+                            </p>
+                            {hit.after.map((line, i) => (
+                              <p key={`after-${i}`} className="text-dungeon-400">
+                                <span className="font-semibold">{line.speakerName || line.speakerLabel}:</span> {line.text}
+                              </p>
+                            ))}
+                          </div>
+                        </div>
+                      </Link>
+                    ))}
+                  </div>
+                  {results.segments.page < results.segments.totalPages && (
+                    <div className="text-center mt-4">
+                      <button
+                        onClick={() => search(results.segments.page + 1)}
+                        disabled={isSearching}
+                        className="btn-secondary text-sm"
+                      >
+                        {isSearching ? 'Loading...' : 'Show more matches'}
+                      </button>
+                    </div>
+                  )}
+                </section>
+              )}
+            </div>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
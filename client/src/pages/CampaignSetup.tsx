@@ -29,6 +29,9 @@ export function CampaignSetup() {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [worldContext, setWorldContext] = useState('');
+  const [llmProvider, setLlmProvider] = useState<'openai' | 'local' | 'rules' | null>(null);
+  const [recapStyle, setRecapStyle] = useState<'narrative' | 'bard' | 'newspaper' | 'bullets' | 'letter'>('narrative');
+  const [recapLength, setRecapLength] = useState<'short' | 'medium' | 'long'>('medium');
   const [players, setPlayers] = useState<PlayerInput[]>([]);
   const [npcs, setNpcs] = useState<NPCInput[]>([]);
   const [isSaving, setIsSaving] = useState(false);
@@ -45,6 +48,9 @@ export function CampaignSetup() {
       setName(currentCampaign.name);
       setDescription(currentCampaign.description || '');
       setWorldContext(currentCampaign.worldContext || '');
+      setLlmProvider(currentCampaign.llmProvider);
+      setRecapStyle(currentCampaign.recapStyle);
+      setRecapLength(currentCampaign.recapLength);
       // Load players and NPCs
       loadRelatedData(currentCampaign.id);
     }
@@ -71,9 +77,9 @@ export function CampaignSetup() {
       let campaignId = id;
 
       if (isEditing && id) {
-        await updateCampaign(id, { name, description, worldContext });
+        await updateCampaign(id, { name, description, worldContext, llmProvider, recapStyle, recapLength });
       } else {
-        const newCampaign = await createCampaign({ name, description, worldContext });
+        const newCampaign = await createCampaign({ name, description, worldContext, llmProvider, recapStyle, recapLength });
         campaignId = newCampaign.id;
       }
 
@@ -237,6 +243,54 @@ export function CampaignSetup() {
                 rows={8}
               />
             </div>
+
+            <div>
+              <label className="input-label">AI Model</label>
+              <p className="text-sm text-dungeon-400 mb-2">
+                Which language model analyzes this campaign's sessions. Leave on the
+                server default unless you run a local model or want to avoid API costs.
+              </p>
+              <select
+                value={llmProvider ?? ''}
+                onChange={(e) => setLlmProvider((e.target.value || null) as typeof llmProvider)}
+                className="input"
+              >
+                <option value="">Server default</option>
+                <option value="openai">OpenAI</option>
+                <option value="local">Local model (OpenAI-compatible)</option>
+                <option value="rules">Rule-based (no model)</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="input-label">Session Recaps</label>
+              <p className="text-sm text-dungeon-400 mb-2">
+                How the "previously on" recap is written when a session ends. Any recap
+                can be rewritten in another style from its session page.
+              </p>
+              <div className="grid md:grid-cols-2 gap-4">
+                <select
+                  value={recapStyle}
+                  onChange={(e) => setRecapStyle(e.target.value as typeof recapStyle)}
+                  className="input"
+                >
+                  <option value="narrative">Dramatic narration</option>
+                  <option value="bard">Bard's tale</option>
+                  <option value="newspaper">Newspaper report</option>
+                  <option value="bullets">Bullet summary</option>
+                  <option value="letter">Letter from an NPC</option>
+                </select>
+                <select
+                  value={recapLength}
+                  onChange={(e) => setRecapLength(e.target.value as typeof recapLength)}
+                  className="input"
+                >
+                  <option value="short">Short (~120 words)</option>
+                  <option value="medium">Medium (~300 words)</option>
+                  <option value="long">Long (~600 words)</option>
+                </select>
+              </div>
+            </div>
           </div>
         )}
 
@@ -125,6 +125,16 @@ export function Dashboard() {
                       {campaign.description}
                     </p>
                   )}
+                  {campaign.storySoFar && (
+                    <div className="mb-4">
+                      <p className="text-xs font-display text-mystic-400 mb-1">
+                        The story so far (through Session {campaign.storySoFarThrough})
+                      </p>
+                      <p className="text-dungeon-400 text-sm italic line-clamp-3">
+                        {campaign.storySoFar}
+                      </p>
+                    </div>
+                  )}
                   <div className="flex items-center gap-4 text-sm text-dungeon-400">
                     <span className="flex items-center gap-1">
                       <Scroll className="w-4 h-4" />
@@ -1,5 +1,5 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
 import {
   ArrowLeft,
   Mic,
@@ -22,12 +22,21 @@ import {
   History,
   Disc3,
   Zap,
+  FileAudio,
+  Undo2,
+  Coffee,
+  Moon,
 } from 'lucide-react';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { useAudioCapture } from '@/hooks/useAudioCapture';
 import { useAudioPlayer } from '@/hooks/useAudioPlayer';
 import { api } from '@/services/api';
 import { SoundLibraryBrowser } from '@/components/SoundLibraryBrowser';
+import { CombatTracker, Encounter } from '@/components/CombatTracker';
+import { ConditionList, Condition, NewCondition } from '@/components/ConditionList';
+import { DeathSaveTracker } from '@/components/DeathSaveTracker';
+import { CharacterSheet, passivePerception } from '@/components/CharacterSheetEditor';
+import { ResourceTracker, CharacterResource } from '@/components/ResourceTracker';
 
 interface TranscriptSegment {
   id: string;
@@ -45,17 +54,46 @@ interface Player {
   characterName: string;
   currentHp: number;
   maxHp: number;
+  tempHp: number;
+  deathSaveSuccesses: number;
+  deathSaveFailures: number;
+  stable: boolean;
+  characterSheet: CharacterSheet | null;
+}
+
+// Sent whenever a player's HP or death saves change
+interface PlayerHealth {
+  playerId: string;
+  currentHp: number;
+  tempHp: number;
+  deathSaveSuccesses: number;
+  deathSaveFailures: number;
+  stable: boolean;
 }
 
 interface HealthEvent {
   id: string;
-  playerId: string;
-  type: 'damage' | 'healing' | 'status';
+  playerId: string | null;
+  combatantId: string | null; // Set for enemies in the combat tracker
+  type: 'damage' | 'healing' | 'status' | 'temp_hp' | 'death_save';
   value: number | null;
+  damageType: string | null; // Resistances are applied when it's confirmed
   description: string;
   confirmed: boolean;
 }
 
+// A spell slot, feature use or hit dice heard in the transcript, spent once confirmed
+interface ResourceEvent {
+  id: string;
+  playerId: string;
+  resourceId: string;
+  kind: CharacterResource['kind'];
+  name: string;
+  spellLevel: number | null;
+  amount: number;
+  description: string;
+}
+
 interface SoundMapping {
   id: string;
   name: string;
@@ -98,14 +136,27 @@ interface AutoAudioTrack {
   volume: number;
 }
 
+// How many confirmed health events stay on hand to undo
+const MAX_APPLIED_EVENTS = 5;
+
 export function LiveSession() {
   const { campaignId, sessionId: urlSessionId } = useParams<{ campaignId: string; sessionId?: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  
+  // Replay mode (?replay=<file>&speed=<n>) drives the session from a recording instead of the mic
+  const replayFile = searchParams.get('replay');
+  const replaySpeed = Number(searchParams.get('speed')) || 1;
   
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(urlSessionId || null);
   const [transcript, setTranscript] = useState<TranscriptSegment[]>([]);
   const [players, setPlayers] = useState<Player[]>([]);
   const [pendingHealthEvents, setPendingHealthEvents] = useState<HealthEvent[]>([]);
+  const [appliedHealthEvents, setAppliedHealthEvents] = useState<HealthEvent[]>([]); // Newest first, for undo
+  const [resources, setResources] = useState<CharacterResource[]>([]);
+  const [pendingResourceEvents, setPendingResourceEvents] = useState<ResourceEvent[]>([]);
+  const [encounter, setEncounter] = useState<Encounter | null>(null);
+  const [conditions, setConditions] = useState<Condition[]>([]);
   const [manualTriggers, setManualTriggers] = useState<SoundMapping[]>([]);
   const [isSessionActive, setIsSessionActive] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
@@ -123,6 +174,7 @@ export function LiveSession() {
     effectsEnabled: true,
   });
   const [autoPlayingTrack, setAutoPlayingTrack] = useState<{ name: string; type: string } | null>(null);
+  const [isReplayFinished, setIsReplayFinished] = useState(false);
   
   // Now Playing state
   const [nowPlayingMusic, setNowPlayingMusic] = useState<AutoAudioTrack | null>(null);
@@ -267,6 +319,25 @@ export function LiveSession() {
       setPendingHealthEvents((prev) => [...prev, event]);
     });
 
+    socket.on('resource:event', (event: ResourceEvent) => {
+      setPendingResourceEvents((prev) => [...prev, event]);
+    });
+
+    // Every party resource, sent on start and whenever one is spent, corrected or rested back
+    socket.on('resources:updated', (updated: CharacterResource[]) => {
+      setResources(updated);
+    });
+
+    // Sent when a fight starts (including on "roll for initiative"), changes or ends
+    socket.on('combat:updated', (updated: Encounter) => {
+      setEncounter(updated.status === 'active' ? updated : null);
+    });
+
+    // Every condition still in effect, sent whenever one is applied, removed or expires
+    socket.on('conditions:updated', (active: Condition[]) => {
+      setConditions(active);
+    });
+
     socket.on('scene:detected', (scene: { scene: string; confidence: number }) => {
       console.log(`🎭 Scene detected: ${scene.scene} (${Math.round(scene.confidence * 100)}%)`);
       setCurrentScene(scene);
@@ -327,18 +398,24 @@ export function LiveSession() {
       setAutoAudioSettings(settings);
     });
 
-    socket.on('player:updated', ({ playerId, currentHp }: { playerId: string; currentHp: number }) => {
+    socket.on('health:undone', ({ eventId }: { eventId: string }) => {
+      setAppliedHealthEvents((prev) => prev.filter((e) => e.id !== eventId));
+    });
+
+    socket.on('player:updated', ({ playerId, ...health }: PlayerHealth) => {
       setPlayers((prev) =>
-        prev.map((p) => (p.id === playerId ? { ...p, currentHp } : p))
+        prev.map((p) => (p.id === playerId ? { ...p, ...health } : p))
       );
     });
 
-    socket.on('session:started', ({ sessionId }: { sessionId: string }) => {
+    socket.on('session:started', ({ sessionId, elapsedMs }: { sessionId: string; elapsedMs: number }) => {
       console.log('Session started:', sessionId);
       setCurrentSessionId(sessionId);
       setIsSessionActive(true);
       setIsStarting(false);
       setError(null);
+      // A resumed session's clock carries on from where it stopped
+      setSessionDuration(Math.floor(elapsedMs / 1000));
       startDurationTimer();
     });
 
@@ -355,6 +432,11 @@ export function LiveSession() {
       stopDurationTimer();
     });
 
+    socket.on('session:replay-finished', () => {
+      console.log('⏹️ Replay finished');
+      setIsReplayFinished(true);
+    });
+
     socket.on('error', ({ message }: { message: string }) => {
       console.error('WebSocket error:', message);
       setError(message);
@@ -368,12 +450,18 @@ export function LiveSession() {
       socket.off('speaker:updated');
       socket.off('audio:trigger');
       socket.off('health:event');
+      socket.off('health:undone');
+      socket.off('resource:event');
+      socket.off('resources:updated');
+      socket.off('conditions:updated');
+      socket.off('combat:updated');
       socket.off('scene:detected');
       socket.off('player:updated');
       socket.off('session:started');
       socket.off('session:paused');
       socket.off('session:resumed');
       socket.off('session:ended');
+      socket.off('session:replay-finished');
       socket.off('error');
       socket.off('auto-audio:play');
       socket.off('auto-audio:settings-updated');
@@ -435,8 +523,8 @@ export function LiveSession() {
         if (response.data?.id) {
           sessionIdToUse = response.data.id;
           setCurrentSessionId(sessionIdToUse);
-          // Update URL without full navigation
-          window.history.replaceState(null, '', `/app/campaigns/${campaignId}/live/${sessionIdToUse}`);
+          // Update URL without full navigation (keeping any replay parameters)
+          window.history.replaceState(null, '', `/app/campaigns/${campaignId}/live/${sessionIdToUse}${window.location.search}`);
         } else {
           throw new Error('Failed to create session');
         }
@@ -447,6 +535,12 @@ export function LiveSession() {
       
       // The session:started event is handled by the global useEffect handler
       // which sets isSessionActive and starts the duration timer
+      if (replayFile) {
+        // Replays feed the server pipeline from a recording - no microphone needed
+        setIsReplayFinished(false);
+        emit('session:start', { sessionId: sessionIdToUse, replay: { file: replayFile, speed: replaySpeed } });
+        return;
+      }
       emit('session:start', { sessionId: sessionIdToUse });
       
       // Start recording immediately - the session:started handler will update state
@@ -489,9 +583,42 @@ export function LiveSession() {
 
   const handleHealthEventConfirm = (eventId: string, confirmed: boolean, modifiedValue?: number) => {
     emit('health:confirm', { eventId, confirmed, modifiedValue });
+    const event = pendingHealthEvents.find((e) => e.id === eventId);
+    if (confirmed && event) {
+      setAppliedHealthEvents((prev) => [event, ...prev].slice(0, MAX_APPLIED_EVENTS));
+    }
     setPendingHealthEvents((prev) => prev.filter((e) => e.id !== eventId));
   };
 
+  const handleHealthEventUndo = (eventId: string) => {
+    emit('health:undo', { eventId });
+  };
+
+  const handleResourceEventConfirm = (eventId: string, confirmed: boolean) => {
+    emit('resource:confirm', { eventId, confirmed });
+    setPendingResourceEvents((prev) => prev.filter((e) => e.id !== eventId));
+  };
+
+  const handleCombatTurn = (step: 1 | -1) => {
+    if (encounter) emit('combat:turn', { encounterId: encounter.id, step });
+  };
+
+  const handleCombatEnd = () => {
+    if (encounter) emit('combat:end', { encounterId: encounter.id });
+  };
+
+  const handleAddCombatant = (combatant: { name: string; initiative: number | null; maxHp: number | null }) => {
+    if (encounter) emit('combat:add-combatant', { encounterId: encounter.id, combatant });
+  };
+
+  const handleAddCondition = (playerId: string, condition: NewCondition) => {
+    emit('condition:add', { ...condition, playerId });
+  };
+
+  const handleRemoveCondition = (conditionId: string) => {
+    emit('condition:remove', { conditionId });
+  };
+
   // Get the audio URL based on source type
   const getAudioUrl = (mapping: SoundMapping): { url: string | null; isExternal: boolean; error?: string } => {
     // Freesound, Jamendo, and Tabletop Audio all have direct streaming URLs now
@@ -674,6 +801,19 @@ export function LiveSession() {
               </div>
             )}
 
+            {/* Replay indicator */}
+            {replayFile && (
+              <div className="flex items-center gap-2 px-3 py-1 bg-dungeon-800 rounded-lg">
+                <FileAudio className="w-4 h-4 text-mystic-400" />
+                <span className="text-sm text-dungeon-300 truncate max-w-[12rem]" title={replayFile}>
+                  Replay: {replayFile}
+                </span>
+                <span className="text-xs text-dungeon-500">
+                  {isReplayFinished ? 'finished' : `${replaySpeed}x`}
+                </span>
+              </div>
+            )}
+
             {/* Recording indicator */}
             {isRecording && (
               <div className="flex items-center gap-2">
@@ -1001,13 +1141,48 @@ export function LiveSession() {
         </div>
 
         {/* Sidebar */}
-        <aside className="w-80 border-l border-dungeon-700/50 flex flex-col bg-dungeon-900/30">
+        <aside className="w-80 border-l border-dungeon-700/50 flex flex-col bg-dungeon-900/30 overflow-y-auto">
+          {/* Combat Tracker */}
+          <CombatTracker
+            encounter={encounter}
+            canStart={isSessionActive}
+            onStart={() => emit('combat:start', {})}
+            onTurn={handleCombatTurn}
+            onEnd={handleCombatEnd}
+            onAddCombatant={handleAddCombatant}
+            onUpdateCombatant={(combatantId, patch) => emit('combat:update-combatant', { combatantId, patch })}
+            onRemoveCombatant={(combatantId) => emit('combat:remove-combatant', { combatantId })}
+            conditions={conditions}
+            elapsedMs={sessionDuration * 1000}
+            onRemoveCondition={handleRemoveCondition}
+          />
+
           {/* Players */}
           <div className="p-4 border-b border-dungeon-700/50">
-            <h3 className="font-display font-semibold flex items-center gap-2 mb-4">
-              <Users className="w-4 h-4 text-mystic-400" />
-              Players
-            </h3>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-display font-semibold flex items-center gap-2">
+                <Users className="w-4 h-4 text-mystic-400" />
+                Players
+              </h3>
+              {isSessionActive && resources.length > 0 && (
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => emit('rest:take', { type: 'short' })}
+                    className="btn-ghost p-1 text-dungeon-400 hover:text-parchment-100"
+                    title="Short rest for the party"
+                  >
+                    <Coffee className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => emit('rest:take', { type: 'long' })}
+                    className="btn-ghost p-1 text-dungeon-400 hover:text-parchment-100"
+                    title="Long rest for the party"
+                  >
+                    <Moon className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
             <div className="space-y-3">
               {players.map((player) => (
                 <div key={player.id} className="bg-dungeon-800/50 rounded-lg p-3">
@@ -1015,6 +1190,9 @@ export function LiveSession() {
                     <span className="font-semibold text-sm">{player.characterName}</span>
                     <span className="text-xs text-dungeon-400">
                       {player.currentHp}/{player.maxHp}
+                      {player.tempHp > 0 && (
+                        <span className="text-mystic-400" title="Temporary HP"> +{player.tempHp}</span>
+                      )}
                     </span>
                   </div>
                   <div className="health-bar">
@@ -1028,6 +1206,35 @@ export function LiveSession() {
                       }}
                     />
                   </div>
+                  {player.characterSheet && (
+                    <p className="text-xs text-dungeon-500 mt-1">
+                      AC {player.characterSheet.armorClass} · Passive Perception {passivePerception(player.characterSheet)}
+                    </p>
+                  )}
+                  <ResourceTracker
+                    resources={resources.filter((r) => r.playerId === player.id)}
+                    onSetUsed={isSessionActive
+                      ? (resourceId, used) => emit('resource:set', { playerId: player.id, resourceId, used })
+                      : undefined}
+                  />
+                  {player.currentHp === 0 && (
+                    <DeathSaveTracker
+                      successes={player.deathSaveSuccesses}
+                      failures={player.deathSaveFailures}
+                      stable={player.stable}
+                      canRoll={isSessionActive}
+                      onRoll={(roll) => emit('death-save:roll', { playerId: player.id, roll })}
+                      onFail={() => emit('death-save:fail', { playerId: player.id })}
+                      onStabilize={() => emit('death-save:stabilize', { playerId: player.id })}
+                    />
+                  )}
+                  <ConditionList
+                    conditions={conditions.filter((c) => c.playerId === player.id)}
+                    encounter={encounter}
+                    elapsedMs={sessionDuration * 1000}
+                    onAdd={isSessionActive ? (condition) => handleAddCondition(player.id, condition) : undefined}
+                    onRemove={handleRemoveCondition}
+                  />
                 </div>
               ))}
             </div>
@@ -1046,7 +1253,12 @@ export function LiveSession() {
                     key={event.id}
                     className="bg-dragon-900/30 border border-dragon-700/50 rounded-lg p-3"
                   >
-                    <p className="text-sm mb-2">{event.description}</p>
+                    <p className="text-sm mb-2">
+                      {event.description}
+                      {event.damageType && (
+                        <span className="badge-dragon ml-2 capitalize">{event.damageType}</span>
+                      )}
+                    </p>
                     <div className="flex gap-2">
                       <button
                         onClick={() => handleHealthEventConfirm(event.id, true)}
@@ -1067,6 +1279,72 @@ export function LiveSession() {
             </div>
           )}
 
+          {/* Pending Resource Uses */}
+          {pendingResourceEvents.length > 0 && (
+            <div className="p-4 border-b border-dungeon-700/50">
+              <h3 className="font-display font-semibold flex items-center gap-2 mb-4">
+                <Sparkles className="w-4 h-4 text-mystic-400" />
+                Resources Spent
+              </h3>
+              <div className="space-y-2">
+                {pendingResourceEvents.map((event) => (
+                  <div
+                    key={event.id}
+                    className="bg-mystic-900/30 border border-mystic-700/50 rounded-lg p-3"
+                  >
+                    <p className="text-sm mb-2">
+                      {event.description}
+                      <span className="badge-mystic ml-2">
+                        {event.kind === 'spell_slot' ? `Level ${event.spellLevel} slot` : event.name}
+                        {event.amount > 1 && ` x${event.amount}`}
+                      </span>
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleResourceEventConfirm(event.id, true)}
+                        className="btn-ghost p-1 text-emerald-400 hover:bg-emerald-900/30"
+                      >
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleResourceEventConfirm(event.id, false)}
+                        className="btn-ghost p-1 text-dragon-400 hover:bg-dragon-900/30"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Recently Applied Health Events */}
+          {appliedHealthEvents.length > 0 && (
+            <div className="p-4 border-b border-dungeon-700/50">
+              <h3 className="font-display font-semibold flex items-center gap-2 mb-4">
+                <History className="w-4 h-4 text-dungeon-400" />
+                Recently Applied
+              </h3>
+              <div className="space-y-2">
+                {appliedHealthEvents.map((event) => (
+                  <div key={event.id} className="flex items-center justify-between gap-2 text-sm">
+                    <p className="text-dungeon-300 truncate" title={event.description}>
+                      {event.description}
+                    </p>
+                    <button
+                      onClick={() => handleHealthEventUndo(event.id)}
+                      className="btn-ghost p-1 text-dungeon-400 hover:text-parchment-100 flex-shrink-0"
+                      title="Undo"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Auto-Audio Status */}
           {autoAudioSettings.enabled && autoPlayingTrack && (
             <div className="p-4 border-b border-dungeon-700/50">
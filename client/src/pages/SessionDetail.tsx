@@ -1,5 +1,5 @@
-import { useEffect, useState } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import {
   ArrowLeft,
   Play,
@@ -9,8 +9,31 @@ import {
   Download,
   Edit2,
   Save,
+  Volume2,
+  Square,
+  RefreshCw,
+  AlertCircle,
+  Mic,
+  Trash2,
+  Scissors,
+  Merge,
+  History,
+  Undo2,
+  X,
+  Sparkles,
+  ListChecks,
+  Activity,
 } from 'lucide-react';
 import { api } from '@/services/api';
+import { RecapPanel } from '@/components/RecapPanel';
+import { SessionSummaryPanel, SessionSummary } from '@/components/SessionSummaryPanel';
+import { HealthTimelinePanel } from '@/components/HealthTimelinePanel';
+
+interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
 
 interface TranscriptSegment {
   id: string;
@@ -18,17 +41,59 @@ interface TranscriptSegment {
   speakerLabel: string;
   speakerName: string | null;
   text: string;
+  audioOffset?: number;
+  audioDuration?: number;
+  words?: TranscriptWord[];
+  isEdited?: boolean;
+}
+
+interface TranscriptRevision {
+  id: string;
+  operation: 'edit_text' | 'reassign_speaker' | 'split' | 'merge' | 'delete';
+  anchorId: string | null;
+  before: TranscriptSegment[];
+  after: TranscriptSegment[];
+  undoneAt: string | null;
+  createdAt: string;
+  user: { name: string | null; email: string };
+}
+
+interface TranscriptPage {
+  items: TranscriptSegment[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+interface Player {
+  id: string;
+  playerName: string;
+  characterName: string;
 }
 
+const TRANSCRIPT_PAGE_SIZE = 200;
+
+const OPERATION_LABELS: Record<TranscriptRevision['operation'], string> = {
+  edit_text: 'Edited text',
+  reassign_speaker: 'Changed speaker',
+  split: 'Split segment',
+  merge: 'Merged segments',
+  delete: 'Deleted segment',
+};
+
 interface Session {
   id: string;
   sessionNumber: number;
   title: string | null;
   date: string;
   status: 'draft' | 'in_progress' | 'completed';
-  transcript: TranscriptSegment[];
+  segmentCount: number;
   notes: string | null;
   recap: string | null;
+  summary: SessionSummary | null;
+  audioDurationMs: number;
+  retranscribedAt: string | null;
   campaign: {
     id: string;
     name: string;
@@ -39,10 +104,38 @@ export function SessionDetail() {
   const { campaignId, sessionId } = useParams<{ campaignId: string; sessionId: string }>();
   const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'transcript' | 'recap' | 'notes'>('transcript');
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [transcriptPage, setTranscriptPage] = useState(0);
+  const [transcriptPages, setTranscriptPages] = useState(0);
+  const [isLoadingSegments, setIsLoadingSegments] = useState(false);
+  // Search results link here with ?segment=<id> (or ?tab=summary|recap|health|notes)
+  const [searchParams, setSearchParams] = useSearchParams();
+  const targetSegmentId = searchParams.get('segment');
+  const [activeTab, setActiveTab] = useState<'transcript' | 'summary' | 'recap' | 'health' | 'notes'>(() => {
+    const tab = searchParams.get('tab');
+    return tab === 'summary' || tab === 'recap' || tab === 'health' || tab === 'notes' ? tab : 'transcript';
+  });
   const [isEditingNotes, setIsEditingNotes] = useState(false);
   const [notes, setNotes] = useState('');
   const [isSaving, setIsSaving] = useState(false);
+  const [playingSegmentId, setPlayingSegmentId] = useState<string | null>(null);
+  const [playbackMs, setPlaybackMs] = useState(0);
+  const [isRetranscribing, setIsRetranscribing] = useState(false);
+  const [isLearningVoices, setIsLearningVoices] = useState(false);
+  const [voicesLearned, setVoicesLearned] = useState<number | null>(null);
+  const [isExtractingLore, setIsExtractingLore] = useState(false);
+  const [loreProposed, setLoreProposed] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [editingSegmentId, setEditingSegmentId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [revisions, setRevisions] = useState<TranscriptRevision[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const editTextRef = useRef<HTMLTextAreaElement | null>(null);
+  const scrolledToTarget = useRef(false);
+  // The page the linked segment is on, once the server has said (0: it isn't in the transcript)
+  const [targetPage, setTargetPage] = useState<number | 'loading' | null>(null);
 
   useEffect(() => {
     if (sessionId) {
@@ -50,11 +143,53 @@ export function SessionDetail() {
     }
   }, [sessionId]);
 
+  useEffect(() => {
+    if (campaignId) {
+      api.get<Player[]>(`/players?campaignId=${campaignId}`)
+        .then((response) => setPlayers(response.data || []))
+        .catch((error) => console.error('Failed to load players:', error));
+    }
+  }, [campaignId]);
+
+  // Load pages up to the one the linked segment is on, then scroll to it
+  useEffect(() => {
+    if (!targetSegmentId || scrolledToTarget.current || isLoadingSegments || transcriptPage === 0) return;
+    if (segments.some((s) => s.id === targetSegmentId)) {
+      document.getElementById(`segment-${targetSegmentId}`)?.scrollIntoView({ block: 'center' });
+      scrolledToTarget.current = true;
+    } else if (targetPage === null) {
+      setTargetPage('loading');
+      api.get<{ page: number }>(
+        `/sessions/${sessionId}/transcript/segments/${targetSegmentId}/page?pageSize=${TRANSCRIPT_PAGE_SIZE}`
+      )
+        .then((response) => setTargetPage(response.data?.page ?? 0))
+        .catch(() => setTargetPage(0));
+    } else if (targetPage !== 'loading' && transcriptPage < Math.min(targetPage, transcriptPages)) {
+      loadSegments(transcriptPage + 1);
+    } else if (targetPage !== 'loading') {
+      // Gone since it was linked, e.g. replaced by a re-transcription
+      scrolledToTarget.current = true;
+      setError('Segment not found; the transcript has changed since it was linked');
+    }
+  }, [targetSegmentId, targetPage, segments, transcriptPage, transcriptPages, isLoadingSegments]);
+
+  // Summary key events point at the transcript line they happened at
+  const jumpToSegment = (segmentId: string) => {
+    scrolledToTarget.current = false;
+    setTargetPage(null);
+    setSearchParams({ segment: segmentId });
+    setActiveTab('transcript');
+  };
+
+  // Stop playback when leaving the page
+  useEffect(() => () => stopSegmentAudio(), []);
+
   const loadSession = async () => {
     try {
       const response = await api.get<Session>(`/sessions/${sessionId}`);
       setSession(response.data || null);
       setNotes(response.data?.notes || '');
+      await loadSegments(1);
     } catch (error) {
       console.error('Failed to load session:', error);
     } finally {
@@ -62,6 +197,30 @@ export function SessionDetail() {
     }
   };
 
+  // Page 1 replaces the list; later pages extend it
+  const loadSegments = async (page: number) => {
+    setIsLoadingSegments(true);
+    try {
+      const response = await api.get<TranscriptPage>(
+        `/sessions/${sessionId}/transcript?page=${page}&pageSize=${TRANSCRIPT_PAGE_SIZE}`
+      );
+      if (!response.data) return;
+      const { items, totalPages } = response.data;
+      setSegments((current) => {
+        if (page === 1) return items;
+        // Edits shift rows between pages, so skip anything already shown
+        const loaded = new Set(current.map((s) => s.id));
+        return [...current, ...items.filter((s) => !loaded.has(s.id))];
+      });
+      setTranscriptPage(page);
+      setTranscriptPages(totalPages);
+    } catch (error) {
+      console.error('Failed to load transcript:', error);
+    } finally {
+      setIsLoadingSegments(false);
+    }
+  };
+
   const saveNotes = async () => {
     if (!sessionId) return;
     setIsSaving(true);
@@ -75,6 +234,184 @@ export function SessionDetail() {
     }
   };
 
+  const retranscribe = async () => {
+    if (!sessionId) return;
+    setIsRetranscribing(true);
+    setError(null);
+    try {
+      await api.post(`/sessions/${sessionId}/retranscribe`);
+      await loadSession();
+    } catch (error) {
+      console.error('Failed to re-transcribe session:', error);
+      setError(error instanceof Error ? error.message : 'Failed to re-transcribe session');
+    } finally {
+      setIsRetranscribing(false);
+    }
+  };
+
+  const learnVoices = async () => {
+    if (!campaignId) return;
+    setIsLearningVoices(true);
+    setError(null);
+    try {
+      const response = await api.post<{ updated: number }>('/voice-profiles/rebuild', { campaignId });
+      setVoicesLearned(response.data?.updated ?? 0);
+    } catch (error) {
+      console.error('Failed to learn voices:', error);
+      setError(error instanceof Error ? error.message : 'Failed to learn voices');
+    } finally {
+      setIsLearningVoices(false);
+    }
+  };
+
+  const extractLore = async () => {
+    if (!sessionId) return;
+    setIsExtractingLore(true);
+    setError(null);
+    try {
+      const response = await api.post<unknown[]>(`/sessions/${sessionId}/lore/extract`);
+      setLoreProposed(response.data?.length ?? 0);
+    } catch (error) {
+      console.error('Failed to extract lore:', error);
+      setError(error instanceof Error ? error.message : 'Failed to extract lore');
+    } finally {
+      setIsExtractingLore(false);
+    }
+  };
+
+  const loadRevisions = async () => {
+    try {
+      const response = await api.get<TranscriptRevision[]>(`/sessions/${sessionId}/transcript/revisions`);
+      setRevisions(response.data || []);
+    } catch (error) {
+      console.error('Failed to load revisions:', error);
+    }
+  };
+
+  const toggleHistory = () => {
+    if (!showHistory) loadRevisions();
+    setShowHistory(!showHistory);
+  };
+
+  // Swap the `removed` run for `inserted` right after the anchor. Runs past the
+  // loaded pages are left alone; they arrive with the next page.
+  const replaceSegments = (anchorId: string | null, removed: TranscriptSegment[], inserted: TranscriptSegment[]) => {
+    setSegments((current) => {
+      const removedIds = new Set(removed.map((s) => s.id));
+      const rest = current.filter((s) => !removedIds.has(s.id));
+      const at = anchorId === null ? 0 : rest.findIndex((s) => s.id === anchorId) + 1;
+      if (at === 0 && anchorId !== null) return rest;
+      return [...rest.slice(0, at), ...inserted, ...rest.slice(at)];
+    });
+    setSession((current) =>
+      current ? { ...current, segmentCount: current.segmentCount + inserted.length - removed.length } : current
+    );
+  };
+
+  // Every transcript edit returns its revision, which says exactly which segments changed
+  const editTranscript = async (request: () => Promise<{ data?: TranscriptRevision }>) => {
+    setError(null);
+    try {
+      const response = await request();
+      const revision = response.data;
+      if (revision) {
+        if (revision.undoneAt) {
+          replaceSegments(revision.anchorId, revision.after, revision.before);
+        } else {
+          replaceSegments(revision.anchorId, revision.before, revision.after);
+        }
+      }
+      setEditingSegmentId(null);
+      if (showHistory) await loadRevisions();
+    } catch (error) {
+      console.error('Failed to edit transcript:', error);
+      setError(error instanceof Error ? error.message : 'Failed to edit transcript');
+    }
+  };
+
+  const startEditing = (segment: TranscriptSegment) => {
+    setEditingSegmentId(segment.id);
+    setEditText(segment.text);
+  };
+
+  const saveSegmentText = (segmentId: string) =>
+    editTranscript(() =>
+      api.patch<TranscriptRevision>(`/sessions/${sessionId}/transcript/segments/${segmentId}`, { text: editText })
+    );
+
+  // Splits the saved text where the cursor is in the editor
+  const splitAtCursor = (segmentId: string) => {
+    const at = editTextRef.current?.selectionStart ?? 0;
+    return editTranscript(() =>
+      api.post<TranscriptRevision>(`/sessions/${sessionId}/transcript/segments/${segmentId}/split`, { at })
+    );
+  };
+
+  const reassignSegmentSpeaker = (segmentId: string, speakerName: string) =>
+    editTranscript(() =>
+      api.patch<TranscriptRevision>(`/sessions/${sessionId}/transcript/segments/${segmentId}`, {
+        speakerName: speakerName || null,
+      })
+    );
+
+  const mergeWithNext = (firstId: string, secondId: string) =>
+    editTranscript(() =>
+      api.post<TranscriptRevision>(`/sessions/${sessionId}/transcript/merge`, { firstId, secondId })
+    );
+
+  const deleteTranscriptSegment = (segmentId: string) =>
+    editTranscript(() =>
+      api.delete<TranscriptRevision>(`/sessions/${sessionId}/transcript/segments/${segmentId}`)
+    );
+
+  const undoRevision = (revisionId: string) =>
+    editTranscript(() =>
+      api.post<TranscriptRevision>(`/sessions/${sessionId}/transcript/revisions/${revisionId}/undo`)
+    );
+
+  const stopSegmentAudio = () => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      URL.revokeObjectURL(audioRef.current.src);
+      audioRef.current = null;
+    }
+    setPlayingSegmentId(null);
+  };
+
+  const playSegmentAudio = async (segment: TranscriptSegment, index: number) => {
+    if (!session || segment.audioOffset === undefined) return;
+
+    const wasPlaying = playingSegmentId === segment.id;
+    stopSegmentAudio();
+    if (wasPlaying) return;
+
+    // Play to the end of the utterance, or up to the next segment if the span is unknown
+    const nextOffset = segments[index + 1]?.audioOffset;
+    const duration = segment.audioDuration ?? (nextOffset !== undefined ? nextOffset - segment.audioOffset : 10000);
+    const start = Math.max(0, segment.audioOffset - 250);
+    const end = segment.audioOffset + duration + 250;
+
+    try {
+      setPlayingSegmentId(segment.id);
+      const blob = await api.getBlob(`/sessions/${sessionId}/audio?start=${start}&end=${end}`);
+      const audio = new Audio(URL.createObjectURL(blob));
+      audio.onended = stopSegmentAudio;
+      audioRef.current = audio;
+      await audio.play();
+
+      // Follow the playhead (in session audio time) so the current word can be highlighted
+      const track = () => {
+        if (audioRef.current !== audio) return;
+        setPlaybackMs(start + audio.currentTime * 1000);
+        requestAnimationFrame(track);
+      };
+      requestAnimationFrame(track);
+    } catch (error) {
+      console.error('Failed to play segment audio:', error);
+      stopSegmentAudio();
+    }
+  };
+
   const formatTimestamp = (ms: number) => {
     const totalSeconds = Math.floor(ms / 1000);
     const hours = Math.floor(totalSeconds / 3600);
@@ -87,10 +424,25 @@ export function SessionDetail() {
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  const downloadTranscript = () => {
+  // Exports the whole transcript, not just the pages loaded so far
+  const downloadTranscript = async () => {
     if (!session) return;
 
-    const text = session.transcript
+    const all: TranscriptSegment[] = [];
+    try {
+      for (let page = 1, totalPages = 1; page <= totalPages; page++) {
+        const response = await api.get<TranscriptPage>(`/sessions/${sessionId}/transcript?page=${page}&pageSize=500`);
+        if (!response.data) break;
+        all.push(...response.data.items);
+        totalPages = response.data.totalPages;
+      }
+    } catch (error) {
+      console.error('Failed to download transcript:', error);
+      setError(error instanceof Error ? error.message : 'Failed to download transcript');
+      return;
+    }
+
+    const text = all
       .map((s) => `[${formatTimestamp(s.timestamp)}] ${s.speakerName || s.speakerLabel}: ${s.text}`)
       .join('\n\n');
 
@@ -122,6 +474,10 @@ export function SessionDetail() {
     );
   }
 
+  // The live session keeps rewriting the transcript, so edits wait until it has ended
+  const canEditTranscript = session.status !== 'in_progress';
+  const speakerOptions = ['DM', ...players.map((p) => p.playerName)];
+
   return (
     <div className="p-8 max-w-5xl mx-auto">
       {/* Header */}
@@ -147,7 +503,7 @@ export function SessionDetail() {
               </span>
               <span className="flex items-center gap-1">
                 <MessageSquare className="w-4 h-4" />
-                {session.transcript.length} segments
+                {session.segmentCount} segments
               </span>
               <span
                 className={`badge ${
@@ -189,6 +545,18 @@ export function SessionDetail() {
             <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-mystic-500" />
           )}
         </button>
+        <button
+          onClick={() => setActiveTab('summary')}
+          className={`px-4 py-3 font-display text-sm transition-colors relative
+            ${activeTab === 'summary' ? 'text-mystic-400' : 'text-dungeon-400 hover:text-parchment-200'}
+          `}
+        >
+          <ListChecks className="w-4 h-4 inline mr-2" />
+          Summary
+          {activeTab === 'summary' && (
+            <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-mystic-500" />
+          )}
+        </button>
         <button
           onClick={() => setActiveTab('recap')}
           className={`px-4 py-3 font-display text-sm transition-colors relative
@@ -201,6 +569,18 @@ export function SessionDetail() {
             <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-mystic-500" />
           )}
         </button>
+        <button
+          onClick={() => setActiveTab('health')}
+          className={`px-4 py-3 font-display text-sm transition-colors relative
+            ${activeTab === 'health' ? 'text-mystic-400' : 'text-dungeon-400 hover:text-parchment-200'}
+          `}
+        >
+          <Activity className="w-4 h-4 inline mr-2" />
+          HP
+          {activeTab === 'health' && (
+            <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-mystic-500" />
+          )}
+        </button>
         <button
           onClick={() => setActiveTab('notes')}
           className={`px-4 py-3 font-display text-sm transition-colors relative
@@ -218,7 +598,71 @@ export function SessionDetail() {
       {/* Transcript Tab */}
       {activeTab === 'transcript' && (
         <div>
-          <div className="flex justify-end mb-4">
+          <div className="flex items-center justify-end gap-2 mb-4">
+            {session.retranscribedAt && (
+              <span className="badge badge-success" title={new Date(session.retranscribedAt).toLocaleString()}>
+                Re-transcribed
+              </span>
+            )}
+            {error && (
+              <div className="flex items-center gap-2 text-dragon-400 text-sm">
+                <AlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            )}
+            {voicesLearned !== null && (
+              <span className="badge badge-success">
+                {voicesLearned} voice{voicesLearned === 1 ? '' : 's'} learned
+              </span>
+            )}
+            {loreProposed !== null && (
+              <Link to={`/app/campaigns/${campaignId}`} className="badge badge-mystic">
+                {loreProposed} new lore proposal{loreProposed === 1 ? '' : 's'} to review
+              </Link>
+            )}
+            <div className="flex-1" />
+            {session.segmentCount > 0 && session.status !== 'in_progress' && (
+              <button
+                onClick={extractLore}
+                disabled={isExtractingLore}
+                className="btn-secondary text-sm flex items-center gap-2"
+                title="Look for new NPCs, places, items and plot threads in this transcript and queue them for review"
+              >
+                <Sparkles className={`w-4 h-4 ${isExtractingLore ? 'animate-pulse' : ''}`} />
+                {isExtractingLore ? 'Finding Lore...' : 'Find Lore'}
+              </button>
+            )}
+            {session.audioDurationMs > 0 && session.status !== 'in_progress' && (
+              <button
+                onClick={learnVoices}
+                disabled={isLearningVoices}
+                className="btn-secondary text-sm flex items-center gap-2"
+                title="Update the campaign's voice profiles from the speakers you confirmed in this transcript"
+              >
+                <Mic className={`w-4 h-4 ${isLearningVoices ? 'animate-pulse' : ''}`} />
+                {isLearningVoices ? 'Learning...' : 'Learn Voices'}
+              </button>
+            )}
+            {session.audioDurationMs > 0 && session.status !== 'in_progress' && (
+              <button
+                onClick={retranscribe}
+                disabled={isRetranscribing}
+                className="btn-secondary text-sm flex items-center gap-2"
+                title="Run a slower, more accurate transcription over the recorded audio. Your edits are kept."
+              >
+                <RefreshCw className={`w-4 h-4 ${isRetranscribing ? 'animate-spin' : ''}`} />
+                {isRetranscribing ? 'Re-transcribing...' : 'Improve Transcript'}
+              </button>
+            )}
+            {canEditTranscript && (
+              <button
+                onClick={toggleHistory}
+                className="btn-secondary text-sm flex items-center gap-2"
+              >
+                <History className="w-4 h-4" />
+                History
+              </button>
+            )}
             <button
               onClick={downloadTranscript}
               className="btn-secondary text-sm flex items-center gap-2"
@@ -228,7 +672,56 @@ export function SessionDetail() {
             </button>
           </div>
 
-          {session.transcript.length === 0 ? (
+          {showHistory && (
+            <div className="card mb-4">
+              <div className="card-header flex items-center justify-between">
+                <h3 className="font-display font-semibold">Edit History</h3>
+                <button
+                  onClick={() => setShowHistory(false)}
+                  className="text-dungeon-400 hover:text-parchment-200"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="divide-y divide-dungeon-700/50 max-h-64 overflow-y-auto scrollbar-thin">
+                {revisions.length === 0 ? (
+                  <div className="p-4 text-center text-sm text-dungeon-400">No edits yet</div>
+                ) : (
+                  revisions.map((revision) => (
+                    <div key={revision.id} className="p-3 flex items-center gap-3 text-sm">
+                      <div className="flex-1 min-w-0">
+                        <p className={revision.undoneAt ? 'text-dungeon-500 line-through' : 'text-parchment-200'}>
+                          {OPERATION_LABELS[revision.operation]}
+                          {revision.before[0] && (
+                            <span className="text-dungeon-400">
+                              {' '}- "{revision.before[0].text.substring(0, 60)}"
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-dungeon-500">
+                          {revision.user.name || revision.user.email} •{' '}
+                          {new Date(revision.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                      {revision.undoneAt ? (
+                        <span className="badge badge-mystic">undone</span>
+                      ) : (
+                        <button
+                          onClick={() => undoRevision(revision.id)}
+                          className="btn-ghost text-sm flex items-center gap-1"
+                        >
+                          <Undo2 className="w-4 h-4" />
+                          Undo
+                        </button>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
+          {segments.length === 0 ? (
             <div className="card">
               <div className="card-body text-center py-12">
                 <MessageSquare className="w-12 h-12 text-dungeon-500 mx-auto mb-4" />
@@ -238,61 +731,190 @@ export function SessionDetail() {
           ) : (
             <div className="card">
               <div className="card-body space-y-4 max-h-[600px] overflow-y-auto scrollbar-thin">
-                {session.transcript.map((segment, index) => (
+                {segments.map((segment, index) => (
                   <div
                     key={segment.id || index}
-                    className={`transcript-segment ${
+                    id={`segment-${segment.id}`}
+                    className={`transcript-segment group ${
                       segment.speakerName?.includes('DM')
                         ? 'transcript-segment-dm'
                         : 'transcript-segment-player'
-                    }`}
+                    } ${segment.id === targetSegmentId ? 'ring-2 ring-mystic-500' : ''}`}
                   >
                     <div className="flex items-start gap-4">
                       <span className="text-xs text-dungeon-500 font-mono whitespace-nowrap mt-1">
                         {formatTimestamp(segment.timestamp)}
                       </span>
                       <div className="flex-1">
-                        <span className="font-semibold text-mystic-400">
-                          {segment.speakerName || segment.speakerLabel}
-                        </span>
-                        <p className="text-parchment-200 mt-1">{segment.text}</p>
+                        <div className="flex items-center gap-2">
+                          {canEditTranscript ? (
+                            <select
+                              value={segment.speakerName || ''}
+                              onChange={(e) => reassignSegmentSpeaker(segment.id, e.target.value)}
+                              className="bg-transparent font-semibold text-mystic-400 border-none p-0 cursor-pointer focus:ring-0"
+                              title="Change speaker"
+                            >
+                              <option value="">{segment.speakerLabel}</option>
+                              {[...new Set([...speakerOptions, ...(segment.speakerName ? [segment.speakerName] : [])])].map(
+                                (name) => (
+                                  <option key={name} value={name}>
+                                    {name}
+                                  </option>
+                                )
+                              )}
+                            </select>
+                          ) : (
+                            <span className="font-semibold text-mystic-400">
+                              {segment.speakerName || segment.speakerLabel}
+                            </span>
+                          )}
+                          {segment.isEdited && (
+                            <span className="text-xs text-dungeon-500">edited</span>
+                          )}
+                        </div>
+                        {editingSegmentId === segment.id ? (
+                          <div className="mt-1 space-y-2">
+                            <textarea
+                              ref={editTextRef}
+                              value={editText}
+                              onChange={(e) => setEditText(e.target.value)}
+                              className="input min-h-[80px]"
+                              autoFocus
+                            />
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => saveSegmentText(segment.id)}
+                                disabled={!editText.trim() || editText === segment.text}
+                                className="btn-primary text-sm flex items-center gap-1"
+                              >
+                                <Save className="w-4 h-4" />
+                                Save
+                              </button>
+                              <button
+                                onClick={() => splitAtCursor(segment.id)}
+                                disabled={editText !== segment.text}
+                                className="btn-secondary text-sm flex items-center gap-1"
+                                title="Split the segment where the cursor is"
+                              >
+                                <Scissors className="w-4 h-4" />
+                                Split at Cursor
+                              </button>
+                              <button
+                                onClick={() => setEditingSegmentId(null)}
+                                className="btn-ghost text-sm"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <p className="text-parchment-200 mt-1">
+                            {playingSegmentId === segment.id && segment.words?.length
+                              ? segment.words.map((word, wordIndex) => (
+                                  <span
+                                    key={wordIndex}
+                                    className={
+                                      playbackMs >= word.start && playbackMs < word.end
+                                        ? 'bg-mystic-500/30 rounded'
+                                        : ''
+                                    }
+                                  >
+                                    {word.text}{' '}
+                                  </span>
+                                ))
+                              : segment.text}
+                          </p>
+                        )}
                       </div>
+                      {canEditTranscript && editingSegmentId !== segment.id && (
+                        <div className="flex items-center gap-2 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button
+                            onClick={() => startEditing(segment)}
+                            className="text-dungeon-400 hover:text-parchment-200"
+                            title="Edit text"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          {segments[index + 1] && (
+                            <button
+                              onClick={() => mergeWithNext(segment.id, segments[index + 1].id)}
+                              className="text-dungeon-400 hover:text-parchment-200"
+                              title="Merge with next segment"
+                            >
+                              <Merge className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => deleteTranscriptSegment(segment.id)}
+                            className="text-dungeon-400 hover:text-dragon-400"
+                            title="Delete segment"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                      {segment.audioOffset !== undefined && session.audioDurationMs > 0 && (
+                        <button
+                          onClick={() => playSegmentAudio(segment, index)}
+                          className="text-dungeon-400 hover:text-mystic-400 mt-1"
+                          title={playingSegmentId === segment.id ? 'Stop' : 'Play recording'}
+                        >
+                          {playingSegmentId === segment.id ? (
+                            <Square className="w-4 h-4" />
+                          ) : (
+                            <Volume2 className="w-4 h-4" />
+                          )}
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
+                {transcriptPage < transcriptPages && (
+                  <div className="text-center">
+                    <button
+                      onClick={() => loadSegments(transcriptPage + 1)}
+                      disabled={isLoadingSegments}
+                      className="btn-secondary text-sm"
+                    >
+                      {isLoadingSegments
+                        ? 'Loading...'
+                        : `Load more (${segments.length} of ${session.segmentCount})`}
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           )}
         </div>
       )}
 
+      {/* Summary Tab */}
+      {activeTab === 'summary' && (
+        <SessionSummaryPanel
+          sessionId={session.id}
+          summary={session.summary}
+          canRegenerate={session.status !== 'in_progress' && session.segmentCount > 0}
+          onChange={(summary) => setSession((current) => (current ? { ...current, summary } : current))}
+          onJumpToSegment={jumpToSegment}
+        />
+      )}
+
       {/* Recap Tab */}
       {activeTab === 'recap' && (
-        <div className="card">
-          <div className="card-header">
-            <h3 className="font-display text-lg font-semibold">
-              Previously on {session.campaign.name}...
-            </h3>
-          </div>
-          <div className="card-body">
-            {session.recap ? (
-              <div className="prose prose-invert max-w-none">
-                <p className="text-parchment-200 whitespace-pre-wrap leading-relaxed italic">
-                  {session.recap}
-                </p>
-              </div>
-            ) : (
-              <div className="text-center py-8">
-                <BookOpen className="w-12 h-12 text-dungeon-500 mx-auto mb-4" />
-                <p className="text-dungeon-400">
-                  No recap available. Recaps are generated when a session ends.
-                </p>
-              </div>
-            )}
-          </div>
-        </div>
+        <RecapPanel
+          sessionId={session.id}
+          sessionNumber={session.sessionNumber}
+          campaignId={session.campaign.id}
+          campaignName={session.campaign.name}
+          recap={session.recap}
+          canRegenerate={session.status !== 'in_progress' && session.segmentCount > 0}
+          onChange={(recap) => setSession((current) => (current ? { ...current, recap } : current))}
+        />
       )}
 
+      {/* HP Tab */}
+      {activeTab === 'health' && <HealthTimelinePanel sessionId={session.id} />}
+
       {/* Notes Tab */}
       {activeTab === 'notes' && (
         <div className="card">
@@ -43,6 +43,22 @@ class ApiClient {
     return this.handleResponse<T>(response);
   }
 
+  // Binary responses (e.g. recorded audio) that can't go through the JSON envelope
+  async getBlob(endpoint: string): Promise<Blob> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`${API_BASE}${endpoint}`, {
+      method: 'GET',
+      headers,
+    });
+    
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'An error occurred');
+    }
+    
+    return response.blob();
+  }
+
   async post<T>(endpoint: string, data?: unknown): Promise<ApiResponse<T>> {
     const headers = await this.getAuthHeaders();
     const response = await fetch(`${API_BASE}${endpoint}`, {
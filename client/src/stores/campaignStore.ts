@@ -6,6 +6,12 @@ interface Campaign {
   name: string;
   description: string | null;
   worldContext: string | null;
+  llmProvider: 'openai' | 'local' | 'rules' | null;
+  recapStyle: 'narrative' | 'bard' | 'newspaper' | 'bullets' | 'letter';
+  recapLength: 'short' | 'medium' | 'long';
+  storySoFar: string | null;
+  storySoFarThrough: number | null; // Last session folded into the story
+  storySoFarUpdatedAt: string | null;
   createdAt: string;
   updatedAt: string;
   _count?: {
@@ -23,7 +29,14 @@ interface CampaignStore {
   
   fetchCampaigns: () => Promise<void>;
   fetchCampaign: (id: string) => Promise<void>;
-  createCampaign: (data: { name: string; description?: string; worldContext?: string }) => Promise<Campaign>;
+  createCampaign: (data: {
+    name: string;
+    description?: string;
+    worldContext?: string;
+    llmProvider?: Campaign['llmProvider'];
+    recapStyle?: Campaign['recapStyle'];
+    recapLength?: Campaign['recapLength'];
+  }) => Promise<Campaign>;
   updateCampaign: (id: string, data: Partial<Campaign>) => Promise<void>;
   deleteCampaign: (id: string) => Promise<void>;
   clearError: () => void;
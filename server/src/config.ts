@@ -14,12 +14,67 @@ export const config = {
   clerkPublishableKey: process.env.CLERK_PUBLISHABLE_KEY || '',
   clerkSecretKey: process.env.CLERK_SECRET_KEY || '',
   
+  // Transcription provider: 'deepgram' (cloud), 'whisper' (local whisper.cpp binary)
+  // or 'scripted' (replays a text file, for offline runs and testing)
+  transcriptionProvider: (process.env.TRANSCRIPTION_PROVIDER || 'deepgram') as 'deepgram' | 'whisper' | 'scripted',
+  
   // Deepgram
   deepgramApiKey: process.env.DEEPGRAM_API_KEY || '',
   
+  // Post-session accuracy pass over the stored audio (Deepgram prerecorded API)
+  retranscribeAfterSession: process.env.RETRANSCRIBE_AFTER_SESSION === 'true',
+  retranscriptionModel: process.env.RETRANSCRIPTION_MODEL || 'nova-3',
+  
+  // Local whisper.cpp
+  whisperBinaryPath: process.env.WHISPER_BINARY_PATH || 'whisper-cli',
+  whisperModelPath: process.env.WHISPER_MODEL_PATH || '',
+  whisperWindowMs: parseInt(process.env.WHISPER_WINDOW_MS || '5000', 10),
+  
+  // Scripted transcription
+  scriptedTranscriptPath: process.env.SCRIPTED_TRANSCRIPT_PATH || '',
+  scriptedIntervalMs: parseInt(process.env.SCRIPTED_INTERVAL_MS || '3000', 10),
+  
+  // Recorded audio/transcripts that sessions can be replayed from
+  replayDir: process.env.REPLAY_DIR || './replays',
+  
+  // Raw session audio storage: 'disk' (chunk files under AUDIO_STORAGE_DIR) or 'none'
+  audioStorage: (process.env.AUDIO_STORAGE || 'disk') as 'disk' | 'none',
+  audioStorageDir: process.env.AUDIO_STORAGE_DIR || './session-audio',
+  audioChunkMs: parseInt(process.env.AUDIO_CHUNK_MS || '60000', 10),
+  
+  // Voice profiles: learned from confirmed attributions in stored audio, used to
+  // pre-map diarization labels to players in later sessions
+  voiceProfiles: process.env.VOICE_PROFILES !== 'false',
+  voiceMatchThreshold: parseFloat(process.env.VOICE_MATCH_THRESHOLD || '0.4'),
+  voiceMatchMinMs: parseInt(process.env.VOICE_MATCH_MIN_MS || '6000', 10),
+  
+  // LLM provider: 'openai', 'local' (OpenAI-compatible server such as llama.cpp or Ollama)
+  // or 'rules' (deterministic keyword stub, no model). Campaigns can override this.
+  llmProvider: (process.env.LLM_PROVIDER || 'openai') as 'openai' | 'local' | 'rules',
+  llmModel: process.env.LLM_MODEL || 'gpt-4-turbo-preview',
+  
   // OpenAI
   openaiApiKey: process.env.OPENAI_API_KEY || '',
   
+  // Local OpenAI-compatible endpoint
+  llmBaseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+  llmLocalModel: process.env.LLM_LOCAL_MODEL || 'llama3.1',
+  llmApiKey: process.env.LLM_API_KEY || '',
+  
+  // Embeddings for "ask the campaign": 'hashing' (built-in, offline), 'openai',
+  // or 'local' (the OpenAI-compatible server at LLM_BASE_URL)
+  embeddingProvider: (process.env.EMBEDDING_PROVIDER || 'hashing') as 'hashing' | 'openai' | 'local',
+  embeddingDimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || '384', 10),
+  embeddingModel: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+  embeddingLocalModel: process.env.EMBEDDING_LOCAL_MODEL || 'nomic-embed-text',
+  
+  // Text-to-speech for reading recaps aloud: 'openai', 'piper' (local piper binary) or 'none'
+  ttsProvider: (process.env.TTS_PROVIDER || 'openai') as 'openai' | 'piper' | 'none',
+  ttsModel: process.env.TTS_MODEL || 'tts-1',
+  ttsVoice: process.env.TTS_VOICE || 'fable',
+  piperBinaryPath: process.env.PIPER_BINARY_PATH || 'piper',
+  piperModelPath: process.env.PIPER_MODEL_PATH || '',
+  
   // Audio Library APIs
   freesoundApiKey: process.env.FREESOUND_API_KEY || '',
   jamendoClientId: process.env.JAMENDO_CLIENT_ID || '',
@@ -27,12 +82,20 @@ export const config = {
 
 // Validate required config in production
 if (config.nodeEnv === 'production') {
-  const required = [
+  const required: Array<'databaseUrl' | 'clerkSecretKey' | 'deepgramApiKey' | 'openaiApiKey'> = [
     'databaseUrl',
     'clerkSecretKey',
-    'deepgramApiKey',
-    'openaiApiKey',
-  ] as const;
+  ];
+  
+  // OpenAI is only needed when it is the default LLM or embedding provider
+  if (config.llmProvider === 'openai' || config.embeddingProvider === 'openai') {
+    required.push('openaiApiKey');
+  }
+  
+  // Deepgram is only needed when it is the selected transcription provider
+  if (config.transcriptionProvider === 'deepgram') {
+    required.push('deepgramApiKey');
+  }
   
   for (const key of required) {
     if (!config[key]) {
@@ -10,6 +10,12 @@ import { playerRouter } from './routes/players.js';
 import { npcRouter } from './routes/npcs.js';
 import { soundMappingRouter } from './routes/soundMappings.js';
 import { audioLibraryRouter } from './routes/audioLibrary.js';
+import { voiceProfileRouter } from './routes/voiceProfiles.js';
+import { locationRouter } from './routes/locations.js';
+import { factionRouter } from './routes/factions.js';
+import { itemRouter } from './routes/items.js';
+import { questRouter } from './routes/quests.js';
+import { loreProposalRouter } from './routes/loreProposals.js';
 import { setupWebSocket } from './websocket/index.js';
 import { errorHandler } from './middleware/errorHandler.js';
 import { authMiddleware } from './middleware/auth.js';
@@ -32,6 +38,8 @@ app.use(cors({
   origin: config.clientUrl,
   credentials: true,
 }));
+// Player routes parse their own bodies, after auth (character imports need a bigger limit)
+app.use('/api/players', authMiddleware, playerRouter);
 app.use(express.json());
 
 // Health check
@@ -42,10 +50,15 @@ app.get('/health', (_, res) => {
 // API routes
 app.use('/api/campaigns', authMiddleware, campaignRouter);
 app.use('/api/sessions', authMiddleware, sessionRouter);
-app.use('/api/players', authMiddleware, playerRouter);
 app.use('/api/npcs', authMiddleware, npcRouter);
 app.use('/api/sound-mappings', authMiddleware, soundMappingRouter);
 app.use('/api/audio-library', authMiddleware, audioLibraryRouter);
+app.use('/api/voice-profiles', authMiddleware, voiceProfileRouter);
+app.use('/api/locations', authMiddleware, locationRouter);
+app.use('/api/factions', authMiddleware, factionRouter);
+app.use('/api/items', authMiddleware, itemRouter);
+app.use('/api/quests', authMiddleware, questRouter);
+app.use('/api/lore-proposals', authMiddleware, loreProposalRouter);
 
 // Error handler
 app.use(errorHandler);
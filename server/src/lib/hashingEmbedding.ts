@@ -0,0 +1,68 @@
+// Offline text embedding by feature hashing: stemmed words, word pairs and
+// character trigrams are hashed into a fixed-size vector. It captures lexical
+// overlap rather than meaning, but needs no model and tolerates the misspelled
+// names speech-to-text produces ("Lord Varn" / "lord vahrn") through the trigrams.
+
+const STOPWORDS = new Set([
+  'a', 'about', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'for', 'from', 'get', 'got', 'had', 'has', 'have', 'he', 'her',
+  'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'like', 'me', 'my', 'no',
+  'not', 'of', 'oh', 'ok', 'okay', 'on', 'or', 'our', 'out', 'she', 'so', 'that', 'the', 'their',
+  'them', 'then', 'there', 'they', 'this', 'to', 'um', 'uh', 'up', 'us', 'was', 'we', 'were', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'yeah', 'you', 'your',
+]);
+
+const WORD_WEIGHT = 1;
+const PAIR_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+// Crude suffix stripping so "promised", "promises" and "promising" share a feature
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word.replace(/(ing|ed|es|s)$/, '');
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9']+/g) || [])
+    .map(word => word.replace(/'s$|'/g, ''))
+    .filter(word => word && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+// FNV-1a, 32-bit
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Embed text into a unit-length vector of `dimensions` values
+ */
+export function hashingEmbedding(text: string, dimensions: number): number[] {
+  const counts = new Map<string, number>();
+  const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) ?? 0) + weight);
+
+  const words = tokenize(text);
+  words.forEach((word, i) => {
+    add(`w:${word}`, WORD_WEIGHT);
+    if (i > 0) add(`p:${words[i - 1]} ${word}`, PAIR_WEIGHT);
+    const padded = `^${word}$`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  const vector = new Array(dimensions).fill(0);
+  for (const [feature, weight] of counts) {
+    const h = hash(feature);
+    // The top bit picks the sign so collisions tend to cancel rather than pile up
+    vector[h % dimensions] += (h & 0x80000000 ? -1 : 1) * Math.log1p(weight);
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
@@ -0,0 +1,204 @@
+import { setImmediate as yieldToEventLoop } from 'timers/promises';
+import { BYTES_PER_MS, SAMPLE_RATE } from './wav.js';
+
+// Classic lightweight speaker features: MFCC statistics over voiced frames plus pitch.
+// Not a neural speaker embedding, but stable enough to tell a handful of people apart.
+
+const FRAME_SIZE = 400; // 25 ms
+const HOP_SIZE = 160; // 10 ms
+const FFT_SIZE = 512;
+const MEL_BANDS = 26;
+const MFCC_COUNT = 13; // c0 (loudness) is dropped from the vector
+const MIN_PITCH_HZ = 60;
+const MAX_PITCH_HZ = 400;
+// Frames quieter than this RMS (on a 0-1 scale) are treated as silence
+const SILENCE_RMS = 0.01;
+// Longer audio adds little to the estimate, so only its start is analysed
+const MAX_AUDIO_MS = 30_000;
+// Frames analysed between yields (a quarter second of audio), so sockets keep being served
+const FRAMES_PER_YIELD = 25;
+
+export interface VoiceFeatures {
+  vector: number[];
+  voicedMs: number;
+}
+
+function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+function melToHz(mel: number): number {
+  return 700 * (10 ** (mel / 2595) - 1);
+}
+
+// Triangular mel filters over the FFT bins, built once
+const MEL_FILTERS: number[][] = (() => {
+  const maxMel = hzToMel(SAMPLE_RATE / 2);
+  const bins = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+    Math.floor(((FFT_SIZE + 1) * melToHz((maxMel * i) / (MEL_BANDS + 1))) / SAMPLE_RATE)
+  );
+
+  return Array.from({ length: MEL_BANDS }, (_, band) => {
+    const filter = new Array(FFT_SIZE / 2 + 1).fill(0);
+    const [left, center, right] = [bins[band], bins[band + 1], bins[band + 2]];
+    for (let k = left; k < center; k++) filter[k] = (k - left) / Math.max(1, center - left);
+    for (let k = center; k < right; k++) filter[k] = (right - k) / Math.max(1, right - center);
+    return filter;
+  });
+})();
+
+const HAMMING = Array.from({ length: FRAME_SIZE }, (_, n) =>
+  0.54 - 0.46 * Math.cos((2 * Math.PI * n) / (FRAME_SIZE - 1))
+);
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+function frameMfcc(frame: Float64Array): number[] {
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) re[i] = frame[i] * HAMMING[i];
+  fft(re, im);
+
+  const power = new Float64Array(FFT_SIZE / 2 + 1);
+  for (let k = 0; k < power.length; k++) power[k] = re[k] * re[k] + im[k] * im[k];
+
+  const logMel = MEL_FILTERS.map(filter => {
+    let energy = 0;
+    for (let k = 0; k < filter.length; k++) energy += filter[k] * power[k];
+    return Math.log(energy + 1e-10);
+  });
+
+  // DCT-II of the log mel energies
+  return Array.from({ length: MFCC_COUNT }, (_, c) =>
+    logMel.reduce((sum, value, m) => sum + value * Math.cos((Math.PI * c * (m + 0.5)) / MEL_BANDS), 0)
+  );
+}
+
+/**
+ * Autocorrelation pitch estimate in Hz, or null when the frame isn't clearly periodic
+ */
+function framePitch(frame: Float64Array): number | null {
+  const minLag = Math.floor(SAMPLE_RATE / MAX_PITCH_HZ);
+  const maxLag = Math.min(FRAME_SIZE - 1, Math.ceil(SAMPLE_RATE / MIN_PITCH_HZ));
+
+  let energy = 0;
+  for (let i = 0; i < FRAME_SIZE; i++) energy += frame[i] * frame[i];
+
+  let bestLag = 0;
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < FRAME_SIZE; i++) sum += frame[i] * frame[i + lag];
+    if (sum > best) {
+      best = sum;
+      bestLag = lag;
+    }
+  }
+
+  return bestLag > 0 && best > 0.3 * energy ? SAMPLE_RATE / bestLag : null;
+}
+
+/**
+ * Extract a fixed-length voice vector from 16 kHz linear16 PCM (at most the first
+ * MAX_AUDIO_MS of it). The work yields to the event loop as it goes, since it runs
+ * alongside live sessions. Returns null when there is too little voiced audio to
+ * say anything.
+ */
+export async function extractVoiceFeatures(pcm: Buffer): Promise<VoiceFeatures | null> {
+  const samples = new Float64Array(Math.floor(Math.min(pcm.length, MAX_AUDIO_MS * BYTES_PER_MS) / 2));
+  for (let i = 0; i < samples.length; i++) samples[i] = pcm.readInt16LE(i * 2) / 32768;
+
+  const mfccs: number[][] = [];
+  const pitches: number[] = [];
+
+  for (let start = 0, frames = 0; start + FRAME_SIZE <= samples.length; start += HOP_SIZE) {
+    if (++frames % FRAMES_PER_YIELD === 0) await yieldToEventLoop();
+    const frame = samples.subarray(start, start + FRAME_SIZE);
+
+    let sumSquares = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) sumSquares += frame[i] * frame[i];
+    if (Math.sqrt(sumSquares / FRAME_SIZE) < SILENCE_RMS) continue;
+
+    mfccs.push(frameMfcc(frame).slice(1));
+    const pitch = framePitch(frame);
+    if (pitch !== null) pitches.push(pitch);
+  }
+
+  // Need at least half a second of speech
+  if (mfccs.length < 50) return null;
+
+  const dims = MFCC_COUNT - 1;
+  const mean = new Array(dims).fill(0);
+  const std = new Array(dims).fill(0);
+  for (const c of mfccs) for (let d = 0; d < dims; d++) mean[d] += c[d] / mfccs.length;
+  for (const c of mfccs) for (let d = 0; d < dims; d++) std[d] += (c[d] - mean[d]) ** 2 / mfccs.length;
+
+  const logPitches = pitches.map(p => Math.log(p));
+  const pitchMean = logPitches.length > 0 ? logPitches.reduce((a, b) => a + b, 0) / logPitches.length : 0;
+
+  return {
+    // Pitch is scaled up so it weighs roughly like one of the larger MFCC terms
+    vector: [...mean, ...std.map(Math.sqrt), pitchMean * 4],
+    voicedMs: (mfccs.length * HOP_SIZE * 1000) / SAMPLE_RATE,
+  };
+}
+
+/**
+ * Average several feature sets, weighting each by its amount of speech
+ */
+export function combineVoiceFeatures(features: VoiceFeatures[]): VoiceFeatures | null {
+  const totalMs = features.reduce((sum, f) => sum + f.voicedMs, 0);
+  if (features.length === 0 || totalMs === 0) return null;
+
+  const vector = new Array(features[0].vector.length).fill(0);
+  for (const f of features) {
+    f.vector.forEach((value, i) => { vector[i] += (value * f.voicedMs) / totalMs; });
+  }
+  return { vector, voicedMs: totalMs };
+}
+
+/**
+ * Similarity of two voice vectors in (0, 1], 1 meaning identical. Based on RMS
+ * distance rather than cosine: the MFCC statistics share large common offsets
+ * that push the cosine of any two voices close to 1.
+ */
+export function voiceSimilarity(a: number[], b: number[]): number {
+  const dims = Math.min(a.length, b.length);
+  if (dims === 0) return 0;
+
+  let sumSquares = 0;
+  for (let i = 0; i < dims; i++) sumSquares += (a[i] - b[i]) ** 2;
+  return 1 / (1 + Math.sqrt(sumSquares / dims));
+}
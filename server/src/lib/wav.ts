@@ -0,0 +1,71 @@
+// Helpers for the raw audio format streamed by the client:
+// 16 kHz, 16-bit signed little-endian (linear16), mono.
+
+export const SAMPLE_RATE = 16000;
+export const BYTES_PER_SAMPLE = 2;
+export const BYTES_PER_MS = (SAMPLE_RATE * BYTES_PER_SAMPLE) / 1000;
+
+/**
+ * Wrap raw linear16 PCM in a minimal RIFF/WAVE header
+ */
+export function encodeWav(pcm: Buffer, sampleRate: number = SAMPLE_RATE): Buffer {
+  const header = Buffer.alloc(44);
+  const byteRate = sampleRate * BYTES_PER_SAMPLE;
+
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(BYTES_PER_SAMPLE, 32); // block align
+  header.writeUInt16LE(BYTES_PER_SAMPLE * 8, 34); // bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Extract the raw PCM from a WAV file. Only 16 kHz mono linear16 is accepted,
+ * since that is what the transcription providers expect.
+ */
+export function decodeWav(wav: Buffer): Buffer {
+  if (wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let offset = 12;
+  let formatChecked = false;
+
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString('ascii', offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      const audioFormat = wav.readUInt16LE(chunkStart);
+      const channels = wav.readUInt16LE(chunkStart + 2);
+      const sampleRate = wav.readUInt32LE(chunkStart + 4);
+      const bitsPerSample = wav.readUInt16LE(chunkStart + 14);
+
+      if (audioFormat !== 1 || channels !== 1 || sampleRate !== SAMPLE_RATE || bitsPerSample !== 16) {
+        throw new Error(`WAV must be ${SAMPLE_RATE} Hz mono 16-bit PCM`);
+      }
+      formatChecked = true;
+    } else if (chunkId === 'data') {
+      if (!formatChecked) {
+        throw new Error('WAV data chunk appears before fmt chunk');
+      }
+      return wav.subarray(chunkStart, Math.min(chunkStart + chunkSize, wav.length));
+    }
+
+    // Chunks are padded to an even number of bytes
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
@@ -3,6 +3,14 @@ import { z } from 'zod';
 import { prisma } from '../lib/prisma.js';
 import { AuthenticatedRequest } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { searchCampaign } from '../services/search.js';
+import {
+  askCampaign,
+  indexCampaign,
+  retrieveKnowledge,
+  scheduleCampaignContextIndex,
+} from '../services/campaignKnowledge.js';
+import { loadStorySoFar, rebuildStorySoFar } from '../services/storySoFar.js';
 
 export const campaignRouter = Router();
 
@@ -11,14 +19,49 @@ const createCampaignSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(1000).optional(),
   worldContext: z.string().max(10000).optional(),
+  llmProvider: z.enum(['openai', 'local', 'rules']).nullable().optional(),
+  recapStyle: z.enum(['narrative', 'bard', 'newspaper', 'bullets', 'letter']).optional(),
+  recapLength: z.enum(['short', 'medium', 'long']).optional(),
 });
 
 const updateCampaignSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   description: z.string().max(1000).optional(),
   worldContext: z.string().max(10000).optional(),
+  llmProvider: z.enum(['openai', 'local', 'rules']).nullable().optional(),
+  recapStyle: z.enum(['narrative', 'bard', 'newspaper', 'bullets', 'letter']).optional(),
+  recapLength: z.enum(['short', 'medium', 'long']).optional(),
 });
 
+const searchSchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  context: z.coerce.number().int().min(0).max(5).default(1),
+});
+
+const retrieveSchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+const askSchema = z.object({
+  question: z.string().trim().min(1).max(500),
+  limit: z.number().int().min(1).max(20).default(8),
+});
+
+async function verifyCampaignOwnership(campaignId: string, userId: string) {
+  const campaign = await prisma.campaign.findFirst({
+    where: { id: campaignId, userId },
+    select: { id: true },
+  });
+
+  if (!campaign) {
+    throw new AppError(404, 'Campaign not found');
+  }
+  return campaign;
+}
+
 // GET /api/campaigns - List all campaigns for user
 campaignRouter.get('/', async (req: AuthenticatedRequest, res, next) => {
   try {
@@ -77,6 +120,103 @@ campaignRouter.get('/:id', async (req: AuthenticatedRequest, res, next) => {
   }
 });
 
+// GET /api/campaigns/:id/search?q=xxx - Search transcripts, notes and recaps across the campaign
+campaignRouter.get('/:id/search', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { q, ...options } = searchSchema.parse(req.query);
+    const campaign = await verifyCampaignOwnership(req.params.id, req.userId!);
+
+    const results = await searchCampaign(campaign.id, q, options);
+
+    res.json({
+      success: true,
+      data: { query: q, ...results },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/campaigns/:id/knowledge?q=xxx - Passages closest in meaning to a query
+campaignRouter.get('/:id/knowledge', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { q, limit } = retrieveSchema.parse(req.query);
+    const campaign = await verifyCampaignOwnership(req.params.id, req.userId!);
+
+    const passages = await retrieveKnowledge(campaign.id, q, limit);
+
+    res.json({
+      success: true,
+      data: passages,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/campaigns/:id/knowledge/rebuild - Index every session, NPC and the world context
+campaignRouter.post('/:id/knowledge/rebuild', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const campaign = await verifyCampaignOwnership(req.params.id, req.userId!);
+
+    const passages = await indexCampaign(campaign.id);
+
+    res.json({
+      success: true,
+      data: { passages },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/campaigns/:id/story - The rolling "story so far" summary
+campaignRouter.get('/:id/story', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const campaign = await verifyCampaignOwnership(req.params.id, req.userId!);
+
+    res.json({
+      success: true,
+      data: await loadStorySoFar(campaign.id),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/campaigns/:id/story/rebuild - Retell the story from every completed session's recap
+campaignRouter.post('/:id/story/rebuild', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const campaign = await verifyCampaignOwnership(req.params.id, req.userId!);
+
+    const story = await rebuildStorySoFar(campaign.id);
+
+    res.json({
+      success: true,
+      data: story,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/campaigns/:id/ask - Answer a question from past sessions, with citations
+campaignRouter.post('/:id/ask', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { question, limit } = askSchema.parse(req.body);
+    const campaign = await verifyCampaignOwnership(req.params.id, req.userId!);
+
+    const result = await askCampaign(campaign.id, question, limit);
+
+    res.json({
+      success: true,
+      data: { question, ...result },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/campaigns - Create new campaign
 campaignRouter.post('/', async (req: AuthenticatedRequest, res, next) => {
   try {
@@ -120,6 +260,10 @@ campaignRouter.patch('/:id', async (req: AuthenticatedRequest, res, next) => {
       data,
     });
 
+    if (data.worldContext !== undefined) {
+      scheduleCampaignContextIndex(campaign.id);
+    }
+
     res.json({
       success: true,
       data: campaign,
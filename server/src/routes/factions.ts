@@ -0,0 +1,179 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { scheduleCampaignContextIndex } from '../services/campaignKnowledge.js';
+import {
+  entityLinksSchema,
+  entityLinksInclude,
+  verifyEntityLinks,
+  connectEntityLinks,
+  setEntityLinks,
+} from '../services/worldEntities.js';
+
+export const factionRouter = Router();
+
+// Validation schemas
+const factionFields = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(5000).nullable().optional(),
+  goals: z.string().max(5000).nullable().optional(),
+});
+
+const createFactionSchema = factionFields.merge(entityLinksSchema).extend({
+  campaignId: z.string().min(1),
+});
+
+const updateFactionSchema = factionFields.partial().merge(entityLinksSchema);
+
+// Helper to verify campaign ownership
+async function verifyCampaignOwnership(campaignId: string, userId: string) {
+  const campaign = await prisma.campaign.findFirst({
+    where: { id: campaignId, userId },
+  });
+  if (!campaign) {
+    throw new AppError(404, 'Campaign not found');
+  }
+  return campaign;
+}
+
+// GET /api/factions?campaignId=xxx - List factions for a campaign
+factionRouter.get('/', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { campaignId } = req.query;
+    
+    if (!campaignId || typeof campaignId !== 'string') {
+      throw new AppError(400, 'campaignId query parameter is required');
+    }
+
+    await verifyCampaignOwnership(campaignId, req.userId!);
+
+    const factions = await prisma.faction.findMany({
+      where: { campaignId },
+      include: entityLinksInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: factions,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/factions/:id - Get single faction
+factionRouter.get('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const faction = await prisma.faction.findUnique({
+      where: { id: req.params.id },
+      include: {
+        ...entityLinksInclude,
+        campaign: { select: { userId: true } },
+      },
+    });
+
+    if (!faction || faction.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Faction not found');
+    }
+
+    res.json({
+      success: true,
+      data: faction,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/factions - Create new faction
+factionRouter.post('/', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { campaignId, npcIds, sessionIds, ...fields } = createFactionSchema.parse(req.body);
+
+    await verifyCampaignOwnership(campaignId, req.userId!);
+    await verifyEntityLinks(campaignId, { npcIds, sessionIds });
+
+    const faction = await prisma.faction.create({
+      data: {
+        ...fields,
+        campaignId,
+        ...connectEntityLinks({ npcIds, sessionIds }),
+      },
+      include: entityLinksInclude,
+    });
+    scheduleCampaignContextIndex(campaignId);
+
+    res.status(201).json({
+      success: true,
+      data: faction,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/factions/:id - Update faction
+factionRouter.patch('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { npcIds, sessionIds, ...fields } = updateFactionSchema.parse(req.body);
+
+    // Verify ownership
+    const existing = await prisma.faction.findUnique({
+      where: { id: req.params.id },
+      include: { campaign: { select: { userId: true } } },
+    });
+
+    if (!existing || existing.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Faction not found');
+    }
+
+    await verifyEntityLinks(existing.campaignId, { npcIds, sessionIds });
+
+    const faction = await prisma.faction.update({
+      where: { id: req.params.id },
+      data: {
+        ...fields,
+        ...setEntityLinks({ npcIds, sessionIds }),
+      },
+      include: entityLinksInclude,
+    });
+    scheduleCampaignContextIndex(existing.campaignId);
+
+    res.json({
+      success: true,
+      data: faction,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/factions/:id - Delete faction
+factionRouter.delete('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    // Verify ownership
+    const existing = await prisma.faction.findUnique({
+      where: { id: req.params.id },
+      include: { campaign: { select: { userId: true } } },
+    });
+
+    if (!existing || existing.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Faction not found');
+    }
+
+    await prisma.faction.delete({
+      where: { id: req.params.id },
+    });
+    scheduleCampaignContextIndex(existing.campaignId);
+
+    res.json({
+      success: true,
+      data: { message: 'Faction deleted' },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
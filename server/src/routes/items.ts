@@ -0,0 +1,179 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { scheduleCampaignContextIndex } from '../services/campaignKnowledge.js';
+import {
+  entityLinksSchema,
+  entityLinksInclude,
+  verifyEntityLinks,
+  connectEntityLinks,
+  setEntityLinks,
+} from '../services/worldEntities.js';
+
+export const itemRouter = Router();
+
+// Validation schemas
+const itemFields = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(5000).nullable().optional(),
+  holder: z.string().max(200).nullable().optional(),
+});
+
+const createItemSchema = itemFields.merge(entityLinksSchema).extend({
+  campaignId: z.string().min(1),
+});
+
+const updateItemSchema = itemFields.partial().merge(entityLinksSchema);
+
+// Helper to verify campaign ownership
+async function verifyCampaignOwnership(campaignId: string, userId: string) {
+  const campaign = await prisma.campaign.findFirst({
+    where: { id: campaignId, userId },
+  });
+  if (!campaign) {
+    throw new AppError(404, 'Campaign not found');
+  }
+  return campaign;
+}
+
+// GET /api/items?campaignId=xxx - List items for a campaign
+itemRouter.get('/', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { campaignId } = req.query;
+    
+    if (!campaignId || typeof campaignId !== 'string') {
+      throw new AppError(400, 'campaignId query parameter is required');
+    }
+
+    await verifyCampaignOwnership(campaignId, req.userId!);
+
+    const items = await prisma.item.findMany({
+      where: { campaignId },
+      include: entityLinksInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: items,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/items/:id - Get single item
+itemRouter.get('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const item = await prisma.item.findUnique({
+      where: { id: req.params.id },
+      include: {
+        ...entityLinksInclude,
+        campaign: { select: { userId: true } },
+      },
+    });
+
+    if (!item || item.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Item not found');
+    }
+
+    res.json({
+      success: true,
+      data: item,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/items - Create new item
+itemRouter.post('/', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { campaignId, npcIds, sessionIds, ...fields } = createItemSchema.parse(req.body);
+
+    await verifyCampaignOwnership(campaignId, req.userId!);
+    await verifyEntityLinks(campaignId, { npcIds, sessionIds });
+
+    const item = await prisma.item.create({
+      data: {
+        ...fields,
+        campaignId,
+        ...connectEntityLinks({ npcIds, sessionIds }),
+      },
+      include: entityLinksInclude,
+    });
+    scheduleCampaignContextIndex(campaignId);
+
+    res.status(201).json({
+      success: true,
+      data: item,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/items/:id - Update item
+itemRouter.patch('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { npcIds, sessionIds, ...fields } = updateItemSchema.parse(req.body);
+
+    // Verify ownership
+    const existing = await prisma.item.findUnique({
+      where: { id: req.params.id },
+      include: { campaign: { select: { userId: true } } },
+    });
+
+    if (!existing || existing.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Item not found');
+    }
+
+    await verifyEntityLinks(existing.campaignId, { npcIds, sessionIds });
+
+    const item = await prisma.item.update({
+      where: { id: req.params.id },
+      data: {
+        ...fields,
+        ...setEntityLinks({ npcIds, sessionIds }),
+      },
+      include: entityLinksInclude,
+    });
+    scheduleCampaignContextIndex(existing.campaignId);
+
+    res.json({
+      success: true,
+      data: item,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/items/:id - Delete item
+itemRouter.delete('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    // Verify ownership
+    const existing = await prisma.item.findUnique({
+      where: { id: req.params.id },
+      include: { campaign: { select: { userId: true } } },
+    });
+
+    if (!existing || existing.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Item not found');
+    }
+
+    await prisma.item.delete({
+      where: { id: req.params.id },
+    });
+    scheduleCampaignContextIndex(existing.campaignId);
+
+    res.json({
+      success: true,
+      data: { message: 'Item deleted' },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
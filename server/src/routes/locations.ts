@@ -0,0 +1,179 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { scheduleCampaignContextIndex } from '../services/campaignKnowledge.js';
+import {
+  entityLinksSchema,
+  entityLinksInclude,
+  verifyEntityLinks,
+  connectEntityLinks,
+  setEntityLinks,
+} from '../services/worldEntities.js';
+
+export const locationRouter = Router();
+
+// Validation schemas
+const locationFields = z.object({
+  name: z.string().min(1).max(100),
+  kind: z.string().max(50).nullable().optional(),
+  description: z.string().max(5000).nullable().optional(),
+});
+
+const createLocationSchema = locationFields.merge(entityLinksSchema).extend({
+  campaignId: z.string().min(1),
+});
+
+const updateLocationSchema = locationFields.partial().merge(entityLinksSchema);
+
+// Helper to verify campaign ownership
+async function verifyCampaignOwnership(campaignId: string, userId: string) {
+  const campaign = await prisma.campaign.findFirst({
+    where: { id: campaignId, userId },
+  });
+  if (!campaign) {
+    throw new AppError(404, 'Campaign not found');
+  }
+  return campaign;
+}
+
+// GET /api/locations?campaignId=xxx - List locations for a campaign
+locationRouter.get('/', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { campaignId } = req.query;
+    
+    if (!campaignId || typeof campaignId !== 'string') {
+      throw new AppError(400, 'campaignId query parameter is required');
+    }
+
+    await verifyCampaignOwnership(campaignId, req.userId!);
+
+    const locations = await prisma.location.findMany({
+      where: { campaignId },
+      include: entityLinksInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: locations,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/locations/:id - Get single location
+locationRouter.get('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const location = await prisma.location.findUnique({
+      where: { id: req.params.id },
+      include: {
+        ...entityLinksInclude,
+        campaign: { select: { userId: true } },
+      },
+    });
+
+    if (!location || location.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Location not found');
+    }
+
+    res.json({
+      success: true,
+      data: location,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/locations - Create new location
+locationRouter.post('/', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { campaignId, npcIds, sessionIds, ...fields } = createLocationSchema.parse(req.body);
+
+    await verifyCampaignOwnership(campaignId, req.userId!);
+    await verifyEntityLinks(campaignId, { npcIds, sessionIds });
+
+    const location = await prisma.location.create({
+      data: {
+        ...fields,
+        campaignId,
+        ...connectEntityLinks({ npcIds, sessionIds }),
+      },
+      include: entityLinksInclude,
+    });
+    scheduleCampaignContextIndex(campaignId);
+
+    res.status(201).json({
+      success: true,
+      data: location,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/locations/:id - Update location
+locationRouter.patch('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { npcIds, sessionIds, ...fields } = updateLocationSchema.parse(req.body);
+
+    // Verify ownership
+    const existing = await prisma.location.findUnique({
+      where: { id: req.params.id },
+      include: { campaign: { select: { userId: true } } },
+    });
+
+    if (!existing || existing.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Location not found');
+    }
+
+    await verifyEntityLinks(existing.campaignId, { npcIds, sessionIds });
+
+    const location = await prisma.location.update({
+      where: { id: req.params.id },
+      data: {
+        ...fields,
+        ...setEntityLinks({ npcIds, sessionIds }),
+      },
+      include: entityLinksInclude,
+    });
+    scheduleCampaignContextIndex(existing.campaignId);
+
+    res.json({
+      success: true,
+      data: location,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/locations/:id - Delete location
+locationRouter.delete('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    // Verify ownership
+    const existing = await prisma.location.findUnique({
+      where: { id: req.params.id },
+      include: { campaign: { select: { userId: true } } },
+    });
+
+    if (!existing || existing.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Location not found');
+    }
+
+    await prisma.location.delete({
+      where: { id: req.params.id },
+    });
+    scheduleCampaignContextIndex(existing.campaignId);
+
+    res.json({
+      success: true,
+      data: { message: 'Location deleted' },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
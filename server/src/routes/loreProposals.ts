@@ -0,0 +1,124 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { approveLoreProposal } from '../services/loreExtraction.js';
+
+export const loreProposalRouter = Router();
+
+// Validation schemas
+const listProposalsSchema = z.object({
+  campaignId: z.string().min(1),
+  status: z.enum(['pending', 'approved', 'rejected']).default('pending'),
+});
+
+const approveProposalSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(5000).nullable().optional(),
+  details: z.record(z.string().max(2000).nullable()).optional(),
+});
+
+// Helper to verify campaign ownership
+async function verifyCampaignOwnership(campaignId: string, userId: string) {
+  const campaign = await prisma.campaign.findFirst({
+    where: { id: campaignId, userId },
+  });
+  if (!campaign) {
+    throw new AppError(404, 'Campaign not found');
+  }
+  return campaign;
+}
+
+// Helper to load a proposal the user owns that is still waiting for review
+async function findPendingProposal(proposalId: string, userId: string) {
+  const proposal = await prisma.loreProposal.findUnique({
+    where: { id: proposalId },
+    include: { campaign: { select: { userId: true } } },
+  });
+  if (!proposal || proposal.campaign.userId !== userId) {
+    throw new AppError(404, 'Lore proposal not found');
+  }
+  if (proposal.status !== 'pending') {
+    throw new AppError(409, `Lore proposal was already ${proposal.status}`);
+  }
+  return proposal;
+}
+
+// GET /api/lore-proposals?campaignId=xxx&status=pending - List proposals with the lines they came from
+loreProposalRouter.get('/', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { campaignId, status } = listProposalsSchema.parse(req.query);
+
+    await verifyCampaignOwnership(campaignId, req.userId!);
+
+    const proposals = await prisma.loreProposal.findMany({
+      where: { campaignId, status },
+      include: { session: { select: { id: true, sessionNumber: true, title: true } } },
+      orderBy: [{ createdAt: 'desc' }, { kind: 'asc' }, { name: 'asc' }],
+    });
+
+    const segmentIds = [...new Set(proposals.flatMap(p => p.segmentIds))];
+    const segments = segmentIds.length > 0
+      ? await prisma.transcriptSegment.findMany({
+          where: { id: { in: segmentIds }, session: { campaignId } },
+          select: { id: true, sessionId: true, timestamp: true, speakerLabel: true, speakerName: true, text: true },
+        })
+      : [];
+    const segmentsByKey = new Map(segments.map(s => [`${s.sessionId}:${s.id}`, s]));
+
+    res.json({
+      success: true,
+      data: proposals.map(p => ({
+        ...p,
+        // Lines edited away since extraction are dropped
+        sources: p.segmentIds
+          .map(id => segmentsByKey.get(`${p.sessionId}:${id}`))
+          .filter(Boolean),
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/lore-proposals/:id/approve - Create the NPC, location, faction, item or quest, with optional edits
+loreProposalRouter.post('/:id/approve', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const edits = approveProposalSchema.parse(req.body);
+    const proposal = await findPendingProposal(req.params.id, req.userId!);
+
+    const approved = await approveLoreProposal(proposal, edits);
+
+    res.json({
+      success: true,
+      data: approved,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/lore-proposals/:id/reject - Dismiss a proposal; the same name won't be proposed again
+loreProposalRouter.post('/:id/reject', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const proposal = await findPendingProposal(req.params.id, req.userId!);
+
+    // Only a proposal still pending is rejected, so a concurrent approval keeps its record
+    const { count } = await prisma.loreProposal.updateMany({
+      where: { id: proposal.id, status: 'pending' },
+      data: { status: 'rejected', reviewedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new AppError(409, 'Lore proposal was already reviewed');
+    }
+    const rejected = await prisma.loreProposal.findUniqueOrThrow({ where: { id: proposal.id } });
+
+    res.json({
+      success: true,
+      data: rejected,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { prisma } from '../lib/prisma.js';
 import { AuthenticatedRequest } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { scheduleCampaignContextIndex } from '../services/campaignKnowledge.js';
 
 export const npcRouter = Router();
 
@@ -94,6 +95,7 @@ npcRouter.post('/', async (req: AuthenticatedRequest, res, next) => {
         speechPatterns: data.speechPatterns,
       },
     });
+    scheduleCampaignContextIndex(npc.campaignId);
 
     res.status(201).json({
       success: true,
@@ -123,6 +125,7 @@ npcRouter.patch('/:id', async (req: AuthenticatedRequest, res, next) => {
       where: { id: req.params.id },
       data,
     });
+    scheduleCampaignContextIndex(npc.campaignId);
 
     res.json({
       success: true,
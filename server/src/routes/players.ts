@@ -1,11 +1,27 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma.js';
 import { AuthenticatedRequest } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { DEATH_SAVES_RESET } from '../services/deathSaves.js';
+import { DAMAGE_TYPES } from '../services/damage.js';
+import {
+  REST_TYPES,
+  characterSheetSchema,
+  exportCharacter,
+  loadCharacterSheet,
+  saveCharacterSheet,
+} from '../services/characterSheets.js';
+import { applyCharacterImport, previewCharacterImport } from '../services/characterImport.js';
+import { setResourceUsed, takeRest } from '../services/resourceTracker.js';
 
 export const playerRouter = Router();
 
+// Character files exported from D&D Beyond or Foundry easily pass the default 100kb,
+// so only the import routes take bigger bodies; the rest parse as usual
+playerRouter.post(['/import/preview', '/import', '/:id/sheet/import'], express.json({ limit: '5mb' }));
+playerRouter.use(express.json());
+
 // Validation schemas
 const createPlayerSchema = z.object({
   campaignId: z.string().min(1),
@@ -15,6 +31,10 @@ const createPlayerSchema = z.object({
   characterRace: z.string().max(50).optional(),
   maxHp: z.number().int().positive().optional(),
   currentHp: z.number().int().min(0).optional(),
+  tempHp: z.number().int().min(0).optional(),
+  resistances: z.array(z.enum(DAMAGE_TYPES)).optional(),
+  immunities: z.array(z.enum(DAMAGE_TYPES)).optional(),
+  vulnerabilities: z.array(z.enum(DAMAGE_TYPES)).optional(),
 });
 
 const updatePlayerSchema = z.object({
@@ -24,9 +44,29 @@ const updatePlayerSchema = z.object({
   characterRace: z.string().max(50).optional(),
   maxHp: z.number().int().positive().optional(),
   currentHp: z.number().int().min(0).optional(),
+  tempHp: z.number().int().min(0).optional(),
+  resistances: z.array(z.enum(DAMAGE_TYPES)).optional(),
+  immunities: z.array(z.enum(DAMAGE_TYPES)).optional(),
+  vulnerabilities: z.array(z.enum(DAMAGE_TYPES)).optional(),
   notes: z.string().max(10000).optional(),
 });
 
+// A character file from this app, D&D Beyond or Foundry VTT, for a new player or an existing one
+const characterImportSchema = z.object({
+  campaignId: z.string().min(1),
+  playerId: z.string().min(1).optional(),
+  playerName: z.string().min(1).max(100).optional(), // Needed for a new player
+  file: z.unknown(),
+});
+
+const resourceUpdateSchema = z.object({
+  used: z.number().int().min(0),
+});
+
+const restSchema = z.object({
+  type: z.enum(REST_TYPES),
+});
+
 // Helper to verify campaign ownership
 async function verifyCampaignOwnership(campaignId: string, userId: string) {
   const campaign = await prisma.campaign.findFirst({
@@ -38,6 +78,17 @@ async function verifyCampaignOwnership(campaignId: string, userId: string) {
   return campaign;
 }
 
+// Helper to verify player ownership through its campaign
+async function verifyPlayerOwnership(playerId: string, userId: string) {
+  const player = await prisma.player.findFirst({
+    where: { id: playerId, campaign: { userId } },
+  });
+  if (!player) {
+    throw new AppError(404, 'Player not found');
+  }
+  return player;
+}
+
 // GET /api/players?campaignId=xxx - List players for a campaign
 playerRouter.get('/', async (req: AuthenticatedRequest, res, next) => {
   try {
@@ -51,6 +102,7 @@ playerRouter.get('/', async (req: AuthenticatedRequest, res, next) => {
 
     const players = await prisma.player.findMany({
       where: { campaignId },
+      include: { characterSheet: true },
       orderBy: { characterName: 'asc' },
     });
 
@@ -63,6 +115,42 @@ playerRouter.get('/', async (req: AuthenticatedRequest, res, next) => {
   }
 });
 
+// POST /api/players/import/preview - What importing a character file would change
+playerRouter.post('/import/preview', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const data = characterImportSchema.parse(req.body);
+
+    await verifyCampaignOwnership(data.campaignId, req.userId!);
+
+    const preview = await previewCharacterImport(data.campaignId, data.playerId, data.file);
+
+    res.json({
+      success: true,
+      data: preview,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/players/import - Create or update a player from a character file
+playerRouter.post('/import', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const data = characterImportSchema.parse(req.body);
+
+    await verifyCampaignOwnership(data.campaignId, req.userId!);
+
+    const imported = await applyCharacterImport(data.campaignId, data.playerId, data.playerName, data.file);
+
+    res.status(data.playerId ? 200 : 201).json({
+      success: true,
+      data: imported,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/players/:id - Get single player
 playerRouter.get('/:id', async (req: AuthenticatedRequest, res, next) => {
   try {
@@ -106,6 +194,10 @@ playerRouter.post('/', async (req: AuthenticatedRequest, res, next) => {
         characterRace: data.characterRace,
         maxHp: data.maxHp ?? 10,
         currentHp: data.currentHp ?? data.maxHp ?? 10,
+        tempHp: data.tempHp,
+        resistances: data.resistances,
+        immunities: data.immunities,
+        vulnerabilities: data.vulnerabilities,
       },
     });
 
@@ -133,9 +225,13 @@ playerRouter.patch('/:id', async (req: AuthenticatedRequest, res, next) => {
       throw new AppError(404, 'Player not found');
     }
 
+    // Back above 0 HP ends any death saves in progress
     const player = await prisma.player.update({
       where: { id: req.params.id },
-      data,
+      data: {
+        ...data,
+        ...(data.currentHp !== undefined && data.currentHp > 0 && DEATH_SAVES_RESET),
+      },
     });
 
     res.json({
@@ -175,7 +271,7 @@ playerRouter.patch('/:id/hp', async (req: AuthenticatedRequest, res, next) => {
 
     const player = await prisma.player.update({
       where: { id: req.params.id },
-      data: { currentHp: newHp },
+      data: { currentHp: newHp, ...(newHp > 0 && DEATH_SAVES_RESET) },
     });
 
     res.json({
@@ -187,6 +283,124 @@ playerRouter.patch('/:id/hp', async (req: AuthenticatedRequest, res, next) => {
   }
 });
 
+// GET /api/players/:id/sheet - The player's character sheet (null until one is saved)
+playerRouter.get('/:id/sheet', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const player = await verifyPlayerOwnership(req.params.id, req.userId!);
+    const sheet = await loadCharacterSheet(player.id);
+
+    res.json({
+      success: true,
+      data: sheet,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/players/:id/sheet - Replace the character sheet
+playerRouter.put('/:id/sheet', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const data = characterSheetSchema.parse(req.body);
+    const player = await verifyPlayerOwnership(req.params.id, req.userId!);
+
+    const sheet = await saveCharacterSheet(player.id, data);
+
+    res.json({
+      success: true,
+      data: sheet,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/players/:id/sheet/export - The character and sheet as a JSON file
+playerRouter.get('/:id/sheet/export', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const player = await verifyPlayerOwnership(req.params.id, req.userId!);
+    const sheet = await loadCharacterSheet(player.id);
+
+    const filename = player.characterName.replace(/[^\w-]+/g, '-').toLowerCase() || 'character';
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+    res.json(exportCharacter(player, sheet));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/players/:id/sheet/import - Import a character file into this player
+playerRouter.post('/:id/sheet/import', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const player = await verifyPlayerOwnership(req.params.id, req.userId!);
+
+    const imported = await applyCharacterImport(player.campaignId, player.id, undefined, req.body);
+
+    res.json({
+      success: true,
+      data: imported,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/players/:id/resources - Spell slots, limited-use features and hit dice, with how many are used
+playerRouter.get('/:id/resources', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const player = await verifyPlayerOwnership(req.params.id, req.userId!);
+    const resources = await prisma.characterResource.findMany({
+      where: { playerId: player.id },
+      orderBy: [{ kind: 'asc' }, { spellLevel: 'asc' }, { name: 'asc' }],
+    });
+
+    res.json({
+      success: true,
+      data: resources,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/players/:id/resources/:resourceId - Correct how many of a resource are used
+playerRouter.patch('/:id/resources/:resourceId', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { used } = resourceUpdateSchema.parse(req.body);
+    const player = await verifyPlayerOwnership(req.params.id, req.userId!);
+
+    const resource = await setResourceUsed(player.id, req.params.resourceId, used);
+
+    res.json({
+      success: true,
+      data: resource,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/players/:id/rest - A short or long rest, restoring the resources it recharges
+playerRouter.post('/:id/rest', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { type } = restSchema.parse(req.body);
+    const player = await verifyPlayerOwnership(req.params.id, req.userId!);
+
+    await takeRest([player.id], type);
+    const resources = await prisma.characterResource.findMany({
+      where: { playerId: player.id },
+      orderBy: [{ kind: 'asc' }, { spellLevel: 'asc' }, { name: 'asc' }],
+    });
+
+    res.json({
+      success: true,
+      data: resources,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // DELETE /api/players/:id - Delete player
 playerRouter.delete('/:id', async (req: AuthenticatedRequest, res, next) => {
   try {
@@ -0,0 +1,180 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { scheduleCampaignContextIndex } from '../services/campaignKnowledge.js';
+import {
+  entityLinksSchema,
+  entityLinksInclude,
+  verifyEntityLinks,
+  connectEntityLinks,
+  setEntityLinks,
+} from '../services/worldEntities.js';
+
+export const questRouter = Router();
+
+// Validation schemas
+const questFields = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(5000).nullable().optional(),
+  status: z.enum(['active', 'completed', 'failed']).optional(),
+  reward: z.string().max(500).nullable().optional(),
+});
+
+const createQuestSchema = questFields.merge(entityLinksSchema).extend({
+  campaignId: z.string().min(1),
+});
+
+const updateQuestSchema = questFields.partial().merge(entityLinksSchema);
+
+// Helper to verify campaign ownership
+async function verifyCampaignOwnership(campaignId: string, userId: string) {
+  const campaign = await prisma.campaign.findFirst({
+    where: { id: campaignId, userId },
+  });
+  if (!campaign) {
+    throw new AppError(404, 'Campaign not found');
+  }
+  return campaign;
+}
+
+// GET /api/quests?campaignId=xxx - List quests for a campaign
+questRouter.get('/', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { campaignId } = req.query;
+    
+    if (!campaignId || typeof campaignId !== 'string') {
+      throw new AppError(400, 'campaignId query parameter is required');
+    }
+
+    await verifyCampaignOwnership(campaignId, req.userId!);
+
+    const quests = await prisma.quest.findMany({
+      where: { campaignId },
+      include: entityLinksInclude,
+      orderBy: [{ status: 'asc' }, { name: 'asc' }],
+    });
+
+    res.json({
+      success: true,
+      data: quests,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/quests/:id - Get single quest
+questRouter.get('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const quest = await prisma.quest.findUnique({
+      where: { id: req.params.id },
+      include: {
+        ...entityLinksInclude,
+        campaign: { select: { userId: true } },
+      },
+    });
+
+    if (!quest || quest.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Quest not found');
+    }
+
+    res.json({
+      success: true,
+      data: quest,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/quests - Create new quest
+questRouter.post('/', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { campaignId, npcIds, sessionIds, ...fields } = createQuestSchema.parse(req.body);
+
+    await verifyCampaignOwnership(campaignId, req.userId!);
+    await verifyEntityLinks(campaignId, { npcIds, sessionIds });
+
+    const quest = await prisma.quest.create({
+      data: {
+        ...fields,
+        campaignId,
+        ...connectEntityLinks({ npcIds, sessionIds }),
+      },
+      include: entityLinksInclude,
+    });
+    scheduleCampaignContextIndex(campaignId);
+
+    res.status(201).json({
+      success: true,
+      data: quest,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/quests/:id - Update quest
+questRouter.patch('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { npcIds, sessionIds, ...fields } = updateQuestSchema.parse(req.body);
+
+    // Verify ownership
+    const existing = await prisma.quest.findUnique({
+      where: { id: req.params.id },
+      include: { campaign: { select: { userId: true } } },
+    });
+
+    if (!existing || existing.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Quest not found');
+    }
+
+    await verifyEntityLinks(existing.campaignId, { npcIds, sessionIds });
+
+    const quest = await prisma.quest.update({
+      where: { id: req.params.id },
+      data: {
+        ...fields,
+        ...setEntityLinks({ npcIds, sessionIds }),
+      },
+      include: entityLinksInclude,
+    });
+    scheduleCampaignContextIndex(existing.campaignId);
+
+    res.json({
+      success: true,
+      data: quest,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/quests/:id - Delete quest
+questRouter.delete('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    // Verify ownership
+    const existing = await prisma.quest.findUnique({
+      where: { id: req.params.id },
+      include: { campaign: { select: { userId: true } } },
+    });
+
+    if (!existing || existing.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Quest not found');
+    }
+
+    await prisma.quest.delete({
+      where: { id: req.params.id },
+    });
+    scheduleCampaignContextIndex(existing.campaignId);
+
+    res.json({
+      success: true,
+      data: { message: 'Quest deleted' },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
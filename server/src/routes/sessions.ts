@@ -1,8 +1,30 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
 import { AuthenticatedRequest } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { audioStore } from '../services/audioStore.js';
+import { isRetranscriptionConfigured, retranscribeSession } from '../services/retranscription.js';
+import { encodeWav } from '../lib/wav.js';
+import {
+  commitTranscriptEdit,
+  undoTranscriptRevision,
+  editSegmentText,
+  reassignSpeaker,
+  splitSegment,
+  mergeSegments,
+  deleteSegment,
+} from '../services/transcriptEditor.js';
+import { appendSegments, findSegmentPage, loadTranscriptPage } from '../services/transcriptStore.js';
+import { scheduleSessionIndex } from '../services/campaignKnowledge.js';
+import { extractSessionLore } from '../services/loreExtraction.js';
+import { generateSessionSummary, sessionSummarySchema } from '../services/sessionSummary.js';
+import { regenerateRecap } from '../services/sessionRecap.js';
+import { foldSessionIntoStory } from '../services/storySoFar.js';
+import { createTTSClient } from '../services/tts.js';
+import { listEncounters } from '../services/combatTracker.js';
+import { getHealthTimeline, undoHealthEvent } from '../services/healthTracker.js';
 
 export const sessionRouter = Router();
 
@@ -17,9 +39,68 @@ const updateSessionSchema = z.object({
   title: z.string().max(200).optional(),
   notes: z.string().max(50000).optional(),
   recap: z.string().max(10000).optional(),
+  summary: sessionSummarySchema.nullable().optional(),
   status: z.enum(['draft', 'in_progress', 'completed']).optional(),
 });
 
+// Omitted fields fall back to the campaign's recap settings
+const regenerateRecapSchema = z.object({
+  style: z.enum(['narrative', 'bard', 'newspaper', 'bullets', 'letter']).optional(),
+  length: z.enum(['short', 'medium', 'long']).optional(),
+  letterFromNpcId: z.string().min(1).optional(),
+});
+
+// Exactly one of text / speakerName; a null speakerName falls back to the diarization label
+const updateSegmentSchema = z.union([
+  z.object({ text: z.string().min(1).max(10000) }).strict(),
+  z.object({ speakerName: z.string().min(1).max(100).nullable() }).strict(),
+]);
+
+const transcriptPageSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(200),
+});
+
+const appendSegmentsSchema = z.object({
+  segments: z.array(z.object({
+    id: z.string().min(1),
+    timestamp: z.number().min(0),
+    speakerLabel: z.string().min(1),
+    speakerName: z.string().nullable().default(null),
+    text: z.string(),
+    confidence: z.number().min(0).max(1).default(1),
+    isEdited: z.boolean().default(false),
+    audioOffset: z.number().min(0).optional(),
+    audioDuration: z.number().min(0).optional(),
+    words: z.array(z.object({
+      text: z.string(),
+      start: z.number().min(0),
+      end: z.number().min(0),
+      confidence: z.number().min(0).max(1).optional(),
+      speaker: z.string().optional(),
+      speakerConfidence: z.number().min(0).max(1).optional(),
+    })).optional(),
+    speakerConfidence: z.number().min(0).max(1).optional(),
+  })),
+});
+
+const splitSegmentSchema = z.object({
+  at: z.number().int().positive(),
+});
+
+const mergeSegmentsSchema = z.object({
+  firstId: z.string().min(1),
+  secondId: z.string().min(1),
+});
+
+// Longest stretch of audio served in one request (10 minutes)
+const MAX_AUDIO_RANGE_MS = 10 * 60 * 1000;
+
+const audioRangeSchema = z.object({
+  start: z.coerce.number().min(0).default(0),
+  end: z.coerce.number().min(0).optional(),
+});
+
 // Helper to verify campaign ownership
 async function verifyCampaignOwnership(campaignId: string, userId: string) {
   const campaign = await prisma.campaign.findFirst({
@@ -31,6 +112,18 @@ async function verifyCampaignOwnership(campaignId: string, userId: string) {
   return campaign;
 }
 
+// Helper to load a session the user owns
+async function verifySessionOwnership(sessionId: string, userId: string) {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { campaign: { select: { userId: true } } },
+  });
+  if (!session || session.campaign.userId !== userId) {
+    throw new AppError(404, 'Session not found');
+  }
+  return session;
+}
+
 // GET /api/sessions?campaignId=xxx - List sessions for a campaign
 sessionRouter.get('/', async (req: AuthenticatedRequest, res, next) => {
   try {
@@ -75,9 +168,10 @@ sessionRouter.get('/:id', async (req: AuthenticatedRequest, res, next) => {
           select: { id: true, userId: true, name: true },
         },
         healthEvents: {
-          include: { player: true },
+          include: { player: true, combatant: true },
           orderBy: { timestamp: 'asc' },
         },
+        _count: { select: { segments: true } },
       },
     });
 
@@ -90,9 +184,14 @@ sessionRouter.get('/:id', async (req: AuthenticatedRequest, res, next) => {
       throw new AppError(404, 'Session not found');
     }
 
+    const audioDurationMs = (await audioStore?.getDurationMs(session.id)) ?? 0;
+
+    // Segments are paged through GET /:id/transcript; the legacy JSON column isn't sent
+    const { transcript: _legacyTranscript, _count, ...details } = session;
+
     res.json({
       success: true,
-      data: session,
+      data: { ...details, segmentCount: _count.segments, audioDurationMs },
     });
   } catch (error) {
     next(error);
@@ -135,7 +234,7 @@ sessionRouter.post('/', async (req: AuthenticatedRequest, res, next) => {
 // PATCH /api/sessions/:id - Update session
 sessionRouter.patch('/:id', async (req: AuthenticatedRequest, res, next) => {
   try {
-    const data = updateSessionSchema.parse(req.body);
+    const { summary, ...data } = updateSessionSchema.parse(req.body);
 
     // Verify ownership
     const existing = await prisma.session.findUnique({
@@ -149,9 +248,16 @@ sessionRouter.patch('/:id', async (req: AuthenticatedRequest, res, next) => {
 
     const session = await prisma.session.update({
       where: { id: req.params.id },
-      data,
+      data: {
+        ...data,
+        ...(summary !== undefined && { summary: summary ?? Prisma.DbNull }),
+      },
     });
 
+    if (data.recap !== undefined) {
+      scheduleSessionIndex(session.id);
+    }
+
     res.json({
       success: true,
       data: session,
@@ -177,6 +283,7 @@ sessionRouter.delete('/:id', async (req: AuthenticatedRequest, res, next) => {
     await prisma.session.delete({
       where: { id: req.params.id },
     });
+    await audioStore?.remove(req.params.id);
 
     res.json({
       success: true,
@@ -187,14 +294,198 @@ sessionRouter.delete('/:id', async (req: AuthenticatedRequest, res, next) => {
   }
 });
 
-// POST /api/sessions/:id/transcript - Update transcript (append segments)
+// GET /api/sessions/:id/transcript?page=1&pageSize=200 - Page through the transcript in order
+sessionRouter.get('/:id/transcript', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { page, pageSize } = transcriptPageSchema.parse(req.query);
+    await verifySessionOwnership(req.params.id, req.userId!);
+
+    const { items, total } = await loadTranscriptPage(req.params.id, page, pageSize);
+
+    res.json({
+      success: true,
+      data: {
+        items,
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/sessions/:id/transcript/segments/:segmentId/page - Which transcript page a segment is on
+sessionRouter.get('/:id/transcript/segments/:segmentId/page', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { pageSize } = transcriptPageSchema.parse(req.query);
+    await verifySessionOwnership(req.params.id, req.userId!);
+
+    const page = await findSegmentPage(req.params.id, req.params.segmentId, pageSize);
+    if (page === null) {
+      throw new AppError(404, 'Segment not found');
+    }
+
+    res.json({
+      success: true,
+      data: { page, pageSize },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/sessions/:id/transcript - Append segments to the transcript
 sessionRouter.post('/:id/transcript', async (req: AuthenticatedRequest, res, next) => {
   try {
-    const { segments } = req.body;
-    
-    if (!Array.isArray(segments)) {
-      throw new AppError(400, 'segments array is required');
+    const { segments } = appendSegmentsSchema.parse(req.body);
+    await verifySessionOwnership(req.params.id, req.userId!);
+
+    try {
+      await appendSegments(req.params.id, segments);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new AppError(409, 'A segment with that id is already in the transcript');
+      }
+      throw error;
     }
+    scheduleSessionIndex(req.params.id);
+
+    res.status(201).json({
+      success: true,
+      data: { appended: segments.length },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/sessions/:id/transcript/segments/:segmentId - Edit a segment's text or reassign its speaker
+sessionRouter.patch('/:id/transcript/segments/:segmentId', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const data = updateSegmentSchema.parse(req.body);
+    await verifySessionOwnership(req.params.id, req.userId!);
+
+    const { segmentId } = req.params;
+    const revision = 'text' in data
+      ? await commitTranscriptEdit(req.params.id, req.userId!, 'edit_text', segmentId,
+          window => editSegmentText(window, segmentId, data.text))
+      : await commitTranscriptEdit(req.params.id, req.userId!, 'reassign_speaker', segmentId,
+          window => reassignSpeaker(window, segmentId, data.speakerName));
+
+    res.json({
+      success: true,
+      data: revision,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/sessions/:id/transcript/segments/:segmentId/split - Split a segment at a character position
+sessionRouter.post('/:id/transcript/segments/:segmentId/split', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { at } = splitSegmentSchema.parse(req.body);
+    await verifySessionOwnership(req.params.id, req.userId!);
+
+    const { segmentId } = req.params;
+    const revision = await commitTranscriptEdit(req.params.id, req.userId!, 'split', segmentId,
+      window => splitSegment(window, segmentId, at));
+
+    res.json({
+      success: true,
+      data: revision,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/sessions/:id/transcript/merge - Merge a segment with the one right after it
+sessionRouter.post('/:id/transcript/merge', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { firstId, secondId } = mergeSegmentsSchema.parse(req.body);
+    await verifySessionOwnership(req.params.id, req.userId!);
+
+    const revision = await commitTranscriptEdit(req.params.id, req.userId!, 'merge', firstId,
+      window => mergeSegments(window, firstId, secondId));
+
+    res.json({
+      success: true,
+      data: revision,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/sessions/:id/transcript/segments/:segmentId - Delete a segment
+sessionRouter.delete('/:id/transcript/segments/:segmentId', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    await verifySessionOwnership(req.params.id, req.userId!);
+
+    const { segmentId } = req.params;
+    const revision = await commitTranscriptEdit(req.params.id, req.userId!, 'delete', segmentId,
+      window => deleteSegment(window, segmentId));
+
+    res.json({
+      success: true,
+      data: revision,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/sessions/:id/transcript/revisions?segmentId=xxx - Edit history, newest first
+sessionRouter.get('/:id/transcript/revisions', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    await verifySessionOwnership(req.params.id, req.userId!);
+
+    const revisions = await prisma.transcriptRevision.findMany({
+      where: { sessionId: req.params.id },
+      include: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // A segment's history is every revision that had it on either side
+    const { segmentId } = req.query;
+    const touches = (segments: unknown) =>
+      (segments as Array<{ id: string }>).some(s => s.id === segmentId);
+
+    res.json({
+      success: true,
+      data: typeof segmentId === 'string'
+        ? revisions.filter(r => touches(r.before) || touches(r.after))
+        : revisions,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/sessions/:id/transcript/revisions/:revisionId/undo - Undo an edit
+sessionRouter.post('/:id/transcript/revisions/:revisionId/undo', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    await verifySessionOwnership(req.params.id, req.userId!);
+
+    const revision = await undoTranscriptRevision(req.params.id, req.params.revisionId);
+
+    res.json({
+      success: true,
+      data: revision,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/sessions/:id/audio?start=ms&end=ms - Recorded session audio as WAV
+sessionRouter.get('/:id/audio', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { start, end } = audioRangeSchema.parse(req.query);
 
     // Verify ownership
     const existing = await prisma.session.findUnique({
@@ -206,20 +497,201 @@ sessionRouter.post('/:id/transcript', async (req: AuthenticatedRequest, res, nex
       throw new AppError(404, 'Session not found');
     }
 
-    const currentTranscript = existing.transcript as unknown[];
-    const updatedTranscript = [...currentTranscript, ...segments];
+    if (!audioStore || (await audioStore.getDurationMs(existing.id)) === 0) {
+      throw new AppError(404, 'No audio recorded for this session');
+    }
+
+    const rangeEnd = Math.min(end ?? start + MAX_AUDIO_RANGE_MS, start + MAX_AUDIO_RANGE_MS);
+    const pcm = await audioStore.read(existing.id, start, rangeEnd);
+    const wav = encodeWav(pcm);
 
-    const session = await prisma.session.update({
+    res.setHeader('Content-Type', 'audio/wav');
+    res.setHeader('Content-Length', wav.length);
+    res.send(wav);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/sessions/:id/retranscribe - Re-transcribe the stored audio and reconcile it with the transcript
+sessionRouter.post('/:id/retranscribe', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    // Verify ownership
+    const existing = await prisma.session.findUnique({
       where: { id: req.params.id },
-      data: { transcript: updatedTranscript },
+      include: { campaign: { select: { userId: true } } },
+    });
+
+    if (!existing || existing.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Session not found');
+    }
+
+    if (!isRetranscriptionConfigured()) {
+      throw new AppError(400, 'Re-transcription needs audio storage and a Deepgram API key');
+    }
+
+    // The live pipeline is still writing segments while the session runs
+    if (existing.status === 'in_progress') {
+      throw new AppError(409, 'End the session before re-transcribing it');
+    }
+
+    if ((await audioStore!.getDurationMs(existing.id)) === 0) {
+      throw new AppError(404, 'No audio recorded for this session');
+    }
+
+    const segmentCount = await retranscribeSession(existing.id);
+    scheduleSessionIndex(existing.id);
+
+    const session = await prisma.session.findUnique({
+      where: { id: existing.id },
+      select: { id: true, retranscribedAt: true },
     });
 
     res.json({
       success: true,
-      data: session,
+      data: { ...session, segmentCount },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/sessions/:id/encounters - The session's fights, with combatants in initiative order
+sessionRouter.get('/:id/encounters', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const existing = await verifySessionOwnership(req.params.id, req.userId!);
+    const encounters = await listEncounters(existing.id);
+
+    res.json({
+      success: true,
+      data: encounters,
     });
   } catch (error) {
     next(error);
   }
 });
 
+// GET /api/sessions/:id/health-timeline - Each player's HP over the session, with the events behind it
+sessionRouter.get('/:id/health-timeline', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const existing = await verifySessionOwnership(req.params.id, req.userId!);
+    const timeline = await getHealthTimeline(existing.id);
+
+    res.json({
+      success: true,
+      data: timeline,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/sessions/:id/health-events/:eventId/undo - Take back an applied health event
+sessionRouter.post('/:id/health-events/:eventId/undo', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const existing = await verifySessionOwnership(req.params.id, req.userId!);
+
+    // The live session applies health changes in order and keeps the open tracker in step
+    if (existing.status === 'in_progress') {
+      throw new AppError(409, 'Undo this from the live session while it is running');
+    }
+
+    const result = await undoHealthEvent(req.params.id, req.params.eventId);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/sessions/:id/recap - Rewrite the recap, optionally in another style or length, replacing edits
+sessionRouter.post('/:id/recap', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const existing = await verifySessionOwnership(req.params.id, req.userId!);
+    const options = regenerateRecapSchema.parse(req.body);
+
+    if (existing.status === 'in_progress') {
+      throw new AppError(409, 'End the session before writing its recap');
+    }
+
+    const recap = await regenerateRecap(existing.id, options);
+    scheduleSessionIndex(existing.id);
+    // A session that ended without a recap joins the story so far once it has one
+    foldSessionIntoStory(existing.id).catch(err => console.error('Story so far update failed:', err));
+
+    res.json({
+      success: true,
+      data: { recap },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/sessions/:id/recap/audio - The recap read aloud by the configured text-to-speech backend
+sessionRouter.get('/:id/recap/audio', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const existing = await verifySessionOwnership(req.params.id, req.userId!);
+
+    if (!existing.recap) {
+      throw new AppError(404, 'This session has no recap yet');
+    }
+
+    const tts = createTTSClient();
+    if (!tts) {
+      throw new AppError(400, 'Text-to-speech needs TTS_PROVIDER set to openai (with an API key) or piper (with PIPER_MODEL_PATH)');
+    }
+
+    const speech = await tts.synthesize(existing.recap);
+
+    res.setHeader('Content-Type', speech.contentType);
+    res.setHeader('Content-Length', speech.audio.length);
+    res.setHeader('Content-Disposition', `attachment; filename="session-${existing.sessionNumber}-recap.${speech.extension}"`);
+    res.send(speech.audio);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/sessions/:id/summary - Regenerate the structured summary from the transcript, replacing edits
+sessionRouter.post('/:id/summary', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const existing = await verifySessionOwnership(req.params.id, req.userId!);
+
+    if (existing.status === 'in_progress') {
+      throw new AppError(409, 'End the session before summarizing it');
+    }
+
+    const summary = await generateSessionSummary(existing.id);
+
+    res.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/sessions/:id/lore/extract - Re-run lore extraction, replacing the session's pending proposals
+sessionRouter.post('/:id/lore/extract', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const existing = await verifySessionOwnership(req.params.id, req.userId!);
+
+    if (existing.status === 'in_progress') {
+      throw new AppError(409, 'End the session before extracting lore from it');
+    }
+
+    const proposals = await extractSessionLore(existing.id);
+
+    res.json({
+      success: true,
+      data: proposals,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
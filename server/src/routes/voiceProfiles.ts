@@ -0,0 +1,114 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { isVoiceProfilingEnabled, rebuildVoiceProfiles } from '../services/voiceProfiles.js';
+
+export const voiceProfileRouter = Router();
+
+// Validation schemas
+const rebuildSchema = z.object({
+  campaignId: z.string().min(1),
+});
+
+// The embedding itself is only useful to the server
+const profileSelect = {
+  id: true,
+  campaignId: true,
+  speakerName: true,
+  sampleMs: true,
+  playerId: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// Helper to verify campaign ownership
+async function verifyCampaignOwnership(campaignId: string, userId: string) {
+  const campaign = await prisma.campaign.findFirst({
+    where: { id: campaignId, userId },
+  });
+  if (!campaign) {
+    throw new AppError(404, 'Campaign not found');
+  }
+  return campaign;
+}
+
+// GET /api/voice-profiles?campaignId=xxx - List voice profiles for a campaign
+voiceProfileRouter.get('/', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const { campaignId } = req.query;
+
+    if (!campaignId || typeof campaignId !== 'string') {
+      throw new AppError(400, 'campaignId query parameter is required');
+    }
+
+    await verifyCampaignOwnership(campaignId, req.userId!);
+
+    const profiles = await prisma.voiceProfile.findMany({
+      where: { campaignId },
+      select: profileSelect,
+      orderBy: { speakerName: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: profiles,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/voice-profiles/rebuild - Relearn a campaign's voices from every confirmed attribution
+voiceProfileRouter.post('/rebuild', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const data = rebuildSchema.parse(req.body);
+
+    await verifyCampaignOwnership(data.campaignId, req.userId!);
+
+    if (!isVoiceProfilingEnabled()) {
+      throw new AppError(400, 'Voice profiles need audio storage and VOICE_PROFILES enabled');
+    }
+
+    const updated = await rebuildVoiceProfiles(data.campaignId);
+    const profiles = await prisma.voiceProfile.findMany({
+      where: { campaignId: data.campaignId },
+      select: profileSelect,
+      orderBy: { speakerName: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      data: { updated, profiles },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/voice-profiles/:id - Forget a voice (it is relearned from later sessions)
+voiceProfileRouter.delete('/:id', async (req: AuthenticatedRequest, res, next) => {
+  try {
+    // Verify ownership
+    const existing = await prisma.voiceProfile.findUnique({
+      where: { id: req.params.id },
+      include: { campaign: { select: { userId: true } } },
+    });
+
+    if (!existing || existing.campaign.userId !== req.userId) {
+      throw new AppError(404, 'Voice profile not found');
+    }
+
+    await prisma.voiceProfile.delete({
+      where: { id: req.params.id },
+    });
+
+    res.json({
+      success: true,
+      data: { message: 'Voice profile deleted' },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,102 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Pass --clear-legacy to empty Session.transcript once its segments are copied
+const CLEAR_LEGACY = process.argv.includes('--clear-legacy');
+
+interface LegacySegment {
+  id?: string;
+  timestamp?: number;
+  speakerLabel?: string;
+  speakerName?: string | null;
+  text?: string;
+  confidence?: number;
+  isEdited?: boolean;
+  audioOffset?: number;
+  audioDuration?: number;
+  words?: unknown[];
+  speakerConfidence?: number;
+}
+
+/**
+ * Copy transcripts from the legacy Session.transcript JSON column into
+ * TranscriptSegment rows. Sessions that already have rows are skipped, so the
+ * script can be re-run safely.
+ */
+async function migrateTranscripts() {
+  console.log('🔄 Migrating session transcripts to TranscriptSegment rows...\n');
+
+  const sessions = await prisma.session.findMany({
+    select: { id: true, sessionNumber: true, _count: { select: { segments: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let migrated = 0;
+  let segmentTotal = 0;
+
+  for (const { id: sessionId, sessionNumber, _count } of sessions) {
+    if (_count.segments > 0) {
+      // Already migrated on an earlier run
+      if (CLEAR_LEGACY) {
+        await prisma.session.update({ where: { id: sessionId }, data: { transcript: [] } });
+      }
+      continue;
+    }
+
+    // Load one transcript at a time - long sessions can be large
+    const { transcript } = await prisma.session.findUniqueOrThrow({
+      where: { id: sessionId },
+      select: { transcript: true },
+    });
+    const legacy = (Array.isArray(transcript) ? transcript : []) as LegacySegment[];
+    if (legacy.length === 0) continue;
+
+    // Old transcripts may repeat ids (e.g. merged segments saved twice); keep the first
+    const seen = new Set<string>();
+    const rows = legacy
+      .map((segment, position) => ({ segment, position, id: segment.id || `legacy-${position}` }))
+      .filter(({ id }) => {
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      })
+      .map(({ segment, position, id }) => ({
+        id,
+        sessionId,
+        position,
+        timestamp: Math.round(segment.timestamp ?? 0),
+        speakerLabel: segment.speakerLabel || 'Speaker 0',
+        speakerName: segment.speakerName ?? null,
+        text: segment.text ?? '',
+        confidence: segment.confidence ?? 1,
+        isEdited: segment.isEdited ?? false,
+        audioOffset: segment.audioOffset !== undefined ? Math.round(segment.audioOffset) : null,
+        audioDuration: segment.audioDuration !== undefined ? Math.round(segment.audioDuration) : null,
+        words: segment.words ? (segment.words as Prisma.InputJsonValue) : Prisma.DbNull,
+        speakerConfidence: segment.speakerConfidence ?? null,
+      }));
+
+    await prisma.$transaction([
+      prisma.transcriptSegment.createMany({
+        data: rows,
+      }),
+      ...(CLEAR_LEGACY
+        ? [prisma.session.update({ where: { id: sessionId }, data: { transcript: [] } })]
+        : []),
+    ]);
+
+    console.log(`✓ Session ${sessionNumber} (${sessionId}): ${rows.length} segments`);
+    migrated++;
+    segmentTotal += rows.length;
+  }
+
+  console.log(`\n✅ Migrated ${migrated} session(s), ${segmentTotal} segments`);
+  if (!CLEAR_LEGACY && migrated > 0) {
+    console.log('   Legacy Session.transcript data was kept; re-run with --clear-legacy to empty it.');
+  }
+}
+
+migrateTranscripts()
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
@@ -317,80 +317,82 @@ Key Locations in Darlen:
       title: 'The Briefing',
       date: new Date(),
       status: 'in_progress',
-      transcript: [
-        {
-          id: 'darlen-seg-1',
-          timestamp: 0,
-          speakerLabel: 'Speaker 0',
-          speakerName: 'DM (Sean)',
-          text: 'So, the title of this is Dissidents in Darlen. For a shorthand, this is essentially Dungeons & Dragons in the Weimar Republic.',
-          confidence: 0.95,
-          isEdited: false,
-        },
-        {
-          id: 'darlen-seg-2',
-          timestamp: 15000,
-          speakerLabel: 'Speaker 0',
-          speakerName: 'DM (Sean)',
-          text: 'The setting for our players is essentially the Arkosian Empire has recently been toppled by a peaceful overthrow of the imperial government. The emperor has been exiled, and a new republican form of government known as the Arkosian Republic has been founded with its leader, Bular Apala, the Sleeping Dragon, at its head.',
-          confidence: 0.94,
-          isEdited: false,
-        },
-        {
-          id: 'darlen-seg-3',
-          timestamp: 45000,
-          speakerLabel: 'Speaker 0',
-          speakerName: 'Bular Apala',
-          text: 'Welcome, welcome, welcome. I\'m glad you all could make it here today. There is a great threat to the fledgling republic from a certain paramilitary group under the leadership of one of our former generals, Gul Cop.',
-          confidence: 0.93,
-          isEdited: false,
-        },
-        {
-          id: 'darlen-seg-4',
-          timestamp: 75000,
-          speakerLabel: 'Speaker 0',
-          speakerName: 'Bular Apala',
-          text: 'Three days from now is when the intended strike is going to occur. It is your job to hopefully find him and arrest him and his second-in-command, Anadro Feierdrich. Preferably, I would like to see these gentlemen stand trial, so please do not kill them if you can help it.',
-          confidence: 0.94,
-          isEdited: false,
-        },
-        {
-          id: 'darlen-seg-5',
-          timestamp: 120000,
-          speakerLabel: 'Speaker 0',
-          speakerName: 'DM (Sean)',
-          text: 'In the central square, you see three lizardfolk and one dragonborn in brown robes. They\'re engaged in beating up a Kenku. The dragonborn looks over and sees your group. He singles in on Sora and says: "What are you doing with these inferior races?"',
-          confidence: 0.92,
-          isEdited: false,
-        },
-        {
-          id: 'darlen-seg-6',
-          timestamp: 150000,
-          speakerLabel: 'Speaker 1',
-          speakerName: 'Russ (Byron)',
-          text: 'I\'m going to jump on top of the statue, take my bow out, and tell them they best run along, or I\'ll have some new target practice.',
-          confidence: 0.91,
-          isEdited: false,
-        },
-        {
-          id: 'darlen-seg-7',
-          timestamp: 165000,
-          speakerLabel: 'Speaker 2',
-          speakerName: 'Ian (Tyvia)',
-          text: 'I cast Entangle. Before we start shooting them - he asked us to be non-violent.',
-          confidence: 0.93,
-          isEdited: false,
-        },
-        {
-          id: 'darlen-seg-8',
-          timestamp: 180000,
-          speakerLabel: 'Speaker 3',
-          speakerName: 'Renee (Sora)',
-          text: 'Enough talk! I throw a javelin at the acolyte. I feel that he is bringing dishonor on me and my kind.',
-          confidence: 0.92,
-          isEdited: false,
-        },
-      ],
+      segments: {
+        create: [
+          {
+            id: 'darlen-seg-1',
+            timestamp: 0,
+            speakerLabel: 'Speaker 0',
+            speakerName: 'DM (Sean)',
+            text: 'So, the title of this is Dissidents in Darlen. For a shorthand, this is essentially Dungeons & Dragons in the Weimar Republic.',
+            confidence: 0.95,
+            isEdited: false,
+          },
+          {
+            id: 'darlen-seg-2',
+            timestamp: 15000,
+            speakerLabel: 'Speaker 0',
+            speakerName: 'DM (Sean)',
+            text: 'The setting for our players is essentially the Arkosian Empire has recently been toppled by a peaceful overthrow of the imperial government. The emperor has been exiled, and a new republican form of government known as the Arkosian Republic has been founded with its leader, Bular Apala, the Sleeping Dragon, at its head.',
+            confidence: 0.94,
+            isEdited: false,
+          },
+          {
+            id: 'darlen-seg-3',
+            timestamp: 45000,
+            speakerLabel: 'Speaker 0',
+            speakerName: 'Bular Apala',
+            text: 'Welcome, welcome, welcome. I\'m glad you all could make it here today. There is a great threat to the fledgling republic from a certain paramilitary group under the leadership of one of our former generals, Gul Cop.',
+            confidence: 0.93,
+            isEdited: false,
+          },
+          {
+            id: 'darlen-seg-4',
+            timestamp: 75000,
+            speakerLabel: 'Speaker 0',
+            speakerName: 'Bular Apala',
+            text: 'Three days from now is when the intended strike is going to occur. It is your job to hopefully find him and arrest him and his second-in-command, Anadro Feierdrich. Preferably, I would like to see these gentlemen stand trial, so please do not kill them if you can help it.',
+            confidence: 0.94,
+            isEdited: false,
+          },
+          {
+            id: 'darlen-seg-5',
+            timestamp: 120000,
+            speakerLabel: 'Speaker 0',
+            speakerName: 'DM (Sean)',
+            text: 'In the central square, you see three lizardfolk and one dragonborn in brown robes. They\'re engaged in beating up a Kenku. The dragonborn looks over and sees your group. He singles in on Sora and says: "What are you doing with these inferior races?"',
+            confidence: 0.92,
+            isEdited: false,
+          },
+          {
+            id: 'darlen-seg-6',
+            timestamp: 150000,
+            speakerLabel: 'Speaker 1',
+            speakerName: 'Russ (Byron)',
+            text: 'I\'m going to jump on top of the statue, take my bow out, and tell them they best run along, or I\'ll have some new target practice.',
+            confidence: 0.91,
+            isEdited: false,
+          },
+          {
+            id: 'darlen-seg-7',
+            timestamp: 165000,
+            speakerLabel: 'Speaker 2',
+            speakerName: 'Ian (Tyvia)',
+            text: 'I cast Entangle. Before we start shooting them - he asked us to be non-violent.',
+            confidence: 0.93,
+            isEdited: false,
+          },
+          {
+            id: 'darlen-seg-8',
+            timestamp: 180000,
+            speakerLabel: 'Speaker 3',
+            speakerName: 'Renee (Sora)',
+            text: 'Enough talk! I throw a javelin at the acolyte. I feel that he is bringing dishonor on me and my kind.',
+            confidence: 0.92,
+            isEdited: false,
+          },
+        ].map((segment, position) => ({ ...segment, position })),
+      },
       notes: `Session 1 - The party received their mission briefing from Bular Apala at Town Hall.
 
 Key Information Learned:
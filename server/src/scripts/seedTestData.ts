@@ -256,35 +256,37 @@ Important NPCs controlled by DM:
       title: 'Death House',
       date: new Date('2024-01-15'),
       status: 'completed',
-      transcript: [
-        {
-          id: 'seg-1',
-          timestamp: 0,
-          speakerLabel: 'Speaker 0',
-          speakerName: 'DM',
-          text: 'Welcome back everyone to Curse of Strahd. Last time, you found yourselves pulled through the mysterious mists into the dark land of Barovia.',
-          confidence: 0.95,
-          isEdited: false,
-        },
-        {
-          id: 'seg-2',
-          timestamp: 15000,
-          speakerLabel: 'Speaker 1',
-          speakerName: 'Sarah',
-          text: 'Elara looks around nervously, clutching her holy symbol. "This place feels... wrong. Lathander\'s light seems dimmer here."',
-          confidence: 0.92,
-          isEdited: false,
-        },
-        {
-          id: 'seg-3',
-          timestamp: 28000,
-          speakerLabel: 'Speaker 2',
-          speakerName: 'Mike',
-          text: 'Thorgrim grunts and hefts his warhammer. "Bah! Dark magic or not, nothing stands against dwarven steel."',
-          confidence: 0.94,
-          isEdited: false,
-        },
-      ],
+      segments: {
+        create: [
+          {
+            id: 'seg-1',
+            timestamp: 0,
+            speakerLabel: 'Speaker 0',
+            speakerName: 'DM',
+            text: 'Welcome back everyone to Curse of Strahd. Last time, you found yourselves pulled through the mysterious mists into the dark land of Barovia.',
+            confidence: 0.95,
+            isEdited: false,
+          },
+          {
+            id: 'seg-2',
+            timestamp: 15000,
+            speakerLabel: 'Speaker 1',
+            speakerName: 'Sarah',
+            text: 'Elara looks around nervously, clutching her holy symbol. "This place feels... wrong. Lathander\'s light seems dimmer here."',
+            confidence: 0.92,
+            isEdited: false,
+          },
+          {
+            id: 'seg-3',
+            timestamp: 28000,
+            speakerLabel: 'Speaker 2',
+            speakerName: 'Mike',
+            text: 'Thorgrim grunts and hefts his warhammer. "Bah! Dark magic or not, nothing stands against dwarven steel."',
+            confidence: 0.94,
+            isEdited: false,
+          },
+        ].map((segment, position) => ({ ...segment, position })),
+      },
       notes: 'Party explored Death House. Rose and Thorn ghosts encountered. Shambling mound in the basement nearly killed Zephyr.',
       recap: 'Previously on Curse of Strahd: Our heroes found themselves drawn through supernatural mists into the dread realm of Barovia. Following two ghostly children, Rose and Thorn, they entered a seemingly abandoned townhouse that proved to be far more sinister than it appeared. Descending into the depths beneath the house, they discovered a cult\'s sacrificial chamber and faced a horrifying shambling mound. Though Zephyr fell in battle, Elara\'s divine magic brought them back from the brink of death. Escaping the crumbling house, the party now stands in the village of Barovia, the dark silhouette of Castle Ravenloft looming in the distance...',
     },
@@ -302,7 +304,6 @@ Important NPCs controlled by DM:
       title: 'The Village of Barovia',
       date: new Date(),
       status: 'draft',
-      transcript: [],
       notes: null,
       recap: null,
     },
@@ -1,21 +1,114 @@
-import OpenAI from 'openai';
-import { config } from '../config.js';
-import type { Campaign, Player, NPC } from '@prisma/client';
+import { z } from 'zod';
+import type { LoreKind, Prisma, RecapLength, RecapStyle } from '@prisma/client';
 import type { TranscriptSegment } from './transcription.js';
+import type { SessionSummary } from './sessionSummary.js';
+import { createLLMClient, resolveLLMProvider, LLMClient } from './llm.js';
+import { describeCharacterSheet, toCharacterSheetData } from './characterSheets.js';
+
+const linkedNpcNames = { npcs: { select: { name: true } } } as const;
+
+/**
+ * Everything AIService reads from a campaign; load campaigns with this include
+ */
+export const AI_CAMPAIGN_INCLUDE = {
+  players: { include: { characterSheet: true } },
+  npcs: true,
+  locations: { include: linkedNpcNames },
+  factions: { include: linkedNpcNames },
+  items: true,
+  quests: { include: linkedNpcNames },
+} as const;
+
+type CampaignWithRelations = Prisma.CampaignGetPayload<{ include: typeof AI_CAMPAIGN_INCLUDE }>;
+
+export interface ExtractedHealthEvent {
+  characterName: string;
+  target?: 'player' | 'enemy'; // Enemies are matched to, or join, the running encounter
+  type: 'damage' | 'healing' | 'status' | 'temp_hp';
+  value?: number;
+  damageType?: string; // 'fire', 'slashing', ... when said
+  statusEffect?: string;
+  durationRounds?: number; // How long a status lasts, when that was said
+  durationMinutes?: number;
+  description: string;
+}
+
+export interface ExtractedResourceUse {
+  characterName: string;
+  kind: 'spell_slot' | 'feature' | 'hit_dice';
+  name?: string; // The spell cast or the feature used
+  spellLevel?: number; // The slot level a spell was cast with
+  amount?: number; // Defaults to 1
+  description: string;
+}
+
+// An extracted use as the model wrote it. Entries are checked one at a time, so a
+// malformed one is dropped without losing the rest; stray optional values are ignored.
+const extractedResourceUseSchema = z.object({
+  characterName: z.string().trim().max(100),
+  kind: z.enum(['spell_slot', 'feature', 'hit_dice']),
+  name: z.string().trim().min(1).max(100).optional().catch(undefined),
+  spellLevel: z.number().int().min(1).max(9).optional().catch(undefined),
+  amount: z.number().int().min(1).max(20).optional().catch(undefined),
+  description: z.string().trim().transform(d => d.slice(0, 500)),
+});
+
+export interface ExtractedLore {
+  kind: LoreKind;
+  name: string;
+  description: string;
+  details: Record<string, string>; // speechPatterns (npc), kind (location), goals (faction), holder (item), reward (quest)
+  segmentIndexes: number[]; // Positions in the transcript it was mentioned at
+}
 
-type CampaignWithRelations = Campaign & {
-  players: Player[];
-  npcs: NPC[];
+export interface RecapOptions {
+  style: RecapStyle;
+  length: RecapLength;
+  // Who signs the 'letter' style; when missing the model picks an NPC from the session
+  letterFrom?: { name: string; description: string | null; speechPatterns: string | null } | null;
+}
+
+const RECAP_STYLE_INSTRUCTIONS: Record<RecapStyle, string> = {
+  narrative: 'Write it as dramatic narration for the "Previously on..." segment, in 2-3 paragraphs suitable for reading aloud.',
+  bard: 'Write it as a bard recounting the tale in a crowded tavern: first person, embellished, with asides to the audience and perhaps a rhyming couplet.',
+  newspaper: 'Write it as a front-page report in a local broadsheet of the campaign world, with a headline, a byline and quotes from "witnesses".',
+  bullets: 'Write it as a plain bullet-point list, one event per line starting with "- ", in the order they happened. No flourishes.',
+  letter: 'Write it as an in-character letter from an NPC to the party, in that NPC\'s voice, describing events as they saw or heard of them. Sign it with their name.',
 };
 
+// Target word counts and the token budget that fits them
+const RECAP_LENGTHS: Record<RecapLength, { words: number; maxTokens: number }> = {
+  short: { words: 120, maxTokens: 250 },
+  medium: { words: 300, maxTokens: 500 },
+  long: { words: 600, maxTokens: 1000 },
+};
+
+const LORE_KINDS: LoreKind[] = ['npc', 'location', 'faction', 'item', 'quest'];
+// Transcript lines sent per lore extraction request
+const LORE_WINDOW_LINES = 150;
+
+/**
+ * A numbered passage an answer may cite as [ref]
+ */
+export interface AnswerSource {
+  ref: number;
+  label: string; // Where it comes from, e.g. "Session 3"
+  text: string;
+}
+
+export interface CampaignAnswer {
+  answer: string;
+  refs: number[];
+}
+
 export class AIService {
-  private openai: OpenAI;
+  private llm: LLMClient;
   private campaign: CampaignWithRelations;
   private knownNames: string[];
   private nameCorrections: Map<string, string> = new Map();
 
-  constructor(campaign: CampaignWithRelations) {
-    this.openai = new OpenAI({ apiKey: config.openaiApiKey });
+  constructor(campaign: CampaignWithRelations, llm: LLMClient = createLLMClient(resolveLLMProvider(campaign))) {
+    this.llm = llm;
     this.campaign = campaign;
     
     // Build list of known names for correction
@@ -23,6 +116,10 @@ export class AIService {
       ...campaign.players.map(p => p.characterName),
       ...campaign.players.map(p => p.playerName),
       ...campaign.npcs.map(n => n.name),
+      ...campaign.locations.map(l => l.name),
+      ...campaign.factions.map(f => f.name),
+      ...campaign.items.map(i => i.name),
+      ...campaign.quests.map(q => q.name),
       campaign.name,
     ].filter(Boolean) as string[];
     
@@ -55,6 +152,10 @@ export class AIService {
 KNOWN NAMES IN THIS CAMPAIGN (use ONLY these, never invent names):
 - Player Characters: ${this.campaign.players.map(p => `${p.characterName} (played by ${p.playerName})`).join(', ')}
 - NPCs: ${this.campaign.npcs.map(n => n.name).join(', ')}
+- Locations: ${this.campaign.locations.map(l => l.name).join(', ') || 'None'}
+- Factions: ${this.campaign.factions.map(f => f.name).join(', ') || 'None'}
+- Items: ${this.campaign.items.map(i => i.name).join(', ') || 'None'}
+- Quests: ${this.campaign.quests.map(q => q.name).join(', ') || 'None'}
 - Campaign: ${this.campaign.name}
 - Locations/Terms from world context: ${this.campaign.worldContext || 'None specified'}
 `;
@@ -81,20 +182,14 @@ ${text}
 Output ONLY the corrected version of the above text, nothing else:`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a transcript editor. Output ONLY the corrected text, no quotes, no explanation. Keep corrections minimal - only fix clear errors.',
-          },
-          { role: 'user', content: prompt },
-        ],
+      let corrected = await this.llm.complete({
+        task: 'transcript-correction',
+        system: 'You are a transcript editor. Output ONLY the corrected text, no quotes, no explanation. Keep corrections minimal - only fix clear errors.',
+        prompt,
+        input: text,
         temperature: 0.1,
-        max_tokens: 200,
+        maxTokens: 200,
       });
-
-      let corrected = response.choices[0]?.message?.content?.trim();
       
       if (corrected) {
         // Strip any surrounding quotes the AI might have added
@@ -163,9 +258,15 @@ Output ONLY the corrected version of the above text, nothing else:`;
 
     const context = this.buildCampaignContext();
     
-    // Include current attributions so AI can see and correct them
+    // Include current attributions so AI can see and correct them, plus the diarized
+    // voice behind each line and how sure the acoustic model was about it
     const segmentsText = segments
-      .map((s, i) => `[${i}] ${s.speakerName || s.speakerLabel}: "${s.text}"`)
+      .map((s, i) => {
+        const voice = s.speakerConfidence !== undefined
+          ? `(voice ${s.speakerLabel}, ${Math.round(s.speakerConfidence * 100)}%) `
+          : '';
+        return `[${i}] ${voice}${s.speakerName || s.speakerLabel}: "${s.text}"`;
+      })
       .join('\n');
 
     const prompt = `You are RETROACTIVELY reviewing and correcting speaker attributions for a D&D session transcript.
@@ -181,6 +282,8 @@ CRITICAL RULES FOR SPEAKER IDENTIFICATION:
    - Mentions of "you" (plural) = DM addressing party
    - Mentions specific character by name = likely DM or another player
    - First person singular ("I") = player character action
+6. **Voice confidence**: "(voice Speaker B, 95%)" means the audio clearly came from voice B. Lines with the same
+   high-confidence voice are almost always the same person; only low percentages should be reassigned freely.
 
 CURRENT TRANSCRIPT (some attributions may be wrong - CORRECT THEM):
 ${segmentsText}
@@ -199,12 +302,12 @@ Respond with JSON:
     try {
       console.log('🤖 Running retroactive speaker attribution for', segments.length, 'segments...');
       
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert D&D transcript analyzer. Your job is to CORRECTLY identify who is speaking each line.
+      const parsed = await this.llm.completeJSON<{
+        speakers?: Array<{ index: number; speaker: string }>;
+        attributions?: Array<{ index: number; speaker: string }>;
+      }>({
+        task: 'speaker-attribution',
+        system: `You are an expert D&D transcript analyzer. Your job is to CORRECTLY identify who is speaking each line.
             
 KEY DISTINCTION:
 - DM: Describes scenes, narrates events, speaks AS NPCs, asks "what do you do?", calls for rolls
@@ -213,27 +316,22 @@ KEY DISTINCTION:
 The available speakers are: DM, ${this.campaign.players.map(p => p.playerName).join(', ')}
 
 ALWAYS attribute every line. When uncertain, DM is more likely for narrative/descriptive text, players for first-person actions.`,
-          },
-          { role: 'user', content: prompt },
-        ],
+        prompt,
+        input: segmentsText,
         temperature: 0.1, // Lower temperature for more consistent results
-        response_format: { type: 'json_object' },
       });
-
-      const content = response.choices[0]?.message?.content;
       
-      if (!content) {
+      if (!parsed) {
         console.warn('🤖 No content in AI response');
         return segments;
       }
 
-      const parsed = JSON.parse(content);
       const attributionArray = parsed.speakers || parsed.attributions || [];
       
       // Log changes
       let changesCount = 0;
       const results = segments.map((segment, index) => {
-        const attribution = attributionArray.find((a: { index: number }) => a.index === index);
+        const attribution = attributionArray.find(a => a.index === index);
         const newSpeaker = attribution?.speaker || null;
         const oldSpeaker = segment.speakerName || segment.speakerLabel;
         
@@ -282,17 +380,14 @@ Scene types:
 Respond with JSON: { "scene": "type", "confidence": 0.0-1.0 }`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [{ role: 'user', content: prompt }],
+      const result = await this.llm.completeJSON<{ scene: string; confidence: number }>({
+        task: 'scene-detection',
+        prompt,
+        input: recentText,
         temperature: 0.3,
-        response_format: { type: 'json_object' },
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) return { scene: 'ambient', confidence: 0.5 };
-
-      return JSON.parse(content);
+      return result ?? { scene: 'ambient', confidence: 0.5 };
     } catch (error) {
       console.error('Error detecting scene:', error);
       return { scene: 'ambient', confidence: 0.5 };
@@ -302,50 +397,54 @@ Respond with JSON: { "scene": "type", "confidence": 0.0-1.0 }`;
   /**
    * Extract health events from transcript text
    */
-  async extractHealthEvents(text: string): Promise<Array<{
-    characterName: string;
-    type: 'damage' | 'healing' | 'status';
-    value?: number;
-    statusEffect?: string;
-    description: string;
-  }>> {
+  async extractHealthEvents(text: string, enemyNames: string[] = []): Promise<ExtractedHealthEvent[]> {
     const playerNames = this.campaign.players.map(p => p.characterName);
     
     const prompt = `Analyze this D&D session dialogue and extract any health-related events.
 
 Known characters: ${playerNames.join(', ')}
+Enemies in the current fight: ${enemyNames.length > 0 ? enemyNames.join(', ') : 'none yet'}
 
 Dialogue:
 ${text}
 
 Look for:
 - Damage taken (e.g., "takes 15 damage", "loses 8 HP", "is hit for 12")
+- The damage type when it is said (e.g., "8 fire damage", "takes 6 slashing damage"): one of
+  acid, bludgeoning, cold, fire, force, lightning, necrotic, piercing, poison, psychic, radiant, slashing, thunder
 - Healing (e.g., "heals for 10", "regains 5 hit points")
-- Status effects (e.g., "is poisoned", "falls unconscious", "is charmed")
+- Temporary hit points (e.g., "gains 5 temporary hit points", "gets 8 temp HP")
+- Status effects (e.g., "is poisoned", "falls unconscious", "is charmed"), with how long
+  they last when that is said (e.g., "poisoned for 1 minute", "stunned until the end of its next turn" = 1 round)
+
+Events can happen to the player characters or to enemies (e.g., "the goblin takes 7 damage",
+"you hit the ogre for 12"). Use an enemy's name from the list above when it is one of them;
+otherwise name a new enemy the way the DM does, without "the".
 
 Respond with JSON array of events:
 [{
   "characterName": "name",
-  "type": "damage" | "healing" | "status",
-  "value": number (for damage/healing),
+  "target": "player" | "enemy",
+  "type": "damage" | "healing" | "status" | "temp_hp",
+  "value": number (for damage/healing/temp_hp),
+  "damageType": "fire" (for damage, if said),
   "statusEffect": "effect name" (for status),
+  "durationRounds": number (for status, if said in rounds),
+  "durationMinutes": number (for status, if said in minutes or hours),
   "description": "brief description"
 }]
 
 If no health events found, return empty array: []`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [{ role: 'user', content: prompt }],
+      const result = await this.llm.completeJSON<ExtractedHealthEvent[] | { events?: ExtractedHealthEvent[] }>({
+        task: 'health-extraction',
+        prompt,
+        input: text,
         temperature: 0.2,
-        response_format: { type: 'json_object' },
       });
+      if (!result) return [];
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) return [];
-
-      const result = JSON.parse(content);
       return Array.isArray(result) ? result : result.events || [];
     } catch (error) {
       console.error('Error extracting health events:', error);
@@ -354,59 +453,476 @@ If no health events found, return empty array: []`;
   }
 
   /**
-   * Generate a session recap
+   * Extract spell slots, limited-use features and hit dice a character spends. First
+   * person ("I cast...") is the speaker, when we know who that is.
+   */
+  async extractResourceUses(text: string, speakerName: string | null = null): Promise<ExtractedResourceUse[]> {
+    const characters = this.campaign.players.map(p => {
+      const features = p.characterSheet ? toCharacterSheetData(p.characterSheet).features.filter(f => f.uses) : [];
+      return features.length > 0 ? `${p.characterName} (features: ${features.map(f => f.name).join(', ')})` : p.characterName;
+    });
+
+    const prompt = `Analyze this D&D session dialogue and extract any limited resources a character spends.
+
+Known characters: ${characters.join('; ')}
+Speaker: ${speakerName ?? 'unknown'}
+
+Dialogue:
+${text}
+
+Look for:
+- Spells cast with a spell slot (e.g., "I cast Fireball at third level", "casts Cure Wounds with a 2nd-level slot").
+  Use the level said, or the spell's own level when none is; cantrips use no slot, so leave them out
+- Class features and other abilities with limited uses (e.g., "I use my Action Surge", "Grok rages", "she uses Second Wind")
+- Hit dice spent (e.g., "I spend two hit dice")
+
+"I" and "my" mean the speaker. Use the character's name from the list above.
+
+Respond with JSON array:
+[{
+  "characterName": "name",
+  "kind": "spell_slot" | "feature" | "hit_dice",
+  "name": "spell or feature name",
+  "spellLevel": number (for spell_slot),
+  "amount": number (how many uses or hit dice, if more than 1),
+  "description": "brief description"
+}]
+
+If nothing was spent, return empty array: []`;
+
+    try {
+      const result = await this.llm.completeJSON<unknown[] | { uses?: unknown[] }>({
+        task: 'resource-extraction',
+        prompt,
+        input: text,
+        temperature: 0.2,
+      });
+      if (!result) return [];
+
+      const entries = Array.isArray(result) ? result : Array.isArray(result.uses) ? result.uses : [];
+      return entries.flatMap(entry => {
+        const parsed = extractedResourceUseSchema.safeParse(entry);
+        if (!parsed.success) return [];
+        const use: ExtractedResourceUse = parsed.data;
+        if (!/^(i|me|my)?$/i.test(use.characterName)) return [use];
+        return speakerName ? [{ ...use, characterName: speakerName }] : [];
+      });
+    } catch (error) {
+      console.error('Error extracting resource uses:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Generate a session recap. The previous session's summary (as the DM left it)
+   * lets the recap pick up the threads that were open going in. Null when no recap
+   * could be written, so a failure is never saved as one.
    */
-  async generateRecap(transcript: TranscriptSegment[]): Promise<string> {
+  async generateRecap(
+    transcript: TranscriptSegment[],
+    previous: { sessionNumber: number; summary: SessionSummary } | null = null,
+    options: RecapOptions = { style: 'narrative', length: 'medium' }
+  ): Promise<string | null> {
     const transcriptText = transcript
       .map(s => `${s.speakerName || s.speakerLabel}: ${s.text}`)
       .join('\n');
 
-    const prompt = `Generate a narrative recap of this D&D session for the "Previously on..." segment.
+    const carriedOver = previous
+      ? [
+          previous.summary.decisions.length > 0 && `- Decisions: ${previous.summary.decisions.join('; ')}`,
+          previous.summary.openThreads.length > 0 && `- Open threads: ${previous.summary.openThreads.join('; ')}`,
+        ].filter(Boolean)
+      : [];
+    const previousContext = carriedOver.length > 0
+      ? `\nWhere things stood after Session ${previous!.sessionNumber}:\n${carriedOver.join('\n')}\n`
+      : '';
+
+    const { letterFrom } = options;
+    const letterContext = options.style !== 'letter'
+      ? ''
+      : letterFrom
+        ? `\nThe letter is from ${letterFrom.name}${letterFrom.description ? ` (${letterFrom.description})` : ''}.${letterFrom.speechPatterns ? ` Their voice: ${letterFrom.speechPatterns}` : ''}\n`
+        : `\nChoose the letter writer from the NPCs who appear in the session${this.campaign.npcs.length > 0 ? ` or these known NPCs: ${this.campaign.npcs.map(n => n.name).join(', ')}` : ''}.\n`;
+    const length = RECAP_LENGTHS[options.length];
+
+    const prompt = `Generate a recap of this D&D session for the players to hear before the next one.
 
 Campaign: ${this.campaign.name}
 ${this.campaign.description || ''}
-
+${previousContext}
 Session Transcript:
 ${transcriptText}
 
-Write a compelling 2-3 paragraph recap that:
-1. Summarizes key events and decisions
-2. Highlights memorable moments and character interactions
-3. Ends with a hook about what's next or what was left unresolved
-4. Uses dramatic, narrative language suitable for reading aloud
+The recap should:
+1. Summarize key events and decisions
+2. Highlight memorable moments and character interactions
+3. End with a hook about what's next or what was left unresolved${carriedOver.length > 0 ? `
+4. Mention any open threads from last time that this session resolved or moved forward` : ''}
 
-Keep it under 300 words.`;
+${RECAP_STYLE_INSTRUCTIONS[options.style]}
+${letterContext}
+Keep it under ${length.words} words.`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a skilled narrator who creates engaging recaps of D&D sessions.',
-          },
-          { role: 'user', content: prompt },
-        ],
+      const recap = await this.llm.complete({
+        task: 'recap',
+        system: 'You are a skilled narrator who creates engaging recaps of D&D sessions.',
+        prompt,
+        input: transcriptText,
         temperature: 0.7,
-        max_tokens: 500,
+        maxTokens: length.maxTokens,
       });
 
-      return response.choices[0]?.message?.content || 'Unable to generate recap.';
+      return recap?.trim() || null;
     } catch (error) {
       console.error('Error generating recap:', error);
-      return 'Unable to generate recap due to an error.';
+      return null;
+    }
+  }
+
+  /**
+   * Fold one more session into the campaign's rolling "story so far", written for
+   * players joining mid-campaign. Older events are compressed as the story grows.
+   */
+  async extendStorySoFar(
+    story: string | null,
+    session: { sessionNumber: number; title: string | null; recap: string }
+  ): Promise<string> {
+    const heading = `Session ${session.sessionNumber}${session.title ? ` (${session.title})` : ''}`;
+
+    const prompt = `Update the "story so far" of this D&D campaign with what happened in the latest session.
+
+Campaign: ${this.campaign.name}
+${this.campaign.description || ''}
+
+THE STORY SO FAR:
+${story || '(Nothing yet - this is the first session.)'}
+
+LATEST SESSION, ${heading}:
+${session.recap}
+
+Rewrite the story so far so it:
+1. Covers the whole campaign to date, in order, ending with where the party stands now
+2. Lets a new player catch up: who the characters are, who matters, what they are trying to do
+3. Gives the latest session the most detail and compresses older sessions to their essentials
+4. Keeps names exactly as written above
+5. Stays under 500 words, in plain past-tense prose without headings
+
+Respond with the updated story only.`;
+
+    try {
+      const updated = await this.llm.complete({
+        task: 'story-so-far',
+        system: "You are the chronicler of a tabletop campaign, keeping its story easy to catch up on.",
+        prompt,
+        input: session.recap,
+        temperature: 0.4,
+        maxTokens: 800,
+      });
+      if (updated?.trim()) return updated.trim();
+    } catch (error) {
+      console.error('Error updating story so far:', error);
     }
+
+    // No model: append the session's recap, opening paragraph only
+    const opening = session.recap.trim().split(/\n\s*\n/)[0];
+    return [story, `${heading}: ${opening}`].filter(Boolean).join('\n\n');
+  }
+
+  /**
+   * Pull the structured facts of a session out of its transcript: key events
+   * (pinned to the line they happened at), decisions, loot, XP, NPCs met,
+   * combat encounters and unresolved hooks
+   */
+  async generateSummary(transcript: TranscriptSegment[]): Promise<SessionSummary> {
+    const summary: SessionSummary = {
+      keyEvents: [],
+      decisions: [],
+      loot: [],
+      xp: null,
+      npcsMet: [],
+      combats: [],
+      openThreads: [],
+    };
+    if (transcript.length === 0) return summary;
+
+    const linesText = transcript
+      .map((s, i) => `[${i}] ${s.speakerName || s.speakerLabel}: "${s.text}"`)
+      .join('\n');
+
+    const prompt = `Summarize this D&D session transcript as structured notes for the Dungeon Master.
+
+${this.buildCampaignContext()}
+
+TRANSCRIPT:
+${linesText}
+
+Extract:
+- keyEvents: the 3-10 most important things that happened, in order, each with the [n] line it happened at
+- decisions: choices the party made that will matter later
+- loot: treasure, items and money gained, and who took it if said
+- xp: experience points awarded per character, if the DM announced any
+- npcsMet: names of the NPCs the party met or talked to
+- combats: each fight, and how it ended
+- openThreads: hooks, mysteries and promises left unresolved
+
+RULES:
+1. Only include what the transcript supports; leave lists empty rather than guess.
+2. The transcript is speech-to-text: use the campaign's spelling of names.
+3. Keep each entry to one short sentence.
+
+Respond with JSON:
+{
+  "keyEvents": [{"line": 12, "description": "..."}],
+  "decisions": ["..."],
+  "loot": [{"item": "50 gold pieces", "recipient": "Grok or null"}],
+  "xp": 300 or null,
+  "npcsMet": ["..."],
+  "combats": [{"description": "Ambush by goblins on the road", "outcome": "Goblins fled"}],
+  "openThreads": ["..."]
+}`;
+
+    type RawSummary = {
+      keyEvents?: Array<{ line?: number; description?: string }>;
+      decisions?: unknown[];
+      loot?: Array<{ item?: string; recipient?: string | null }>;
+      xp?: number | null;
+      npcsMet?: unknown[];
+      combats?: Array<{ description?: string; outcome?: string | null }>;
+      openThreads?: unknown[];
+    };
+    const text = (value: unknown): string | null =>
+      typeof value === 'string' && value.trim() ? value.trim() : null;
+    const texts = (values: unknown[] | undefined): string[] =>
+      (values ?? []).map(text).filter((v): v is string => v !== null);
+
+    try {
+      const result = await this.llm.completeJSON<RawSummary>({
+        task: 'session-summary',
+        system: 'You keep concise, accurate session notes for a Dungeon Master.',
+        prompt,
+        input: linesText,
+        temperature: 0.2,
+        maxTokens: 1200,
+      });
+      if (!result) return summary;
+
+      summary.keyEvents = (result.keyEvents ?? []).flatMap(event => {
+        const description = text(event.description);
+        if (!description) return [];
+        const segment = Number.isInteger(event.line) ? transcript[event.line!] : undefined;
+        return [{ description, segmentId: segment?.id ?? null, timestamp: segment?.timestamp ?? null }];
+      });
+      summary.decisions = texts(result.decisions);
+      summary.loot = (result.loot ?? []).flatMap(loot => {
+        const item = text(loot.item);
+        return item ? [{ item, recipient: text(loot.recipient) }] : [];
+      });
+      summary.xp = typeof result.xp === 'number' && result.xp > 0 ? Math.round(result.xp) : null;
+      summary.npcsMet = [...new Set(texts(result.npcsMet))];
+      summary.combats = (result.combats ?? []).flatMap(combat => {
+        const description = text(combat.description);
+        return description ? [{ description, outcome: text(combat.outcome) }] : [];
+      });
+      summary.openThreads = texts(result.openThreads);
+    } catch (error) {
+      console.error('Error generating session summary:', error);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Find NPCs, places, factions, items and plot threads introduced in a session
+   * that the campaign doesn't know about yet
+   */
+  async extractLore(transcript: TranscriptSegment[]): Promise<ExtractedLore[]> {
+    const known = new Set(this.knownNames.map(n => n.toLowerCase()));
+    const found = new Map<string, ExtractedLore>();
+
+    for (let start = 0; start < transcript.length; start += LORE_WINDOW_LINES) {
+      const window = transcript.slice(start, start + LORE_WINDOW_LINES);
+      for (const lore of await this.extractLoreWindow(window, start)) {
+        const name = lore.name.trim();
+        if (!name || known.has(name.toLowerCase())) continue;
+
+        // The same name across windows is one proposal mentioned in more places
+        const key = `${lore.kind}:${name.toLowerCase()}`;
+        const existing = found.get(key);
+        if (existing) {
+          existing.segmentIndexes = [...new Set([...existing.segmentIndexes, ...lore.segmentIndexes])];
+          if (lore.description.length > existing.description.length) {
+            existing.description = lore.description;
+          }
+          existing.details = { ...lore.details, ...existing.details };
+        } else {
+          found.set(key, { ...lore, name });
+        }
+      }
+    }
+
+    return [...found.values()];
+  }
+
+  private async extractLoreWindow(window: TranscriptSegment[], offset: number): Promise<ExtractedLore[]> {
+    const linesText = window
+      .map((s, i) => `[${offset + i}] ${s.speakerName || s.speakerLabel}: "${s.text}"`)
+      .join('\n');
+
+    const prompt = `Read this part of a D&D session transcript and list the NEW named things the Dungeon Master introduced.
+
+${this.buildCampaignContext()}
+
+TRANSCRIPT:
+${linesText}
+
+Look for:
+- "npc": named non-player characters (not the player characters)
+- "location": named places (cities, taverns, dungeons, regions)
+- "faction": named groups, guilds, cults, noble houses
+- "item": named or notable magic items and artifacts
+- "quest": plot threads, jobs or promises the party took on or left unresolved
+
+RULES:
+1. Skip anything already in the campaign context above.
+2. Only include things the transcript actually names or clearly describes; never invent.
+3. The transcript is speech-to-text, so spell names the way they most plausibly are.
+4. "lines" are the [n] numbers of the lines that mention it.
+5. Descriptions are one or two sentences, from what was said.
+
+Respond with JSON:
+{
+  "lore": [
+    {"kind": "npc", "name": "Name", "description": "who they are", "details": {"speechPatterns": "optional"}, "lines": [3, 7]},
+    {"kind": "location", "name": "Name", "description": "...", "details": {"kind": "tavern"}, "lines": [12]},
+    {"kind": "faction", "name": "Name", "description": "...", "details": {"goals": "optional"}, "lines": [15]},
+    {"kind": "item", "name": "Name", "description": "...", "details": {"holder": "who has it, optional"}, "lines": [20]},
+    {"kind": "quest", "name": "Short title", "description": "...", "details": {"reward": "optional"}, "lines": [22]}
+  ]
+}
+
+If nothing new was introduced, return {"lore": []}`;
+
+    try {
+      const result = await this.llm.completeJSON<{
+        lore?: Array<{ kind?: string; name?: string; description?: string; details?: Record<string, unknown>; lines?: number[] }>;
+      }>({
+        task: 'lore-extraction',
+        system: 'You catalogue the people, places and plot threads of a tabletop campaign from its session transcripts.',
+        prompt,
+        input: linesText,
+        temperature: 0.2,
+        maxTokens: 1500,
+      });
+
+      const lastIndex = offset + window.length - 1;
+      return (result?.lore ?? [])
+        .filter(l => typeof l.name === 'string' && LORE_KINDS.includes(l.kind as LoreKind))
+        .map(l => ({
+          kind: l.kind as LoreKind,
+          name: l.name!,
+          description: typeof l.description === 'string' ? l.description : '',
+          details: Object.fromEntries(
+            Object.entries(l.details ?? {}).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+          ),
+          segmentIndexes: (l.lines ?? []).filter(n => Number.isInteger(n) && n >= offset && n <= lastIndex),
+        }));
+    } catch (error) {
+      console.error('Error extracting lore:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Answer a question about the campaign using only the given sources, citing them by ref
+   */
+  async answerQuestion(question: string, sources: AnswerSource[]): Promise<CampaignAnswer> {
+    if (sources.length === 0) {
+      return { answer: "Nothing in this campaign's sessions or notes seems to cover that yet.", refs: [] };
+    }
+
+    const sourcesText = sources
+      .map(s => `[${s.ref}] (${s.label}) ${s.text}`)
+      .join('\n');
+
+    const prompt = `Answer the Dungeon Master's question about their D&D campaign using ONLY the sources below.
+
+Campaign: ${this.campaign.name}
+
+SOURCES (transcript lines from past sessions, recaps, NPC and world notes):
+${sourcesText}
+
+QUESTION: ${question}
+
+RULES:
+1. Use only what the sources say. If they don't answer the question, say so plainly.
+2. Cite the sources each statement rests on with their numbers in brackets, e.g. "Lord Varn promised them safe passage [4]."
+3. Transcripts are speech-to-text and may misspell names; the speaker name shows who said each line.
+4. Mention which session something happened in when the sources say so.
+5. Keep the answer under 150 words.
+
+Respond with JSON: { "answer": "text with [n] citations", "citations": [n, ...] }`;
+
+    const validRefs = new Set(sources.map(s => s.ref));
+    const citedIn = (answer: string) => [...answer.matchAll(/\[(\d+)\]/g)].map(m => Number(m[1]));
+
+    try {
+      const result = await this.llm.completeJSON<{ answer?: string; citations?: number[] }>({
+        task: 'campaign-question',
+        system: 'You answer questions about a tabletop campaign from its session records, citing sources by number.',
+        prompt,
+        input: question,
+        temperature: 0.2,
+        maxTokens: 400,
+      });
+
+      if (result?.answer) {
+        const refs = [...new Set([...(result.citations ?? []), ...citedIn(result.answer)])]
+          .filter(ref => validRefs.has(ref))
+          .sort((a, b) => a - b);
+        return { answer: result.answer, refs };
+      }
+    } catch (error) {
+      console.error('Error answering campaign question:', error);
+    }
+
+    // No model answer: point at the closest passages instead
+    const closest = sources.slice(0, 3);
+    return {
+      answer: `These are the closest matches in the campaign's records: ${closest.map(s => `[${s.ref}]`).join(' ')}`,
+      refs: closest.map(s => s.ref),
+    };
   }
 
   private buildCampaignContext(): string {
     const players = this.campaign.players
-      .map(p => `- ${p.playerName} plays ${p.characterName} (${p.characterRace || 'Unknown race'} ${p.characterClass || 'Unknown class'})`)
+      .map(p => `- ${p.playerName} plays ${p.characterName} (${p.characterRace || 'Unknown race'} ${p.characterClass || 'Unknown class'})`
+        + (p.characterSheet ? `: ${describeCharacterSheet(p.characterSheet)}` : ''))
       .join('\n');
 
     const npcs = this.campaign.npcs
       .map(n => `- ${n.name}: ${n.description || 'No description'}${n.speechPatterns ? ` (speaks: ${n.speechPatterns})` : ''}`)
       .join('\n');
 
+    const involving = (linked: { name: string }[]) =>
+      linked.length > 0 ? ` [${linked.map(n => n.name).join(', ')}]` : '';
+
+    const locations = this.campaign.locations
+      .map(l => `- ${l.name}${l.kind ? ` (${l.kind})` : ''}: ${l.description || 'No description'}${involving(l.npcs)}`)
+      .join('\n');
+
+    const factions = this.campaign.factions
+      .map(f => `- ${f.name}: ${f.description || 'No description'}${f.goals ? ` Goals: ${f.goals}` : ''}${involving(f.npcs)}`)
+      .join('\n');
+
+    const items = this.campaign.items
+      .map(i => `- ${i.name}: ${i.description || 'No description'}${i.holder ? ` (held by ${i.holder})` : ''}`)
+      .join('\n');
+
+    const quests = this.campaign.quests
+      .map(q => `- ${q.name} [${q.status}]: ${q.description || 'No description'}${q.reward ? ` Reward: ${q.reward}` : ''}${involving(q.npcs)}`)
+      .join('\n');
+
     return `CAMPAIGN CONTEXT:
 Campaign: ${this.campaign.name}
 ${this.campaign.description ? `Description: ${this.campaign.description}` : ''}
@@ -416,7 +932,8 @@ PLAYERS:
 ${players || 'No players defined'}
 
 NPCs (all played by DM):
-${npcs || 'No NPCs defined'}`;
+${npcs || 'No NPCs defined'}
+${locations ? `\nLOCATIONS (NPCs found there in brackets):\n${locations}\n` : ''}${factions ? `\nFACTIONS (members in brackets):\n${factions}\n` : ''}${items ? `\nNOTABLE ITEMS:\n${items}\n` : ''}${quests ? `\nQUESTS (NPCs involved in brackets):\n${quests}\n` : ''}`;
   }
 }
 
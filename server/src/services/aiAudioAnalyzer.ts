@@ -1,5 +1,4 @@
-import OpenAI from 'openai';
-import { config } from '../config.js';
+import { createLLMClient, LLMClient } from './llm.js';
 
 export type SceneType = 'combat' | 'exploration' | 'social' | 'tense' | 'dramatic' | 'tavern' | 'forest' | 'dungeon' | 'ambient';
 
@@ -82,14 +81,14 @@ const EFFECT_QUERIES: Record<string, string[]> = {
 };
 
 export class AIAudioAnalyzer {
-  private openai: OpenAI;
+  private llm: LLMClient;
   private lastSceneChangeTime = 0;
   private lastEffectTime = 0;
   private minSceneChangeInterval = 30000; // 30 seconds minimum between scene changes
   private minEffectInterval = 5000; // 5 seconds minimum between effects
 
-  constructor() {
-    this.openai = new OpenAI({ apiKey: config.openaiApiKey });
+  constructor(llm: LLMClient = createLLMClient()) {
+    this.llm = llm;
   }
 
   /**
@@ -143,24 +142,19 @@ Respond with JSON:
 If no changes needed, use null for the respective fields. Only include what's actually warranted.`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert audio director for immersive TTRPG sessions. You have impeccable timing and know when audio enhances vs distracts from gameplay. Be conservative with suggestions.',
-          },
-          { role: 'user', content: prompt },
-        ],
+      const parsed = await this.llm.completeJSON<{
+        sceneChange?: { newScene?: string | null; intensity?: number; reason?: string } | null;
+        soundEffect?: { type?: string | null; urgency?: number; reason?: string } | null;
+      }>({
+        task: 'audio-analysis',
+        system: 'You are an expert audio director for immersive TTRPG sessions. You have impeccable timing and know when audio enhances vs distracts from gameplay. Be conservative with suggestions.',
+        prompt,
+        input: segmentText,
         temperature: 0.3,
-        response_format: { type: 'json_object' },
-        max_tokens: 200,
+        maxTokens: 200,
       });
+      if (!parsed) return null;
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) return null;
-
-      const parsed = JSON.parse(content);
       const suggestion: AudioSuggestion = {};
       const now = Date.now();
 
@@ -286,7 +280,7 @@ If no changes needed, use null for the respective fields. Only include what's ac
     // Default queries if AI is unavailable
     const defaultQueries = this.getDefaultMusicQueries(scene);
     
-    if (!config.openaiApiKey) {
+    if (!this.llm.isAvailable()) {
       return defaultQueries;
     }
 
@@ -331,24 +325,20 @@ Respond with JSON:
 }`;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert at finding the perfect background music for immersive TTRPG sessions. Generate highly specific, evocative search queries.',
-          },
-          { role: 'user', content: prompt },
-        ],
+      const parsed = await this.llm.completeJSON<{
+        jamendoQuery?: string;
+        freesoundQuery?: string;
+        tabletopTags?: string[];
+        reasoning?: string;
+      }>({
+        task: 'music-queries',
+        system: 'You are an expert at finding the perfect background music for immersive TTRPG sessions. Generate highly specific, evocative search queries.',
+        prompt,
+        input: context?.recentDialogue,
         temperature: 0.7,
-        response_format: { type: 'json_object' },
-        max_tokens: 200,
+        maxTokens: 200,
       });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) return defaultQueries;
-
-      const parsed = JSON.parse(content);
+      if (!parsed) return defaultQueries;
       
       console.log(`🎼 AI music query for "${scene}": ${parsed.reasoning || 'Generated'}`);
       
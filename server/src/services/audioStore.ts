@@ -0,0 +1,153 @@
+import { appendFile, mkdir, open, readdir, rm, stat } from 'fs/promises';
+import path from 'path';
+import { config } from '../config.js';
+import { BYTES_PER_MS, BYTES_PER_SAMPLE } from '../lib/wav.js';
+
+/**
+ * Storage for the raw 16 kHz linear16 audio of each session.
+ * Audio is append-only and addressed by millisecond offset from the start
+ * of the session's recording.
+ */
+export interface AudioStore {
+  append(sessionId: string, pcm: Buffer): Promise<void>;
+  getDurationMs(sessionId: string): Promise<number>;
+  read(sessionId: string, startMs: number, endMs: number): Promise<Buffer>;
+  remove(sessionId: string): Promise<void>;
+}
+
+const CHUNK_FILE_PATTERN = /^chunk-(\d+)\.pcm$/;
+
+/**
+ * Keeps each session's audio as fixed-length raw PCM chunk files on local disk:
+ * <root>/<sessionId>/chunk-000000.pcm, chunk-000001.pcm, ...
+ */
+export class LocalDiskAudioStore implements AudioStore {
+  private rootDir: string;
+  private chunkBytes: number;
+  // Total bytes stored per session, loaded from disk on first use
+  private sizes: Map<string, number> = new Map();
+  // Appends are serialized per session so chunks never interleave
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(rootDir: string, chunkMs: number) {
+    this.rootDir = rootDir;
+    this.chunkBytes = Math.round(chunkMs * BYTES_PER_MS);
+  }
+
+  async append(sessionId: string, pcm: Buffer): Promise<void> {
+    const previous = this.writes.get(sessionId) ?? Promise.resolve();
+    const write = previous.then(() => this.writeChunks(sessionId, pcm));
+    this.writes.set(sessionId, write.catch(() => {}));
+    return write;
+  }
+
+  async getDurationMs(sessionId: string): Promise<number> {
+    await this.writes.get(sessionId);
+    return Math.floor((await this.getTotalBytes(sessionId)) / BYTES_PER_MS);
+  }
+
+  async read(sessionId: string, startMs: number, endMs: number): Promise<Buffer> {
+    await this.writes.get(sessionId);
+    const total = await this.getTotalBytes(sessionId);
+
+    const start = Math.min(this.toByteOffset(startMs), total);
+    const end = Math.min(this.toByteOffset(endMs), total);
+    if (end <= start) return Buffer.alloc(0);
+
+    const parts: Buffer[] = [];
+    for (let index = Math.floor(start / this.chunkBytes); index * this.chunkBytes < end; index++) {
+      const chunkStart = index * this.chunkBytes;
+      const from = Math.max(start, chunkStart) - chunkStart;
+      const to = Math.min(end, chunkStart + this.chunkBytes) - chunkStart;
+
+      const file = await open(this.chunkPath(sessionId, index), 'r');
+      try {
+        const part = Buffer.alloc(to - from);
+        const { bytesRead } = await file.read(part, 0, part.length, from);
+        parts.push(part.subarray(0, bytesRead));
+      } finally {
+        await file.close();
+      }
+    }
+
+    return Buffer.concat(parts);
+  }
+
+  async remove(sessionId: string): Promise<void> {
+    await this.writes.get(sessionId);
+    await rm(this.sessionDir(sessionId), { recursive: true, force: true });
+    this.sizes.delete(sessionId);
+    this.writes.delete(sessionId);
+  }
+
+  private async writeChunks(sessionId: string, pcm: Buffer): Promise<void> {
+    let total = await this.getTotalBytes(sessionId);
+    if (total === 0) {
+      await mkdir(this.sessionDir(sessionId), { recursive: true });
+    }
+
+    // Split the buffer wherever it crosses a chunk boundary
+    let offset = 0;
+    while (offset < pcm.length) {
+      const index = Math.floor(total / this.chunkBytes);
+      const room = this.chunkBytes - (total % this.chunkBytes);
+      const part = pcm.subarray(offset, offset + room);
+
+      await appendFile(this.chunkPath(sessionId, index), part);
+      offset += part.length;
+      total += part.length;
+      this.sizes.set(sessionId, total);
+    }
+  }
+
+  private async getTotalBytes(sessionId: string): Promise<number> {
+    const cached = this.sizes.get(sessionId);
+    if (cached !== undefined) return cached;
+
+    let total = 0;
+    try {
+      const files = await readdir(this.sessionDir(sessionId));
+      for (const file of files) {
+        if (CHUNK_FILE_PATTERN.test(file)) {
+          total += (await stat(path.join(this.sessionDir(sessionId), file))).size;
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    this.sizes.set(sessionId, total);
+    return total;
+  }
+
+  private toByteOffset(ms: number): number {
+    // Always land on a sample boundary
+    const bytes = Math.max(0, Math.floor(ms * BYTES_PER_MS));
+    return bytes - (bytes % BYTES_PER_SAMPLE);
+  }
+
+  private sessionDir(sessionId: string): string {
+    if (!/^[\w-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session id: ${sessionId}`);
+    }
+    return path.join(this.rootDir, sessionId);
+  }
+
+  private chunkPath(sessionId: string, index: number): string {
+    return path.join(this.sessionDir(sessionId), `chunk-${String(index).padStart(6, '0')}.pcm`);
+  }
+}
+
+function createAudioStore(): AudioStore | null {
+  switch (config.audioStorage) {
+    case 'disk':
+      return new LocalDiskAudioStore(config.audioStorageDir, config.audioChunkMs);
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown audio storage: ${config.audioStorage}`);
+  }
+}
+
+// Singleton instance (null when audio storage is disabled)
+export const audioStore = createAudioStore();
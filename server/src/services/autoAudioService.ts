@@ -1,7 +1,7 @@
 import { freesoundService, FreesoundTrack } from './freesound.js';
 import { jamendoService, JamendoTrack } from './jamendo.js';
 import { tabletopAudioService, TabletopAudioTrack } from './tabletopAudio.js';
-import { aiAudioAnalyzer, AudioSuggestion, SceneType, AnalysisContext } from './aiAudioAnalyzer.js';
+import { aiAudioAnalyzer, AIAudioAnalyzer, AudioSuggestion, SceneType, AnalysisContext } from './aiAudioAnalyzer.js';
 
 export interface AutoAudioSettings {
   enabled: boolean;
@@ -64,9 +64,11 @@ export class AutoAudioService {
   private effectCooldown = 30000; // Don't repeat same effect for 30 seconds
 
   private onAudioEvent: (event: AutoAudioEvent) => void;
+  private analyzer: AIAudioAnalyzer;
 
-  constructor(onAudioEvent: (event: AutoAudioEvent) => void) {
+  constructor(onAudioEvent: (event: AutoAudioEvent) => void, analyzer: AIAudioAnalyzer = aiAudioAnalyzer) {
     this.onAudioEvent = onAudioEvent;
+    this.analyzer = analyzer;
   }
 
   /**
@@ -106,7 +108,7 @@ export class AutoAudioService {
 
     // First try quick pattern detection (no API call)
     if (this.settings.effectsEnabled) {
-      const quickEffect = aiAudioAnalyzer.detectQuickEffects(text);
+      const quickEffect = this.analyzer.detectQuickEffects(text);
       if (quickEffect && this.shouldPlayEffect()) {
         await this.searchAndPlayEffect(quickEffect.searchQuery, `Pattern match: ${quickEffect.type}`);
         return; // Don't also do AI analysis if we found a quick match
@@ -121,7 +123,7 @@ export class AutoAudioService {
         currentIntensity: this.currentIntensity,
       };
 
-      const suggestion = await aiAudioAnalyzer.analyzeForAudio(text, context);
+      const suggestion = await this.analyzer.analyzeForAudio(text, context);
       
       if (suggestion) {
         await this.handleSuggestion(suggestion);
@@ -188,7 +190,7 @@ export class AutoAudioService {
 
       // Use AI to generate optimized search queries for this scene
       const recentDialogue = this.recentSegments.slice(-3).join(' ');
-      const aiQueries = await aiAudioAnalyzer.generateMusicSearchQueries(scene, {
+      const aiQueries = await this.analyzer.generateMusicSearchQueries(scene, {
         recentDialogue,
         intensity: this.currentIntensity,
       });
@@ -559,7 +561,7 @@ export class AutoAudioService {
     this.currentMusicTrackId = null;
     this.playedEffectsRecently.clear();
     this.recentSearches.clear();
-    aiAudioAnalyzer.reset();
+    this.analyzer.reset();
     console.log('🔄 Auto-audio service reset');
   }
 
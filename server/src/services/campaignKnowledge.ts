@@ -0,0 +1,467 @@
+import { createHash } from 'crypto';
+import { KnowledgeSource, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { AIService, AnswerSource, AI_CAMPAIGN_INCLUDE } from './ai.js';
+import { createEmbeddingClient, EmbeddingClient } from './embeddings.js';
+import { loadTranscript } from './transcriptStore.js';
+import type { TranscriptSegment } from './transcription.js';
+
+// Transcript passages are runs of consecutive segments, cut at whichever limit comes first
+const PASSAGE_MAX_SEGMENTS = 8;
+const PASSAGE_MAX_CHARS = 700;
+// Re-index a little after the last edit rather than on every keystroke-sized change
+const INDEX_DEBOUNCE_MS = 15000;
+// Vectors are scored in batches so a large campaign is never loaded at once
+const SCAN_BATCH_SIZE = 1000;
+
+interface Passage {
+  source: KnowledgeSource;
+  segmentIds: string[];
+  text: string;
+  sessionId?: string;
+  npcId?: string;
+}
+
+export interface RetrievedPassage {
+  id: string;
+  source: KnowledgeSource;
+  score: number;
+  text: string;
+  segmentIds: string[];
+  sessionId: string | null;
+  sessionNumber: number | null;
+  sessionTitle: string | null;
+  npcId: string | null;
+}
+
+/**
+ * A numbered source an answer can cite. Transcript passages are cited line by
+ * line, so each segment gets its own citation.
+ */
+export interface KnowledgeCitation extends AnswerSource {
+  source: KnowledgeSource;
+  sessionId: string | null;
+  sessionNumber: number | null;
+  segmentId: string | null;
+  timestamp: number | null;
+  speaker: string | null;
+  npcId: string | null;
+}
+
+let embeddingClient: EmbeddingClient | null = null;
+
+function getEmbeddingClient(): EmbeddingClient {
+  embeddingClient ??= createEmbeddingClient();
+  return embeddingClient;
+}
+
+function speakerOf(segment: { speakerName: string | null; speakerLabel: string }): string {
+  return segment.speakerName || segment.speakerLabel;
+}
+
+// One line per segment, so a passage reads like the transcript it came from
+function transcriptLine(segment: TranscriptSegment): string {
+  return `${speakerOf(segment)}: ${segment.text.replace(/\s+/g, ' ').trim()}`;
+}
+
+function transcriptPassages(sessionId: string, transcript: TranscriptSegment[]): Passage[] {
+  const passages: Passage[] = [];
+  let run: TranscriptSegment[] = [];
+  let chars = 0;
+
+  const flush = () => {
+    if (run.length === 0) return;
+    passages.push({
+      source: 'transcript',
+      sessionId,
+      segmentIds: run.map(s => s.id),
+      text: run.map(transcriptLine).join('\n'),
+    });
+    run = [];
+    chars = 0;
+  };
+
+  for (const segment of transcript) {
+    if (!segment.text.trim()) continue;
+    if (run.length >= PASSAGE_MAX_SEGMENTS || (run.length > 0 && chars + segment.text.length > PASSAGE_MAX_CHARS)) {
+      flush();
+    }
+    run.push(segment);
+    chars += segment.text.length;
+  }
+  flush();
+
+  return passages;
+}
+
+// Split long prose on paragraph breaks, packing paragraphs up to the passage size
+function proseChunks(text: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    if (current && current.length + paragraph.length > PASSAGE_MAX_CHARS) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function contentHash(model: string, passage: Passage): string {
+  return createHash('sha1')
+    .update([model, passage.source, passage.segmentIds.join(','), passage.text].join('\u0000'))
+    .digest('hex');
+}
+
+/**
+ * Make the stored chunks within `scope` match `passages`. Passages whose text
+ * hasn't changed keep their vector; only new or changed ones are embedded.
+ */
+async function syncPassages(
+  campaignId: string,
+  scope: Prisma.KnowledgeChunkWhereInput,
+  passages: Passage[]
+): Promise<{ embedded: number; removed: number }> {
+  const client = getEmbeddingClient();
+  const existing = await prisma.knowledgeChunk.findMany({
+    where: { campaignId, ...scope },
+    select: { id: true, contentHash: true },
+  });
+
+  const unclaimed = new Map<string, string[]>();
+  for (const chunk of existing) {
+    unclaimed.set(chunk.contentHash, [...(unclaimed.get(chunk.contentHash) ?? []), chunk.id]);
+  }
+
+  const toEmbed: Array<{ passage: Passage; hash: string }> = [];
+  for (const passage of passages) {
+    const hash = contentHash(client.model, passage);
+    const ids = unclaimed.get(hash);
+    if (ids?.length) {
+      ids.pop();
+    } else {
+      toEmbed.push({ passage, hash });
+    }
+  }
+  const staleIds = [...unclaimed.values()].flat();
+
+  const vectors = toEmbed.length > 0 ? await client.embed(toEmbed.map(({ passage }) => passage.text)) : [];
+
+  await prisma.$transaction([
+    prisma.knowledgeChunk.deleteMany({ where: { id: { in: staleIds } } }),
+    prisma.knowledgeChunk.createMany({
+      data: toEmbed.map(({ passage, hash }, i) => ({
+        campaignId,
+        source: passage.source,
+        sessionId: passage.sessionId ?? null,
+        npcId: passage.npcId ?? null,
+        segmentIds: passage.segmentIds,
+        text: passage.text,
+        model: client.model,
+        contentHash: hash,
+        embedding: vectors[i],
+      })),
+    }),
+  ]);
+
+  return { embedded: toEmbed.length, removed: staleIds.length };
+}
+
+/**
+ * Index a session's transcript and recap
+ */
+export async function indexSession(sessionId: string): Promise<number> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { campaignId: true, sessionNumber: true, recap: true },
+  });
+  if (!session) return 0;
+
+  const passages = transcriptPassages(sessionId, await loadTranscript(sessionId));
+  if (session.recap?.trim()) {
+    passages.push(...proseChunks(session.recap).map(text => ({
+      source: 'recap' as const,
+      sessionId,
+      segmentIds: [],
+      text,
+    })));
+  }
+
+  const { embedded, removed } = await syncPassages(session.campaignId, { sessionId }, passages);
+  if (embedded > 0 || removed > 0) {
+    console.log(`🧠 Indexed session ${session.sessionNumber}: ${embedded} passages embedded, ${removed} removed`);
+  }
+  return passages.length;
+}
+
+function namesOf(npcs: { name: string }[]): string | null {
+  return npcs.length > 0 ? npcs.map(n => n.name).join(', ') : null;
+}
+
+/**
+ * One passage per location, faction, item and quest
+ */
+function worldEntityTexts(campaign: Prisma.CampaignGetPayload<{ include: typeof AI_CAMPAIGN_INCLUDE }>): string[] {
+  const lines = (parts: (string | null | false)[]) => parts.filter(Boolean).join('\n');
+  return [
+    ...campaign.locations.map(l => lines([
+      `Location ${l.name}${l.kind ? ` (${l.kind})` : ''}`,
+      l.description,
+      namesOf(l.npcs) && `NPCs here: ${namesOf(l.npcs)}`,
+    ])),
+    ...campaign.factions.map(f => lines([
+      `Faction ${f.name}`,
+      f.description,
+      f.goals && `Goals: ${f.goals}`,
+      namesOf(f.npcs) && `Members: ${namesOf(f.npcs)}`,
+    ])),
+    ...campaign.items.map(i => lines([
+      `Item ${i.name}`,
+      i.description,
+      i.holder && `Held by: ${i.holder}`,
+    ])),
+    ...campaign.quests.map(q => lines([
+      `Quest ${q.name} (${q.status})`,
+      q.description,
+      q.reward && `Reward: ${q.reward}`,
+      namesOf(q.npcs) && `NPCs involved: ${namesOf(q.npcs)}`,
+    ])),
+  ];
+}
+
+/**
+ * Index the campaign's NPCs, world context and its locations, factions, items and quests
+ */
+export async function indexCampaignContext(campaignId: string): Promise<number> {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    include: AI_CAMPAIGN_INCLUDE,
+  });
+  if (!campaign) return 0;
+
+  const passages: Passage[] = [
+    ...campaign.npcs.map(npc => ({
+      source: 'npc' as const,
+      npcId: npc.id,
+      segmentIds: [],
+      text: [
+        `NPC ${npc.name}`,
+        npc.description,
+        npc.speechPatterns && `Speaks: ${npc.speechPatterns}`,
+      ].filter(Boolean).join('\n'),
+    })),
+    ...proseChunks(campaign.worldContext ?? '').map(text => ({
+      source: 'world' as const,
+      segmentIds: [],
+      text,
+    })),
+    ...worldEntityTexts(campaign).map(text => ({
+      source: 'world' as const,
+      segmentIds: [],
+      text,
+    })),
+  ];
+
+  const { embedded, removed } = await syncPassages(
+    campaignId,
+    { source: { in: ['npc', 'world'] } },
+    passages
+  );
+  if (embedded > 0 || removed > 0) {
+    console.log(`🧠 Indexed campaign context: ${embedded} passages embedded, ${removed} removed`);
+  }
+  return passages.length;
+}
+
+/**
+ * Bring the whole campaign index up to date, e.g. for sessions recorded before
+ * indexing existed or after switching embedding models
+ */
+export async function indexCampaign(campaignId: string): Promise<number> {
+  let passages = await indexCampaignContext(campaignId);
+
+  const sessions = await prisma.session.findMany({
+    where: { campaignId },
+    select: { id: true },
+    orderBy: { sessionNumber: 'asc' },
+  });
+  for (const session of sessions) {
+    passages += await indexSession(session.id);
+  }
+
+  // Vectors from a previous embedding model can never match a query again
+  await prisma.knowledgeChunk.deleteMany({
+    where: { campaignId, model: { not: getEmbeddingClient().model } },
+  });
+
+  return passages;
+}
+
+const pendingIndexes = new Map<string, NodeJS.Timeout>();
+
+function schedule(key: string, index: () => Promise<unknown>): void {
+  clearTimeout(pendingIndexes.get(key));
+  pendingIndexes.set(key, setTimeout(() => {
+    pendingIndexes.delete(key);
+    index().catch(error => console.error(`Knowledge indexing failed (${key}):`, error));
+  }, INDEX_DEBOUNCE_MS));
+}
+
+/**
+ * Re-index a session shortly after its transcript, notes or recap change
+ */
+export function scheduleSessionIndex(sessionId: string): void {
+  schedule(`session:${sessionId}`, () => indexSession(sessionId));
+}
+
+export function scheduleCampaignContextIndex(campaignId: string): void {
+  schedule(`campaign:${campaignId}`, () => indexCampaignContext(campaignId));
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function norm(v: number[]): number {
+  return Math.sqrt(dot(v, v));
+}
+
+/**
+ * The passages closest in meaning to `query`, best first
+ */
+export async function retrieveKnowledge(campaignId: string, query: string, limit: number): Promise<RetrievedPassage[]> {
+  const client = getEmbeddingClient();
+  const [queryVector] = await client.embed([query]);
+  const queryNorm = norm(queryVector);
+  if (queryNorm === 0) return [];
+
+  // Keep a running top-k while scanning; vectors from other models are never compared
+  let best: Array<{ id: string; score: number }> = [];
+  let cursor: string | undefined;
+  for (;;) {
+    const batch = await prisma.knowledgeChunk.findMany({
+      where: { campaignId, model: client.model },
+      select: { id: true, embedding: true },
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (batch.length === 0) break;
+    cursor = batch[batch.length - 1].id;
+
+    for (const chunk of batch) {
+      const score = dot(queryVector, chunk.embedding) / (queryNorm * (norm(chunk.embedding) || 1));
+      if (score > 0 && (best.length < limit || score > best[best.length - 1].score)) {
+        best = [...best, { id: chunk.id, score }].sort((a, b) => b.score - a.score).slice(0, limit);
+      }
+    }
+  }
+
+  const chunks = await prisma.knowledgeChunk.findMany({
+    where: { id: { in: best.map(b => b.id) } },
+    include: { session: { select: { sessionNumber: true, title: true } } },
+  });
+  const byId = new Map(chunks.map(chunk => [chunk.id, chunk]));
+
+  return best.flatMap(({ id, score }) => {
+    const chunk = byId.get(id);
+    if (!chunk) return [];
+    return [{
+      id: chunk.id,
+      source: chunk.source,
+      score,
+      text: chunk.text,
+      segmentIds: chunk.segmentIds,
+      sessionId: chunk.sessionId,
+      sessionNumber: chunk.session?.sessionNumber ?? null,
+      sessionTitle: chunk.session?.title ?? null,
+      npcId: chunk.npcId,
+    }];
+  });
+}
+
+/**
+ * Number the retrieved passages for citation: one citation per transcript line,
+ * one per recap, NPC or world passage
+ */
+async function toCitations(passages: RetrievedPassage[]): Promise<KnowledgeCitation[]> {
+  const segmentIds = passages.flatMap(p => p.segmentIds);
+  const segments = segmentIds.length > 0
+    ? await prisma.transcriptSegment.findMany({
+        where: { id: { in: segmentIds }, sessionId: { in: passages.flatMap(p => (p.sessionId ? [p.sessionId] : [])) } },
+        select: { id: true, sessionId: true, timestamp: true, speakerLabel: true, speakerName: true, text: true },
+      })
+    : [];
+  const segmentByKey = new Map(segments.map(s => [`${s.sessionId}:${s.id}`, s]));
+
+  const citations: KnowledgeCitation[] = [];
+  const base = (passage: RetrievedPassage) => ({
+    source: passage.source,
+    sessionId: passage.sessionId,
+    sessionNumber: passage.sessionNumber,
+    segmentId: null,
+    timestamp: null,
+    speaker: null,
+    npcId: passage.npcId,
+  });
+  const sessionLabel = (passage: RetrievedPassage) =>
+    `Session ${passage.sessionNumber}${passage.sessionTitle ? ` (${passage.sessionTitle})` : ''}`;
+
+  for (const passage of passages) {
+    if (passage.source !== 'transcript') {
+      citations.push({
+        ...base(passage),
+        ref: citations.length + 1,
+        label: passage.source === 'recap' ? `${sessionLabel(passage)} recap`
+          : passage.source === 'npc' ? 'NPC notes'
+          : 'World notes',
+        text: passage.text,
+      });
+      continue;
+    }
+
+    // Cite segments as they read now; the passage may predate an edit, and
+    // segments deleted since then are left out
+    passage.segmentIds.forEach(segmentId => {
+      const segment = segmentByKey.get(`${passage.sessionId}:${segmentId}`);
+      if (!segment) return;
+      citations.push({
+        ...base(passage),
+        ref: citations.length + 1,
+        label: sessionLabel(passage),
+        text: `${speakerOf(segment)}: ${segment.text}`,
+        segmentId,
+        timestamp: segment.timestamp,
+        speaker: speakerOf(segment),
+      });
+    });
+  }
+
+  return citations;
+}
+
+/**
+ * Answer a question about the campaign from its indexed sessions, NPCs and world
+ * notes, citing the transcript lines (and other passages) the answer rests on
+ */
+export async function askCampaign(campaignId: string, question: string, limit: number) {
+  const campaign = await prisma.campaign.findUniqueOrThrow({
+    where: { id: campaignId },
+    include: AI_CAMPAIGN_INCLUDE,
+  });
+
+  const passages = await retrieveKnowledge(campaignId, question, limit);
+  const citations = await toCitations(passages);
+
+  const { answer, refs } = await new AIService(campaign).answerQuestion(question, citations);
+  const cited = new Set(refs);
+
+  return {
+    answer,
+    citations: citations.filter(c => cited.has(c.ref)),
+  };
+}
@@ -0,0 +1,611 @@
+import { z } from 'zod';
+import type { Ability, CharacterSheet, DamageType, Player, RestType, Skill } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  ABILITIES,
+  SKILLS,
+  CharacterExport,
+  CharacterSheetData,
+  abilityModifier,
+  characterExportSchema,
+  characterSheetSchema,
+  normalizeCharacterSheet,
+  syncCharacterResources,
+  toCharacterSheetData,
+} from './characterSheets.js';
+import { parseDamageType } from './damage.js';
+
+export type CharacterFormat = 'dnd-companion' | 'dndbeyond' | 'foundry';
+
+type CharacterFields = CharacterExport['character'];
+
+/**
+ * What a character file says about a character. Other tools don't track everything
+ * a sheet holds, so anything missing keeps the player's current value.
+ */
+export interface ImportedCharacter {
+  format: CharacterFormat;
+  character: Partial<CharacterFields> & { characterName: string };
+  sheet: Partial<CharacterSheetData>;
+}
+
+export interface CharacterChange {
+  field: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface CharacterImportPreview {
+  format: CharacterFormat;
+  character: CharacterFields;
+  sheet: CharacterSheetData;
+  changes: CharacterChange[]; // Only the fields the import would change
+}
+
+export type PlayerWithSheet = Player & { characterSheet: CharacterSheet | null };
+
+// Both tools keep an item's name alongside a lot of rules data we don't need
+const MAX_NAME = 200;
+const clampName = (name: string) => name.trim().slice(0, MAX_NAME);
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(n)));
+
+// "sleight-of-hand" or "Sleight of Hand" to sleight_of_hand
+const toSkill = (name: string): Skill | null => {
+  const key = name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return (SKILLS as readonly string[]).includes(key) ? key as Skill : null;
+};
+
+const unique = <T>(items: (T | null)[]): T[] => [...new Set(items.filter((i): i is T => i !== null))];
+
+// ============ D&D Beyond ============
+
+const ddbStat = z.object({ id: z.number(), value: z.number().nullable() });
+
+const ddbModifier = z.object({
+  type: z.string(),
+  subType: z.string(),
+  value: z.number().nullable().optional(),
+});
+
+const ddbCharacterSchema = z.object({
+  name: z.string().min(1),
+  race: z.object({
+    fullName: z.string().optional(),
+    baseName: z.string().optional(),
+    weightSpeeds: z.object({
+      normal: z.object({ walk: z.number().optional() }).optional(),
+    }).nullable().optional(),
+    racialTraits: z.array(z.object({ definition: z.object({ name: z.string() }) })).optional(),
+  }).nullable().optional(),
+  classes: z.array(z.object({
+    level: z.number().int(),
+    definition: z.object({ name: z.string() }),
+    classFeatures: z.array(z.object({
+      definition: z.object({ name: z.string(), requiredLevel: z.number().nullable().optional() }),
+    })).optional(),
+  })).min(1),
+  stats: z.array(ddbStat),
+  bonusStats: z.array(ddbStat).optional(),
+  overrideStats: z.array(ddbStat).optional(),
+  baseHitPoints: z.number(),
+  bonusHitPoints: z.number().nullable().optional(),
+  overrideHitPoints: z.number().nullable().optional(),
+  background: z.object({
+    definition: z.object({ name: z.string() }).nullable().optional(),
+  }).nullable().optional(),
+  alignmentId: z.number().nullable().optional(),
+  inventory: z.array(z.object({
+    quantity: z.number().optional(),
+    equipped: z.boolean().optional(),
+    definition: z.object({
+      name: z.string(),
+      armorClass: z.number().nullable().optional(),
+      armorTypeId: z.number().nullable().optional(), // 1 light, 2 medium, 3 heavy, 4 shield
+    }),
+  })).optional(),
+  modifiers: z.record(z.array(ddbModifier).nullable()).optional(),
+  feats: z.array(z.object({ definition: z.object({ name: z.string() }) })).optional(),
+  // Limited uses live on the action a feature grants, e.g. Action Surge under `class`
+  actions: z.record(z.array(z.object({
+    name: z.string(),
+    limitedUse: z.object({
+      maxUses: z.number().nullable().optional(),
+      resetType: z.number().nullable().optional(), // 1 short rest, 2 long rest, 3 dawn
+    }).nullable().optional(),
+  })).nullable()).optional(),
+});
+
+// D&D Beyond numbers abilities 1 to 6 and alignments 1 to 9
+const DDB_ABILITY_IDS: Record<number, Ability> = {
+  1: 'strength',
+  2: 'dexterity',
+  3: 'constitution',
+  4: 'intelligence',
+  5: 'wisdom',
+  6: 'charisma',
+};
+
+const DDB_ALIGNMENTS: Record<number, string> = {
+  1: 'Lawful Good',
+  2: 'Neutral Good',
+  3: 'Chaotic Good',
+  4: 'Lawful Neutral',
+  5: 'Neutral',
+  6: 'Chaotic Neutral',
+  7: 'Lawful Evil',
+  8: 'Neutral Evil',
+  9: 'Chaotic Evil',
+};
+
+const DDB_RESET_TYPES: Record<number, RestType> = { 1: 'short', 2: 'long', 3: 'long' };
+
+// Class "features" that are really just the rules every class level comes with
+const DDB_BOOKKEEPING_FEATURES = new Set(['Hit Points', 'Proficiencies', 'Equipment', 'Ability Score Improvement']);
+
+function parseDndBeyond(ddb: z.infer<typeof ddbCharacterSchema>): ImportedCharacter {
+  const modifiers = Object.values(ddb.modifiers ?? {}).flatMap(list => list ?? []);
+  const bonus = (subType: string) =>
+    modifiers.filter(m => m.type === 'bonus' && m.subType === subType).reduce((sum, m) => sum + (m.value ?? 0), 0);
+  const subTypes = (type: string) => modifiers.filter(m => m.type === type).map(m => m.subType);
+
+  // Base score plus racial and feat bonuses, unless the sheet overrides it
+  const statFor = (list: z.infer<typeof ddbStat>[] | undefined, id: number) => list?.find(s => s.id === id)?.value ?? null;
+  const scores = Object.fromEntries(
+    Object.entries(DDB_ABILITY_IDS).map(([id, ability]) => {
+      const override = statFor(ddb.overrideStats, Number(id));
+      const score = override ?? (statFor(ddb.stats, Number(id)) ?? 10) + (statFor(ddb.bonusStats, Number(id)) ?? 0) + bonus(`${ability}-score`);
+      return [ability, clamp(score, 1, 30)];
+    })
+  ) as Record<Ability, number>;
+
+  const level = ddb.classes.reduce((sum, c) => sum + c.level, 0);
+  const className = ddb.classes.length === 1
+    ? ddb.classes[0].definition.name
+    : ddb.classes.map(c => `${c.definition.name} ${c.level}`).join(' / ');
+  const hasClass = (name: string) => ddb.classes.some(c => c.definition.name === name);
+
+  // AC isn't in the export; work it out from what's equipped
+  const dex = abilityModifier(scores.dexterity);
+  const equipped = (ddb.inventory ?? []).filter(i => i.equipped && i.definition.armorClass);
+  const armor = equipped.find(i => i.definition.armorTypeId !== 4);
+  const shield = equipped.find(i => i.definition.armorTypeId === 4);
+  let armorClass: number;
+  if (armor) {
+    const base = armor.definition.armorClass ?? 10;
+    armorClass = armor.definition.armorTypeId === 3 ? base
+      : armor.definition.armorTypeId === 2 ? base + Math.min(dex, 2)
+      : base + dex;
+  } else if (hasClass('Barbarian')) {
+    armorClass = 10 + dex + abilityModifier(scores.constitution);
+  } else if (hasClass('Monk') && !shield) {
+    armorClass = 10 + dex + abilityModifier(scores.wisdom);
+  } else {
+    armorClass = 10 + dex;
+  }
+  armorClass += (shield?.definition.armorClass ?? 0) + bonus('armor-class');
+
+  const maxHp = ddb.overrideHitPoints
+    ?? ddb.baseHitPoints + (ddb.bonusHitPoints ?? 0) + abilityModifier(scores.constitution) * level;
+
+  const defenses = (type: string) => unique<DamageType>(subTypes(type).map(parseDamageType));
+
+  const features = [
+    ...ddb.classes.flatMap(c => (c.classFeatures ?? [])
+      .filter(f => (f.definition.requiredLevel ?? 1) <= c.level && !DDB_BOOKKEEPING_FEATURES.has(f.definition.name))
+      .map(f => ({ name: f.definition.name, source: `${c.definition.name} ${f.definition.requiredLevel ?? 1}` }))),
+    ...(ddb.race?.racialTraits ?? []).map(t => ({ name: t.definition.name, source: ddb.race?.baseName ?? null })),
+    ...(ddb.feats ?? []).map(f => ({ name: f.definition.name, source: 'Feat' })),
+  ];
+  const limitedUses = new Map(Object.values(ddb.actions ?? {})
+    .flatMap(list => list ?? [])
+    .filter(a => (a.limitedUse?.maxUses ?? 0) > 0)
+    .map(a => [a.name.trim().toLowerCase(), a.limitedUse!]));
+  const featureUses = (name: string) => {
+    const use = limitedUses.get(name.trim().toLowerCase());
+    return {
+      uses: use ? clamp(use.maxUses!, 1, 100) : null,
+      recharge: use ? DDB_RESET_TYPES[use.resetType ?? 0] ?? null : null,
+    };
+  };
+
+  return {
+    format: 'dndbeyond',
+    character: {
+      characterName: ddb.name,
+      characterClass: className,
+      characterRace: ddb.race?.fullName ?? ddb.race?.baseName ?? null,
+      maxHp: Math.max(1, maxHp),
+      resistances: defenses('resistance'),
+      immunities: defenses('immunity'),
+      vulnerabilities: defenses('vulnerability'),
+    },
+    sheet: {
+      level: clamp(level, 1, 20),
+      background: ddb.background?.definition?.name ?? null,
+      alignment: (ddb.alignmentId && DDB_ALIGNMENTS[ddb.alignmentId]) || null,
+      armorClass,
+      ...(ddb.race?.weightSpeeds?.normal?.walk !== undefined && { speed: ddb.race.weightSpeeds.normal.walk }),
+      ...scores,
+      savingThrows: unique<Ability>(subTypes('proficiency').map(s => {
+        const ability = s.replace(/-saving-throws$/, '');
+        return s.endsWith('-saving-throws') && (ABILITIES as readonly string[]).includes(ability) ? ability as Ability : null;
+      })),
+      skillProficiencies: unique(subTypes('proficiency').map(toSkill)),
+      skillExpertise: unique(subTypes('expertise').map(toSkill)),
+      inventory: (ddb.inventory ?? []).map(i => ({
+        name: clampName(i.definition.name),
+        quantity: clamp(i.quantity ?? 1, 0, 100000),
+        notes: i.equipped ? 'Equipped' : null,
+      })),
+      features: features.map(f => ({
+        name: clampName(f.name),
+        source: f.source?.slice(0, 100) ?? null,
+        description: null,
+        ...featureUses(f.name),
+      })),
+    },
+  };
+}
+
+// ============ Foundry VTT (dnd5e system) ============
+
+const foundryItemSystem = z.object({
+  levels: z.number().optional(), // Class items
+  quantity: z.number().optional(),
+  equipped: z.boolean().optional(),
+  armor: z.object({
+    value: z.number().nullable().optional(),
+    type: z.string().optional(), // light, medium, heavy, natural, shield
+    dex: z.number().nullable().optional(), // Max dexterity bonus
+  }).optional(),
+  requirements: z.string().optional(), // Where a feature comes from, e.g. "Fighter 2"
+  // `per` in older dnd5e versions, a list of `recovery` periods in newer ones; max can be a formula
+  uses: z.object({
+    max: z.union([z.number(), z.string()]).nullable().optional(),
+    per: z.string().nullable().optional(),
+    recovery: z.array(z.object({ period: z.string() })).optional(),
+  }).optional(),
+});
+
+const foundryTraitSet = z.object({ value: z.array(z.string()).default([]) });
+
+const foundryActorSystem = z.object({
+  abilities: z.record(z.object({ value: z.number(), proficient: z.number().optional() })),
+  attributes: z.object({
+    hp: z.object({ value: z.number().nullable().optional(), max: z.number().nullable().optional() }).optional(),
+    ac: z.object({ flat: z.number().nullable().optional(), calc: z.string().optional() }).optional(),
+    movement: z.object({ walk: z.number().nullable().optional() }).optional(),
+    spellcasting: z.string().optional(),
+  }),
+  details: z.object({
+    race: z.unknown(), // A name in older exports, an item id in newer ones
+    background: z.unknown(),
+    alignment: z.string(),
+    level: z.number(),
+  }).partial().optional(),
+  skills: z.record(z.object({ value: z.number() })).optional(),
+  spells: z.record(z.object({
+    max: z.number().nullable().optional(),
+    override: z.number().nullable().optional(),
+  })).optional(),
+  traits: z.object({ dr: foundryTraitSet, di: foundryTraitSet, dv: foundryTraitSet }).partial().optional(),
+});
+
+// Exports from before Foundry v10 keep the system data under `data`
+const foundryActorSchema = z.object({
+  name: z.string().min(1),
+  type: z.literal('character'),
+  system: foundryActorSystem.optional(),
+  data: foundryActorSystem.optional(),
+  items: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    system: foundryItemSystem.optional(),
+    data: foundryItemSystem.optional(),
+  })).default([]),
+}).refine(actor => actor.system || actor.data, 'Missing actor system data');
+
+const FOUNDRY_RECOVERY: Record<string, RestType> = { sr: 'short', lr: 'long', day: 'long', dawn: 'long' };
+
+// Only a plain number of uses is kept; formulas like "@prof" would need the whole actor
+function foundryUses(uses: z.infer<typeof foundryItemSystem>['uses']): { uses: number | null; recharge: RestType | null } {
+  const max = Number(uses?.max);
+  if (!uses || !Number.isInteger(max) || max <= 0) return { uses: null, recharge: null };
+  const period = uses.recovery?.[0]?.period ?? uses.per ?? '';
+  return { uses: clamp(max, 1, 100), recharge: FOUNDRY_RECOVERY[period] ?? null };
+}
+
+const FOUNDRY_ABILITIES: Record<string, Ability> = {
+  str: 'strength',
+  dex: 'dexterity',
+  con: 'constitution',
+  int: 'intelligence',
+  wis: 'wisdom',
+  cha: 'charisma',
+};
+
+const FOUNDRY_SKILLS: Record<string, Skill> = {
+  acr: 'acrobatics',
+  ani: 'animal_handling',
+  arc: 'arcana',
+  ath: 'athletics',
+  dec: 'deception',
+  his: 'history',
+  ins: 'insight',
+  itm: 'intimidation',
+  inv: 'investigation',
+  med: 'medicine',
+  nat: 'nature',
+  prc: 'perception',
+  prf: 'performance',
+  per: 'persuasion',
+  rel: 'religion',
+  slt: 'sleight_of_hand',
+  ste: 'stealth',
+  sur: 'survival',
+};
+
+const FOUNDRY_INVENTORY_TYPES = new Set(['weapon', 'equipment', 'consumable', 'tool', 'loot', 'backpack', 'container']);
+
+function parseFoundryActor(actor: z.infer<typeof foundryActorSchema>): ImportedCharacter {
+  const system = (actor.system ?? actor.data)!;
+  const items = actor.items.map(item => ({ ...item, system: item.system ?? item.data ?? {} }));
+
+  const scores = Object.fromEntries(
+    Object.entries(FOUNDRY_ABILITIES).map(([key, ability]) => [ability, clamp(system.abilities[key]?.value ?? 10, 1, 30)])
+  ) as Record<Ability, number>;
+  const dex = abilityModifier(scores.dexterity);
+
+  const classes = items.filter(i => i.type === 'class');
+  const level = classes.reduce((sum, c) => sum + (c.system.levels ?? 1), 0) || system.details?.level || 1;
+  const className = classes.length === 1
+    ? classes[0].name
+    : classes.map(c => `${c.name} ${c.system.levels ?? 1}`).join(' / ') || null;
+
+  const textDetail = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+  const race = items.find(i => i.type === 'race')?.name ?? textDetail(system.details?.race);
+  const background = items.find(i => i.type === 'background')?.name ?? textDetail(system.details?.background);
+
+  // Foundry works AC out on the fly, so only its formula is in the export
+  const equippedArmor = items.filter(i => i.system.equipped && i.system.armor?.type);
+  const armor = equippedArmor.find(i => i.system.armor?.type !== 'shield');
+  const shield = equippedArmor.find(i => i.system.armor?.type === 'shield');
+  const calc = system.attributes.ac?.calc ?? 'default';
+  let armorClass: number;
+  if ((calc === 'flat' || calc === 'natural') && system.attributes.ac?.flat) {
+    armorClass = system.attributes.ac.flat;
+  } else if (calc === 'mage' || calc === 'draconic') {
+    armorClass = 13 + dex;
+  } else if (calc === 'unarmoredBarb') {
+    armorClass = 10 + dex + abilityModifier(scores.constitution);
+  } else if (calc === 'unarmoredMonk') {
+    armorClass = 10 + dex + abilityModifier(scores.wisdom);
+  } else if (armor) {
+    const maxDex = armor.system.armor?.dex ?? (armor.system.armor?.type === 'heavy' ? 0 : null);
+    armorClass = (armor.system.armor?.value ?? 10) + (maxDex === null ? dex : Math.min(dex, maxDex));
+  } else {
+    armorClass = 10 + dex;
+  }
+  if (calc !== 'flat') armorClass += shield?.system.armor?.value ?? 0;
+
+  const spellSlots = Array.from({ length: 9 }, (_, i) => {
+    const slot = system.spells?.[`spell${i + 1}`];
+    return clamp(slot?.override ?? slot?.max ?? 0, 0, 10);
+  });
+  while (spellSlots.length > 0 && spellSlots[spellSlots.length - 1] === 0) spellSlots.pop();
+  const spellcasting = system.attributes.spellcasting && FOUNDRY_ABILITIES[system.attributes.spellcasting];
+
+  const skills = Object.entries(system.skills ?? {});
+  const defenses = (trait: 'dr' | 'di' | 'dv') => unique<DamageType>((system.traits?.[trait]?.value ?? []).map(parseDamageType));
+  const maxHp = system.attributes.hp?.max ?? system.attributes.hp?.value;
+
+  return {
+    format: 'foundry',
+    character: {
+      characterName: actor.name,
+      characterClass: className,
+      characterRace: race,
+      ...(maxHp && { maxHp: Math.max(1, maxHp) }),
+      resistances: defenses('dr'),
+      immunities: defenses('di'),
+      vulnerabilities: defenses('dv'),
+    },
+    sheet: {
+      level: clamp(level, 1, 20),
+      background,
+      ...(system.details?.alignment !== undefined && { alignment: system.details.alignment.trim() || null }),
+      armorClass,
+      ...(system.attributes.movement?.walk && { speed: system.attributes.movement.walk }),
+      ...scores,
+      savingThrows: Object.entries(FOUNDRY_ABILITIES)
+        .filter(([key]) => (system.abilities[key]?.proficient ?? 0) >= 1)
+        .map(([, ability]) => ability),
+      // 0.5 is Jack of All Trades, which isn't proficiency
+      skillProficiencies: unique(skills.map(([key, s]) => (s.value >= 1 ? FOUNDRY_SKILLS[key] ?? null : null))),
+      skillExpertise: unique(skills.map(([key, s]) => (s.value >= 2 ? FOUNDRY_SKILLS[key] ?? null : null))),
+      spellcastingAbility: spellcasting || null,
+      spellSlots,
+      inventory: items
+        .filter(i => FOUNDRY_INVENTORY_TYPES.has(i.type))
+        .map(i => ({
+          name: clampName(i.name),
+          quantity: clamp(i.system.quantity ?? 1, 0, 100000),
+          notes: i.system.equipped ? 'Equipped' : null,
+        })),
+      features: items
+        .filter(i => i.type === 'feat')
+        .map(i => ({
+          name: clampName(i.name),
+          source: i.system.requirements?.trim().slice(0, 100) || null,
+          description: null,
+          ...foundryUses(i.system.uses),
+        })),
+    },
+  };
+}
+
+// ============ Reading and applying imports ============
+
+/**
+ * Recognise a character file: one exported from here, a D&D Beyond character JSON
+ * (bare or still wrapped in the API's `data`), or a Foundry VTT dnd5e actor export
+ */
+export function parseCharacterFile(file: unknown): ImportedCharacter {
+  const own = characterExportSchema.safeParse(file);
+  if (own.success) {
+    return { format: 'dnd-companion', character: own.data.character, sheet: own.data.sheet };
+  }
+
+  const foundry = foundryActorSchema.safeParse(file);
+  if (foundry.success) return parseFoundryActor(foundry.data);
+
+  const wrapped = z.object({ data: z.unknown() }).safeParse(file);
+  const ddb = ddbCharacterSchema.safeParse(wrapped.success && wrapped.data.data ? wrapped.data.data : file);
+  if (ddb.success) return parseDndBeyond(ddb.data);
+
+  throw new AppError(400, 'Unrecognised character file: expected a D&D Beyond character JSON, a Foundry VTT actor export or a character exported from here');
+}
+
+const CHARACTER_LABELS: Record<keyof CharacterFields, string> = {
+  characterName: 'Character name',
+  characterClass: 'Class',
+  characterRace: 'Race',
+  maxHp: 'Max HP',
+  resistances: 'Resistances',
+  immunities: 'Immunities',
+  vulnerabilities: 'Vulnerabilities',
+};
+
+const SHEET_LABELS: Record<keyof CharacterSheetData, string> = {
+  level: 'Level',
+  background: 'Background',
+  alignment: 'Alignment',
+  armorClass: 'AC',
+  speed: 'Speed',
+  strength: 'Strength',
+  dexterity: 'Dexterity',
+  constitution: 'Constitution',
+  intelligence: 'Intelligence',
+  wisdom: 'Wisdom',
+  charisma: 'Charisma',
+  savingThrows: 'Saving throws',
+  skillProficiencies: 'Skills',
+  skillExpertise: 'Expertise',
+  spellcastingAbility: 'Spellcasting ability',
+  spellSlots: 'Spell slots',
+  inventory: 'Inventory',
+  features: 'Features',
+};
+
+function display(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (!Array.isArray(value)) return String(value).replace(/_/g, ' ');
+  if (value.length === 0) return null;
+  return value
+    .map(item => {
+      if (typeof item !== 'object' || item === null) return String(item).replace(/_/g, ' ');
+      const { name, quantity, uses, recharge } = item as { name: string; quantity?: number; uses?: number | null; recharge?: string | null };
+      if (uses) return `${name} (${uses}/${recharge ?? 'long'} rest)`;
+      return quantity !== undefined && quantity !== 1 ? `${name} x${quantity}` : name;
+    })
+    .join(', ');
+}
+
+function unimportable(error: z.ZodError): AppError {
+  const issue = error.issues[0];
+  return new AppError(400, `The character file has a value that can't be imported (${issue.path.join('.')}: ${issue.message})`);
+}
+
+function buildPreview(imported: ImportedCharacter, existing: PlayerWithSheet | null): CharacterImportPreview {
+  const currentSheet = existing?.characterSheet ? toCharacterSheetData(existing.characterSheet) : characterSheetSchema.parse({});
+  const current: CharacterFields = {
+    characterName: existing?.characterName ?? imported.character.characterName,
+    characterClass: existing?.characterClass ?? null,
+    characterRace: existing?.characterRace ?? null,
+    maxHp: existing?.maxHp ?? 10,
+    resistances: existing?.resistances ?? [],
+    immunities: existing?.immunities ?? [],
+    vulnerabilities: existing?.vulnerabilities ?? [],
+  };
+
+  const character = characterExportSchema.shape.character.safeParse({ ...current, ...imported.character });
+  if (!character.success) throw unimportable(character.error);
+  const sheet = characterSheetSchema.safeParse(normalizeCharacterSheet({ ...currentSheet, ...imported.sheet }));
+  if (!sheet.success) throw unimportable(sheet.error);
+
+  // A new player shows everything it will get; an existing one only what changes
+  const changes: CharacterChange[] = [];
+  const compare = <T extends object>(labels: Record<keyof T, string>, before: T | null, after: T) => {
+    for (const field of Object.keys(labels) as (keyof T & string)[]) {
+      const was = before && display(before[field]);
+      const now = display(after[field]);
+      if (was !== now) changes.push({ field, label: labels[field], before: was, after: now });
+    }
+  };
+  compare(CHARACTER_LABELS, existing && current, character.data);
+  compare(SHEET_LABELS, existing && currentSheet, sheet.data);
+
+  return { format: imported.format, character: character.data, sheet: sheet.data, changes };
+}
+
+async function loadPlayerForImport(campaignId: string, playerId: string | undefined): Promise<PlayerWithSheet | null> {
+  if (!playerId) return null;
+  const player = await prisma.player.findFirst({
+    where: { id: playerId, campaignId },
+    include: { characterSheet: true },
+  });
+  if (!player) throw new AppError(404, 'Player not found');
+  return player;
+}
+
+/**
+ * What importing a file would do to a player, or the player it would create
+ */
+export async function previewCharacterImport(
+  campaignId: string,
+  playerId: string | undefined,
+  file: unknown
+): Promise<CharacterImportPreview> {
+  const existing = await loadPlayerForImport(campaignId, playerId);
+  return buildPreview(parseCharacterFile(file), existing);
+}
+
+/**
+ * Import a character file into an existing player, or create one for it. Who plays it
+ * stays the same; current HP is kept (capped at the new max), or starts full for a new player.
+ */
+export async function applyCharacterImport(
+  campaignId: string,
+  playerId: string | undefined,
+  playerName: string | undefined,
+  file: unknown
+): Promise<{ player: Player; sheet: CharacterSheetData }> {
+  const existing = await loadPlayerForImport(campaignId, playerId);
+  if (!existing && !playerName) {
+    throw new AppError(400, 'playerName is required to create a player from a character file');
+  }
+  const { character, sheet } = buildPreview(parseCharacterFile(file), existing);
+
+  const result = await prisma.$transaction(async tx => {
+    const player = existing
+      ? await tx.player.update({
+        where: { id: existing.id },
+        data: { ...character, currentHp: Math.min(existing.currentHp, character.maxHp) },
+      })
+      : await tx.player.create({
+        data: { ...character, campaignId, playerName: playerName!, currentHp: character.maxHp },
+      });
+    const saved = await tx.characterSheet.upsert({
+      where: { playerId: player.id },
+      create: { ...sheet, playerId: player.id },
+      update: sheet,
+    });
+    await syncCharacterResources(tx, player.id, sheet);
+    return { player, sheet: toCharacterSheetData(saved) };
+  });
+
+  console.log(`📜 Imported ${result.player.characterName} (${existing ? 'updated' : 'new player'})`);
+  return result;
+}
@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import type { Ability, CharacterSheet, Player, Prisma, RestType, Skill } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { DAMAGE_TYPES } from './damage.js';
+
+export const ABILITIES = [
+  'strength',
+  'dexterity',
+  'constitution',
+  'intelligence',
+  'wisdom',
+  'charisma',
+] as const satisfies readonly Ability[];
+
+// Each skill and the ability it's rolled with
+export const SKILL_ABILITIES = {
+  acrobatics: 'dexterity',
+  animal_handling: 'wisdom',
+  arcana: 'intelligence',
+  athletics: 'strength',
+  deception: 'charisma',
+  history: 'intelligence',
+  insight: 'wisdom',
+  intimidation: 'charisma',
+  investigation: 'intelligence',
+  medicine: 'wisdom',
+  nature: 'intelligence',
+  perception: 'wisdom',
+  performance: 'charisma',
+  persuasion: 'charisma',
+  religion: 'intelligence',
+  sleight_of_hand: 'dexterity',
+  stealth: 'dexterity',
+  survival: 'wisdom',
+} as const satisfies Record<Skill, Ability>;
+
+const skill = z.enum(Object.keys(SKILL_ABILITIES) as [Skill, ...Skill[]]);
+
+export const SKILLS = skill.options;
+
+export const REST_TYPES = ['short', 'long'] as const satisfies readonly RestType[];
+
+const SPELL_LEVELS = 9;
+
+const abilityScore = z.number().int().min(1).max(30).default(10);
+
+/**
+ * A character sheet as edited, imported and exported. Everything has a default, so a
+ * sheet can be filled in a bit at a time.
+ */
+export const characterSheetSchema = z.object({
+  level: z.number().int().min(1).max(20).default(1),
+  background: z.string().trim().max(100).nullable().default(null),
+  alignment: z.string().trim().max(50).nullable().default(null),
+  armorClass: z.number().int().min(0).max(40).default(10),
+  speed: z.number().int().min(0).max(200).default(30),
+  strength: abilityScore,
+  dexterity: abilityScore,
+  constitution: abilityScore,
+  intelligence: abilityScore,
+  wisdom: abilityScore,
+  charisma: abilityScore,
+  savingThrows: z.array(z.enum(ABILITIES)).default([]),
+  skillProficiencies: z.array(skill).default([]),
+  skillExpertise: z.array(skill).default([]),
+  spellcastingAbility: z.enum(ABILITIES).nullable().default(null),
+  spellSlots: z.array(z.number().int().min(0).max(10)).max(SPELL_LEVELS).default([]),
+  inventory: z.array(z.object({
+    name: z.string().trim().min(1).max(200),
+    quantity: z.number().int().min(0).max(100000).default(1),
+    notes: z.string().trim().max(1000).nullable().default(null),
+  })).max(500).default([]),
+  features: z.array(z.object({
+    name: z.string().trim().min(1).max(200),
+    source: z.string().trim().max(100).nullable().default(null), // "Fighter 2", "Dwarf", "Alert"
+    description: z.string().trim().max(5000).nullable().default(null),
+    uses: z.number().int().min(1).max(100).nullable().default(null), // Limited-use features, e.g. Action Surge
+    recharge: z.enum(REST_TYPES).nullable().default(null), // The rest that restores the uses; long if not said
+  })).max(200).default([]),
+});
+
+export type CharacterSheetData = z.infer<typeof characterSheetSchema>;
+
+const EXPORT_FORMAT = 'dnd-companion-character';
+
+/**
+ * A character as a standalone JSON file: the Player fields that describe the character
+ * (not who plays it or their current HP) plus the sheet
+ */
+export const characterExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(1),
+  character: z.object({
+    characterName: z.string().min(1).max(100),
+    characterClass: z.string().max(50).nullable().default(null),
+    characterRace: z.string().max(50).nullable().default(null),
+    maxHp: z.number().int().positive(),
+    resistances: z.array(z.enum(DAMAGE_TYPES)).default([]),
+    immunities: z.array(z.enum(DAMAGE_TYPES)).default([]),
+    vulnerabilities: z.array(z.enum(DAMAGE_TYPES)).default([]),
+  }),
+  sheet: characterSheetSchema,
+});
+
+export type CharacterExport = z.infer<typeof characterExportSchema>;
+
+export const abilityModifier = (score: number) => Math.floor((score - 10) / 2);
+
+export const proficiencyBonus = (level: number) => 2 + Math.floor((level - 1) / 4);
+
+const signed = (n: number) => (n >= 0 ? `+${n}` : `${n}`);
+
+/**
+ * A skill's bonus: the ability modifier, plus proficiency (twice over with expertise)
+ */
+export function skillBonus(sheet: CharacterSheetData, skill: Skill): number {
+  const proficiency = sheet.skillExpertise.includes(skill)
+    ? 2
+    : sheet.skillProficiencies.includes(skill) ? 1 : 0;
+  return abilityModifier(sheet[SKILL_ABILITIES[skill]]) + proficiency * proficiencyBonus(sheet.level);
+}
+
+/**
+ * Read a stored sheet back into the editable shape; inventory and features that no
+ * longer parse are dropped rather than failing the whole sheet
+ */
+export function toCharacterSheetData(sheet: CharacterSheet): CharacterSheetData {
+  const inventory = characterSheetSchema.shape.inventory.safeParse(sheet.inventory);
+  const features = characterSheetSchema.shape.features.safeParse(sheet.features);
+  return {
+    level: sheet.level,
+    background: sheet.background,
+    alignment: sheet.alignment,
+    armorClass: sheet.armorClass,
+    speed: sheet.speed,
+    strength: sheet.strength,
+    dexterity: sheet.dexterity,
+    constitution: sheet.constitution,
+    intelligence: sheet.intelligence,
+    wisdom: sheet.wisdom,
+    charisma: sheet.charisma,
+    savingThrows: sheet.savingThrows,
+    skillProficiencies: sheet.skillProficiencies,
+    skillExpertise: sheet.skillExpertise,
+    spellcastingAbility: sheet.spellcastingAbility,
+    spellSlots: sheet.spellSlots,
+    inventory: inventory.success ? inventory.data : [],
+    features: features.success ? features.data : [],
+  };
+}
+
+// Expertise only makes sense on a skill they're proficient in, so it implies proficiency
+export function normalizeCharacterSheet(sheet: CharacterSheetData): CharacterSheetData {
+  return {
+    ...sheet,
+    savingThrows: [...new Set(sheet.savingThrows)],
+    skillProficiencies: [...new Set([...sheet.skillProficiencies, ...sheet.skillExpertise])],
+    skillExpertise: [...new Set(sheet.skillExpertise)],
+  };
+}
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Bring a player's resources in line with their sheet: a row per level of spell slots,
+ * one per feature with uses and their hit dice (one per level). Uses already spent
+ * are kept, up to the new maximum; resources the sheet no longer has are removed.
+ */
+export async function syncCharacterResources(db: Db, playerId: string, sheet: CharacterSheetData): Promise<void> {
+  const wanted: Prisma.CharacterResourceCreateManyInput[] = [
+    ...sheet.spellSlots.flatMap((max, i) => (max > 0
+      ? [{ playerId, kind: 'spell_slot' as const, name: `Level ${i + 1}`, spellLevel: i + 1, max, recharge: 'long' as const }]
+      : [])),
+    ...sheet.features.flatMap(f => (f.uses
+      ? [{ playerId, kind: 'feature' as const, name: f.name, max: f.uses, recharge: f.recharge ?? 'long' }]
+      : [])),
+    { playerId, kind: 'hit_dice', name: 'Hit Dice', max: sheet.level, recharge: 'long' },
+  ];
+
+  const existing = await db.characterResource.findMany({ where: { playerId } });
+  const key = (r: { kind: string; name: string }) => `${r.kind}:${r.name.toLowerCase()}`;
+  const wantedKeys = new Set(wanted.map(key));
+
+  const stale = existing.filter(r => !wantedKeys.has(key(r)));
+  if (stale.length > 0) {
+    await db.characterResource.deleteMany({ where: { id: { in: stale.map(r => r.id) } } });
+  }
+  for (const resource of wanted) {
+    const current = existing.find(r => key(r) === key(resource));
+    if (!current) {
+      await db.characterResource.create({ data: resource });
+    } else if (current.max !== resource.max || current.recharge !== resource.recharge || current.used > resource.max) {
+      await db.characterResource.update({
+        where: { id: current.id },
+        data: { max: resource.max, recharge: resource.recharge, used: Math.min(current.used, resource.max) },
+      });
+    }
+  }
+}
+
+export async function loadCharacterSheet(playerId: string): Promise<CharacterSheetData | null> {
+  const sheet = await prisma.characterSheet.findUnique({ where: { playerId } });
+  return sheet && toCharacterSheetData(sheet);
+}
+
+/**
+ * Replace a player's sheet, creating it the first time, along with the resources it lists
+ */
+export async function saveCharacterSheet(playerId: string, input: CharacterSheetData): Promise<CharacterSheetData> {
+  const data = normalizeCharacterSheet(input);
+  return prisma.$transaction(async tx => {
+    const sheet = await tx.characterSheet.upsert({
+      where: { playerId },
+      create: { ...data, playerId },
+      update: data,
+    });
+    await syncCharacterResources(tx, playerId, data);
+    return toCharacterSheetData(sheet);
+  });
+}
+
+export function exportCharacter(player: Player, sheet: CharacterSheetData | null): CharacterExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: 1,
+    character: {
+      characterName: player.characterName,
+      characterClass: player.characterClass,
+      characterRace: player.characterRace,
+      maxHp: player.maxHp,
+      resistances: player.resistances,
+      immunities: player.immunities,
+      vulnerabilities: player.vulnerabilities,
+    },
+    sheet: sheet ?? characterSheetSchema.parse({}),
+  };
+}
+
+/**
+ * The stats worth knowing when running a scene, on one line for prompts
+ */
+export function describeCharacterSheet(sheet: CharacterSheet): string {
+  const data = toCharacterSheetData(sheet);
+  const abilities = ABILITIES
+    .map(a => `${a.slice(0, 3).toUpperCase()} ${data[a]} (${signed(abilityModifier(data[a]))})`)
+    .join(', ');
+  const parts = [
+    `level ${data.level}`,
+    `AC ${data.armorClass}`,
+    `speed ${data.speed} ft`,
+    abilities,
+    `passive Perception ${10 + skillBonus(data, 'perception')}`,
+  ];
+  if (data.savingThrows.length > 0) {
+    parts.push(`proficient saves: ${data.savingThrows.join(', ')}`);
+  }
+  if (data.skillProficiencies.length > 0) {
+    parts.push(`skills: ${data.skillProficiencies.map(s => `${s.replace(/_/g, ' ')} ${signed(skillBonus(data, s))}`).join(', ')}`);
+  }
+  if (data.spellSlots.some(n => n > 0)) {
+    parts.push(`spell slots by level: ${data.spellSlots.join('/')}`);
+  }
+  if (data.features.length > 0) {
+    parts.push(`features: ${data.features.map(f => (f.uses ? `${f.name} (${f.uses}/${f.recharge ?? 'long'} rest)` : f.name)).join(', ')}`);
+  }
+  if (data.inventory.length > 0) {
+    parts.push(`carrying: ${data.inventory.map(i => (i.quantity > 1 ? `${i.name} x${i.quantity}` : i.name)).join(', ')}`);
+  }
+  return parts.join('; ');
+}
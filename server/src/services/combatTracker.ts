@@ -0,0 +1,261 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { COMMON_TRIGGERS } from './audioTrigger.js';
+
+// Highest initiative first; ties and unrolled combatants keep the order they joined in
+const INITIATIVE_ORDER: Prisma.CombatantOrderByWithRelationInput[] = [
+  { initiative: { sort: 'desc', nulls: 'last' } },
+  { createdAt: 'asc' },
+];
+
+export const ENCOUNTER_INCLUDE = {
+  combatants: { orderBy: INITIATIVE_ORDER },
+};
+
+export type EncounterWithCombatants = Prisma.EncounterGetPayload<{ include: typeof ENCOUNTER_INCLUDE }>;
+
+export const combatantInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  kind: z.enum(['player', 'monster']).default('monster'),
+  initiative: z.number().int().min(-10).max(50).nullable().default(null),
+  maxHp: z.number().int().min(1).max(10000).nullable().default(null),
+});
+
+export const combatantUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  initiative: z.number().int().min(-10).max(50).nullable().optional(),
+  maxHp: z.number().int().min(1).max(10000).nullable().optional(),
+  damageTaken: z.number().int().min(0).optional(),
+  defeated: z.boolean().optional(),
+});
+
+// A roll said on its own, e.g. "17", "I got a 17" or "15 for initiative"
+const INITIATIVE_ROLL_PATTERN =
+  /^(?:(?:i|we)\s+(?:got|rolled|have)\s+(?:an?\s+)?|initiative\s+(?:of\s+)?|that'?s\s+(?:an?\s+)?)?(\d{1,2})(?:\s+(?:for|on)\s+initiative)?[.!]?$/i;
+
+/**
+ * Whether a line is the DM calling for initiative
+ */
+export function callsForInitiative(text: string): boolean {
+  const lower = text.toLowerCase();
+  return COMMON_TRIGGERS.combat.some(phrase => lower.includes(phrase));
+}
+
+export function parseInitiativeRoll(text: string): number | null {
+  const match = text.trim().match(INITIATIVE_ROLL_PATTERN);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export async function listEncounters(sessionId: string): Promise<EncounterWithCombatants[]> {
+  return prisma.encounter.findMany({
+    where: { sessionId },
+    include: ENCOUNTER_INCLUDE,
+    orderBy: { startedAt: 'asc' },
+  });
+}
+
+export async function loadActiveEncounter(sessionId: string): Promise<EncounterWithCombatants | null> {
+  return prisma.encounter.findFirst({
+    where: { sessionId, status: 'active' },
+    include: ENCOUNTER_INCLUDE,
+  });
+}
+
+async function findActiveEncounter(sessionId: string, encounterId: string): Promise<EncounterWithCombatants> {
+  const encounter = await prisma.encounter.findUnique({
+    where: { id: encounterId },
+    include: ENCOUNTER_INCLUDE,
+  });
+  if (!encounter || encounter.sessionId !== sessionId) {
+    throw new AppError(404, 'Encounter not found');
+  }
+  if (encounter.status !== 'active') {
+    throw new AppError(409, 'This encounter has already ended');
+  }
+  return encounter;
+}
+
+async function findCombatant(sessionId: string, combatantId: string) {
+  const combatant = await prisma.combatant.findUnique({
+    where: { id: combatantId },
+    include: { encounter: { select: { sessionId: true, status: true } } },
+  });
+  if (!combatant || combatant.encounter.sessionId !== sessionId) {
+    throw new AppError(404, 'Combatant not found');
+  }
+  if (combatant.encounter.status !== 'active') {
+    throw new AppError(409, 'This encounter has already ended');
+  }
+  return combatant;
+}
+
+/**
+ * Start a fight with the campaign's player characters already in it. Initiative is
+ * rolled next; turns begin with the first advanceTurn.
+ */
+export async function startEncounter(
+  sessionId: string,
+  options: { name?: string | null; timestamp: number }
+): Promise<EncounterWithCombatants> {
+  if (await loadActiveEncounter(sessionId)) {
+    throw new AppError(409, 'An encounter is already running');
+  }
+
+  const session = await prisma.session.findUniqueOrThrow({
+    where: { id: sessionId },
+    select: { campaign: { select: { players: { orderBy: { characterName: 'asc' } } } } },
+  });
+
+  return prisma.encounter.create({
+    data: {
+      sessionId,
+      name: options.name || null,
+      startedAt: options.timestamp,
+      combatants: {
+        create: session.campaign.players.map(player => ({
+          name: player.characterName,
+          kind: 'player' as const,
+          playerId: player.id,
+        })),
+      },
+    },
+    include: ENCOUNTER_INCLUDE,
+  });
+}
+
+export async function addCombatant(
+  sessionId: string,
+  encounterId: string,
+  input: z.infer<typeof combatantInputSchema>
+): Promise<EncounterWithCombatants> {
+  await findActiveEncounter(sessionId, encounterId);
+  await prisma.combatant.create({
+    data: { ...input, encounterId },
+  });
+  return prisma.encounter.findUniqueOrThrow({ where: { id: encounterId }, include: ENCOUNTER_INCLUDE });
+}
+
+export async function updateCombatant(
+  sessionId: string,
+  combatantId: string,
+  patch: z.infer<typeof combatantUpdateSchema>
+): Promise<EncounterWithCombatants> {
+  const combatant = await findCombatant(sessionId, combatantId);
+  await prisma.combatant.update({
+    where: { id: combatantId },
+    data: patch,
+  });
+  return prisma.encounter.findUniqueOrThrow({ where: { id: combatant.encounterId }, include: ENCOUNTER_INCLUDE });
+}
+
+/**
+ * Remove a combatant; if it was their turn, the turn passes to whoever is next
+ */
+export async function removeCombatant(sessionId: string, combatantId: string): Promise<EncounterWithCombatants> {
+  const combatant = await findCombatant(sessionId, combatantId);
+  const encounter = await findActiveEncounter(sessionId, combatant.encounterId);
+
+  let turn = { activeCombatantId: encounter.activeCombatantId, round: encounter.round };
+  if (encounter.activeCombatantId === combatantId) {
+    const remaining = encounter.combatants.filter(c => c.id !== combatantId);
+    const position = encounter.combatants.findIndex(c => c.id === combatantId);
+    // Step from the combatant before the removed one so the next in line takes the turn
+    turn = stepTurn(remaining, remaining[position - 1]?.id ?? null, encounter.round, 1)
+      ?? { activeCombatantId: null, round: encounter.round };
+  }
+
+  const [, updated] = await prisma.$transaction([
+    prisma.combatant.delete({ where: { id: combatantId } }),
+    prisma.encounter.update({
+      where: { id: encounter.id },
+      data: turn,
+      include: ENCOUNTER_INCLUDE,
+    }),
+  ]);
+  return updated;
+}
+
+/**
+ * The combatant `step` turns away from the active one, skipping the defeated and
+ * counting rounds as the order wraps. Null when nobody is left standing, or when
+ * stepping back from the very first turn.
+ */
+function stepTurn(
+  order: { id: string; defeated: boolean }[],
+  activeCombatantId: string | null,
+  round: number,
+  step: 1 | -1
+): { activeCombatantId: string | null; round: number } | null {
+  if (!order.some(c => !c.defeated)) return null;
+
+  let index = order.findIndex(c => c.id === activeCombatantId);
+  // With no active combatant initiative is still being rolled: stepping forward starts
+  // the first turn at the top of the order
+  if (index === -1 && step < 0) return null;
+
+  do {
+    index += step;
+    if (index >= order.length) {
+      index = 0;
+      round++;
+    } else if (index < 0) {
+      index = order.length - 1;
+      round--;
+    }
+  } while (order[index].defeated);
+
+  return round < 1 ? null : { activeCombatantId: order[index].id, round };
+}
+
+export async function advanceTurn(
+  sessionId: string,
+  encounterId: string,
+  step: 1 | -1
+): Promise<EncounterWithCombatants> {
+  const encounter = await findActiveEncounter(sessionId, encounterId);
+  const turn = stepTurn(encounter.combatants, encounter.activeCombatantId, encounter.round, step);
+  if (!turn) return encounter;
+
+  return prisma.encounter.update({
+    where: { id: encounterId },
+    data: turn,
+    include: ENCOUNTER_INCLUDE,
+  });
+}
+
+export async function endEncounter(
+  sessionId: string,
+  encounterId: string,
+  timestamp: number
+): Promise<EncounterWithCombatants> {
+  await findActiveEncounter(sessionId, encounterId);
+  return prisma.encounter.update({
+    where: { id: encounterId },
+    data: { status: 'ended', endedAt: timestamp, activeCombatantId: null },
+    include: ENCOUNTER_INCLUDE,
+  });
+}
+
+/**
+ * Fill in a player's initiative from what they said, while the encounter is still
+ * rolling. Returns null when nothing changed.
+ */
+export async function recordInitiativeRoll(
+  sessionId: string,
+  playerId: string,
+  roll: number
+): Promise<EncounterWithCombatants | null> {
+  const encounter = await loadActiveEncounter(sessionId);
+  if (!encounter || encounter.activeCombatantId) return null;
+
+  const combatant = encounter.combatants.find(c => c.playerId === playerId && c.initiative === null);
+  if (!combatant) return null;
+
+  await prisma.combatant.update({
+    where: { id: combatant.id },
+    data: { initiative: roll },
+  });
+  return prisma.encounter.findUniqueOrThrow({ where: { id: encounter.id }, include: ENCOUNTER_INCLUDE });
+}
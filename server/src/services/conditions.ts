@@ -0,0 +1,204 @@
+import { z } from 'zod';
+import type { Condition, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { loadActiveEncounter } from './combatTracker.js';
+
+// The conditions from the 5e rules; anything else the DM or AI names is kept as a custom one
+export const STANDARD_CONDITIONS = [
+  'blinded',
+  'charmed',
+  'deafened',
+  'exhaustion',
+  'frightened',
+  'grappled',
+  'incapacitated',
+  'invisible',
+  'paralyzed',
+  'petrified',
+  'poisoned',
+  'prone',
+  'restrained',
+  'stunned',
+  'unconscious',
+] as const;
+
+// Outside an encounter a round still lasts six seconds of game time
+const ROUND_MS = 6_000;
+const MINUTE_MS = 60_000;
+
+export const conditionInputSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  playerId: z.string().nullable().default(null),
+  combatantId: z.string().nullable().default(null),
+  source: z.string().trim().max(200).nullable().default(null),
+  durationRounds: z.number().int().min(1).max(1000).nullable().default(null),
+  durationMinutes: z.number().int().min(1).max(10080).nullable().default(null),
+}).refine(input => (input.playerId === null) !== (input.combatantId === null), {
+  message: 'A condition needs either a player or a combatant',
+});
+
+export type ConditionInput = z.infer<typeof conditionInputSchema>;
+
+type ConditionWithEncounter = Prisma.ConditionGetPayload<{
+  include: { encounter: { select: { round: true; status: true } } };
+}>;
+
+/**
+ * Standard condition names are stored lowercase; custom ones as they were written
+ */
+function normalizeConditionName(name: string): string {
+  const trimmed = name.trim();
+  const standard = STANDARD_CONDITIONS.find(c => c === trimmed.toLowerCase());
+  return standard ?? trimmed;
+}
+
+export async function loadActiveConditions(sessionId: string): Promise<Condition[]> {
+  return prisma.condition.findMany({
+    where: { sessionId, endedAt: null },
+    orderBy: { startedAt: 'asc' },
+  });
+}
+
+async function verifyTarget(sessionId: string, input: Pick<ConditionInput, 'playerId' | 'combatantId'>) {
+  if (input.playerId) {
+    const player = await prisma.player.findFirst({
+      where: { id: input.playerId, campaign: { sessions: { some: { id: sessionId } } } },
+    });
+    if (!player) throw new AppError(404, 'Player not found');
+  }
+  if (input.combatantId) {
+    const combatant = await prisma.combatant.findFirst({
+      where: { id: input.combatantId, encounter: { sessionId } },
+    });
+    if (!combatant) throw new AppError(404, 'Combatant not found');
+  }
+}
+
+/**
+ * Put a condition on a player or enemy. One they already have is restarted with the
+ * new duration rather than stacked. Round durations are counted in the running
+ * encounter, when there is one.
+ */
+export async function applyCondition(
+  sessionId: string,
+  input: ConditionInput & { healthEventId?: string },
+  timestamp: number
+): Promise<Condition> {
+  await verifyTarget(sessionId, input);
+
+  const name = normalizeConditionName(input.name);
+  const encounter = await loadActiveEncounter(sessionId);
+  const data = {
+    source: input.source,
+    startedAt: timestamp,
+    startRound: encounter?.round ?? null,
+    durationRounds: input.durationRounds,
+    durationMinutes: input.durationMinutes,
+    encounterId: encounter?.id ?? null,
+    ...(input.healthEventId && { healthEventId: input.healthEventId }),
+  };
+
+  const existing = await prisma.condition.findFirst({
+    where: {
+      sessionId,
+      playerId: input.playerId,
+      combatantId: input.combatantId,
+      name: { equals: name, mode: 'insensitive' },
+      endedAt: null,
+    },
+  });
+  if (existing) {
+    return prisma.condition.update({ where: { id: existing.id }, data });
+  }
+
+  const condition = await prisma.condition.create({
+    data: {
+      ...data,
+      sessionId,
+      name,
+      playerId: input.playerId,
+      combatantId: input.combatantId,
+    },
+  });
+  console.log(`🌀 Condition applied: ${name}`);
+  return condition;
+}
+
+/**
+ * End a condition early, e.g. when the DM clears it
+ */
+export async function removeCondition(sessionId: string, conditionId: string, timestamp: number): Promise<Condition> {
+  const condition = await prisma.condition.findUnique({ where: { id: conditionId } });
+  if (!condition || condition.sessionId !== sessionId) {
+    throw new AppError(404, 'Condition not found');
+  }
+  if (condition.endedAt !== null) return condition;
+
+  return prisma.condition.update({
+    where: { id: conditionId },
+    data: { endedAt: timestamp },
+  });
+}
+
+/**
+ * Whether a condition's time is up. A round duration started in an encounter runs
+ * out once the encounter reaches round startRound + durationRounds, or when the fight
+ * ends; without an encounter it is measured as six seconds a round.
+ */
+function hasExpired(condition: ConditionWithEncounter, timestamp: number): boolean {
+  if (condition.durationMinutes !== null && condition.startedAt + condition.durationMinutes * MINUTE_MS <= timestamp) {
+    return true;
+  }
+  if (condition.durationRounds === null) return false;
+
+  if (condition.encounter && condition.startRound !== null) {
+    return condition.encounter.status === 'ended'
+      || condition.encounter.round >= condition.startRound + condition.durationRounds;
+  }
+  return condition.startedAt + condition.durationRounds * ROUND_MS <= timestamp;
+}
+
+/**
+ * End every active condition whose duration has passed. Called as session time goes
+ * by and whenever the encounter's round changes. Returns the conditions that ended.
+ */
+export async function expireConditions(sessionId: string, timestamp: number): Promise<Condition[]> {
+  const active = await prisma.condition.findMany({
+    where: {
+      sessionId,
+      endedAt: null,
+      OR: [{ durationRounds: { not: null } }, { durationMinutes: { not: null } }],
+    },
+    include: { encounter: { select: { round: true, status: true } } },
+  });
+
+  const expired = active.filter(condition => hasExpired(condition, timestamp));
+  if (expired.length === 0) return [];
+
+  await prisma.condition.updateMany({
+    where: { id: { in: expired.map(c => c.id) } },
+    data: { endedAt: timestamp },
+  });
+  for (const condition of expired) {
+    console.log(`⌛ Condition expired: ${condition.name}`);
+  }
+  return expired.map(condition => ({ ...condition, endedAt: timestamp }));
+}
+
+/**
+ * End a player's condition by name, e.g. unconscious once they are back on their feet.
+ * False when they didn't have it.
+ */
+export async function endPlayerCondition(
+  sessionId: string,
+  playerId: string,
+  name: string,
+  timestamp: number
+): Promise<boolean> {
+  const { count } = await prisma.condition.updateMany({
+    where: { sessionId, playerId, name: { equals: name, mode: 'insensitive' }, endedAt: null },
+    data: { endedAt: timestamp },
+  });
+  return count > 0;
+}
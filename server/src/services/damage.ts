@@ -0,0 +1,60 @@
+import type { DamageType, Player } from '@prisma/client';
+
+export const DAMAGE_TYPES = [
+  'acid',
+  'bludgeoning',
+  'cold',
+  'fire',
+  'force',
+  'lightning',
+  'necrotic',
+  'piercing',
+  'poison',
+  'psychic',
+  'radiant',
+  'slashing',
+  'thunder',
+] as const satisfies readonly DamageType[];
+
+export type DamageDefenses = Pick<Player, 'resistances' | 'immunities' | 'vulnerabilities'>;
+
+export interface AdjustedDamage {
+  amount: number;
+  adjustment: 'immune' | 'resisted' | 'vulnerable' | null;
+}
+
+/**
+ * The damage type a word names, if any ("Fire" is fire; "sneak attack" is nothing)
+ */
+export function parseDamageType(word: string | null | undefined): DamageType | null {
+  const lower = word?.trim().toLowerCase();
+  return DAMAGE_TYPES.find(type => type === lower) ?? null;
+}
+
+/**
+ * Apply a character's immunities, resistances and vulnerabilities in the 5e order:
+ * immunity stops the damage, resistance halves it (rounded down), then vulnerability
+ * doubles it. Untyped damage is taken as said.
+ */
+export function adjustDamage(amount: number, damageType: DamageType | null, defenses: DamageDefenses): AdjustedDamage {
+  if (!damageType) return { amount, adjustment: null };
+  if (defenses.immunities.includes(damageType)) return { amount: 0, adjustment: 'immune' };
+
+  const resisted = defenses.resistances.includes(damageType);
+  const vulnerable = defenses.vulnerabilities.includes(damageType);
+  let adjusted = amount;
+  if (resisted) adjusted = Math.floor(adjusted / 2);
+  if (vulnerable) adjusted *= 2;
+
+  // Both at once cancel out as far as the log is concerned
+  const adjustment = resisted === vulnerable ? null : resisted ? 'resisted' : 'vulnerable';
+  return { amount: adjusted, adjustment };
+}
+
+/**
+ * Temporary hit points soak up damage first; whatever is left comes off real HP
+ */
+export function absorbWithTempHp(damage: number, tempHp: number): { damage: number; tempHp: number } {
+  const absorbed = Math.min(damage, tempHp);
+  return { damage: damage - absorbed, tempHp: tempHp - absorbed };
+}
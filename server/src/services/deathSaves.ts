@@ -0,0 +1,258 @@
+import type { Player, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { applyCondition, endPlayerCondition } from './conditions.js';
+import { absorbWithTempHp } from './damage.js';
+
+const SAVES_NEEDED = 3;
+
+// Regaining HP or becoming stable clears both counts
+export const DEATH_SAVES_RESET = { deathSaveSuccesses: 0, deathSaveFailures: 0, stable: false };
+
+/**
+ * A player's HP and dying state, as sent to the live session
+ */
+export interface PlayerHealth {
+  playerId: string;
+  currentHp: number;
+  tempHp: number;
+  deathSaveSuccesses: number;
+  deathSaveFailures: number;
+  stable: boolean;
+}
+
+export interface PlayerHealthChange {
+  player: PlayerHealth;
+  conditionsChanged: boolean; // Knocked unconscious or back on their feet
+}
+
+// "I rolled a 14 on my death save", "death saving throw: 9", "nat 20 on my death save"
+const DEATH_SAVE_PATTERN = /\bdeath\s+sav(?:es?|ing\s+throws?)\b/i;
+const DEATH_SAVE_ROLL_PATTERN = /\b(?:nat(?:ural)?\s+)?(\d{1,2})\b/;
+
+export function parseDeathSaveRoll(text: string): number | null {
+  if (!DEATH_SAVE_PATTERN.test(text)) return null;
+  const match = text.match(DEATH_SAVE_ROLL_PATTERN);
+  if (!match) return null;
+  const roll = parseInt(match[1], 10);
+  return roll >= 1 && roll <= 20 ? roll : null;
+}
+
+export const isDead = (player: Pick<Player, 'deathSaveFailures'>) => player.deathSaveFailures >= SAVES_NEEDED;
+
+export const isDying = (player: Pick<Player, 'currentHp' | 'stable' | 'deathSaveFailures'>) =>
+  player.currentHp === 0 && !player.stable && !isDead(player);
+
+export async function findSessionPlayer(sessionId: string, playerId: string): Promise<Player> {
+  const player = await prisma.player.findFirst({
+    where: { id: playerId, campaign: { sessions: { some: { id: sessionId } } } },
+  });
+  if (!player) throw new AppError(404, 'Player not found');
+  return player;
+}
+
+// The event a death or revival follows from; null for the DM's own changes
+export interface HealthCause {
+  id: string | null;
+  timestamp: number;
+}
+
+export function toPlayerHealth(player: Player): PlayerHealth {
+  return {
+    playerId: player.id,
+    currentHp: player.currentHp,
+    tempHp: player.tempHp,
+    deathSaveSuccesses: player.deathSaveSuccesses,
+    deathSaveFailures: player.deathSaveFailures,
+    stable: player.stable,
+  };
+}
+
+// Deaths and revivals follow from events the DM already confirmed, so they are stored confirmed
+async function recordOutcome(
+  sessionId: string,
+  player: Player,
+  type: 'death' | 'revive',
+  description: string,
+  cause: HealthCause,
+  value: number | null = null
+) {
+  await prisma.healthEvent.create({
+    data: {
+      sessionId,
+      playerId: player.id,
+      type,
+      value,
+      description,
+      timestamp: cause.timestamp,
+      confirmed: true,
+      causeId: cause.id,
+    },
+  });
+  console.log(type === 'death' ? `💀 ${player.characterName} died` : `✨ ${player.characterName} is back on their feet`);
+}
+
+/**
+ * Apply confirmed damage or healing to a player. Damage comes off temporary HP first,
+ * then follows the rules for dropping to 0 HP: they fall unconscious and start making
+ * death saves, unless the damage left over is at least their max HP, which kills them
+ * outright. Damage while at 0 HP is a failed save (the DM records a critical hit's
+ * second failure by hand); any healing revives them. The dead are beyond healing.
+ */
+export async function applyPlayerHpChange(
+  sessionId: string,
+  player: Player,
+  hpChange: number,
+  cause: HealthCause
+): Promise<PlayerHealthChange> {
+  if (hpChange === 0 || isDead(player)) {
+    return { player: toPlayerHealth(player), conditionsChanged: false };
+  }
+
+  let change = hpChange;
+  let tempHp = player.tempHp;
+  if (change < 0) {
+    const absorbed = absorbWithTempHp(-change, tempHp);
+    change = -absorbed.damage;
+    tempHp = absorbed.tempHp;
+  }
+  if (change === 0) {
+    const updated = await prisma.player.update({ where: { id: player.id }, data: { tempHp } });
+    return { player: toPlayerHealth(updated), conditionsChanged: false };
+  }
+
+  let data: Prisma.PlayerUpdateInput;
+  let conditionsChanged = false;
+
+  if (change > 0) {
+    const currentHp = Math.min(player.maxHp, player.currentHp + change);
+    data = { currentHp, ...DEATH_SAVES_RESET };
+    if (player.currentHp === 0) {
+      await recordOutcome(sessionId, player, 'revive', `${player.characterName} regains ${currentHp} HP`, cause, currentHp);
+      conditionsChanged = await endPlayerCondition(sessionId, player.id, 'unconscious', cause.timestamp);
+    }
+  } else if (player.currentHp > 0) {
+    const remaining = player.currentHp + change;
+    if (remaining > 0) {
+      data = { currentHp: remaining };
+    } else if (-remaining >= player.maxHp) {
+      data = { currentHp: 0, deathSaveSuccesses: 0, deathSaveFailures: SAVES_NEEDED, stable: false };
+      await recordOutcome(sessionId, player, 'death', `${player.characterName} is killed outright by massive damage`, cause);
+    } else {
+      data = { currentHp: 0, ...DEATH_SAVES_RESET };
+      await applyCondition(sessionId, {
+        name: 'unconscious',
+        playerId: player.id,
+        combatantId: null,
+        source: 'Dropped to 0 HP',
+        durationRounds: null,
+        durationMinutes: null,
+      }, cause.timestamp);
+      conditionsChanged = true;
+      console.log(`🩸 ${player.characterName} is down`);
+    }
+  } else {
+    // Damage at 0 HP is a failed save, and ends being stable; massive damage is still fatal
+    const deathSaveFailures = -change >= player.maxHp
+      ? SAVES_NEEDED
+      : Math.min(SAVES_NEEDED, player.deathSaveFailures + 1);
+    data = { deathSaveFailures, stable: false };
+    if (deathSaveFailures >= SAVES_NEEDED) {
+      await recordOutcome(sessionId, player, 'death', `${player.characterName} takes damage while dying`, cause);
+    }
+  }
+
+  const updated = await prisma.player.update({ where: { id: player.id }, data: { ...data, tempHp } });
+  return { player: toPlayerHealth(updated), conditionsChanged };
+}
+
+/**
+ * Temporary HP don't stack: a new grant replaces the current pool only if it's bigger
+ */
+export async function grantTempHp(player: Player, amount: number): Promise<PlayerHealth> {
+  if (amount <= player.tempHp || isDead(player)) return toPlayerHealth(player);
+  const updated = await prisma.player.update({ where: { id: player.id }, data: { tempHp: amount } });
+  return toPlayerHealth(updated);
+}
+
+/**
+ * Apply a death saving throw: 10 or higher succeeds, a natural 1 counts as two failures
+ * and a natural 20 brings them back with 1 HP. Three successes make them stable.
+ */
+export async function applyDeathSave(
+  sessionId: string,
+  player: Player,
+  roll: number,
+  cause: HealthCause
+): Promise<PlayerHealthChange> {
+  if (!isDying(player)) {
+    throw new AppError(409, `${player.characterName} isn't making death saves`);
+  }
+
+  if (roll === 20) {
+    const updated = await prisma.player.update({
+      where: { id: player.id },
+      data: { currentHp: 1, ...DEATH_SAVES_RESET },
+    });
+    await recordOutcome(sessionId, player, 'revive', `${player.characterName} rolls a natural 20 on a death save`, cause, 1);
+    const conditionsChanged = await endPlayerCondition(sessionId, player.id, 'unconscious', cause.timestamp);
+    return { player: toPlayerHealth(updated), conditionsChanged };
+  }
+
+  let data: Prisma.PlayerUpdateInput;
+  if (roll >= 10) {
+    const deathSaveSuccesses = player.deathSaveSuccesses + 1;
+    data = deathSaveSuccesses >= SAVES_NEEDED
+      ? { ...DEATH_SAVES_RESET, stable: true }
+      : { deathSaveSuccesses };
+    if (deathSaveSuccesses >= SAVES_NEEDED) console.log(`🩹 ${player.characterName} is stable`);
+  } else {
+    const deathSaveFailures = Math.min(SAVES_NEEDED, player.deathSaveFailures + (roll === 1 ? 2 : 1));
+    data = { deathSaveFailures };
+    if (deathSaveFailures >= SAVES_NEEDED) {
+      await recordOutcome(sessionId, player, 'death', `${player.characterName} fails their last death save`, cause);
+    }
+  }
+
+  const updated = await prisma.player.update({ where: { id: player.id }, data });
+  return { player: toPlayerHealth(updated), conditionsChanged: false };
+}
+
+/**
+ * Stop a dying player's death saves, e.g. after a Medicine check or Spare the Dying
+ */
+export async function stabilizePlayer(sessionId: string, playerId: string): Promise<PlayerHealth> {
+  const player = await findSessionPlayer(sessionId, playerId);
+  if (!isDying(player)) {
+    throw new AppError(409, `${player.characterName} isn't dying`);
+  }
+  const updated = await prisma.player.update({
+    where: { id: playerId },
+    data: { ...DEATH_SAVES_RESET, stable: true },
+  });
+  console.log(`🩹 ${player.characterName} is stable`);
+  return toPlayerHealth(updated);
+}
+
+/**
+ * A failed save the DM records by hand, e.g. for a critical hit on a dying player
+ */
+export async function addDeathSaveFailure(
+  sessionId: string,
+  playerId: string,
+  timestamp: number
+): Promise<PlayerHealth> {
+  const player = await findSessionPlayer(sessionId, playerId);
+  if (player.currentHp > 0 || isDead(player)) {
+    throw new AppError(409, `${player.characterName} isn't at 0 HP`);
+  }
+  const deathSaveFailures = player.deathSaveFailures + 1;
+  const updated = await prisma.player.update({
+    where: { id: playerId },
+    data: { deathSaveFailures, stable: false },
+  });
+  if (deathSaveFailures >= SAVES_NEEDED) {
+    await recordOutcome(sessionId, player, 'death', `${player.characterName} fails their last death save`, { id: null, timestamp });
+  }
+  return toPlayerHealth(updated);
+}
@@ -0,0 +1,454 @@
+import { createClient, LiveTranscriptionEvents, LiveClient } from '@deepgram/sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { BYTES_PER_MS, encodeWav } from '../lib/wav.js';
+import { averageSpeakerConfidence } from './transcription.js';
+import type { TranscriptionProvider, TranscriptSegment, TranscriptWord } from './transcription.js';
+
+// Word as reported by both the live and prerecorded APIs (times in seconds into the stream)
+interface DeepgramWord {
+  word: string;
+  punctuated_word?: string;
+  confidence?: number;
+  speaker?: number;
+  speaker_confidence?: number;
+  start: number;
+  end: number;
+}
+
+// Use letter labels (A, B, C, etc.) for diarized speaker numbers
+function speakerLabelFor(speakerNum: number): string {
+  return `Speaker ${String.fromCharCode(65 + (speakerNum % 26))}`;
+}
+
+// Audio span and word timings for a run of words, shifted by where the stream began
+function wordTiming(
+  words: DeepgramWord[],
+  streamOffsetMs: number
+): Pick<TranscriptSegment, 'audioOffset' | 'audioDuration' | 'words' | 'speakerConfidence'> {
+  if (words.length === 0) return {};
+
+  const timedWords: TranscriptWord[] = words.map(w => ({
+    text: w.punctuated_word ?? w.word,
+    start: Math.round(streamOffsetMs + w.start * 1000),
+    end: Math.round(streamOffsetMs + w.end * 1000),
+    confidence: w.confidence,
+    speaker: w.speaker !== undefined ? speakerLabelFor(w.speaker) : undefined,
+    speakerConfidence: w.speaker_confidence,
+  }));
+
+  return {
+    audioOffset: timedWords[0].start,
+    audioDuration: timedWords[timedWords.length - 1].end - timedWords[0].start,
+    words: timedWords,
+    speakerConfidence: averageSpeakerConfidence(timedWords),
+  };
+}
+
+/**
+ * Streaming transcription through Deepgram's live API
+ */
+export class DeepgramTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'deepgram' as const;
+  private deepgram;
+  private connection: LiveClient | null = null;
+  private onSegment: ((segment: TranscriptSegment) => void) | null = null;
+  private sessionStartTime: number = Date.now();
+  private isConnecting: boolean = false;
+  private isConnected: boolean = false;
+  private keepAliveInterval: ReturnType<typeof setInterval> | null = null;
+  private lastSpeaker: number | null = null;
+  private speakerChangeCount: number = 0;
+  // Audio received so far, and how much of it preceded the current connection.
+  // Deepgram's word times restart at zero on every reconnect.
+  private bytesReceived: number = 0;
+  private streamOffsetMs: number = 0;
+
+  constructor(apiKey: string) {
+    if (!apiKey) {
+      console.error('❌ DEEPGRAM_API_KEY is not configured');
+      throw new Error('DEEPGRAM_API_KEY is required');
+    }
+    console.log('🎤 Initializing Deepgram with API key:', apiKey.substring(0, 8) + '...');
+    
+    this.deepgram = createClient(apiKey);
+  }
+
+  async start(onSegment: (segment: TranscriptSegment) => void): Promise<void> {
+    this.onSegment = onSegment;
+    this.sessionStartTime = Date.now();
+    await this.initializeConnection();
+  }
+
+  private async initializeConnection(): Promise<void> {
+    if (this.isConnecting || this.isConnected) {
+      return;
+    }
+    
+    this.isConnecting = true;
+    
+    try {
+      console.log('Initializing Deepgram connection...');
+      
+      // Deepgram configuration optimized for speaker diarization
+      // See: https://developers.deepgram.com/docs/diarization
+      this.connection = this.deepgram.listen.live({
+        model: 'nova-2',
+        language: 'en-US',
+        smart_format: true,
+        punctuate: true,
+        // Diarization - critical for speaker identification
+        diarize: true,
+        // Use latest diarization version for best results
+        diarize_version: '2024-01-09',
+        // Utterances help group speech by natural pauses
+        utterances: true,
+        // Higher utterance split helps separate speakers
+        utt_split: 0.8,
+        // No interim results - only final for cleaner segments
+        interim_results: false,
+        // Longer endpointing (ms) gives better speaker separation
+        // Higher value = wait longer for speaker to finish
+        endpointing: 500,
+        // Audio format
+        encoding: 'linear16',
+        sample_rate: 16000,
+        channels: 1,
+        // VAD (Voice Activity Detection) events help track speech boundaries
+        vad_events: true,
+      });
+      
+      console.log('🎤 Deepgram config: diarize=true, utt_split=0.8, endpointing=500ms');
+
+      this.connection.on(LiveTranscriptionEvents.Open, () => {
+        console.log('✅ Deepgram connection opened successfully');
+        console.log('   - Diarization: ENABLED');
+        console.log('   - Model: nova-2');
+        console.log('   - Looking for speaker changes...');
+        this.isConnected = true;
+        this.isConnecting = false;
+        this.streamOffsetMs = this.bytesReceived / BYTES_PER_MS;
+        
+        // Start keep-alive to prevent connection timeout
+        this.startKeepAlive();
+      });
+
+      this.connection.on(LiveTranscriptionEvents.Transcript, (data) => {
+        this.handleTranscript(data);
+      });
+      
+      // Log speech start/end events for debugging speaker boundaries
+      this.connection.on(LiveTranscriptionEvents.SpeechStarted, () => {
+        console.log('🎙️ Speech started');
+      });
+      
+      // Utterance end events (if available)
+      this.connection.on(LiveTranscriptionEvents.UtteranceEnd, () => {
+        console.log('⏸️ Utterance ended (potential speaker boundary)');
+      });
+
+      this.connection.on(LiveTranscriptionEvents.Error, (error) => {
+        console.error('Deepgram error:', error);
+        this.isConnected = false;
+        this.isConnecting = false;
+      });
+
+      this.connection.on(LiveTranscriptionEvents.Close, () => {
+        console.log('Deepgram connection closed');
+        this.isConnected = false;
+        this.isConnecting = false;
+        this.stopKeepAlive();
+      });
+      
+      // Wait for connection to be ready
+      await this.waitForConnection();
+      
+    } catch (error) {
+      console.error('Failed to initialize Deepgram connection:', error);
+      this.isConnecting = false;
+      throw error;
+    }
+  }
+  
+  private waitForConnection(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error('Deepgram connection timeout'));
+      }, 10000);
+      
+      const checkConnection = () => {
+        if (this.isConnected) {
+          clearTimeout(timeout);
+          resolve();
+        } else if (!this.isConnecting) {
+          clearTimeout(timeout);
+          reject(new Error('Deepgram connection failed'));
+        } else {
+          setTimeout(checkConnection, 100);
+        }
+      };
+      
+      checkConnection();
+    });
+  }
+  
+  private startKeepAlive() {
+    this.stopKeepAlive();
+    // Send keep-alive every 8 seconds to prevent timeout
+    this.keepAliveInterval = setInterval(() => {
+      if (this.connection && this.isConnected) {
+        try {
+          this.connection.keepAlive();
+        } catch (e) {
+          console.warn('Keep-alive failed:', e);
+        }
+      }
+    }, 8000);
+  }
+  
+  private stopKeepAlive() {
+    if (this.keepAliveInterval) {
+      clearInterval(this.keepAliveInterval);
+      this.keepAliveInterval = null;
+    }
+  }
+
+  private handleTranscript(data: {
+    channel?: {
+      alternatives?: Array<{
+        transcript?: string;
+        confidence?: number;
+        words?: DeepgramWord[];
+      }>;
+    };
+    is_final?: boolean;
+    speech_final?: boolean;
+  }) {
+    const alternative = data.channel?.alternatives?.[0];
+    
+    if (!alternative?.transcript) return;
+
+    const transcript = alternative.transcript.trim();
+    if (!transcript) return;
+
+    const words = alternative.words || [];
+    
+    // Log detailed speaker info from Deepgram
+    const speakerInfo = words.map(w => ({ word: w.word, speaker: w.speaker, conf: w.speaker_confidence }));
+    const uniqueSpeakers = [...new Set(words.map(w => w.speaker).filter(s => s !== undefined))];
+    
+    console.log('📝 Deepgram transcript:', {
+      text: transcript.substring(0, 40),
+      wordCount: words.length,
+      speakers: uniqueSpeakers,
+      speakerDetails: speakerInfo.slice(0, 5), // First 5 words with speaker info
+    });
+
+    // Check if there are speaker changes within this utterance
+    if (uniqueSpeakers.length > 1) {
+      // Split by speaker - create separate segments for each speaker's portion
+      console.log(`🔀 Multiple speakers in utterance: ${uniqueSpeakers.join(', ')}`);
+      this.splitBySpeaker(words, alternative.confidence ?? 0);
+      return;
+    }
+
+    // Single speaker utterance
+    const speakerNum = words[0]?.speaker ?? 0;
+    
+    // Track speaker changes
+    if (this.lastSpeaker !== null && speakerNum !== this.lastSpeaker) {
+      this.speakerChangeCount++;
+      console.log(`🔄 Speaker change detected! ${this.lastSpeaker} -> ${speakerNum} (change #${this.speakerChangeCount})`);
+    }
+    this.lastSpeaker = speakerNum;
+    
+    const speakerLabel = speakerLabelFor(speakerNum);
+
+    // Calculate timestamp relative to session start
+    const timestamp = Date.now() - this.sessionStartTime;
+
+    const segment: TranscriptSegment = {
+      id: uuidv4(),
+      timestamp,
+      speakerLabel,
+      speakerName: null,
+      text: transcript,
+      confidence: alternative.confidence ?? 0,
+      isEdited: false,
+      ...wordTiming(words, this.streamOffsetMs),
+    };
+
+    console.log(`🎯 Segment [${speakerLabel}]: "${transcript.substring(0, 50)}..."`);
+    this.onSegment?.(segment);
+  }
+
+  /**
+   * Split an utterance with multiple speakers into separate segments
+   */
+  private splitBySpeaker(
+    words: DeepgramWord[],
+    confidence: number
+  ) {
+    let currentSpeaker: number | undefined = words[0]?.speaker;
+    let currentWords: DeepgramWord[] = [];
+    const timestamp = Date.now() - this.sessionStartTime;
+
+    for (const word of words) {
+      if (word.speaker !== currentSpeaker && currentWords.length > 0) {
+        // Emit segment for previous speaker
+        const speakerNum = currentSpeaker ?? 0;
+        const speakerLabel = speakerLabelFor(speakerNum);
+        
+        const segment: TranscriptSegment = {
+          id: uuidv4(),
+          timestamp,
+          speakerLabel,
+          speakerName: null,
+          text: currentWords.map(w => w.punctuated_word ?? w.word).join(' '),
+          confidence,
+          isEdited: false,
+          ...wordTiming(currentWords, this.streamOffsetMs),
+        };
+        
+        console.log(`🎯 Split segment [${speakerLabel}]: "${segment.text}"`);
+        this.onSegment?.(segment);
+        
+        // Track speaker change
+        if (this.lastSpeaker !== null && speakerNum !== this.lastSpeaker) {
+          this.speakerChangeCount++;
+          console.log(`🔄 Speaker change: ${this.lastSpeaker} -> ${speakerNum}`);
+        }
+        this.lastSpeaker = speakerNum;
+        
+        // Start new speaker's words
+        currentWords = [];
+        currentSpeaker = word.speaker;
+      }
+      
+      currentWords.push(word);
+    }
+    
+    // Emit final segment
+    if (currentWords.length > 0) {
+      const speakerNum = currentSpeaker ?? 0;
+      const speakerLabel = speakerLabelFor(speakerNum);
+      
+      const segment: TranscriptSegment = {
+        id: uuidv4(),
+        timestamp,
+        speakerLabel,
+        speakerName: null,
+        text: currentWords.map(w => w.punctuated_word ?? w.word).join(' '),
+        confidence,
+        isEdited: false,
+        ...wordTiming(currentWords, this.streamOffsetMs),
+      };
+      
+      console.log(`🎯 Split segment [${speakerLabel}]: "${segment.text}"`);
+      this.onSegment?.(segment);
+      
+      if (this.lastSpeaker !== null && speakerNum !== this.lastSpeaker) {
+        this.speakerChangeCount++;
+      }
+      this.lastSpeaker = speakerNum;
+    }
+  }
+
+  async sendAudio(audioData: Buffer): Promise<void> {
+    try {
+      // Ensure connection is ready
+      if (!this.isConnected) {
+        if (!this.isConnecting) {
+          console.log('Reconnecting to Deepgram...');
+          await this.initializeConnection();
+        } else {
+          // Wait a bit for connection to establish
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
+      }
+
+      if (this.connection && this.isConnected) {
+        try {
+          // Convert Buffer to ArrayBuffer for Deepgram SDK
+          const arrayBuffer = audioData.buffer.slice(
+            audioData.byteOffset,
+            audioData.byteOffset + audioData.byteLength
+          );
+          this.connection.send(arrayBuffer);
+        } catch (error) {
+          console.error('Error sending audio to Deepgram:', error);
+        }
+      }
+    } finally {
+      // Count every chunk, sent or not, so offsets line up with the stored session audio
+      this.bytesReceived += audioData.length;
+    }
+  }
+
+  isReady(): boolean {
+    return this.isConnected;
+  }
+
+  async close(): Promise<void> {
+    this.stopKeepAlive();
+    
+    if (this.connection) {
+      try {
+        this.connection.requestClose();
+      } catch (e) {
+        // Ignore errors during close
+      }
+      this.connection = null;
+    }
+    
+    this.isConnected = false;
+    this.isConnecting = false;
+  }
+}
+
+/**
+ * One-shot transcription of a whole recording through Deepgram's prerecorded API.
+ * Slower than streaming but diarizes with the full session as context, so it is
+ * used for the post-session accuracy pass.
+ */
+export class DeepgramBatchTranscriber {
+  private deepgram;
+  private model: string;
+
+  constructor(apiKey: string, model: string) {
+    if (!apiKey) {
+      throw new Error('DEEPGRAM_API_KEY is required');
+    }
+    this.deepgram = createClient(apiKey);
+    this.model = model;
+  }
+
+  async transcribe(pcm: Buffer): Promise<TranscriptSegment[]> {
+    const { result, error } = await this.deepgram.listen.prerecorded.transcribeFile(encodeWav(pcm), {
+      model: this.model,
+      language: 'en-US',
+      smart_format: true,
+      punctuate: true,
+      diarize: true,
+      utterances: true,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return (result.results.utterances || [])
+      .filter(utterance => utterance.transcript.trim())
+      .map(utterance => ({
+        id: uuidv4(),
+        timestamp: Math.round(utterance.start * 1000),
+        speakerLabel: speakerLabelFor(utterance.speaker ?? 0),
+        speakerName: null,
+        text: utterance.transcript.trim(),
+        confidence: utterance.confidence,
+        isEdited: false,
+        audioOffset: Math.round(utterance.start * 1000),
+        audioDuration: Math.round((utterance.end - utterance.start) * 1000),
+        ...wordTiming(utterance.words, 0),
+      }));
+  }
+}
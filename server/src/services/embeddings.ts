@@ -0,0 +1,97 @@
+import OpenAI from 'openai';
+import { config } from '../config.js';
+import { hashingEmbedding } from '../lib/hashingEmbedding.js';
+
+export type EmbeddingProviderName = 'hashing' | 'openai' | 'local';
+
+/**
+ * Turns text into vectors for semantic retrieval. `model` identifies the vector
+ * space; vectors from different models are never compared.
+ */
+export interface EmbeddingClient {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  isAvailable(): boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Built-in feature-hashing embeddings. Runs in-process with no model download,
+ * so the campaign index works offline.
+ */
+export class HashingEmbeddingClient implements EmbeddingClient {
+  readonly name = 'hashing' as const;
+  readonly model: string;
+
+  constructor(private readonly dimensions: number) {
+    this.model = `hashing-${dimensions}`;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => hashingEmbedding(text, this.dimensions));
+  }
+}
+
+// Stay well under the API's per-request input limit
+const EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * OpenAI embeddings, or any OpenAI-compatible /embeddings endpoint
+ * (Ollama, llama.cpp, LM Studio...) via a different base URL.
+ */
+export class OpenAIEmbeddingClient implements EmbeddingClient {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  private openai: OpenAI;
+  private hasCredentials: boolean;
+
+  constructor(name: 'openai' | 'local', options: { apiKey: string; model: string; baseURL?: string }) {
+    this.name = name;
+    this.model = options.model;
+    this.hasCredentials = name === 'local' || !!options.apiKey;
+    this.openai = new OpenAI({
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL,
+    });
+  }
+
+  isAvailable(): boolean {
+    return this.hasCredentials;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const response = await this.openai.embeddings.create({
+        model: this.model,
+        input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+      });
+      vectors.push(...response.data.sort((a, b) => a.index - b.index).map(d => d.embedding));
+    }
+    return vectors;
+  }
+}
+
+export function createEmbeddingClient(name: EmbeddingProviderName = config.embeddingProvider): EmbeddingClient {
+  switch (name) {
+    case 'hashing':
+      return new HashingEmbeddingClient(config.embeddingDimensions);
+    case 'openai':
+      return new OpenAIEmbeddingClient('openai', {
+        apiKey: config.openaiApiKey,
+        model: config.embeddingModel,
+      });
+    case 'local':
+      return new OpenAIEmbeddingClient('local', {
+        apiKey: config.llmApiKey,
+        model: config.embeddingLocalModel,
+        baseURL: config.llmBaseUrl,
+      });
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
@@ -0,0 +1,523 @@
+import type { Combatant, HealthEvent, Player, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import type { ExtractedHealthEvent } from './ai.js';
+import { ENCOUNTER_INCLUDE, EncounterWithCombatants, loadActiveEncounter } from './combatTracker.js';
+import { applyCondition, endPlayerCondition } from './conditions.js';
+import { adjustDamage, parseDamageType } from './damage.js';
+import {
+  PlayerHealth,
+  applyDeathSave,
+  applyPlayerHpChange,
+  findSessionPlayer,
+  grantTempHp,
+  isDead,
+  isDying,
+  toPlayerHealth,
+} from './deathSaves.js';
+
+/**
+ * A detected event waiting for the DM, as sent to the live session
+ */
+export interface PendingHealthEvent {
+  id: string;
+  playerId: string | null;
+  combatantId: string | null;
+  type: HealthEvent['type'];
+  value: number | null;
+  statusEffect: string | null;
+  damageType: HealthEvent['damageType'];
+  durationRounds: number | null;
+  durationMinutes: number | null;
+  description: string;
+  confirmed: boolean;
+}
+
+export interface HealthConfirmation {
+  player: PlayerHealth | null;
+  encounter: EncounterWithCombatants | null; // Set when an enemy's HP changed
+  conditionsChanged: boolean;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/^the\s+/, '');
+
+function toPending(event: HealthEvent): PendingHealthEvent {
+  return {
+    id: event.id,
+    playerId: event.playerId,
+    combatantId: event.combatantId,
+    type: event.type,
+    value: event.value,
+    statusEffect: event.statusEffect,
+    damageType: event.damageType,
+    durationRounds: event.durationRounds,
+    durationMinutes: event.durationMinutes,
+    description: event.description,
+    confirmed: event.confirmed,
+  };
+}
+
+/**
+ * Store extracted events as pending, each attached to the player or enemy it is about.
+ * Enemies are the running encounter's monsters; one the AI names that isn't in the
+ * fight yet joins it with an unknown HP pool. Events about no one we know are dropped.
+ */
+export async function recordHealthEvents(
+  sessionId: string,
+  players: Pick<Player, 'id' | 'characterName'>[],
+  extracted: ExtractedHealthEvent[],
+  timestamp: number
+): Promise<{ events: PendingHealthEvent[]; encounter: EncounterWithCombatants | null }> {
+  const encounter = await loadActiveEncounter(sessionId);
+  const enemies = encounter?.combatants.filter(c => c.kind === 'monster') ?? [];
+  let joined = false;
+  const events: PendingHealthEvent[] = [];
+
+  for (const event of extracted) {
+    const name = normalizeName(event.characterName);
+    const player = event.target !== 'enemy'
+      ? players.find(p => p.characterName.toLowerCase() === name)
+      : undefined;
+
+    let combatantId: string | null = null;
+    if (!player) {
+      // Temporary HP are only tracked for the party
+      if (!encounter || event.target === 'player' || event.type === 'temp_hp') continue;
+
+      const matches = enemies.filter(c => normalizeName(c.name) === name);
+      let enemy = matches.find(c => !c.defeated) ?? matches[0];
+      if (!enemy) {
+        if (event.target !== 'enemy') continue;
+        enemy = await prisma.combatant.create({
+          data: {
+            encounterId: encounter.id,
+            name: name.charAt(0).toUpperCase() + name.slice(1),
+            kind: 'monster',
+          },
+        });
+        enemies.push(enemy);
+        joined = true;
+        console.log(`👹 ${enemy.name} joined the fight`);
+      }
+      combatantId = enemy.id;
+    }
+
+    const created = await prisma.healthEvent.create({
+      data: {
+        sessionId,
+        playerId: player?.id ?? null,
+        combatantId,
+        type: event.type,
+        value: event.value ?? null,
+        statusEffect: event.statusEffect ?? null,
+        damageType: event.type === 'damage' ? parseDamageType(event.damageType) : null,
+        durationRounds: event.type === 'status' ? event.durationRounds ?? null : null,
+        durationMinutes: event.type === 'status' ? event.durationMinutes ?? null : null,
+        description: event.description,
+        timestamp,
+        confirmed: false,
+      },
+    });
+    events.push(toPending(created));
+    console.log(`💊 Health event: ${event.characterName} - ${event.type} ${event.value ?? event.statusEffect}`);
+  }
+
+  return {
+    events,
+    encounter: encounter && joined
+      ? await prisma.encounter.findUniqueOrThrow({ where: { id: encounter.id }, include: ENCOUNTER_INCLUDE })
+      : null,
+  };
+}
+
+/**
+ * Store a death save a dying player called out as pending. Null when they aren't
+ * making death saves.
+ */
+export async function recordDeathSaveRoll(
+  sessionId: string,
+  playerId: string,
+  roll: number,
+  description: string,
+  timestamp: number
+): Promise<PendingHealthEvent | null> {
+  const player = await findSessionPlayer(sessionId, playerId);
+  if (!isDying(player)) return null;
+
+  const created = await prisma.healthEvent.create({
+    data: {
+      sessionId,
+      playerId,
+      type: 'death_save',
+      value: roll,
+      description,
+      timestamp,
+      confirmed: false,
+    },
+  });
+  console.log(`🎲 Death save: ${player.characterName} rolled ${roll}`);
+  return toPending(created);
+}
+
+type HealthEventWithTarget = Prisma.HealthEventGetPayload<{ include: { player: true; combatant: true } }>;
+
+// What undo puts back: a player's HP and dying state, or an enemy's damage taken
+type PlayerState = Pick<Player, 'currentHp' | 'tempHp' | 'deathSaveSuccesses' | 'deathSaveFailures' | 'stable'>;
+type CombatantState = Pick<Combatant, 'damageTaken' | 'defeated'>;
+
+const playerState = (player: PlayerState): PlayerState => ({
+  currentHp: player.currentHp,
+  tempHp: player.tempHp,
+  deathSaveSuccesses: player.deathSaveSuccesses,
+  deathSaveFailures: player.deathSaveFailures,
+  stable: player.stable,
+});
+
+const combatantState = (combatant: CombatantState): CombatantState => ({
+  damageTaken: combatant.damageTaken,
+  defeated: combatant.defeated,
+});
+
+// Field by field: jsonb doesn't keep the key order the state was stored with
+function isSameState<T extends object>(current: T, stored: Prisma.JsonValue | null): boolean {
+  if (stored === null || typeof stored !== 'object' || Array.isArray(stored)) return false;
+  return (Object.keys(current) as (keyof T & string)[]).every(key => current[key] === stored[key]);
+}
+
+/**
+ * Accept or reject a pending event. Accepted damage is adjusted for the player's
+ * resistances and applied through their temporary HP to their HP (with death saves at
+ * 0 HP), or added to an enemy's damage taken (defeating it once its HP runs out).
+ * Accepted statuses become conditions, starting from when they were said. The
+ * target's health before and after is kept so the event can be undone.
+ */
+export async function confirmHealthEvent(
+  sessionId: string,
+  eventId: string,
+  confirmed: boolean,
+  modifiedValue?: number
+): Promise<HealthConfirmation> {
+  const existing = await prisma.healthEvent.findUnique({ where: { id: eventId }, include: { player: true } });
+  if (!existing || existing.sessionId !== sessionId) {
+    throw new AppError(404, 'Health event not found');
+  }
+  if (existing.confirmed) {
+    throw new AppError(409, 'This health event has already been applied');
+  }
+  // A save called out before the player was healed or stabilized no longer counts
+  if (confirmed && existing.type === 'death_save' && existing.player && !isDying(existing.player)) {
+    throw new AppError(409, `${existing.player.characterName} isn't making death saves any more`);
+  }
+
+  const event = await prisma.healthEvent.update({
+    where: { id: eventId },
+    data: {
+      confirmed,
+      value: modifiedValue,
+    },
+    include: { player: true, combatant: true },
+  });
+  if (!confirmed) return { player: null, encounter: null, conditionsChanged: false };
+
+  const result = await applyHealthEvent(sessionId, event);
+
+  const combatantAfter = result.encounter?.combatants.find(c => c.id === event.combatantId);
+  await prisma.healthEvent.update({
+    where: { id: event.id },
+    data: {
+      appliedAt: new Date(),
+      ...(event.player && result.player && {
+        before: playerState(event.player),
+        after: playerState(result.player),
+      }),
+      ...(event.combatant && combatantAfter && {
+        before: combatantState(event.combatant),
+        after: combatantState(combatantAfter),
+      }),
+    },
+  });
+  if (event.player && result.player) {
+    await prisma.healthSnapshot.create({
+      data: {
+        sessionId,
+        playerId: event.player.id,
+        hp: result.player.currentHp,
+        tempHp: result.player.tempHp,
+        maxHp: event.player.maxHp,
+        timestamp: event.timestamp,
+        healthEventId: event.id,
+      },
+    });
+  }
+
+  return result;
+}
+
+async function applyHealthEvent(sessionId: string, event: HealthEventWithTarget): Promise<HealthConfirmation> {
+  const unchanged: HealthConfirmation = { player: null, encounter: null, conditionsChanged: false };
+
+  if (event.type === 'status') {
+    if (!event.statusEffect) return unchanged;
+    await applyCondition(sessionId, {
+      name: event.statusEffect,
+      playerId: event.playerId,
+      combatantId: event.combatantId,
+      source: event.description,
+      durationRounds: event.durationRounds,
+      durationMinutes: event.durationMinutes,
+      healthEventId: event.id,
+    }, event.timestamp);
+    return { ...unchanged, conditionsChanged: true };
+  }
+
+  if (event.value === null) return unchanged;
+
+  if (event.type === 'death_save' && event.player) {
+    const { player, conditionsChanged } = await applyDeathSave(sessionId, event.player, event.value, event);
+    return { ...unchanged, player, conditionsChanged };
+  }
+
+  if (event.type === 'temp_hp') {
+    return event.player ? { ...unchanged, player: await grantTempHp(event.player, event.value) } : unchanged;
+  }
+
+  const change = event.type === 'damage' ? -event.value : event.type === 'healing' ? event.value : 0;
+  if (change === 0) return unchanged;
+
+  if (event.player) {
+    let hpChange = change;
+    if (event.type === 'damage') {
+      const { amount, adjustment } = adjustDamage(event.value, event.damageType, event.player);
+      if (adjustment) {
+        console.log(`🛡️ ${event.player.characterName} is ${adjustment} to ${event.damageType}: ${event.value} → ${amount}`);
+      }
+      hpChange = -amount;
+    }
+    const { player, conditionsChanged } = await applyPlayerHpChange(sessionId, event.player, hpChange, event);
+    return { ...unchanged, player, conditionsChanged };
+  }
+
+  if (event.combatant) {
+    const { maxHp } = event.combatant;
+    const damageTaken = Math.min(maxHp ?? Infinity, Math.max(0, event.combatant.damageTaken - change));
+    await prisma.combatant.update({
+      where: { id: event.combatant.id },
+      data: {
+        damageTaken,
+        ...(maxHp !== null && damageTaken >= maxHp && { defeated: true }),
+      },
+    });
+    const encounter = await prisma.encounter.findUniqueOrThrow({
+      where: { id: event.combatant.encounterId },
+      include: ENCOUNTER_INCLUDE,
+    });
+    return { ...unchanged, encounter };
+  }
+
+  return unchanged;
+}
+
+/**
+ * Take back an applied event: the player or enemy gets the health they had before it,
+ * a death or revival it led to is undone with it, and a condition it applied is
+ * removed. Refused when the target's health has changed since, so later events have
+ * to be undone first.
+ */
+export async function undoHealthEvent(sessionId: string, eventId: string): Promise<HealthConfirmation> {
+  const event = await prisma.healthEvent.findUnique({
+    where: { id: eventId },
+    include: { player: true, combatant: true },
+  });
+  if (!event || event.sessionId !== sessionId) {
+    throw new AppError(404, 'Health event not found');
+  }
+  if (event.undoneAt) {
+    throw new AppError(409, 'This health event has already been undone');
+  }
+  if (event.causeId) {
+    throw new AppError(409, 'Undo the event that caused this instead');
+  }
+  if (!event.appliedAt) {
+    throw new AppError(409, 'Only applied health events can be undone');
+  }
+
+  const result: HealthConfirmation = { player: null, encounter: null, conditionsChanged: false };
+  const before = event.before as unknown as PlayerState & CombatantState | null;
+
+  if (event.player && before) {
+    if (!isSameState(playerState(event.player), event.after)) {
+      throw new AppError(409, `${event.player.characterName}'s health has changed since; undo the later events first`);
+    }
+    const player = await prisma.player.update({
+      where: { id: event.player.id },
+      data: playerState(before),
+    });
+    result.player = toPlayerHealth(player);
+
+    // Undoing a drop to 0 HP wakes them; undoing a revival knocks them out again
+    const wasDown = before.currentHp === 0;
+    if (wasDown !== (event.player.currentHp === 0)) {
+      if (wasDown && !isDead(player)) {
+        await applyCondition(sessionId, {
+          name: 'unconscious',
+          playerId: player.id,
+          combatantId: null,
+          source: 'Dropped to 0 HP',
+          durationRounds: null,
+          durationMinutes: null,
+        }, event.timestamp);
+      } else {
+        await endPlayerCondition(sessionId, player.id, 'unconscious', event.timestamp);
+      }
+      result.conditionsChanged = true;
+    }
+  }
+
+  if (event.combatant && before) {
+    if (!isSameState(combatantState(event.combatant), event.after)) {
+      throw new AppError(409, `${event.combatant.name}'s health has changed since; undo the later events first`);
+    }
+    await prisma.combatant.update({
+      where: { id: event.combatant.id },
+      data: combatantState(before),
+    });
+    result.encounter = await prisma.encounter.findUniqueOrThrow({
+      where: { id: event.combatant.encounterId },
+      include: ENCOUNTER_INCLUDE,
+    });
+  }
+
+  if (event.type === 'status') {
+    const { count } = await prisma.condition.deleteMany({ where: { healthEventId: event.id } });
+    result.conditionsChanged = count > 0;
+  }
+
+  const undoneAt = new Date();
+  await prisma.$transaction([
+    prisma.healthEvent.updateMany({
+      where: { OR: [{ id: event.id }, { causeId: event.id }] },
+      data: { undoneAt },
+    }),
+    prisma.healthSnapshot.deleteMany({ where: { healthEventId: event.id } }),
+  ]);
+  console.log(`↩️ Undid health event: ${event.description}`);
+
+  return result;
+}
+
+/**
+ * Every player's HP before anything happens in the session, the start of the timeline.
+ * Kept from the first time the session starts.
+ */
+export async function recordStartingSnapshots(sessionId: string): Promise<void> {
+  if (await prisma.healthSnapshot.count({ where: { sessionId } }) > 0) return;
+
+  const session = await prisma.session.findUniqueOrThrow({
+    where: { id: sessionId },
+    select: { campaign: { select: { players: true } } },
+  });
+  await prisma.healthSnapshot.createMany({
+    data: session.campaign.players.map(player => ({
+      sessionId,
+      playerId: player.id,
+      hp: player.currentHp,
+      tempHp: player.tempHp,
+      maxHp: player.maxHp,
+      timestamp: 0,
+    })),
+  });
+}
+
+export interface HealthTimeline {
+  players: Array<{
+    playerId: string;
+    characterName: string;
+    maxHp: number;
+    points: Array<{ timestamp: number; hp: number; tempHp: number; healthEventId: string | null }>;
+  }>;
+  events: Array<{
+    id: string;
+    type: HealthEvent['type'];
+    value: number | null;
+    damageType: HealthEvent['damageType'];
+    statusEffect: string | null;
+    description: string;
+    timestamp: number;
+    target: string; // Character or enemy name
+    playerId: string | null;
+    undoneAt: Date | null;
+    causeId: string | null;
+    undoable: boolean; // The latest applied event for its target
+  }>;
+}
+
+/**
+ * The session's HP history: each player's HP from the snapshots, and the applied events
+ * behind it (undone ones included, for the record)
+ */
+export async function getHealthTimeline(sessionId: string): Promise<HealthTimeline> {
+  const [snapshots, events] = await Promise.all([
+    prisma.healthSnapshot.findMany({
+      where: { sessionId },
+      include: { player: { select: { characterName: true } } },
+      orderBy: [{ timestamp: 'asc' }, { createdAt: 'asc' }],
+    }),
+    prisma.healthEvent.findMany({
+      where: { sessionId, confirmed: true },
+      include: {
+        player: { select: { characterName: true } },
+        combatant: { select: { name: true } },
+      },
+      orderBy: [{ timestamp: 'asc' }, { createdAt: 'asc' }],
+    }),
+  ]);
+
+  const players = new Map<string, HealthTimeline['players'][number]>();
+  for (const snapshot of snapshots) {
+    const line = players.get(snapshot.playerId) ?? {
+      playerId: snapshot.playerId,
+      characterName: snapshot.player.characterName,
+      maxHp: snapshot.maxHp,
+      points: [],
+    };
+    line.maxHp = snapshot.maxHp;
+    line.points.push({
+      timestamp: snapshot.timestamp,
+      hp: snapshot.hp,
+      tempHp: snapshot.tempHp,
+      healthEventId: snapshot.healthEventId,
+    });
+    players.set(snapshot.playerId, line);
+  }
+
+  // Only the most recently applied HP change per target can be undone; conditions any time
+  const latest = new Map<string, { id: string; appliedAt: Date }>();
+  for (const event of events) {
+    const target = event.playerId ?? event.combatantId;
+    if (!target || !event.appliedAt || event.undoneAt || event.causeId || event.type === 'status') continue;
+    const current = latest.get(target);
+    if (!current || event.appliedAt > current.appliedAt) {
+      latest.set(target, { id: event.id, appliedAt: event.appliedAt });
+    }
+  }
+  const undoable = new Set([...latest.values()].map(e => e.id));
+
+  return {
+    players: [...players.values()],
+    events: events.map(event => ({
+      id: event.id,
+      type: event.type,
+      value: event.value,
+      damageType: event.damageType,
+      statusEffect: event.statusEffect,
+      description: event.description,
+      timestamp: event.timestamp,
+      target: event.player?.characterName ?? event.combatant?.name ?? 'Unknown',
+      playerId: event.playerId,
+      undoneAt: event.undoneAt,
+      causeId: event.causeId,
+      undoable: undoable.has(event.id)
+        || (event.type === 'status' && !!event.appliedAt && !event.undoneAt),
+    })),
+  };
+}
@@ -0,0 +1,158 @@
+import OpenAI from 'openai';
+import { config } from '../config.js';
+import { RuleBasedLLMClient } from './ruleBasedLLM.js';
+
+export type LLMProviderName = 'openai' | 'local' | 'rules';
+
+export const LLM_PROVIDERS: readonly LLMProviderName[] = ['openai', 'local', 'rules'];
+
+/**
+ * What a completion is for. Model-backed clients only use it for logging;
+ * the rule-based client dispatches on it since it cannot read prompts.
+ */
+export type LLMTask =
+  | 'transcript-correction'
+  | 'speaker-attribution'
+  | 'scene-detection'
+  | 'health-extraction'
+  | 'resource-extraction'
+  | 'recap'
+  | 'session-summary'
+  | 'story-so-far'
+  | 'campaign-question'
+  | 'lore-extraction'
+  | 'audio-analysis'
+  | 'music-queries';
+
+export interface CompletionRequest {
+  task: LLMTask;
+  system?: string;
+  prompt: string;
+  // The raw material being analyzed (dialogue, transcript lines...), without prompt scaffolding
+  input?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * A chat-completion backend. Both methods resolve to null when the
+ * backend produced nothing usable; callers fall back to their defaults.
+ */
+export interface LLMClient {
+  readonly name: LLMProviderName;
+  isAvailable(): boolean;
+  complete(request: CompletionRequest): Promise<string | null>;
+  completeJSON<T>(request: CompletionRequest): Promise<T | null>;
+}
+
+/**
+ * OpenAI chat completions. Also used for local OpenAI-compatible servers
+ * (llama.cpp, Ollama, vLLM...) by pointing it at a different base URL.
+ */
+export class OpenAIChatClient implements LLMClient {
+  readonly name: LLMProviderName;
+  private openai: OpenAI;
+  private model: string;
+  private hasCredentials: boolean;
+
+  constructor(name: 'openai' | 'local', options: { apiKey: string; model: string; baseURL?: string }) {
+    this.name = name;
+    this.model = options.model;
+    // Local servers usually ignore the key, but the SDK refuses to run without one
+    this.hasCredentials = name === 'local' || !!options.apiKey;
+    this.openai = new OpenAI({
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL,
+    });
+  }
+
+  isAvailable(): boolean {
+    return this.hasCredentials;
+  }
+
+  async complete(request: CompletionRequest): Promise<string | null> {
+    const response = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: this.buildMessages(request),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    });
+
+    return response.choices[0]?.message?.content?.trim() || null;
+  }
+
+  async completeJSON<T>(request: CompletionRequest): Promise<T | null> {
+    const response = await this.openai.chat.completions.create({
+      model: this.model,
+      messages: this.buildMessages(request),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: { type: 'json_object' },
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) return null;
+
+    return parseJSONContent<T>(content);
+  }
+
+  private buildMessages(request: CompletionRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+    if (request.system) {
+      messages.push({ role: 'system', content: request.system });
+    }
+    messages.push({ role: 'user', content: request.prompt });
+    return messages;
+  }
+}
+
+/**
+ * Parse a JSON completion. Local models don't always honour JSON mode and
+ * may wrap the object in prose or code fences, so fall back to the outermost braces.
+ */
+function parseJSONContent<T>(content: string): T | null {
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    const start = content.search(/[[{]/);
+    const end = Math.max(content.lastIndexOf('}'), content.lastIndexOf(']'));
+    if (start === -1 || end <= start) return null;
+
+    try {
+      return JSON.parse(content.slice(start, end + 1)) as T;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Pick the provider for a campaign: its own override if set, otherwise LLM_PROVIDER
+ */
+export function resolveLLMProvider(campaign?: { llmProvider: string | null }): LLMProviderName {
+  return isLLMProviderName(campaign?.llmProvider) ? campaign.llmProvider : config.llmProvider;
+}
+
+export function createLLMClient(name: LLMProviderName = config.llmProvider): LLMClient {
+  switch (name) {
+    case 'openai':
+      return new OpenAIChatClient('openai', {
+        apiKey: config.openaiApiKey,
+        model: config.llmModel,
+      });
+    case 'local':
+      return new OpenAIChatClient('local', {
+        apiKey: config.llmApiKey,
+        model: config.llmLocalModel,
+        baseURL: config.llmBaseUrl,
+      });
+    case 'rules':
+      return new RuleBasedLLMClient();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
@@ -0,0 +1,141 @@
+import type { LoreKind, LoreProposal } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AIService, AI_CAMPAIGN_INCLUDE } from './ai.js';
+import { scheduleCampaignContextIndex } from './campaignKnowledge.js';
+import { loadTranscript } from './transcriptStore.js';
+
+// Fields a proposal may carry into the record it creates, per kind
+const DETAIL_FIELDS: Record<LoreKind, string[]> = {
+  npc: ['speechPatterns'],
+  location: ['kind'],
+  faction: ['goals'],
+  item: ['holder'],
+  quest: ['reward'],
+};
+
+export interface LoreApproval {
+  name?: string;
+  description?: string | null;
+  details?: Record<string, string | null>;
+}
+
+/**
+ * Propose the NPCs, places, factions, items and plot threads a session introduced.
+ * Re-running replaces the session's still-pending proposals; anything the campaign
+ * already has, or that the DM approved or rejected before, is not proposed again.
+ */
+export async function extractSessionLore(sessionId: string): Promise<LoreProposal[]> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { campaign: { include: AI_CAMPAIGN_INCLUDE } },
+  });
+  if (!session) return [];
+
+  const transcript = await loadTranscript(sessionId);
+  if (transcript.length === 0) return [];
+
+  const extracted = await new AIService(session.campaign).extractLore(transcript);
+
+  await prisma.loreProposal.deleteMany({ where: { sessionId, status: 'pending' } });
+  const previous = await prisma.loreProposal.findMany({
+    where: { campaignId: session.campaignId },
+    select: { kind: true, name: true },
+  });
+  const seen = new Set(previous.map(p => `${p.kind}:${p.name.toLowerCase()}`));
+
+  const proposals = extracted
+    .filter(lore => !seen.has(`${lore.kind}:${lore.name.toLowerCase()}`))
+    .map(lore => ({
+      campaignId: session.campaignId,
+      sessionId,
+      kind: lore.kind,
+      name: lore.name.slice(0, 100),
+      description: lore.description || null,
+      details: pickDetails(lore.kind, lore.details),
+      segmentIds: lore.segmentIndexes
+        .filter(i => i < transcript.length)
+        .sort((a, b) => a - b)
+        .map(i => transcript[i].id),
+    }));
+
+  if (proposals.length === 0) {
+    console.log(`📜 No new lore found in session ${sessionId}`);
+    return [];
+  }
+
+  const created = await prisma.$transaction(
+    proposals.map(data => prisma.loreProposal.create({ data }))
+  );
+  console.log(`📜 Proposed ${created.length} lore entries from session ${sessionId}`);
+  return created;
+}
+
+function pickDetails(kind: LoreKind, details: Record<string, string | null | undefined>): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const field of DETAIL_FIELDS[kind]) {
+    const value = details[field];
+    if (typeof value === 'string' && value.trim()) {
+      picked[field] = value.trim();
+    }
+  }
+  return picked;
+}
+
+/**
+ * Create the record a pending proposal describes, with any edits the DM made,
+ * and link it to the session it came from
+ */
+export async function approveLoreProposal(proposal: LoreProposal, edits: LoreApproval = {}) {
+  const name = edits.name ?? proposal.name;
+  const description = edits.description !== undefined ? edits.description : proposal.description;
+  const details = {
+    ...(proposal.details as Record<string, string>),
+    ...edits.details,
+  };
+  const field = (key: string) => (DETAIL_FIELDS[proposal.kind].includes(key) ? details[key] || null : null);
+
+  const base = { campaignId: proposal.campaignId, name, description };
+  const fromSession = { sessions: { connect: { id: proposal.sessionId } } };
+
+  const result = await prisma.$transaction(async (tx) => {
+    let entityId: string;
+    switch (proposal.kind) {
+      case 'npc':
+        entityId = (await tx.nPC.create({ data: { ...base, speechPatterns: field('speechPatterns') } })).id;
+        break;
+      case 'location':
+        entityId = (await tx.location.create({ data: { ...base, kind: field('kind'), ...fromSession } })).id;
+        break;
+      case 'faction':
+        entityId = (await tx.faction.create({ data: { ...base, goals: field('goals'), ...fromSession } })).id;
+        break;
+      case 'item':
+        entityId = (await tx.item.create({ data: { ...base, holder: field('holder'), ...fromSession } })).id;
+        break;
+      case 'quest':
+        entityId = (await tx.quest.create({ data: { ...base, reward: field('reward'), ...fromSession } })).id;
+        break;
+    }
+
+    // A concurrent review got there first: roll back the record created above
+    const { count } = await tx.loreProposal.updateMany({
+      where: { id: proposal.id, status: 'pending' },
+      data: {
+        status: 'approved',
+        name,
+        description,
+        details: pickDetails(proposal.kind, details),
+        entityId,
+        reviewedAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      throw new AppError(409, 'Lore proposal was already reviewed');
+    }
+    return tx.loreProposal.findUniqueOrThrow({ where: { id: proposal.id } });
+  });
+
+  scheduleCampaignContextIndex(proposal.campaignId);
+  return result;
+}
@@ -0,0 +1,176 @@
+import type { CharacterResource, Player, ResourceEvent, RestType } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import type { ExtractedResourceUse } from './ai.js';
+import { syncCharacterResources, toCharacterSheetData } from './characterSheets.js';
+
+/**
+ * A detected expenditure waiting for the DM, as sent to the live session
+ */
+export interface PendingResourceEvent {
+  id: string;
+  playerId: string;
+  resourceId: string;
+  kind: CharacterResource['kind'];
+  name: string;
+  spellLevel: number | null;
+  amount: number;
+  description: string;
+  confirmed: boolean;
+}
+
+type ResourceEventWithResource = ResourceEvent & { resource: CharacterResource };
+
+function toPending(event: ResourceEventWithResource): PendingResourceEvent {
+  return {
+    id: event.id,
+    playerId: event.resource.playerId,
+    resourceId: event.resourceId,
+    kind: event.resource.kind,
+    name: event.resource.name,
+    spellLevel: event.resource.spellLevel,
+    amount: event.amount,
+    description: event.description,
+    confirmed: event.confirmed,
+  };
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/^(?:my|his|her|their|the)\s+/, '');
+
+/**
+ * Every resource of a campaign's party, in a stable order for display
+ */
+export async function loadPartyResources(campaignId: string): Promise<CharacterResource[]> {
+  return prisma.characterResource.findMany({
+    where: { player: { campaignId } },
+    orderBy: [{ playerId: 'asc' }, { kind: 'asc' }, { spellLevel: 'asc' }, { name: 'asc' }],
+  });
+}
+
+/**
+ * Bring the whole party's resources in line with their sheets, for sheets saved before
+ * resources were tracked
+ */
+export async function syncCampaignResources(campaignId: string): Promise<void> {
+  const sheets = await prisma.characterSheet.findMany({ where: { player: { campaignId } } });
+  for (const sheet of sheets) {
+    await syncCharacterResources(prisma, sheet.playerId, toCharacterSheetData(sheet));
+  }
+}
+
+// The resource an extracted use draws on. A spell takes a slot of the level it was cast
+// at; a feature is matched by name either way round ("Action Surge to attack again").
+function findResource(resources: CharacterResource[], use: ExtractedResourceUse): CharacterResource | undefined {
+  switch (use.kind) {
+    case 'spell_slot':
+      return resources.find(r => r.kind === 'spell_slot' && r.spellLevel === use.spellLevel);
+    case 'hit_dice':
+      return resources.find(r => r.kind === 'hit_dice');
+    case 'feature': {
+      const said = normalizeName(use.name ?? '');
+      if (!said) return undefined;
+      return resources.find(r => {
+        const name = r.name.toLowerCase();
+        return r.kind === 'feature' && (said.startsWith(name) || name.startsWith(said));
+      });
+    }
+  }
+}
+
+/**
+ * Store extracted uses as pending against the resource each draws on. Uses by someone
+ * outside the party, or of something their sheet doesn't track, are dropped.
+ */
+export async function recordResourceUses(
+  sessionId: string,
+  players: Pick<Player, 'id' | 'characterName'>[],
+  extracted: ExtractedResourceUse[],
+  timestamp: number
+): Promise<PendingResourceEvent[]> {
+  const events: PendingResourceEvent[] = [];
+
+  for (const use of extracted) {
+    const player = players.find(p => p.characterName.toLowerCase() === use.characterName.trim().toLowerCase());
+    if (!player) continue;
+
+    const resources = await prisma.characterResource.findMany({ where: { playerId: player.id } });
+    const resource = findResource(resources, use);
+    if (!resource) continue;
+
+    const created = await prisma.resourceEvent.create({
+      data: {
+        sessionId,
+        resourceId: resource.id,
+        amount: Math.max(1, Math.trunc(use.amount ?? 1)),
+        description: use.description,
+        timestamp,
+        confirmed: false,
+      },
+      include: { resource: true },
+    });
+    events.push(toPending(created));
+    console.log(`✨ Resource use: ${player.characterName} - ${resource.name}${use.name && resource.kind === 'spell_slot' ? ` (${use.name})` : ''}`);
+  }
+
+  return events;
+}
+
+/**
+ * Accept or reject a pending use, once. Accepting spends it, as long as there's enough left.
+ */
+export async function confirmResourceUse(sessionId: string, eventId: string, confirmed: boolean): Promise<CharacterResource | null> {
+  const existing = await prisma.resourceEvent.findUnique({ where: { id: eventId }, include: { resource: true } });
+  if (!existing || existing.sessionId !== sessionId) {
+    throw new AppError(404, 'Resource event not found');
+  }
+  if (existing.confirmed || existing.rejected) {
+    throw new AppError(409, `This resource use has already been ${existing.confirmed ? 'applied' : 'rejected'}`);
+  }
+  const { resource } = existing;
+  if (confirmed && resource.used + existing.amount > resource.max) {
+    throw new AppError(409, `Only ${resource.max - resource.used} of ${resource.name} left`);
+  }
+
+  await prisma.resourceEvent.update({ where: { id: eventId }, data: { confirmed, rejected: !confirmed } });
+  if (!confirmed) return null;
+
+  return prisma.characterResource.update({
+    where: { id: resource.id },
+    data: { used: { increment: existing.amount } },
+  });
+}
+
+/**
+ * Set how many of a resource are used, for corrections by hand
+ */
+export async function setResourceUsed(playerId: string, resourceId: string, used: number): Promise<CharacterResource> {
+  const resource = await prisma.characterResource.findUnique({ where: { id: resourceId } });
+  if (!resource || resource.playerId !== playerId) {
+    throw new AppError(404, 'Resource not found');
+  }
+  if (!Number.isInteger(used) || used < 0 || used > resource.max) {
+    throw new AppError(400, `Used must be between 0 and ${resource.max}`);
+  }
+  return prisma.characterResource.update({
+    where: { id: resourceId },
+    data: { used },
+  });
+}
+
+/**
+ * A rest for the given players. A short rest restores what recharges on one; a long
+ * rest restores everything, except that only half their hit dice (at least one) come back.
+ */
+export async function takeRest(playerIds: string[], type: RestType): Promise<void> {
+  const resources = await prisma.characterResource.findMany({
+    where: { playerId: { in: playerIds }, used: { gt: 0 } },
+  });
+
+  const restored = resources.filter(r => type === 'long' || r.recharge === 'short');
+  await prisma.$transaction(restored.map(r => prisma.characterResource.update({
+    where: { id: r.id },
+    data: { used: r.kind === 'hit_dice' ? Math.max(0, r.used - Math.max(1, Math.floor(r.max / 2))) : 0 },
+  })));
+
+  console.log(`🏕️ ${type === 'long' ? 'Long' : 'Short'} rest: ${restored.length} resources restored`);
+}
@@ -0,0 +1,188 @@
+import { Prisma } from '@prisma/client';
+import { config } from '../config.js';
+import { prisma } from '../lib/prisma.js';
+import { audioStore } from './audioStore.js';
+import { DeepgramBatchTranscriber } from './deepgramTranscription.js';
+import { parseSessionSummary } from './sessionSummary.js';
+import { loadTranscript, replaceTranscript } from './transcriptStore.js';
+import type { TranscriptSegment } from './transcription.js';
+
+// A fresh segment is dropped when at least this share of it is covered by a preserved live segment
+const PRESERVED_OVERLAP_RATIO = 0.5;
+// A fresh segment takes over a live segment's id when they share at least this much of the longer one
+const SAME_SEGMENT_OVERLAP_RATIO = 0.5;
+
+export interface ReconciledTranscript {
+  segments: TranscriptSegment[];
+  // Live segments that are gone, each with the segment now covering most of its audio (null if none)
+  replacedIds: Map<string, string | null>;
+}
+
+/**
+ * Re-transcription needs the recorded audio and Deepgram's prerecorded API
+ */
+export function isRetranscriptionConfigured(): boolean {
+  return !!audioStore && !!config.deepgramApiKey;
+}
+
+function audioOverlapMs(a: TranscriptSegment, b: TranscriptSegment): number {
+  if (a.audioOffset === undefined || b.audioOffset === undefined) return 0;
+  const start = Math.max(a.audioOffset, b.audioOffset);
+  const end = Math.min(a.audioOffset + (a.audioDuration ?? 0), b.audioOffset + (b.audioDuration ?? 0));
+  return Math.max(0, end - start);
+}
+
+/**
+ * Merge a fresh transcript of the session audio into the live one.
+ *
+ * - Live segments the DM touched (`isEdited`: text edits and manual speaker picks)
+ *   are kept verbatim, and fresh segments covering the same audio are dropped.
+ * - Live segments with no audio position (e.g. from a transcript replay) are kept.
+ * - Each fresh speaker label takes the name the live transcript most often gave
+ *   to the audio it covers, so attributions carry over to the new diarization.
+ * - A fresh segment that mostly matches a replaced live one keeps its id, so what
+ *   points at the transcript (summaries, lore proposals, citations) still finds it.
+ */
+export function reconcileTranscripts(
+  live: TranscriptSegment[],
+  fresh: TranscriptSegment[]
+): ReconciledTranscript {
+  const preserved = live.filter(s => s.isEdited || s.audioOffset === undefined);
+  const replaced = live.filter(s => !preserved.includes(s));
+
+  // Weigh each live speaker name by how much audio it shares with each fresh label
+  const votes = new Map<string, Map<string, number>>();
+  for (const segment of fresh) {
+    for (const liveSegment of live) {
+      if (!liveSegment.speakerName) continue;
+      const overlap = audioOverlapMs(segment, liveSegment);
+      if (overlap === 0) continue;
+
+      const labelVotes = votes.get(segment.speakerLabel) ?? new Map<string, number>();
+      labelVotes.set(liveSegment.speakerName, (labelVotes.get(liveSegment.speakerName) ?? 0) + overlap);
+      votes.set(segment.speakerLabel, labelVotes);
+    }
+  }
+
+  const namesByLabel = new Map<string, string>();
+  for (const [label, labelVotes] of votes) {
+    const [best] = [...labelVotes.entries()].sort((a, b) => b[1] - a[1]);
+    namesByLabel.set(label, best[0]);
+  }
+
+  const sharedShare = (a: TranscriptSegment, b: TranscriptSegment) =>
+    audioOverlapMs(a, b) / Math.max(a.audioDuration ?? 0, b.audioDuration ?? 0, 1);
+
+  const claimed = new Set<string>();
+  const replacements = fresh
+    .filter(segment => !preserved.some(p =>
+      audioOverlapMs(segment, p) >= PRESERVED_OVERLAP_RATIO * (segment.audioDuration ?? 0)
+    ))
+    .map(segment => {
+      const [same] = replaced
+        .filter(s => !claimed.has(s.id) && sharedShare(segment, s) >= SAME_SEGMENT_OVERLAP_RATIO)
+        .sort((a, b) => sharedShare(segment, b) - sharedShare(segment, a));
+      if (same) claimed.add(same.id);
+      return {
+        ...segment,
+        id: same?.id ?? segment.id,
+        speakerName: namesByLabel.get(segment.speakerLabel) ?? null,
+      };
+    });
+
+  const replacedIds = new Map<string, string | null>();
+  for (const segment of replaced) {
+    if (claimed.has(segment.id)) continue;
+    const [covering] = replacements
+      .filter(r => audioOverlapMs(segment, r) > 0)
+      .sort((a, b) => audioOverlapMs(segment, b) - audioOverlapMs(segment, a));
+    replacedIds.set(segment.id, covering?.id ?? null);
+  }
+
+  const position = (s: TranscriptSegment) => s.audioOffset ?? s.timestamp;
+  return {
+    segments: [...preserved, ...replacements].sort((a, b) => position(a) - position(b)),
+    replacedIds,
+  };
+}
+
+/**
+ * Point everything that refers to replaced segments at their successors: revision
+ * anchors, summary key events, lore proposals and indexed passages. References with
+ * no successor are cleared (a revision keeps its anchor, and undo reports it gone).
+ */
+async function remapSegmentReferences(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  replacedIds: Map<string, string | null>
+): Promise<void> {
+  if (replacedIds.size === 0) return;
+  const remap = (ids: string[]) => [...new Set(ids.map(id => (replacedIds.has(id) ? replacedIds.get(id) : id)))]
+    .filter((id): id is string => !!id);
+  const stale = [...replacedIds.keys()];
+
+  for (const [oldId, newId] of replacedIds) {
+    if (!newId) continue;
+    await tx.transcriptRevision.updateMany({ where: { sessionId, anchorId: oldId }, data: { anchorId: newId } });
+  }
+
+  const session = await tx.session.findUniqueOrThrow({ where: { id: sessionId }, select: { summary: true } });
+  const summary = parseSessionSummary(session.summary);
+  if (summary?.keyEvents.some(e => e.segmentId && replacedIds.has(e.segmentId))) {
+    summary.keyEvents = summary.keyEvents.map(e => (
+      e.segmentId && replacedIds.has(e.segmentId) ? { ...e, segmentId: replacedIds.get(e.segmentId) ?? null } : e
+    ));
+    await tx.session.update({ where: { id: sessionId }, data: { summary } });
+  }
+
+  const proposals = await tx.loreProposal.findMany({ where: { sessionId, segmentIds: { hasSome: stale } } });
+  for (const proposal of proposals) {
+    await tx.loreProposal.update({ where: { id: proposal.id }, data: { segmentIds: remap(proposal.segmentIds) } });
+  }
+
+  const chunks = await tx.knowledgeChunk.findMany({ where: { sessionId, segmentIds: { hasSome: stale } } });
+  for (const chunk of chunks) {
+    await tx.knowledgeChunk.update({ where: { id: chunk.id }, data: { segmentIds: remap(chunk.segmentIds) } });
+  }
+}
+
+/**
+ * Run the higher-accuracy pass over a session's stored audio and reconcile it
+ * into the saved transcript. Returns the number of segments in the result.
+ */
+export async function retranscribeSession(sessionId: string): Promise<number> {
+  if (!audioStore) {
+    throw new Error('Audio storage is disabled');
+  }
+
+  const durationMs = await audioStore.getDurationMs(sessionId);
+  if (durationMs === 0) {
+    throw new Error('No audio recorded for this session');
+  }
+
+  console.log(`🔁 Re-transcribing ${Math.round(durationMs / 1000)}s of audio for session ${sessionId}`);
+  const pcm = await audioStore.read(sessionId, 0, durationMs);
+  const transcriber = new DeepgramBatchTranscriber(config.deepgramApiKey, config.retranscriptionModel);
+  const fresh = await transcriber.transcribe(pcm);
+
+  // Read the transcript only now - it may have been edited while Deepgram was working
+  const live = await loadTranscript(sessionId);
+
+  if (fresh.length === 0) {
+    console.warn(`⚠️ Re-transcription of session ${sessionId} returned nothing - keeping live transcript`);
+    return live.length;
+  }
+
+  const { segments, replacedIds } = reconcileTranscripts(live, fresh);
+  await prisma.$transaction(async tx => {
+    await replaceTranscript(tx, sessionId, segments);
+    await remapSegmentReferences(tx, sessionId, replacedIds);
+    await tx.session.update({
+      where: { id: sessionId },
+      data: { retranscribedAt: new Date() },
+    });
+  }, { timeout: 60_000 });
+
+  console.log(`✅ Re-transcribed session ${sessionId}: ${live.length} live -> ${segments.length} segments`);
+  return segments.length;
+}
@@ -0,0 +1,356 @@
+import type { CompletionRequest, LLMClient } from './llm.js';
+import { parseDamageType } from './damage.js';
+
+// Keywords that suggest each scene type, strongest signal first
+const SCENE_KEYWORDS: Record<string, RegExp> = {
+  combat: /\b(initiative|attack(s|ed)?|damage|hit points?|sword|swing(s)?|armor class|fight(s|ing)?)\b/gi,
+  tavern: /\b(tavern|inn|ale|barkeep|innkeeper|mug|drinks?)\b/gi,
+  dungeon: /\b(dungeon|cave|crypt|tomb|corridor|torch(es)?|underground)\b/gi,
+  forest: /\b(forest|woods|trees?|clearing|glade|wilderness)\b/gi,
+  tense: /\b(sneak(s|ing)?|stealth|quiet(ly)?|shadows?|something moves|footsteps)\b/gi,
+  social: /\b(persuade|persuasion|deception|insight|negotiate|convince|bargain)\b/gi,
+  dramatic: /\b(reveal(s|ed)?|suddenly|prophecy|betray(s|ed|al)?|dies|death)\b/gi,
+  exploration: /\b(travel(s|ing)?|explore|investigat(e|ion)|search(es)?|perception|map)\b/gi,
+};
+
+// "Grok takes 12 damage", "Lyra heals for 8", "Vex regains 5 hit points". Enemies go by
+// "the goblin" / "the goblin archer" rather than a capitalized name.
+const HEALTH_SUBJECT = `([A-Z][\\w'-]+|[Tt]he\\s+[a-z][\\w'-]+(?:\\s+[a-z][\\w'-]+)?)`;
+const DAMAGE_PATTERN = new RegExp(`\\b${HEALTH_SUBJECT}\\s+(?:takes|took|loses|lost|suffers)\\s+(\\d+)\\s*(?:points? of\\s+)?(?:(\\w+)\\s+)?(?:damage|hp|hit points?)\\b`, 'g');
+const HEALING_PATTERN = new RegExp(`\\b${HEALTH_SUBJECT}\\s+(?:heals|healed|regains|regained|recovers|recovered)\\s+(?:for\\s+)?(\\d+)\\b`, 'g');
+const STATUS_PATTERN = new RegExp(`\\b${HEALTH_SUBJECT}\\s+(?:is|becomes|falls)\\s+(blinded|charmed|deafened|frightened|grappled|incapacitated|invisible|paralyzed|petrified|poisoned|prone|restrained|stunned|unconscious)\\b(?:\\s+for\\s+(\\d+|an?|one)\\s+(rounds?|minutes?|hours?)\\b)?`, 'g');
+// "you hit the ogre for 12"
+const ATTACK_PATTERN = /\b(?:hit|hits|strike|strikes|slash|slashes|stab|stabs)\s+the\s+([a-z][\w'-]+(?:\s+[a-z][\w'-]+)?)\s+for\s+(\d+)\b(?:\s+(\w+)\s+damage\b)?/g;
+// "Lyra gains 5 temporary hit points", "Grok gets 8 temp HP"
+const TEMP_HP_PATTERN = new RegExp(`\\b${HEALTH_SUBJECT}\\s+(?:gains|gained|gets|got)\\s+(\\d+)\\s+(?:[Tt]emporary|[Tt]emp)\\s+(?:HP|hp|hit points?)\\b`, 'g');
+
+// "I cast Fireball at third level", "Lyra casts cure wounds using a 2nd-level slot", "I use my
+// Action Surge", "Grok spends two hit dice". Features are only kept if the character has one
+// by that name, so anything after "use my" is a candidate.
+const RESOURCE_SUBJECT = `(I|[A-Z][\\w'-]+)`;
+const COUNT = `(a|an|one|two|three|four|five|six|\\d+)`;
+const SPELL_LEVEL = `(?:level\\s+(\\d)|(\\d)(?:st|nd|rd|th)|(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth))`;
+const SPELL_CAST_PATTERN = new RegExp(`\\b${RESOURCE_SUBJECT}(?:'m|\\s+am|\\s+is)?\\s+(?:cast|casts|casting)\\s+([\\w'-]+(?:\\s+[\\w'-]+){0,3}?)\\s+(?:at|using|with)\\s+(?:an?\\s+)?${SPELL_LEVEL}(?:[\\s-]+level)?`, 'g');
+const FEATURE_USE_PATTERN = new RegExp(`\\b${RESOURCE_SUBJECT}(?:'m|\\s+am|\\s+is)?\\s+(?:use|uses|used|using|activate|activates)\\s+(?:(?:my|his|her|their)\\s+)?([\\w'-]+(?:\\s+[\\w'-]+){0,3})`, 'g');
+const HIT_DICE_PATTERN = new RegExp(`\\b${RESOURCE_SUBJECT}\\s+(?:spend|spends|spent|roll|rolls|use|uses)\\s+${COUNT}\\s+[Hh]it\\s+[Dd]i(?:ce|e)\\b`, 'g');
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth'];
+
+// Capitalized names of up to four words: "Varn", "The Prancing Pony", "Order of the Gauntlet"
+const NAME = `((?:The\\s+)?[A-Z][\\w'-]+(?:\\s+(?:of\\s+(?:the\\s+)?)?[A-Z][\\w'-]+){0,3})`;
+// "a tavern called The Prancing Pony", "an old dwarf named Borin": the noun decides what was named
+const NAMED_PATTERN = new RegExp(`\\b(?:a|an|the)\\s+(?:[a-z]+\\s+)?([a-z]+)\\s+(?:named|called)\\s+${NAME}`, 'g');
+const PLACE_OF_PATTERN = new RegExp(`\\b(?:city|town|village|kingdom|realm|forest|mountains?|keep|castle|tower|temple|ruins|isle|island|port) of\\s+${NAME}`, 'g');
+const TITLED_PATTERN = new RegExp(`\\b((?:Lord|Lady|King|Queen|Prince|Princess|Captain|Sir|Baron|Baroness|Duke|Duchess|Count|Countess|Master|Mistress|Father|Brother|Sister|Mayor)\\s+[A-Z][\\w'-]+)`, 'g');
+const QUEST_PATTERN = /\b(?:asks you to|wants you to|hires you to|needs you to|begs you to|your task is to|quest to)\s+([^.!?"]{5,80})/gi;
+const PLACE_NOUNS = new Set(['city', 'town', 'village', 'tavern', 'inn', 'temple', 'castle', 'keep', 'tower', 'dungeon', 'cave', 'forest', 'river', 'mountain', 'island', 'ship', 'shop', 'port', 'realm', 'kingdom', 'crypt', 'ruins']);
+const GROUP_NOUNS = new Set(['guild', 'order', 'cult', 'clan', 'house', 'band', 'gang', 'brotherhood', 'sisterhood', 'circle', 'council', 'company', 'church']);
+const ITEM_NOUNS = new Set(['sword', 'blade', 'dagger', 'axe', 'bow', 'staff', 'wand', 'ring', 'amulet', 'necklace', 'crown', 'shield', 'armor', 'tome', 'book', 'orb', 'gem', 'artifact', 'relic', 'cloak', 'helm']);
+// Session summary cues
+const COMBAT_START_PATTERN = /\broll(?:s|ing)? (?:for )?initiative\b/i;
+const COIN_PATTERN = /\b(\d+)\s*(gold|gp|silver|sp|copper|cp|platinum|pp)\b(?:\s+pieces)?/gi;
+const LOOT_CUE_PATTERN = /\b(find|finds|found|loot|looted|receive|receives|reward|pays?|paid|takes? the)\b/i;
+const XP_PATTERN = /\b(\d+)\s*(?:xp|exp|experience(?: points)?)\b/gi;
+const DECISION_PATTERN = /\b(we (?:decide|agree|choose|vote)|we're going to|let's (?:go|take|head|accept|refuse))\b/i;
+
+// The DM narrates in second/third person and calls for rolls
+const DM_LINE_PATTERN = /\b(you see|you hear|you notice|you find|what do you do|roll (a |for )?\w+|make a \w+ (check|save|saving throw)|the \w+ (attacks|swings|casts|hits|misses))\b/i;
+
+/**
+ * Deterministic keyword/regex stand-in for a language model.
+ *
+ * Handles each task with simple heuristics over `request.input` so sessions work
+ * without an API key and produce repeatable results in CI. Tasks it cannot
+ * approximate resolve to null and the caller's defaults are used.
+ */
+export class RuleBasedLLMClient implements LLMClient {
+  readonly name = 'rules' as const;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<string | null> {
+    const input = request.input ?? '';
+
+    switch (request.task) {
+      case 'transcript-correction':
+        // Nothing to infer - known-name corrections are applied by AIService itself
+        return input || null;
+      case 'recap':
+        // Same words-per-token ratio AIService budgets recaps with
+        return this.summarize(input, Math.round((request.maxTokens ?? 500) * 0.6));
+      default:
+        return null;
+    }
+  }
+
+  async completeJSON<T>(request: CompletionRequest): Promise<T | null> {
+    const input = request.input ?? '';
+
+    switch (request.task) {
+      case 'scene-detection':
+        return this.detectScene(input) as T;
+      case 'speaker-attribution':
+        return this.attributeSpeakers(input) as T;
+      case 'health-extraction':
+        return { events: this.extractHealthEvents(input) } as T;
+      case 'resource-extraction':
+        return { uses: this.extractResourceUses(input) } as T;
+      case 'lore-extraction':
+        return { lore: this.extractLore(input) } as T;
+      case 'session-summary':
+        return this.summarizeSession(input) as T;
+      case 'audio-analysis': {
+        const { scene, confidence } = this.detectScene(input);
+        return {
+          sceneChange: confidence >= 0.6
+            ? { newScene: scene, intensity: scene === 'combat' ? 0.8 : 0.5, reason: 'Keyword match' }
+            : null,
+          soundEffect: null,
+        } as T;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private detectScene(text: string): { scene: string; confidence: number } {
+    let best = { scene: 'ambient', hits: 0 };
+    for (const [scene, pattern] of Object.entries(SCENE_KEYWORDS)) {
+      const hits = text.match(pattern)?.length ?? 0;
+      if (hits > best.hits) {
+        best = { scene, hits };
+      }
+    }
+
+    if (best.hits === 0) {
+      return { scene: 'ambient', confidence: 0.5 };
+    }
+    return { scene: best.scene, confidence: Math.min(0.9, 0.4 + best.hits * 0.2) };
+  }
+
+  /**
+   * Input lines look like `[3] Speaker A: "text"`, optionally with a voice hint:
+   * `[3] (voice Speaker B, 95%) Alice: "text"`. Obvious DM narration is
+   * attributed to the DM; everything else keeps its current speaker.
+   */
+  private attributeSpeakers(input: string): { speakers: Array<{ index: number; speaker: string; reasoning: string }> } {
+    const speakers: Array<{ index: number; speaker: string; reasoning: string }> = [];
+
+    for (const line of input.split('\n')) {
+      const match = line.match(/^\[(\d+)\]\s+(?:\(voice [^)]*\)\s+)?(.+?):\s+"(.*)"$/);
+      if (!match) continue;
+
+      const [, index, current, text] = match;
+      if (DM_LINE_PATTERN.test(text)) {
+        speakers.push({ index: Number(index), speaker: 'DM', reasoning: 'Narration or roll request' });
+      } else {
+        speakers.push({ index: Number(index), speaker: current, reasoning: 'Unchanged' });
+      }
+    }
+
+    return { speakers };
+  }
+
+  private extractHealthEvents(text: string): Array<{
+    characterName: string;
+    target?: 'player' | 'enemy';
+    type: 'damage' | 'healing' | 'status' | 'temp_hp';
+    value?: number;
+    damageType?: string;
+    statusEffect?: string;
+    durationRounds?: number;
+    durationMinutes?: number;
+    description: string;
+  }> {
+    const events: ReturnType<RuleBasedLLMClient['extractHealthEvents']> = [];
+    // "the goblin" is an enemy; a bare capitalized name could be anyone
+    const subject = (name: string) => {
+      const enemy = name.match(/^the\s+(.+)$/i);
+      return enemy ? { characterName: enemy[1], target: 'enemy' as const } : { characterName: name };
+    };
+
+    // The word before "damage" is kept as its type when it is one ("8 fire damage")
+    const damageType = (word: string | undefined) => {
+      const type = parseDamageType(word);
+      return type ? { damageType: type } : {};
+    };
+
+    for (const match of text.matchAll(DAMAGE_PATTERN)) {
+      events.push({ ...subject(match[1]), type: 'damage', value: Number(match[2]), ...damageType(match[3]), description: match[0] });
+    }
+    for (const match of text.matchAll(ATTACK_PATTERN)) {
+      events.push({
+        characterName: match[1],
+        target: 'enemy',
+        type: 'damage',
+        value: Number(match[2]),
+        ...damageType(match[3]),
+        description: match[0],
+      });
+    }
+    for (const match of text.matchAll(HEALING_PATTERN)) {
+      events.push({ ...subject(match[1]), type: 'healing', value: Number(match[2]), description: match[0] });
+    }
+    for (const match of text.matchAll(TEMP_HP_PATTERN)) {
+      events.push({ ...subject(match[1]), type: 'temp_hp', value: Number(match[2]), description: match[0] });
+    }
+    for (const match of text.matchAll(STATUS_PATTERN)) {
+      // "poisoned for 1 minute", "stunned for a round"
+      const amount = match[3] ? (/^\d+$/.test(match[3]) ? Number(match[3]) : 1) : null;
+      const unit = match[4]?.toLowerCase() ?? '';
+      events.push({
+        ...subject(match[1]),
+        type: 'status',
+        statusEffect: match[2].toLowerCase(),
+        ...(amount !== null && unit.startsWith('round') && { durationRounds: amount }),
+        ...(amount !== null && unit.startsWith('minute') && { durationMinutes: amount }),
+        ...(amount !== null && unit.startsWith('hour') && { durationMinutes: amount * 60 }),
+        description: match[0],
+      });
+    }
+
+    return events;
+  }
+
+  /**
+   * "I" is left for AIService to resolve to whoever was speaking
+   */
+  private extractResourceUses(text: string): Array<{
+    characterName: string;
+    kind: 'spell_slot' | 'feature' | 'hit_dice';
+    name?: string;
+    spellLevel?: number;
+    amount?: number;
+    description: string;
+  }> {
+    const uses: ReturnType<RuleBasedLLMClient['extractResourceUses']> = [];
+    const count = (word: string) => NUMBER_WORDS[word.toLowerCase()] ?? Number(word);
+
+    for (const match of text.matchAll(SPELL_CAST_PATTERN)) {
+      const spellLevel = Number(match[3] ?? match[4]) || ORDINALS.indexOf(match[5]?.toLowerCase() ?? '') + 1;
+      uses.push({ characterName: match[1], kind: 'spell_slot', name: match[2], spellLevel, description: match[0] });
+    }
+    for (const match of text.matchAll(FEATURE_USE_PATTERN)) {
+      if (/\bhit\s+di(?:ce|e)\b/i.test(match[2])) continue;
+      uses.push({ characterName: match[1], kind: 'feature', name: match[2], description: match[0] });
+    }
+    for (const match of text.matchAll(HIT_DICE_PATTERN)) {
+      uses.push({ characterName: match[1], kind: 'hit_dice', amount: count(match[2]), description: match[0] });
+    }
+
+    return uses;
+  }
+
+  /**
+   * Input lines look like `[3] Speaker A: "text"`. Picks up things introduced with
+   * "a tavern called X", "the city of X", titled names and "asks you to ..." requests.
+   */
+  private extractLore(input: string): Array<{ kind: string; name: string; description: string; lines: number[] }> {
+    const found = new Map<string, { kind: string; name: string; description: string; lines: number[] }>();
+    const add = (kind: string, name: string, line: number, text: string) => {
+      const key = `${kind}:${name.toLowerCase()}`;
+      const existing = found.get(key);
+      if (existing) {
+        if (!existing.lines.includes(line)) existing.lines.push(line);
+      } else {
+        found.set(key, { kind, name, description: text, lines: [line] });
+      }
+    };
+
+    for (const line of input.split('\n')) {
+      const match = line.match(/^\[(\d+)\]\s+.+?:\s+"(.*)"$/);
+      if (!match) continue;
+      const index = Number(match[1]);
+      const text = match[2];
+
+      for (const [, noun, name] of text.matchAll(NAMED_PATTERN)) {
+        const kind = PLACE_NOUNS.has(noun) ? 'location'
+          : GROUP_NOUNS.has(noun) ? 'faction'
+          : ITEM_NOUNS.has(noun) ? 'item'
+          : 'npc';
+        add(kind, name, index, text);
+      }
+      for (const [, name] of text.matchAll(PLACE_OF_PATTERN)) {
+        add('location', name, index, text);
+      }
+      for (const [, name] of text.matchAll(TITLED_PATTERN)) {
+        add('npc', name, index, text);
+      }
+      for (const [, task] of text.matchAll(QUEST_PATTERN)) {
+        const title = task.trim();
+        add('quest', title.charAt(0).toUpperCase() + title.slice(1), index, text);
+      }
+    }
+
+    return [...found.values()];
+  }
+
+  /**
+   * Input lines look like `[3] Speaker A: "text"`. Key events are the longest lines;
+   * the other fields come from roll-for-initiative calls, coin amounts, XP awards,
+   * "we decide..." lines, titled names and "asks you to ..." requests.
+   */
+  private summarizeSession(input: string) {
+    const lines: Array<{ index: number; text: string }> = [];
+    for (const line of input.split('\n')) {
+      const match = line.match(/^\[(\d+)\]\s+.+?:\s+"(.*)"$/);
+      if (match) lines.push({ index: Number(match[1]), text: match[2] });
+    }
+
+    const longest = new Set(
+      [...lines].sort((a, b) => b.text.length - a.text.length).slice(0, 5).map(l => l.index)
+    );
+
+    let xp: number | null = null;
+    const loot: Array<{ item: string; recipient: null }> = [];
+    for (const { text } of lines) {
+      for (const [, amount] of text.matchAll(XP_PATTERN)) {
+        xp = Math.max(xp ?? 0, Number(amount));
+      }
+      if (LOOT_CUE_PATTERN.test(text)) {
+        for (const [, amount, coin] of text.matchAll(COIN_PATTERN)) {
+          loot.push({ item: `${amount} ${coin.toLowerCase()}`, recipient: null });
+        }
+      }
+    }
+
+    return {
+      keyEvents: lines.filter(l => longest.has(l.index)).map(l => ({ line: l.index, description: l.text })),
+      decisions: lines.filter(l => DECISION_PATTERN.test(l.text)).map(l => l.text),
+      loot,
+      xp,
+      npcsMet: [...new Set(lines.flatMap(l => [...l.text.matchAll(TITLED_PATTERN)].map(m => m[1])))],
+      combats: lines
+        .filter(l => COMBAT_START_PATTERN.test(l.text))
+        .map(l => ({ description: l.text, outcome: null })),
+      openThreads: lines.flatMap(l => [...l.text.matchAll(QUEST_PATTERN)].map(m => m[1].trim())),
+    };
+  }
+
+  /**
+   * Extractive recap: the longest lines of the session, in order, capped at ~maxWords
+   */
+  private summarize(transcript: string, maxWords: number): string | null {
+    const lines = transcript.split('\n').map(l => l.trim()).filter(Boolean);
+    if (lines.length === 0) return null;
+
+    const picked = new Set(
+      [...lines]
+        .sort((a, b) => b.length - a.length)
+        .slice(0, Math.max(3, Math.round(maxWords / 40)))
+    );
+
+    const summary: string[] = [];
+    let words = 0;
+    for (const line of lines) {
+      if (!picked.has(line)) continue;
+      words += line.split(/\s+/).length;
+      if (words > maxWords) break;
+      summary.push(line);
+    }
+
+    return summary.join('\n');
+  }
+}
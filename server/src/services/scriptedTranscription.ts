@@ -0,0 +1,91 @@
+import { readFile } from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
+import type { TranscriptionProvider, TranscriptSegment } from './transcription.js';
+
+interface ScriptLine {
+  speakerLabel: string;
+  text: string;
+}
+
+/**
+ * Parse a transcript script. One utterance per line, optionally prefixed with
+ * a speaker label ("Speaker B: I search the chest"). Blank lines and lines
+ * starting with # are ignored.
+ */
+export function parseTranscriptScript(content: string): ScriptLine[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const match = line.match(/^([^:]{1,40}):\s+(.+)$/);
+      return match
+        ? { speakerLabel: match[1].trim(), text: match[2].trim() }
+        : { speakerLabel: 'Speaker A', text: line };
+    });
+}
+
+/**
+ * Fake transcription that replays a text file at a fixed interval, ignoring
+ * incoming audio. Lets a session run end-to-end offline and in tests.
+ */
+export class ScriptedTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'scripted' as const;
+  private scriptPath: string;
+  private intervalMs: number;
+  private lines: ScriptLine[] = [];
+  private nextLine = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sessionStartTime: number = Date.now();
+
+  constructor(scriptPath: string, intervalMs: number) {
+    if (!scriptPath) {
+      throw new Error('SCRIPTED_TRANSCRIPT_PATH is required');
+    }
+    this.scriptPath = scriptPath;
+    this.intervalMs = intervalMs;
+  }
+
+  async start(onSegment: (segment: TranscriptSegment) => void): Promise<void> {
+    this.lines = parseTranscriptScript(await readFile(this.scriptPath, 'utf-8'));
+    this.sessionStartTime = Date.now();
+    console.log(`✅ Scripted transcription loaded ${this.lines.length} lines from ${this.scriptPath}`);
+
+    this.timer = setInterval(() => {
+      const line = this.lines[this.nextLine++];
+      if (!line) {
+        this.stopTimer();
+        return;
+      }
+
+      onSegment({
+        id: uuidv4(),
+        timestamp: Date.now() - this.sessionStartTime,
+        speakerLabel: line.speakerLabel,
+        speakerName: null,
+        text: line.text,
+        confidence: 1,
+        isEdited: false,
+      });
+    }, this.intervalMs);
+  }
+
+  async sendAudio(_audioData: Buffer): Promise<void> {
+    // Audio is ignored - the script drives the transcript
+  }
+
+  isReady(): boolean {
+    return this.timer !== null || this.nextLine > 0;
+  }
+
+  async close(): Promise<void> {
+    this.stopTimer();
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+
+// Matched terms in headlines are wrapped in these markers for the client to highlight
+const HIGHLIGHT = 'StartSel=<mark>, StopSel=</mark>';
+
+export interface SearchContextLine {
+  speakerLabel: string;
+  speakerName: string | null;
+  text: string;
+}
+
+export interface TranscriptSearchHit {
+  sessionId: string;
+  sessionNumber: number;
+  sessionTitle: string | null;
+  sessionDate: Date;
+  segmentId: string;
+  timestamp: number;
+  speakerLabel: string;
+  speakerName: string | null;
+  text: string;
+  headline: string;
+  before: SearchContextLine[];
+  after: SearchContextLine[];
+}
+
+export interface SessionTextSearchHit {
+  sessionId: string;
+  sessionNumber: number;
+  sessionTitle: string | null;
+  sessionDate: Date;
+  field: 'notes' | 'recap';
+  headline: string;
+}
+
+export interface CampaignSearchOptions {
+  page: number;
+  pageSize: number;
+  context: number; // Segments of context either side of a transcript hit
+}
+
+/**
+ * Campaign-wide full-text search over transcript segments, session notes and
+ * recaps, using Postgres text search (stemmed English, web-style query syntax:
+ * quoted phrases, `or`, `-excluded`). Transcript hits are paged, best match first.
+ */
+export async function searchCampaign(campaignId: string, query: string, options: CampaignSearchOptions) {
+  const tsQuery = Prisma.sql`websearch_to_tsquery('english', ${query})`;
+  const offset = (options.page - 1) * options.pageSize;
+
+  const [segments, [{ total }], sessionText] = await Promise.all([
+    prisma.$queryRaw<TranscriptSearchHit[]>`
+      WITH hits AS (
+        SELECT t."id", t."sessionId", t."position", t."timestamp", t."speakerLabel", t."speakerName", t."text",
+               s."sessionNumber", s."title", s."date",
+               ts_rank(to_tsvector('english', t."text"), ${tsQuery}) AS rank
+        FROM "TranscriptSegment" t
+        JOIN "Session" s ON s."id" = t."sessionId"
+        WHERE s."campaignId" = ${campaignId}
+          AND to_tsvector('english', t."text") @@ ${tsQuery}
+        ORDER BY rank DESC, s."sessionNumber" ASC, t."position" ASC
+        LIMIT ${options.pageSize} OFFSET ${offset}
+      )
+      SELECT h."sessionId", h."sessionNumber", h."title" AS "sessionTitle", h."date" AS "sessionDate",
+             h."id" AS "segmentId", h."timestamp", h."speakerLabel", h."speakerName", h."text",
+             ts_headline('english', h."text", ${tsQuery}, ${`HighlightAll=true, ${HIGHLIGHT}`}) AS headline,
+             (SELECT COALESCE(json_agg(json_build_object('speakerLabel', c."speakerLabel", 'speakerName', c."speakerName", 'text', c."text") ORDER BY c."position"), '[]')
+                FROM (SELECT * FROM "TranscriptSegment"
+                      WHERE "sessionId" = h."sessionId" AND "position" < h."position"
+                      ORDER BY "position" DESC LIMIT ${options.context}) c) AS before,
+             (SELECT COALESCE(json_agg(json_build_object('speakerLabel', c."speakerLabel", 'speakerName', c."speakerName", 'text', c."text") ORDER BY c."position"), '[]')
+                FROM (SELECT * FROM "TranscriptSegment"
+                      WHERE "sessionId" = h."sessionId" AND "position" > h."position"
+                      ORDER BY "position" ASC LIMIT ${options.context}) c) AS after
+      FROM hits h
+      ORDER BY h.rank DESC, h."sessionNumber" ASC, h."position" ASC
+    `,
+    prisma.$queryRaw<{ total: bigint }[]>`
+      SELECT COUNT(*) AS total
+      FROM "TranscriptSegment" t
+      JOIN "Session" s ON s."id" = t."sessionId"
+      WHERE s."campaignId" = ${campaignId}
+        AND to_tsvector('english', t."text") @@ ${tsQuery}
+    `,
+    // Notes and recaps are few (two per session), so they come back unpaged
+    prisma.$queryRaw<SessionTextSearchHit[]>`
+      SELECT s."id" AS "sessionId", s."sessionNumber", s."title" AS "sessionTitle", s."date" AS "sessionDate",
+             f.field, ts_headline('english', f.body, ${tsQuery}, ${`MaxFragments=2, ${HIGHLIGHT}`}) AS headline
+      FROM "Session" s
+      CROSS JOIN LATERAL (VALUES ('notes', s."notes"), ('recap', s."recap")) AS f(field, body)
+      WHERE s."campaignId" = ${campaignId}
+        AND f.body IS NOT NULL
+        AND to_tsvector('english', f.body) @@ ${tsQuery}
+      ORDER BY ts_rank(to_tsvector('english', f.body), ${tsQuery}) DESC, s."sessionNumber" ASC
+      LIMIT 20
+    `,
+  ]);
+
+  return {
+    segments: {
+      items: segments,
+      total: Number(total),
+      page: options.page,
+      pageSize: options.pageSize,
+      totalPages: Math.ceil(Number(total) / options.pageSize),
+    },
+    sessionText,
+  };
+}
@@ -0,0 +1,87 @@
+import type { RecapLength, RecapStyle } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AIService, AI_CAMPAIGN_INCLUDE } from './ai.js';
+import { loadPreviousSummary } from './sessionSummary.js';
+import { loadTranscript } from './transcriptStore.js';
+
+export interface RecapOverrides {
+  style?: RecapStyle;
+  length?: RecapLength;
+  letterFromNpcId?: string; // NPC who writes the 'letter' style
+}
+
+async function loadSessionForRecap(sessionId: string) {
+  return prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { campaign: { include: AI_CAMPAIGN_INCLUDE } },
+  });
+}
+
+/**
+ * End-of-session pass: the structured summary, then the recap in the campaign's
+ * style, picking up threads from the previous session's summary. Only what the
+ * session doesn't have yet is written, so ending a resumed session again keeps the
+ * DM's edits; the explicit regenerate routes replace them.
+ */
+export async function generateSessionRecap(sessionId: string): Promise<void> {
+  const session = await loadSessionForRecap(sessionId);
+  if (!session) return;
+  if (session.summary !== null && session.recap !== null) return;
+
+  const { campaign } = session;
+  const aiService = new AIService(campaign);
+  const transcript = await loadTranscript(sessionId);
+  const summary = session.summary === null ? await aiService.generateSummary(transcript) : null;
+  const recap = session.recap === null
+    ? await aiService.generateRecap(transcript, await loadPreviousSummary(campaign.id, session.sessionNumber), {
+        style: campaign.recapStyle,
+        length: campaign.recapLength,
+      })
+    : null;
+
+  // Without a recap the session is left out of the story so far until one is written
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { ...(summary && { summary }), ...(recap && { recap }) },
+  });
+
+  if (summary) console.log(`📜 Summary generated for session ${session.sessionNumber}`);
+  if (recap) console.log(`📜 Recap generated for session ${session.sessionNumber}`);
+  else if (session.recap === null) console.log(`📜 The recap for session ${session.sessionNumber} could not be written`);
+}
+
+/**
+ * Rewrite a session's recap, replacing edits. Style and length default to the campaign's.
+ */
+export async function regenerateRecap(sessionId: string, overrides: RecapOverrides = {}): Promise<string> {
+  const session = await loadSessionForRecap(sessionId);
+  if (!session) {
+    throw new AppError(404, 'Session not found');
+  }
+
+  const { campaign } = session;
+  let letterFrom = null;
+  if (overrides.letterFromNpcId) {
+    letterFrom = campaign.npcs.find(npc => npc.id === overrides.letterFromNpcId);
+    if (!letterFrom) {
+      throw new AppError(400, 'NPC not found in this campaign');
+    }
+  }
+
+  const previous = await loadPreviousSummary(campaign.id, session.sessionNumber);
+  const recap = await new AIService(campaign).generateRecap(await loadTranscript(sessionId), previous, {
+    style: overrides.style ?? campaign.recapStyle,
+    length: overrides.length ?? campaign.recapLength,
+    letterFrom,
+  });
+  if (!recap) {
+    throw new AppError(400, 'The recap could not be written; check the language model settings and try again');
+  }
+
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { recap },
+  });
+  return recap;
+}
@@ -0,0 +1,218 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config.js';
+import { BYTES_PER_MS, decodeWav } from '../lib/wav.js';
+import type { TranscriptionProvider, TranscriptSegment } from './transcription.js';
+
+export interface ReplayOptions {
+  file: string; // Path relative to REPLAY_DIR (.json transcript, .wav or raw .pcm audio)
+  speed?: number; // Playback speed multiplier (1 = real time)
+}
+
+export interface SessionReplayer {
+  pause(): void;
+  resume(): void;
+  stop(): Promise<void>;
+}
+
+// How often replay clocks advance (in real time)
+const TICK_MS = 100;
+const MAX_SPEED = 50;
+
+/**
+ * Resolve a replay file inside the replay directory, refusing paths that escape it
+ */
+export function resolveReplayFile(file: string): string {
+  const root = path.resolve(config.replayDir);
+  const resolved = path.resolve(root, file);
+
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error('Replay file must be inside the replay directory');
+  }
+  return resolved;
+}
+
+export function isTranscriptReplay(file: string): boolean {
+  return path.extname(file).toLowerCase() === '.json';
+}
+
+function normalizeSpeed(speed: number | undefined): number {
+  if (!speed || !Number.isFinite(speed) || speed <= 0) return 1;
+  return Math.min(speed, MAX_SPEED);
+}
+
+/**
+ * Load recorded transcript segments. Accepts a bare array of segments
+ * (the shape of an exported or legacy Session.transcript) or `{ "segments": [...] }`.
+ */
+export async function loadReplayTranscript(filePath: string): Promise<TranscriptSegment[]> {
+  const parsed = JSON.parse(await readFile(filePath, 'utf-8'));
+  const raw: Array<Partial<TranscriptSegment>> = Array.isArray(parsed) ? parsed : parsed.segments || [];
+
+  return raw
+    .filter(s => typeof s.text === 'string' && s.text.trim())
+    .map((s, index) => ({
+      id: s.id || `replay-${index}`,
+      timestamp: typeof s.timestamp === 'number' ? s.timestamp : index * 1000,
+      speakerLabel: s.speakerLabel || 'Speaker A',
+      speakerName: null,
+      text: s.text!.trim(),
+      confidence: s.confidence ?? 1,
+      isEdited: false,
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Load recorded audio as raw 16 kHz linear16 PCM (.wav is unwrapped, anything else is taken as raw PCM)
+ */
+export async function loadReplayAudio(filePath: string): Promise<Buffer> {
+  const data = await readFile(filePath);
+  return path.extname(filePath).toLowerCase() === '.wav' ? decodeWav(data) : data;
+}
+
+/**
+ * Transcription provider that re-emits a recorded transcript on a virtual clock.
+ * Segments keep their original timestamps and speaker labels, so the same file
+ * always produces the same sequence of downstream events.
+ */
+export class TranscriptReplayProvider implements TranscriptionProvider, SessionReplayer {
+  readonly name = 'replay' as const;
+  private segments: TranscriptSegment[];
+  private speed: number;
+  private onFinished: () => void;
+  private nextIndex = 0;
+  private virtualTime = 0;
+  private paused = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(segments: TranscriptSegment[], speed: number | undefined, onFinished: () => void) {
+    this.segments = segments;
+    this.speed = normalizeSpeed(speed);
+    this.onFinished = onFinished;
+  }
+
+  async start(onSegment: (segment: TranscriptSegment) => void): Promise<void> {
+    console.log(`⏯️ Replaying ${this.segments.length} transcript segments at ${this.speed}x`);
+
+    this.timer = setInterval(() => {
+      if (this.paused) return;
+      this.virtualTime += TICK_MS * this.speed;
+
+      while (this.nextIndex < this.segments.length && this.segments[this.nextIndex].timestamp <= this.virtualTime) {
+        const recorded = this.segments[this.nextIndex++];
+        // Fresh IDs so a replay never collides with the recording it came from
+        onSegment({ ...recorded, id: uuidv4() });
+      }
+
+      if (this.nextIndex >= this.segments.length) {
+        this.clearTimer();
+        this.onFinished();
+      }
+    }, TICK_MS);
+  }
+
+  async sendAudio(_audioData: Buffer): Promise<void> {
+    // Live audio is ignored while replaying
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  async stop(): Promise<void> {
+    this.clearTimer();
+  }
+
+  async close(): Promise<void> {
+    this.clearTimer();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Streams recorded PCM into a transcription provider as if it came from the microphone
+ */
+export class AudioFileReplayer implements SessionReplayer {
+  private pcm: Buffer;
+  private speed: number;
+  private send: (chunk: Buffer) => Promise<void>;
+  private onFinished: () => void;
+  private offset = 0;
+  private paused = false;
+  private sending = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    pcm: Buffer,
+    speed: number | undefined,
+    send: (chunk: Buffer) => Promise<void>,
+    onFinished: () => void
+  ) {
+    this.pcm = pcm;
+    this.speed = normalizeSpeed(speed);
+    this.send = send;
+    this.onFinished = onFinished;
+  }
+
+  start(): void {
+    // Whole samples only, so chunks never split a 16-bit sample
+    const bytesPerTick = Math.round((TICK_MS * this.speed * BYTES_PER_MS) / 2) * 2;
+    console.log(`⏯️ Replaying ${Math.round(this.pcm.length / BYTES_PER_MS / 1000)}s of audio at ${this.speed}x`);
+
+    this.timer = setInterval(async () => {
+      if (this.paused || this.sending) return;
+
+      if (this.offset >= this.pcm.length) {
+        this.clearTimer();
+        this.onFinished();
+        return;
+      }
+
+      const chunk = this.pcm.subarray(this.offset, this.offset + bytesPerTick);
+      this.offset += chunk.length;
+      this.sending = true;
+      try {
+        await this.send(chunk);
+      } catch (error) {
+        console.error('Error replaying audio chunk:', error);
+      } finally {
+        this.sending = false;
+      }
+    }, TICK_MS);
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  async stop(): Promise<void> {
+    this.clearTimer();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { AIService, AI_CAMPAIGN_INCLUDE } from './ai.js';
+import { loadTranscript } from './transcriptStore.js';
+
+const line = z.string().trim().min(1).max(1000);
+
+/**
+ * Structured companion to the narrative recap, stored in Session.summary.
+ * Generated when a session ends and editable by the DM afterwards.
+ */
+export const sessionSummarySchema = z.object({
+  keyEvents: z.array(z.object({
+    description: line,
+    segmentId: z.string().nullable().default(null), // Transcript line it happened at
+    timestamp: z.number().int().min(0).nullable().default(null), // ms from session start
+  })).max(50).default([]),
+  decisions: z.array(line).max(50).default([]),
+  loot: z.array(z.object({
+    item: line,
+    recipient: z.string().trim().max(200).nullable().default(null),
+  })).max(100).default([]),
+  xp: z.number().int().min(0).nullable().default(null), // Experience awarded to each character
+  npcsMet: z.array(z.string().trim().min(1).max(200)).max(100).default([]),
+  combats: z.array(z.object({
+    description: line,
+    outcome: z.string().trim().max(1000).nullable().default(null),
+  })).max(50).default([]),
+  openThreads: z.array(line).max(50).default([]),
+});
+
+export type SessionSummary = z.infer<typeof sessionSummarySchema>;
+
+/**
+ * Parse a stored summary; sessions from before summaries existed have none
+ */
+export function parseSessionSummary(value: Prisma.JsonValue | null): SessionSummary | null {
+  if (value === null) return null;
+  const parsed = sessionSummarySchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * The summary of the latest earlier session that has one, for the "previously on"
+ * recap to pick up threads from
+ */
+export async function loadPreviousSummary(campaignId: string, sessionNumber: number) {
+  const previous = await prisma.session.findFirst({
+    where: {
+      campaignId,
+      sessionNumber: { lt: sessionNumber },
+      summary: { not: Prisma.DbNull },
+    },
+    orderBy: { sessionNumber: 'desc' },
+    select: { sessionNumber: true, summary: true },
+  });
+  const summary = previous && parseSessionSummary(previous.summary);
+  return summary ? { sessionNumber: previous.sessionNumber, summary } : null;
+}
+
+/**
+ * Regenerate a session's structured summary from its transcript, replacing any edits
+ */
+export async function generateSessionSummary(sessionId: string): Promise<SessionSummary | null> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { campaign: { include: AI_CAMPAIGN_INCLUDE } },
+  });
+  if (!session) return null;
+
+  const summary = await new AIService(session.campaign).generateSummary(await loadTranscript(sessionId));
+
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { summary },
+  });
+  return summary;
+}
@@ -0,0 +1,123 @@
+import { prisma } from '../lib/prisma.js';
+import { AIService, AI_CAMPAIGN_INCLUDE } from './ai.js';
+
+export interface StorySoFar {
+  story: string | null;
+  throughSessionNumber: number | null;
+  updatedAt: Date | null;
+}
+
+function toStory(campaign: { storySoFar: string | null; storySoFarThrough: number | null; storySoFarUpdatedAt: Date | null }): StorySoFar {
+  return {
+    story: campaign.storySoFar,
+    throughSessionNumber: campaign.storySoFarThrough,
+    updatedAt: campaign.storySoFarUpdatedAt,
+  };
+}
+
+export async function loadStorySoFar(campaignId: string): Promise<StorySoFar> {
+  const campaign = await prisma.campaign.findUniqueOrThrow({
+    where: { id: campaignId },
+    select: { storySoFar: true, storySoFarThrough: true, storySoFarUpdatedAt: true },
+  });
+  return toStory(campaign);
+}
+
+// Folds and rebuilds of one campaign run one at a time, each on the story the last one left
+const campaignQueues = new Map<string, Promise<unknown>>();
+
+function inCampaignOrder<T>(campaignId: string, update: () => Promise<T>): Promise<T> {
+  const run = (campaignQueues.get(campaignId) ?? Promise.resolve()).catch(() => {}).then(update);
+  const settled = run.catch(() => {});
+  campaignQueues.set(campaignId, settled);
+  settled.then(() => {
+    if (campaignQueues.get(campaignId) === settled) campaignQueues.delete(campaignId);
+  });
+  return run;
+}
+
+/**
+ * Extend the campaign's story with a completed session's recap. Sessions already
+ * folded in are skipped; rebuildStorySoFar picks up later edits to their recaps.
+ * A session that completes after a later-numbered one can't simply be appended, so
+ * the story is retold in order instead.
+ */
+export async function foldSessionIntoStory(sessionId: string): Promise<StorySoFar | null> {
+  const found = await prisma.session.findUnique({ where: { id: sessionId }, select: { campaignId: true } });
+  if (!found) return null;
+
+  return inCampaignOrder(found.campaignId, async () => {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { campaign: { include: AI_CAMPAIGN_INCLUDE } },
+    });
+    if (!session?.recap || session.status !== 'completed') return null;
+
+    const { campaign } = session;
+    if (campaign.storySoFarSessions.includes(session.id)) {
+      return toStory(campaign);
+    }
+    if (campaign.storySoFarThrough !== null && session.sessionNumber <= campaign.storySoFarThrough) {
+      return retellStory(campaign.id);
+    }
+
+    const story = await new AIService(campaign).extendStorySoFar(campaign.storySoFar, {
+      sessionNumber: session.sessionNumber,
+      title: session.title,
+      recap: session.recap,
+    });
+
+    const updated = await prisma.campaign.update({
+      where: { id: campaign.id },
+      data: {
+        storySoFar: story,
+        storySoFarThrough: session.sessionNumber,
+        storySoFarSessions: { push: session.id },
+        storySoFarUpdatedAt: new Date(),
+      },
+    });
+    console.log(`📖 Story so far updated through session ${session.sessionNumber}`);
+    return toStory(updated);
+  });
+}
+
+/**
+ * Retell the story from the first session, one completed session at a time
+ */
+export async function rebuildStorySoFar(campaignId: string): Promise<StorySoFar> {
+  return inCampaignOrder(campaignId, () => retellStory(campaignId));
+}
+
+async function retellStory(campaignId: string): Promise<StorySoFar> {
+  const campaign = await prisma.campaign.findUniqueOrThrow({
+    where: { id: campaignId },
+    include: AI_CAMPAIGN_INCLUDE,
+  });
+  const sessions = await prisma.session.findMany({
+    where: { campaignId, status: 'completed', recap: { not: null } },
+    orderBy: { sessionNumber: 'asc' },
+    select: { id: true, sessionNumber: true, title: true, recap: true },
+  });
+
+  const aiService = new AIService(campaign);
+  let story: string | null = null;
+  for (const session of sessions) {
+    story = await aiService.extendStorySoFar(story, {
+      sessionNumber: session.sessionNumber,
+      title: session.title,
+      recap: session.recap!,
+    });
+  }
+
+  const updated = await prisma.campaign.update({
+    where: { id: campaignId },
+    data: {
+      storySoFar: story,
+      storySoFarThrough: sessions.at(-1)?.sessionNumber ?? null,
+      storySoFarSessions: sessions.map(s => s.id),
+      storySoFarUpdatedAt: sessions.length > 0 ? new Date() : null,
+    },
+  });
+  console.log(`📖 Story so far rebuilt from ${sessions.length} sessions`);
+  return toStory(updated);
+}
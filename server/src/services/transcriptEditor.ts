@@ -0,0 +1,298 @@
+import { Prisma, TranscriptEditOperation, TranscriptRevision } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { TranscriptSegment, averageSpeakerConfidence } from './transcription.js';
+import { replaceSegmentRun, toSegment } from './transcriptStore.js';
+import { scheduleSessionIndex } from './campaignKnowledge.js';
+
+/**
+ * The result of one edit: the new transcript (or window of it), plus the contiguous
+ * run of segments it replaced (`before`) and what now stands there (`after`).
+ */
+export interface TranscriptEdit {
+  transcript: TranscriptSegment[];
+  anchorId: string | null;
+  before: TranscriptSegment[];
+  after: TranscriptSegment[];
+}
+
+function findSegment(transcript: TranscriptSegment[], segmentId: string): number {
+  const index = transcript.findIndex(s => s.id === segmentId);
+  if (index === -1) {
+    throw new AppError(404, 'Segment not found');
+  }
+  return index;
+}
+
+function replaceRun(
+  transcript: TranscriptSegment[],
+  start: number,
+  count: number,
+  after: TranscriptSegment[]
+): TranscriptEdit {
+  return {
+    transcript: [...transcript.slice(0, start), ...after, ...transcript.slice(start + count)],
+    anchorId: start > 0 ? transcript[start - 1].id : null,
+    before: transcript.slice(start, start + count),
+    after,
+  };
+}
+
+export function editSegmentText(transcript: TranscriptSegment[], segmentId: string, text: string): TranscriptEdit {
+  const index = findSegment(transcript, segmentId);
+  return replaceRun(transcript, index, 1, [{ ...transcript[index], text: text.trim(), isEdited: true }]);
+}
+
+/**
+ * Pass null to clear the name and fall back to the diarization label
+ */
+export function reassignSpeaker(
+  transcript: TranscriptSegment[],
+  segmentId: string,
+  speakerName: string | null
+): TranscriptEdit {
+  const index = findSegment(transcript, segmentId);
+  return replaceRun(transcript, index, 1, [{ ...transcript[index], speakerName, isEdited: true }]);
+}
+
+/**
+ * Split a segment in two at a character position in its text. Word timings,
+ * when present, decide where the audio is cut; otherwise it is cut in proportion.
+ */
+export function splitSegment(transcript: TranscriptSegment[], segmentId: string, at: number): TranscriptEdit {
+  const index = findSegment(transcript, segmentId);
+  const segment = transcript[index];
+
+  const leftText = segment.text.slice(0, at).trim();
+  const rightText = segment.text.slice(at).trim();
+  if (!leftText || !rightText) {
+    throw new AppError(400, 'Split position must fall inside the segment text');
+  }
+
+  const wordCount = leftText.split(/\s+/).length;
+  const leftWords = segment.words?.slice(0, wordCount);
+  const rightWords = segment.words?.slice(wordCount);
+
+  const left: TranscriptSegment = { ...segment, text: leftText, words: leftWords, isEdited: true };
+  const right: TranscriptSegment = { ...segment, id: uuidv4(), text: rightText, words: rightWords, isEdited: true };
+
+  if (segment.audioOffset !== undefined && segment.audioDuration !== undefined) {
+    const end = segment.audioOffset + segment.audioDuration;
+    const boundary = rightWords?.length && leftWords?.length
+      ? rightWords[0].start
+      : segment.audioOffset + Math.round((segment.audioDuration * at) / segment.text.length);
+
+    left.audioDuration = boundary - segment.audioOffset;
+    right.audioOffset = boundary;
+    right.audioDuration = end - boundary;
+    right.timestamp = segment.timestamp + (boundary - segment.audioOffset);
+  }
+
+  if (leftWords && rightWords) {
+    left.speakerConfidence = averageSpeakerConfidence(leftWords);
+    right.speakerConfidence = averageSpeakerConfidence(rightWords);
+  }
+
+  return replaceRun(transcript, index, 1, [left, right]);
+}
+
+/**
+ * Merge a segment with the one directly after it. The first segment's speaker is kept.
+ */
+export function mergeSegments(transcript: TranscriptSegment[], firstId: string, secondId: string): TranscriptEdit {
+  const index = findSegment(transcript, firstId);
+  const first = transcript[index];
+  const second = transcript[index + 1];
+  if (!second || second.id !== secondId) {
+    throw new AppError(400, 'Only adjacent segments can be merged');
+  }
+
+  const merged: TranscriptSegment = {
+    ...first,
+    text: `${first.text} ${second.text}`.trim(),
+    confidence: Math.min(first.confidence, second.confidence),
+    isEdited: true,
+  };
+
+  if (first.audioOffset !== undefined && second.audioOffset !== undefined && second.audioDuration !== undefined) {
+    merged.audioDuration = second.audioOffset + second.audioDuration - first.audioOffset;
+  }
+  if (first.words && second.words) {
+    merged.words = [...first.words, ...second.words];
+    merged.speakerConfidence = averageSpeakerConfidence(merged.words);
+  }
+
+  return replaceRun(transcript, index, 2, [merged]);
+}
+
+export function deleteSegment(transcript: TranscriptSegment[], segmentId: string): TranscriptEdit {
+  const index = findSegment(transcript, segmentId);
+  return replaceRun(transcript, index, 1, []);
+}
+
+// The fields edits change - enough to tell whether a later edit touched a segment
+function isSameSegment(a: TranscriptSegment, b: TranscriptSegment): boolean {
+  return a.id === b.id && a.text === b.text && a.speakerName === b.speakerName;
+}
+
+/**
+ * Put a revision's `before` segments back in place of its `after` segments.
+ * Fails if a later edit has since changed that part of the transcript.
+ */
+export function revertEdit(
+  transcript: TranscriptSegment[],
+  revision: { anchorId: string | null; before: TranscriptSegment[]; after: TranscriptSegment[] }
+): TranscriptSegment[] {
+  const conflict = new AppError(409, 'These segments were changed by a later edit - undo that edit first');
+
+  let start = 0;
+  if (revision.anchorId !== null) {
+    start = transcript.findIndex(s => s.id === revision.anchorId) + 1;
+    if (start === 0) throw conflict;
+  }
+
+  const current = transcript.slice(start, start + revision.after.length);
+  if (current.length !== revision.after.length || !current.every((s, i) => isSameSegment(s, revision.after[i]))) {
+    throw conflict;
+  }
+
+  return [...transcript.slice(0, start), ...revision.before, ...transcript.slice(start + revision.after.length)];
+}
+
+async function assertEditable(tx: Prisma.TransactionClient, sessionId: string): Promise<void> {
+  const session = await tx.session.findUniqueOrThrow({
+    where: { id: sessionId },
+    select: { status: true },
+  });
+
+  // The live pipeline is still writing segments and would overwrite the edit
+  if (session.status === 'in_progress') {
+    throw new AppError(409, 'Transcript can be edited once the session has ended');
+  }
+}
+
+/**
+ * The segment with its neighbours - one before (the anchor) and two after, enough
+ * for any single edit without loading the whole transcript
+ */
+async function loadEditWindow(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  segmentId: string
+): Promise<TranscriptSegment[]> {
+  const target = await tx.transcriptSegment.findUnique({
+    where: { sessionId_id: { sessionId, id: segmentId } },
+  });
+  if (!target) {
+    throw new AppError(404, 'Segment not found');
+  }
+
+  const [previous, following] = await Promise.all([
+    tx.transcriptSegment.findFirst({
+      where: { sessionId, position: { lt: target.position } },
+      orderBy: { position: 'desc' },
+    }),
+    tx.transcriptSegment.findMany({
+      where: { sessionId, position: { gt: target.position } },
+      orderBy: { position: 'asc' },
+      take: 2,
+    }),
+  ]);
+
+  return [...(previous ? [previous] : []), target, ...following].map(toSegment);
+}
+
+function toJson(segments: TranscriptSegment[]): Prisma.InputJsonValue {
+  return segments as unknown as Prisma.InputJsonValue;
+}
+
+/**
+ * Apply an edit around one segment of a session's transcript and record it as a
+ * revision. The returned revision describes the change (`anchorId`, `before`,
+ * `after`), which is all a client needs to update its copy.
+ */
+export async function commitTranscriptEdit(
+  sessionId: string,
+  userId: string,
+  operation: TranscriptEditOperation,
+  segmentId: string,
+  edit: (window: TranscriptSegment[]) => TranscriptEdit
+): Promise<TranscriptRevision> {
+  const revision = await prisma.$transaction(async (tx) => {
+    await assertEditable(tx, sessionId);
+    const result = edit(await loadEditWindow(tx, sessionId, segmentId));
+
+    await replaceSegmentRun(tx, sessionId, result.anchorId, result.before.map(s => s.id), result.after);
+
+    const revision = await tx.transcriptRevision.create({
+      data: {
+        sessionId,
+        userId,
+        operation,
+        anchorId: result.anchorId,
+        before: toJson(result.before),
+        after: toJson(result.after),
+      },
+    });
+
+    console.log(`✏️ Transcript ${operation.replace('_', ' ')} in session ${sessionId}`);
+    return revision;
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+  scheduleSessionIndex(sessionId);
+  return revision;
+}
+
+/**
+ * Undo a revision, restoring the segments it replaced
+ */
+export async function undoTranscriptRevision(sessionId: string, revisionId: string): Promise<TranscriptRevision> {
+  const revision = await prisma.$transaction(async (tx) => {
+    await assertEditable(tx, sessionId);
+
+    const existing = await tx.transcriptRevision.findFirst({
+      where: { id: revisionId, sessionId },
+    });
+
+    if (!existing) {
+      throw new AppError(404, 'Revision not found');
+    }
+    if (existing.undoneAt) {
+      throw new AppError(409, 'Revision has already been undone');
+    }
+
+    const before = existing.before as unknown as TranscriptSegment[];
+    const after = existing.after as unknown as TranscriptSegment[];
+
+    // The anchor and the rows after it must still be exactly what the edit left behind
+    const anchor = existing.anchorId
+      ? await tx.transcriptSegment.findUnique({ where: { sessionId_id: { sessionId, id: existing.anchorId } } })
+      : null;
+    const following = existing.anchorId && !anchor
+      ? []
+      : await tx.transcriptSegment.findMany({
+          where: { sessionId, ...(anchor && { position: { gt: anchor.position } }) },
+          orderBy: { position: 'asc' },
+          take: after.length,
+        });
+    revertEdit([...(anchor ? [anchor] : []), ...following].map(toSegment), {
+      anchorId: existing.anchorId,
+      before,
+      after,
+    });
+
+    await replaceSegmentRun(tx, sessionId, existing.anchorId, after.map(s => s.id), before);
+
+    const revision = await tx.transcriptRevision.update({
+      where: { id: revisionId },
+      data: { undoneAt: new Date() },
+    });
+
+    console.log(`↩️ Undid transcript ${existing.operation.replace('_', ' ')} in session ${sessionId}`);
+    return revision;
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+  scheduleSessionIndex(sessionId);
+  return revision;
+}
@@ -0,0 +1,232 @@
+import { Prisma, TranscriptSegment as TranscriptSegmentRow } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import type { TranscriptSegment, TranscriptWord } from './transcription.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export function toSegment(row: TranscriptSegmentRow): TranscriptSegment {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    speakerLabel: row.speakerLabel,
+    speakerName: row.speakerName,
+    text: row.text,
+    confidence: row.confidence,
+    isEdited: row.isEdited,
+    audioOffset: row.audioOffset ?? undefined,
+    audioDuration: row.audioDuration ?? undefined,
+    words: (row.words as unknown as TranscriptWord[] | null) ?? undefined,
+    speakerConfidence: row.speakerConfidence ?? undefined,
+  };
+}
+
+function toRowData(segment: TranscriptSegment) {
+  return {
+    timestamp: Math.round(segment.timestamp),
+    speakerLabel: segment.speakerLabel,
+    speakerName: segment.speakerName,
+    text: segment.text,
+    confidence: segment.confidence,
+    isEdited: segment.isEdited,
+    audioOffset: segment.audioOffset !== undefined ? Math.round(segment.audioOffset) : null,
+    audioDuration: segment.audioDuration !== undefined ? Math.round(segment.audioDuration) : null,
+    words: segment.words ? (segment.words as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+    speakerConfidence: segment.speakerConfidence ?? null,
+  };
+}
+
+/**
+ * Full transcript of a session, in order
+ */
+export async function loadTranscript(sessionId: string, db: Db = prisma): Promise<TranscriptSegment[]> {
+  const rows = await db.transcriptSegment.findMany({
+    where: { sessionId },
+    orderBy: { position: 'asc' },
+  });
+  return rows.map(toSegment);
+}
+
+/**
+ * One page of a session's transcript (pages start at 1)
+ */
+export async function loadTranscriptPage(
+  sessionId: string,
+  page: number,
+  pageSize: number
+): Promise<{ items: TranscriptSegment[]; total: number }> {
+  const [rows, total] = await Promise.all([
+    prisma.transcriptSegment.findMany({
+      where: { sessionId },
+      orderBy: { position: 'asc' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.transcriptSegment.count({ where: { sessionId } }),
+  ]);
+  return { items: rows.map(toSegment), total };
+}
+
+/**
+ * The page (from 1) a segment is on at the given page size, or null if it isn't in the transcript
+ */
+export async function findSegmentPage(sessionId: string, segmentId: string, pageSize: number): Promise<number | null> {
+  const segment = await prisma.transcriptSegment.findUnique({ where: { sessionId_id: { sessionId, id: segmentId } } });
+  if (!segment) return null;
+  const before = await prisma.transcriptSegment.count({ where: { sessionId, position: { lt: segment.position } } });
+  return Math.floor(before / pageSize) + 1;
+}
+
+async function lastPosition(sessionId: string, db: Db = prisma): Promise<number> {
+  const { _max } = await db.transcriptSegment.aggregate({
+    where: { sessionId },
+    _max: { position: true },
+  });
+  return _max.position ?? -1;
+}
+
+/**
+ * Add segments to the end of a session's transcript
+ */
+export async function appendSegments(sessionId: string, segments: TranscriptSegment[], db: Db = prisma): Promise<void> {
+  if (segments.length === 0) return;
+  const start = (await lastPosition(sessionId, db)) + 1;
+
+  await db.transcriptSegment.createMany({
+    data: segments.map((segment, i) => ({
+      ...toRowData(segment),
+      id: segment.id,
+      sessionId,
+      position: start + i,
+    })),
+  });
+}
+
+/**
+ * Replace a session's whole transcript (e.g. with a re-transcription), inside the
+ * caller's transaction
+ */
+export async function replaceTranscript(
+  db: Prisma.TransactionClient,
+  sessionId: string,
+  segments: TranscriptSegment[]
+): Promise<void> {
+  await db.transcriptSegment.deleteMany({ where: { sessionId } });
+  await db.transcriptSegment.createMany({
+    data: segments.map((segment, position) => ({
+      ...toRowData(segment),
+      id: segment.id,
+      sessionId,
+      position,
+    })),
+  });
+}
+
+/**
+ * Replace a contiguous run of segments: `removeIds` are deleted and `segments`
+ * are written, in order, between `anchorId` (null = start of the transcript)
+ * and whatever followed the run.
+ */
+export async function replaceSegmentRun(
+  db: Prisma.TransactionClient,
+  sessionId: string,
+  anchorId: string | null,
+  removeIds: string[],
+  segments: TranscriptSegment[]
+): Promise<void> {
+  if (removeIds.length > 0) {
+    await db.transcriptSegment.deleteMany({ where: { sessionId, id: { in: removeIds } } });
+  }
+  if (segments.length === 0) return;
+
+  const anchor = anchorId
+    ? await db.transcriptSegment.findUniqueOrThrow({ where: { sessionId_id: { sessionId, id: anchorId } } })
+    : null;
+  const next = await db.transcriptSegment.findFirst({
+    where: { sessionId, ...(anchor && { position: { gt: anchor.position } }) },
+    orderBy: { position: 'asc' },
+  });
+
+  // Spread the new rows evenly in the gap
+  const low = anchor?.position ?? (next ? next.position - 1 : -1);
+  const high = next?.position ?? low + segments.length + 1;
+  const step = (high - low) / (segments.length + 1);
+
+  await db.transcriptSegment.createMany({
+    data: segments.map((segment, i) => ({
+      ...toRowData(segment),
+      id: segment.id,
+      sessionId,
+      position: low + step * (i + 1),
+    })),
+  });
+}
+
+/**
+ * Writes a live session's transcript as it happens.
+ *
+ * New segments are inserted right away. Later changes to a segment (AI
+ * corrections, speaker attribution, merges) mark it dirty and are written on
+ * the next flush, so the transcript is never rewritten as a whole. Writes are
+ * queued so an update can't overtake the insert it depends on.
+ */
+export class TranscriptWriter {
+  private queue: Promise<void> = Promise.resolve();
+  private nextPosition: number | null = null;
+  private readonly dirty = new Set<string>();
+  private readonly removed = new Set<string>();
+
+  constructor(private readonly sessionId: string) {}
+
+  add(segment: TranscriptSegment): void {
+    const snapshot = { ...segment };
+    this.enqueue(async () => {
+      // Continue after anything saved by an earlier run of the same session
+      this.nextPosition ??= (await lastPosition(this.sessionId)) + 1;
+      await prisma.transcriptSegment.create({
+        data: { ...toRowData(snapshot), id: snapshot.id, sessionId: this.sessionId, position: this.nextPosition++ },
+      });
+    });
+  }
+
+  /**
+   * Mark a segment as changed since it was added
+   */
+  touch(segmentId: string): void {
+    this.dirty.add(segmentId);
+  }
+
+  remove(segmentId: string): void {
+    this.dirty.delete(segmentId);
+    this.removed.add(segmentId);
+  }
+
+  /**
+   * Write pending changes, taking current values from the live segment list
+   */
+  flush(segments: TranscriptSegment[]): Promise<void> {
+    const changed = segments.filter(s => this.dirty.has(s.id));
+    const removed = [...this.removed];
+    this.dirty.clear();
+    this.removed.clear();
+
+    if (changed.length > 0 || removed.length > 0) {
+      this.enqueue(async () => {
+        await prisma.$transaction([
+          ...changed.map(segment => prisma.transcriptSegment.update({
+            where: { sessionId_id: { sessionId: this.sessionId, id: segment.id } },
+            data: toRowData(segment),
+          })),
+          prisma.transcriptSegment.deleteMany({ where: { sessionId: this.sessionId, id: { in: removed } } }),
+        ]);
+        console.log(`💾 Saved ${changed.length} changed and ${removed.length} merged transcript segments for session ${this.sessionId}`);
+      });
+    }
+    return this.queue;
+  }
+
+  private enqueue(write: () => Promise<void>): void {
+    this.queue = this.queue
+      .then(write)
+      .catch(error => console.error('Error saving transcript:', error));
+  }
+}
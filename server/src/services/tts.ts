@@ -0,0 +1,155 @@
+import OpenAI from 'openai';
+import { spawn } from 'child_process';
+import { access, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { config } from '../config.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+// OpenAI's speech endpoint accepts at most 4096 characters per request
+const OPENAI_MAX_CHARS = 4000;
+const PIPER_TIMEOUT_MS = 120_000;
+
+export interface SpeechAudio {
+  audio: Buffer;
+  contentType: string;
+  extension: 'mp3' | 'wav';
+}
+
+/**
+ * Text-to-speech backend used to export recaps as audio
+ */
+export interface TTSClient {
+  readonly name: 'openai' | 'piper';
+  synthesize(text: string): Promise<SpeechAudio>;
+}
+
+/**
+ * Split text into pieces under maxChars, breaking between paragraphs, then sentences
+ */
+function splitForSpeech(text: string, maxChars: number): string[] {
+  const sentences = text
+    .split(/\n\s*\n/)
+    .flatMap(paragraph => paragraph.match(/[^.!?]+[.!?]*\s*/g) ?? [])
+    .map(s => s.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    // A single sentence over the limit is cut hard rather than dropped
+    for (let i = 0; i < sentence.length; i += maxChars) {
+      const piece = sentence.slice(i, i + maxChars);
+      current = current ? `${current} ${piece}` : piece;
+      if (current.length >= maxChars) {
+        chunks.push(current);
+        current = '';
+      }
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+class OpenAITTSClient implements TTSClient {
+  readonly name = 'openai' as const;
+  private openai: OpenAI;
+
+  constructor(apiKey: string, private model: string, private voice: string) {
+    this.openai = new OpenAI({ apiKey });
+  }
+
+  async synthesize(text: string): Promise<SpeechAudio> {
+    const parts: Buffer[] = [];
+    for (const chunk of splitForSpeech(text, OPENAI_MAX_CHARS)) {
+      const response = await this.openai.audio.speech.create({
+        model: this.model,
+        voice: this.voice,
+        input: chunk,
+        response_format: 'mp3',
+      });
+      parts.push(Buffer.from(await response.arrayBuffer()));
+    }
+
+    // MP3 frames are self-contained, so the parts play back as one file
+    return { audio: Buffer.concat(parts), contentType: 'audio/mpeg', extension: 'mp3' };
+  }
+}
+
+/**
+ * Local/offline speech using a piper binary: text on stdin, WAV written to a temp file
+ */
+class PiperTTSClient implements TTSClient {
+  readonly name = 'piper' as const;
+
+  constructor(private binaryPath: string, private modelPath: string) {}
+
+  async synthesize(text: string): Promise<SpeechAudio> {
+    await access(this.modelPath).catch(() => {
+      throw new AppError(400, `Piper model not found at ${this.modelPath}; check PIPER_MODEL_PATH`);
+    });
+
+    const workDir = await mkdtemp(path.join(tmpdir(), 'dnd-piper-'));
+    const outputPath = path.join(workDir, 'speech.wav');
+
+    try {
+      await this.run(text, outputPath);
+      const audio = await readFile(outputPath).catch(() => {
+        throw new Error('Piper exited without writing any audio');
+      });
+      return { audio, contentType: 'audio/wav', extension: 'wav' };
+    } finally {
+      await rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+
+  private run(text: string, outputPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.binaryPath, ['--model', this.modelPath, '--output_file', outputPath], {
+        stdio: ['pipe', 'ignore', 'pipe'],
+        timeout: PIPER_TIMEOUT_MS,
+      });
+
+      let stderr = '';
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(-2000);
+      });
+      // Piper exiting before it has read all the text (a crash, the timeout) breaks the
+      // pipe; how it exited is reported below, so the write error itself is dropped
+      child.stdin.on('error', () => {});
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        reject(error.code === 'ENOENT'
+          ? new AppError(400, `Piper not found at ${this.binaryPath}; check PIPER_BINARY_PATH`)
+          : error);
+      });
+      child.on('close', (code, signal) => {
+        if (code === 0) return resolve();
+        reject(new Error(`Piper failed (${signal ?? `exit code ${code}`})${stderr.trim() ? `: ${stderr.trim()}` : ''}`));
+      });
+
+      child.stdin.end(text);
+    });
+  }
+}
+
+/**
+ * The configured TTS backend, or null when none is set up
+ */
+export function createTTSClient(): TTSClient | null {
+  switch (config.ttsProvider) {
+    case 'openai':
+      return config.openaiApiKey
+        ? new OpenAITTSClient(config.openaiApiKey, config.ttsModel, config.ttsVoice)
+        : null;
+    case 'piper':
+      return config.piperModelPath
+        ? new PiperTTSClient(config.piperBinaryPath, config.piperModelPath)
+        : null;
+    default:
+      return null;
+  }
+}
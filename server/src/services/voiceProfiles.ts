@@ -0,0 +1,281 @@
+import type { Player } from '@prisma/client';
+import { config } from '../config.js';
+import { prisma } from '../lib/prisma.js';
+import {
+  VoiceFeatures,
+  extractVoiceFeatures,
+  combineVoiceFeatures,
+  voiceSimilarity,
+} from '../lib/voiceFeatures.js';
+import { audioStore } from './audioStore.js';
+import { loadTranscript } from './transcriptStore.js';
+import type { TranscriptSegment } from './transcription.js';
+
+// Audio taken per speaker from one session when updating profiles
+const MAX_SESSION_SAMPLE_MS = 3 * 60 * 1000;
+// Older sessions never outweigh this much audio, so profiles follow gradual voice/mic changes
+const MAX_PROFILE_WEIGHT_MS = 15 * 60 * 1000;
+// Segments shorter than this are mostly noise and cross-talk
+const MIN_SEGMENT_MS = 1000;
+// Live labels are only matched once the best profile beats the runner-up by this much
+const MATCH_MARGIN = 0.05;
+
+export interface StoredVoiceProfile {
+  speakerName: string;
+  embedding: number[];
+}
+
+/**
+ * Profiles are built from transcript audio, so they need audio storage
+ */
+export function isVoiceProfilingEnabled(): boolean {
+  return !!audioStore && config.voiceProfiles;
+}
+
+/**
+ * Resolve a transcript speaker name to the profile it belongs to.
+ * Players are matched by player or character name; "DM" and "DM (as X)" go to the DM.
+ */
+function resolveSpeaker(
+  speakerName: string,
+  players: Player[]
+): { speakerName: string; playerId: string | null } | null {
+  const name = speakerName.trim().toLowerCase();
+  if (name === 'dm' || name.startsWith('dm ')) {
+    return { speakerName: 'DM', playerId: null };
+  }
+
+  const player = players.find(
+    p => p.playerName.toLowerCase() === name || p.characterName.toLowerCase() === name
+  );
+  return player ? { speakerName: player.playerName, playerId: player.id } : null;
+}
+
+async function segmentFeatures(sessionId: string, segment: TranscriptSegment): Promise<VoiceFeatures | null> {
+  if (!audioStore || segment.audioOffset === undefined || !segment.audioDuration) return null;
+  const pcm = await audioStore.read(sessionId, segment.audioOffset, segment.audioOffset + segment.audioDuration);
+  return extractVoiceFeatures(pcm);
+}
+
+interface ProfileVoice {
+  playerId: string | null;
+  vector: number[];
+  sampleMs: number;
+  sessionIds: string[];
+}
+
+/**
+ * The voice of each speaker in a session, from the segments whose attribution the DM
+ * confirmed. Only segments attributed or edited by hand (`isEdited`) are trusted -
+ * AI guesses would teach the profiles their own mistakes.
+ */
+async function sessionVoices(sessionId: string, players: Player[]): Promise<Map<string, { playerId: string | null; voice: VoiceFeatures }>> {
+  const transcript = await loadTranscript(sessionId);
+
+  // Group confirmed speech by profile, longest utterances first
+  const samples = new Map<string, { playerId: string | null; segments: TranscriptSegment[] }>();
+  for (const segment of transcript) {
+    if (!segment.isEdited || !segment.speakerName || (segment.audioDuration ?? 0) < MIN_SEGMENT_MS) continue;
+
+    const speaker = resolveSpeaker(segment.speakerName, players);
+    if (!speaker) continue;
+
+    const entry = samples.get(speaker.speakerName) ?? { playerId: speaker.playerId, segments: [] };
+    entry.segments.push(segment);
+    samples.set(speaker.speakerName, entry);
+  }
+
+  const voices = new Map<string, { playerId: string | null; voice: VoiceFeatures }>();
+  for (const [speakerName, { playerId, segments }] of samples) {
+    segments.sort((a, b) => (b.audioDuration ?? 0) - (a.audioDuration ?? 0));
+
+    const features: VoiceFeatures[] = [];
+    let sampledMs = 0;
+    for (const segment of segments) {
+      if (sampledMs >= MAX_SESSION_SAMPLE_MS) break;
+      const segmentVoice = await segmentFeatures(sessionId, segment);
+      if (segmentVoice) {
+        features.push(segmentVoice);
+        sampledMs += segmentVoice.voicedMs;
+      }
+    }
+
+    const voice = combineVoiceFeatures(features);
+    if (voice) voices.set(speakerName, { playerId, voice });
+  }
+  return voices;
+}
+
+// A profile with one more session's voice folded in
+function foldVoice(
+  existing: Omit<ProfileVoice, 'playerId'> | undefined,
+  sessionId: string,
+  playerId: string | null,
+  voice: VoiceFeatures
+): ProfileVoice {
+  const merged = existing
+    ? combineVoiceFeatures([
+        { vector: existing.vector, voicedMs: Math.min(existing.sampleMs, MAX_PROFILE_WEIGHT_MS) },
+        voice,
+      ])!
+    : voice;
+  return {
+    playerId,
+    vector: merged.vector,
+    sampleMs: Math.round(Math.min((existing?.sampleMs ?? 0) + voice.voicedMs, MAX_PROFILE_WEIGHT_MS)),
+    sessionIds: [...(existing?.sessionIds ?? []), sessionId],
+  };
+}
+
+function saveProfile(campaignId: string, speakerName: string, profile: ProfileVoice) {
+  const { playerId, vector, sampleMs, sessionIds } = profile;
+  return prisma.voiceProfile.upsert({
+    where: { campaignId_speakerName: { campaignId, speakerName } },
+    create: { campaignId, playerId, speakerName, embedding: vector, sampleMs, sessionIds },
+    update: { playerId, embedding: vector, sampleMs, sessionIds },
+  });
+}
+
+/**
+ * Fold a finished session's confirmed attributions into the campaign's voice profiles,
+ * when it ends. Profiles that already include the session (it was resumed and ended
+ * again) are left as they are. Returns the number of profiles created or updated.
+ */
+export async function updateVoiceProfilesFromSession(sessionId: string): Promise<number> {
+  if (!audioStore) {
+    throw new Error('Audio storage is disabled');
+  }
+
+  const session = await prisma.session.findUniqueOrThrow({
+    where: { id: sessionId },
+    include: { campaign: { include: { players: true, voiceProfiles: true } } },
+  });
+
+  const voices = await sessionVoices(sessionId, session.campaign.players);
+  let updated = 0;
+  for (const [speakerName, { playerId, voice }] of voices) {
+    const existing = session.campaign.voiceProfiles.find(p => p.speakerName === speakerName);
+    if (existing?.sessionIds.includes(sessionId)) continue;
+
+    const profile = foldVoice(
+      existing && {
+        vector: existing.embedding as unknown as number[],
+        sampleMs: existing.sampleMs,
+        sessionIds: existing.sessionIds,
+      },
+      sessionId,
+      playerId,
+      voice
+    );
+    await saveProfile(session.campaignId, speakerName, profile);
+    updated++;
+  }
+
+  console.log(`🗣️ Updated ${updated} voice profile(s) from session ${sessionId}`);
+  return updated;
+}
+
+/**
+ * Recompute a campaign's voice profiles from scratch, folding in every completed
+ * session's confirmed attributions in order, and drop any profile none of them
+ * supports. Safe to repeat, e.g. after attributing more segments by hand. Returns
+ * the number of profiles rebuilt.
+ */
+export async function rebuildVoiceProfiles(campaignId: string): Promise<number> {
+  if (!audioStore) {
+    throw new Error('Audio storage is disabled');
+  }
+
+  const players = await prisma.player.findMany({ where: { campaignId } });
+  const sessions = await prisma.session.findMany({
+    where: { campaignId, status: 'completed' },
+    orderBy: { sessionNumber: 'asc' },
+    select: { id: true },
+  });
+
+  const profiles = new Map<string, ProfileVoice>();
+  for (const session of sessions) {
+    const voices = await sessionVoices(session.id, players);
+    for (const [speakerName, { playerId, voice }] of voices) {
+      profiles.set(speakerName, foldVoice(profiles.get(speakerName), session.id, playerId, voice));
+    }
+  }
+
+  // Profiles nobody was attributed to any more (a removed player, a renamed speaker) go
+  await prisma.$transaction([
+    ...[...profiles].map(([speakerName, profile]) => saveProfile(campaignId, speakerName, profile)),
+    prisma.voiceProfile.deleteMany({ where: { campaignId, speakerName: { notIn: [...profiles.keys()] } } }),
+  ]);
+
+  console.log(`🗣️ Rebuilt ${profiles.size} voice profile(s) from ${sessions.length} sessions`);
+  return profiles.size;
+}
+
+/**
+ * Load a campaign's voice profiles for live matching
+ */
+export async function loadVoiceProfiles(campaignId: string): Promise<StoredVoiceProfile[]> {
+  const profiles = await prisma.voiceProfile.findMany({ where: { campaignId } });
+  return profiles.map(p => ({
+    speakerName: p.speakerName,
+    embedding: p.embedding as unknown as number[],
+  }));
+}
+
+/**
+ * Maps a live session's diarization labels ("Speaker A") to known voices.
+ *
+ * Audio for each label is collected from the segments as they arrive; once a
+ * label has enough speech it is compared against the campaign's profiles and,
+ * on a confident match, pinned to that speaker for the rest of the session.
+ * Each profile is assigned to at most one label.
+ */
+export class VoiceMatcher {
+  private readonly samples = new Map<string, VoiceFeatures[]>();
+  private readonly matches = new Map<string, string>();
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly profiles: StoredVoiceProfile[]
+  ) {}
+
+  /**
+   * The speaker a label was matched to, if any
+   */
+  getMatch(speakerLabel: string): string | null {
+    return this.matches.get(speakerLabel) ?? null;
+  }
+
+  /**
+   * Add a segment's audio to its label. Resolves to the speaker name when this
+   * segment completed a new match, otherwise null.
+   */
+  async addSegment(segment: TranscriptSegment): Promise<string | null> {
+    const label = segment.speakerLabel;
+    if (this.profiles.length === 0 || this.matches.has(label)) return null;
+
+    const features = await segmentFeatures(this.sessionId, segment);
+    if (!features || this.matches.has(label)) return null;
+
+    const labelSamples = this.samples.get(label) ?? [];
+    labelSamples.push(features);
+    this.samples.set(label, labelSamples);
+
+    const voice = combineVoiceFeatures(labelSamples);
+    if (!voice || voice.voicedMs < config.voiceMatchMinMs) return null;
+
+    const taken = new Set(this.matches.values());
+    const [best, runnerUp] = this.profiles
+      .filter(p => !taken.has(p.speakerName))
+      .map(p => ({ speakerName: p.speakerName, similarity: voiceSimilarity(voice.vector, p.embedding) }))
+      .sort((a, b) => b.similarity - a.similarity);
+
+    if (!best || best.similarity < config.voiceMatchThreshold) return null;
+    if (runnerUp && best.similarity - runnerUp.similarity < MATCH_MARGIN) return null;
+
+    this.matches.set(label, best.speakerName);
+    this.samples.delete(label);
+    console.log(`🗣️ Voice match: ${label} -> ${best.speakerName} (${Math.round(best.similarity * 100)}%)`);
+    return best.speakerName;
+  }
+}
@@ -0,0 +1,130 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { BYTES_PER_MS, encodeWav } from '../lib/wav.js';
+import type { TranscriptionProvider, TranscriptSegment } from './transcription.js';
+
+const execFileAsync = promisify(execFile);
+
+// Windows shorter than this are dropped on close (mostly trailing silence)
+const MIN_WINDOW_MS = 500;
+
+/**
+ * Local/offline transcription using a whisper.cpp style binary.
+ *
+ * Audio is buffered into fixed windows; each window is written to a temporary
+ * WAV file and passed to the binary, whose stdout is the transcript text.
+ * whisper.cpp has no diarization, so every segment is labelled "Speaker A".
+ */
+export class WhisperTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'whisper' as const;
+  private binaryPath: string;
+  private modelPath: string;
+  private windowBytes: number;
+  private onSegment: ((segment: TranscriptSegment) => void) | null = null;
+  private sessionStartTime: number = Date.now();
+  private bufferedChunks: Buffer[] = [];
+  private bufferedBytes = 0;
+  private flushedBytes = 0;
+  private workDir: string | null = null;
+  // Windows are transcribed one at a time so segments stay in order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(binaryPath: string, modelPath: string, windowMs: number) {
+    if (!modelPath) {
+      throw new Error('WHISPER_MODEL_PATH is required');
+    }
+    this.binaryPath = binaryPath;
+    this.modelPath = modelPath;
+    this.windowBytes = Math.round(windowMs * BYTES_PER_MS);
+  }
+
+  async start(onSegment: (segment: TranscriptSegment) => void): Promise<void> {
+    this.onSegment = onSegment;
+    this.sessionStartTime = Date.now();
+    this.workDir = await mkdtemp(path.join(tmpdir(), 'dnd-whisper-'));
+    console.log(`✅ whisper.cpp ready (model: ${path.basename(this.modelPath)})`);
+  }
+
+  async sendAudio(audioData: Buffer): Promise<void> {
+    this.bufferedChunks.push(audioData);
+    this.bufferedBytes += audioData.length;
+
+    if (this.bufferedBytes >= this.windowBytes) {
+      this.flush();
+    }
+  }
+
+  isReady(): boolean {
+    return this.workDir !== null;
+  }
+
+  async close(): Promise<void> {
+    if (this.bufferedBytes >= MIN_WINDOW_MS * BYTES_PER_MS) {
+      this.flush();
+    }
+    await this.queue;
+
+    if (this.workDir) {
+      await rm(this.workDir, { recursive: true, force: true }).catch(() => {});
+      this.workDir = null;
+    }
+  }
+
+  private flush(): void {
+    const pcm = Buffer.concat(this.bufferedChunks);
+    const timestamp = Date.now() - this.sessionStartTime;
+    const audioOffset = Math.round(this.flushedBytes / BYTES_PER_MS);
+    this.bufferedChunks = [];
+    this.bufferedBytes = 0;
+    this.flushedBytes += pcm.length;
+
+    this.queue = this.queue
+      .then(() => this.transcribeWindow(pcm, timestamp, audioOffset))
+      .catch(error => console.error('whisper.cpp transcription error:', error));
+  }
+
+  private async transcribeWindow(pcm: Buffer, timestamp: number, audioOffset: number): Promise<void> {
+    if (!this.workDir) return;
+
+    const wavPath = path.join(this.workDir, `${uuidv4()}.wav`);
+    await writeFile(wavPath, encodeWav(pcm));
+
+    try {
+      const { stdout } = await execFileAsync(
+        this.binaryPath,
+        ['-m', this.modelPath, '-f', wavPath, '-l', 'en', '-nt', '-np'],
+        { timeout: 60000 }
+      );
+
+      // Drop whisper's non-speech markers such as [BLANK_AUDIO] or (music)
+      const text = stdout
+        .split('\n')
+        .map(line => line.replace(/\[[^\]]*\]|\([^)]*\)/g, '').trim())
+        .filter(Boolean)
+        .join(' ');
+
+      if (!text) return;
+
+      const segment: TranscriptSegment = {
+        id: uuidv4(),
+        timestamp,
+        speakerLabel: 'Speaker A',
+        speakerName: null,
+        text,
+        confidence: 0,
+        isEdited: false,
+        audioOffset,
+        audioDuration: Math.round(pcm.length / BYTES_PER_MS),
+      };
+
+      console.log(`🎯 Segment [whisper]: "${text.substring(0, 50)}..."`);
+      this.onSegment?.(segment);
+    } finally {
+      await rm(wavPath, { force: true }).catch(() => {});
+    }
+  }
+}
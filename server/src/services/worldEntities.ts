@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { prisma } from '../lib/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+// Locations, factions, items and quests all link to NPCs and sessions the same way
+
+export const entityLinksSchema = z.object({
+  npcIds: z.array(z.string().min(1)).max(200).optional(),
+  sessionIds: z.array(z.string().min(1)).max(500).optional(),
+});
+
+export type EntityLinks = z.infer<typeof entityLinksSchema>;
+
+/**
+ * What every world entity returns alongside its own fields
+ */
+export const entityLinksInclude = {
+  npcs: { select: { id: true, name: true }, orderBy: { name: 'asc' } },
+  sessions: { select: { id: true, sessionNumber: true, title: true }, orderBy: { sessionNumber: 'asc' } },
+} as const;
+
+/**
+ * Reject links to NPCs or sessions outside the campaign
+ */
+export async function verifyEntityLinks(campaignId: string, links: EntityLinks): Promise<void> {
+  const npcIds = [...new Set(links.npcIds ?? [])];
+  const sessionIds = [...new Set(links.sessionIds ?? [])];
+
+  const [npcCount, sessionCount] = await Promise.all([
+    npcIds.length > 0 ? prisma.nPC.count({ where: { id: { in: npcIds }, campaignId } }) : 0,
+    sessionIds.length > 0 ? prisma.session.count({ where: { id: { in: sessionIds }, campaignId } }) : 0,
+  ]);
+
+  if (npcCount !== npcIds.length) {
+    throw new AppError(400, 'Linked NPCs must belong to the same campaign');
+  }
+  if (sessionCount !== sessionIds.length) {
+    throw new AppError(400, 'Linked sessions must belong to the same campaign');
+  }
+}
+
+function toIds(ids: string[]) {
+  return ids.map(id => ({ id }));
+}
+
+/**
+ * Relation writes for a new entity
+ */
+export function connectEntityLinks(links: EntityLinks) {
+  return {
+    ...(links.npcIds && { npcs: { connect: toIds(links.npcIds) } }),
+    ...(links.sessionIds && { sessions: { connect: toIds(links.sessionIds) } }),
+  };
+}
+
+/**
+ * Relation writes for an update: links that were given replace the old ones
+ */
+export function setEntityLinks(links: EntityLinks) {
+  return {
+    ...(links.npcIds && { npcs: { set: toIds(links.npcIds) } }),
+    ...(links.sessionIds && { sessions: { set: toIds(links.sessionIds) } }),
+  };
+}
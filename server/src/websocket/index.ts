@@ -1,43 +1,173 @@
 import { Server, Socket } from 'socket.io';
 import { Prisma } from '@prisma/client';
+import { config } from '../config.js';
 import { prisma } from '../lib/prisma.js';
-import { TranscriptionService, TranscriptSegment } from '../services/transcription.js';
-import { AIService } from '../services/ai.js';
+import {
+  TranscriptionService,
+  TranscriptSegment,
+  isTranscriptionProviderConfigured,
+  averageSpeakerConfidence,
+} from '../services/transcription.js';
+import { AIService, AI_CAMPAIGN_INCLUDE } from '../services/ai.js';
+import { AIAudioAnalyzer } from '../services/aiAudioAnalyzer.js';
+import { createLLMClient, resolveLLMProvider } from '../services/llm.js';
 import { AudioTriggerService } from '../services/audioTrigger.js';
 import { AutoAudioService, AutoAudioSettings } from '../services/autoAudioService.js';
 import { tabletopAudioService } from '../services/tabletopAudio.js';
+import { audioStore } from '../services/audioStore.js';
+import { isRetranscriptionConfigured, retranscribeSession } from '../services/retranscription.js';
+import { TranscriptWriter } from '../services/transcriptStore.js';
+import { indexSession } from '../services/campaignKnowledge.js';
+import { extractSessionLore } from '../services/loreExtraction.js';
+import { generateSessionRecap } from '../services/sessionRecap.js';
+import { foldSessionIntoStory } from '../services/storySoFar.js';
+import {
+  EncounterWithCombatants,
+  addCombatant,
+  advanceTurn,
+  callsForInitiative,
+  combatantInputSchema,
+  combatantUpdateSchema,
+  endEncounter,
+  loadActiveEncounter,
+  parseInitiativeRoll,
+  recordInitiativeRoll,
+  removeCombatant,
+  startEncounter,
+  updateCombatant,
+} from '../services/combatTracker.js';
+import {
+  confirmHealthEvent,
+  recordDeathSaveRoll,
+  recordHealthEvents,
+  recordStartingSnapshots,
+  undoHealthEvent,
+} from '../services/healthTracker.js';
+import { addDeathSaveFailure, isDying, parseDeathSaveRoll, stabilizePlayer } from '../services/deathSaves.js';
+import {
+  confirmResourceUse,
+  loadPartyResources,
+  recordResourceUses,
+  setResourceUsed,
+  syncCampaignResources,
+  takeRest,
+} from '../services/resourceTracker.js';
+import {
+  applyCondition,
+  conditionInputSchema,
+  expireConditions,
+  loadActiveConditions,
+  removeCondition,
+} from '../services/conditions.js';
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  VoiceMatcher,
+  isVoiceProfilingEnabled,
+  loadVoiceProfiles,
+  updateVoiceProfilesFromSession,
+} from '../services/voiceProfiles.js';
+import {
+  ReplayOptions,
+  SessionReplayer,
+  TranscriptReplayProvider,
+  AudioFileReplayer,
+  resolveReplayFile,
+  isTranscriptReplay,
+  loadReplayTranscript,
+  loadReplayAudio,
+} from '../services/sessionReplay.js';
+
+type SessionCampaign = Prisma.CampaignGetPayload<{
+  include: typeof AI_CAMPAIGN_INCLUDE & { soundMappings: true };
+}>;
 
 interface SessionState {
   sessionId: string;
   campaignId: string;
   userId: string;
+  campaign: SessionCampaign;
   isActive: boolean;
   startTime: number;
+  clockBaseMs: number; // Session time before this run, so timestamps carry on over a resume
   transcriptionService: TranscriptionService | null;
+  replayer: SessionReplayer | null; // Set when the session is driven by a recording
+  audioBaseMs: number; // Stored audio that precedes this run (earlier runs of the same session)
+  voiceMatcher: VoiceMatcher | null; // Maps diarization labels to known voices
   transcriptSegments: TranscriptSegment[];
+  transcriptWriter: TranscriptWriter; // Persists segments as they arrive and change
   saveInterval: ReturnType<typeof setInterval> | null;
-  aiService: AIService | null;
-  audioTriggerService: AudioTriggerService | null;
-  autoAudioService: AutoAudioService | null;
+  aiService: AIService;
+  audioTriggerService: AudioTriggerService;
+  autoAudioService: AutoAudioService;
   lastSceneDetectionIndex: number;
   lastSpeakerAttributionIndex: number;
   mergedSegmentIds: Set<string>; // Track which segment pairs have been merged
+  combatQueue: Promise<void>; // Combat tracker updates, applied one at a time
+  awaitingSpeaker: Map<string, { segment: TranscriptSegment; calls: SpeakerCalls }>; // Player calls with no speaker yet
+}
+
+// What a player says about themselves: their initiative or death save roll, or a resource
+// they spend ("I cast...")
+interface SpeakerCalls {
+  initiative: number | null;
+  deathSave: number | null;
+  resourceUse: boolean;
 }
 
+// Only the most recent segments are attributed again, so older calls stop waiting
+const MAX_AWAITING_SPEAKER = 16;
+
+const RESOURCE_KEYWORDS = /\bcast(?:s|ing)?\b|\bus(?:e|es|ed|ing)\b|\bactivat|\bspen[dt]|hit di(?:ce|e)|spell slot|\brag(?:e|es|ing)\b|wild shape|channel divinity|\bki\b/i;
+const FIRST_PERSON = /\b(?:I|I'm|my)\b/;
+
 const activeSessions = new Map<string, SessionState>();
 
-// Helper to save transcript to database
-async function saveTranscript(sessionId: string, segments: TranscriptSegment[]) {
-  if (segments.length === 0) return;
-  
-  try {
-    await prisma.session.update({
-      where: { id: sessionId },
-      data: { transcript: segments as unknown as Prisma.InputJsonValue },
-    });
-    console.log(`💾 Saved ${segments.length} transcript segments for session ${sessionId}`);
-  } catch (error) {
-    console.error('Error saving transcript:', error);
+// Helper to keep raw session audio; storage failures must never interrupt transcription
+function storeAudioChunk(sessionId: string, audio: Buffer) {
+  audioStore?.append(sessionId, audio)
+    .catch(error => console.error('Error storing audio chunk:', error));
+}
+
+// Helper to apply a combat tracker change after any still in flight, so transcript-driven
+// updates and the DM's controls never interleave. A null result means nothing changed.
+function queueCombatUpdate(
+  state: SessionState,
+  socket: Socket,
+  update: () => Promise<EncounterWithCombatants | null>
+) {
+  state.combatQueue = state.combatQueue
+    .then(update)
+    .then(encounter => {
+      if (encounter) socket.emit('combat:updated', encounter);
+    })
+    .catch(error => {
+      console.error('Combat tracker error:', error);
+      socket.emit('error', {
+        message: error instanceof AppError ? error.message : 'Failed to update the combat tracker',
+      });
+    });
+}
+
+// Helper for the current session time (ms), counting earlier runs of the same session
+function sessionTime(state: SessionState): number {
+  return state.clockBaseMs + sessionTime(state);
+}
+
+// Helper to find the player character whose player is speaking, by either name
+function findSpeakingPlayer(state: SessionState, segment: TranscriptSegment) {
+  const speaker = segment.speakerName?.toLowerCase();
+  if (!speaker) return undefined;
+  return state.campaign.players.find(
+    p => p.characterName.toLowerCase() === speaker || p.playerName.toLowerCase() === speaker
+  );
+}
+
+// Helper to end conditions whose duration has run out, sending the ones still active
+// when anything changed. Run through the combat queue, as rounds drive expiry too.
+async function expireSessionConditions(state: SessionState, socket: Socket, changed = false) {
+  const expired = await expireConditions(state.sessionId, sessionTime(state));
+  if (changed || expired.length > 0) {
+    socket.emit('conditions:updated', await loadActiveConditions(state.sessionId));
   }
 }
 
@@ -47,7 +177,8 @@ function mergeConsecutiveSegments(
   startIndex: number,
   endIndex: number,
   socket: import('socket.io').Socket,
-  mergedSegmentIds: Set<string>
+  mergedSegmentIds: Set<string>,
+  writer: TranscriptWriter
 ): void {
   // Track which segments to remove (merged into others)
   const toRemove: Set<string> = new Set();
@@ -83,14 +214,23 @@ function mergeConsecutiveSegments(
       
       console.log(`🔗 Merging: "${current.text.substring(0, 20)}..." + "${next.text.substring(0, 20)}..." [${currentSpeaker}]`);
       
-      // Update current segment
+      // Update current segment, stretching its audio span over both utterances
       current.text = mergedText;
+      if (current.audioOffset !== undefined && next.audioOffset !== undefined && next.audioDuration !== undefined) {
+        current.audioDuration = next.audioOffset + next.audioDuration - current.audioOffset;
+      }
+      if (current.words && next.words) {
+        current.words = [...current.words, ...next.words];
+        current.speakerConfidence = averageSpeakerConfidence(current.words);
+      }
       
       // Mark this merge as done
       mergedSegmentIds.add(mergeKey);
       
       // Mark next for removal
       toRemove.add(next.id);
+      writer.touch(current.id);
+      writer.remove(next.id);
       
       // Emit merge event to client
       socket.emit('transcript:merged', {
@@ -120,6 +260,347 @@ function mergeConsecutiveSegments(
   }
 }
 
+/**
+ * Run one finished transcript segment through the live pipeline: corrections,
+ * sound triggers, auto-audio, scene detection, speaker attribution and health events.
+ * Live transcription and replays both feed segments through here.
+ */
+async function handleTranscriptSegment(state: SessionState, socket: Socket, segment: TranscriptSegment) {
+  // Provider times are relative to this run; make them relative to the whole session
+  // and its stored audio
+  segment.timestamp += state.clockBaseMs;
+  if (segment.audioOffset !== undefined) {
+    segment.audioOffset += state.audioBaseMs;
+  }
+  segment.words?.forEach(word => {
+    word.start += state.audioBaseMs;
+    word.end += state.audioBaseMs;
+  });
+
+  // === INSTANT LOCAL CORRECTIONS (cached, no API) ===
+  segment.text = state.aiService.correctTranscriptText(segment.text);
+
+  // Labels already recognised by voice are named before the segment goes out
+  const voiceMatch = state.voiceMatcher?.getMatch(segment.speakerLabel);
+  if (voiceMatch && !segment.speakerName) {
+    segment.speakerName = voiceMatch;
+  }
+
+  // Store the segment
+  state.transcriptSegments.push(segment);
+  state.transcriptWriter.add(segment);
+  const segmentIndex = state.transcriptSegments.length - 1;
+
+  // Emit to client immediately (may be corrected later)
+  socket.emit('transcript:segment', segment);
+  console.log(`📝 Transcript segment ${state.transcriptSegments.length}: "${segment.text.substring(0, 50)}..."`);
+
+  // === VOICE PROFILE MATCHING (reads stored audio, runs in background) ===
+  state.voiceMatcher?.addSegment(segment)
+    .then(speakerName => {
+      if (!speakerName) return;
+      // Name everything this label has said so far, keeping manual picks and "DM (as NPC)" refinements
+      for (const s of state.transcriptSegments) {
+        if (s.speakerLabel !== segment.speakerLabel || s.isEdited || s.speakerName?.startsWith(speakerName)) continue;
+        s.speakerName = speakerName;
+        state.transcriptWriter.touch(s.id);
+        socket.emit('speaker:updated', { segmentId: s.id, speakerName });
+        handleSpeakerNamed(state, socket, s);
+      }
+    })
+    .catch(err => console.error('Voice matching error:', err));
+
+  // === AI-POWERED CORRECTION (runs in background) ===
+  // Get recent context for better correction
+  const recentContext = state.transcriptSegments
+    .slice(-5, -1)
+    .map(s => s.text)
+    .join(' ');
+
+  state.aiService.correctTranscriptWithAI(segment.text, recentContext)
+    .then(correctedText => {
+      if (correctedText !== segment.text) {
+        // Update the segment
+        state.transcriptSegments[segmentIndex].text = correctedText;
+        state.transcriptWriter.touch(segment.id);
+        // Emit correction to client
+        socket.emit('transcript:corrected', {
+          segmentId: segment.id,
+          text: correctedText,
+        });
+      }
+    })
+    .catch(err => console.error('AI correction error:', err));
+
+  // === KEYWORD TRIGGERS (fast, no API call) ===
+  state.audioTriggerService.checkKeywordTriggers(segment.text);
+
+  // === COMBAT TRACKER (initiative calls start an encounter, players' rolls fill it in) ===
+  if (callsForInitiative(segment.text)) {
+    queueCombatUpdate(state, socket, async () => {
+      if (await loadActiveEncounter(state.sessionId)) return null;
+      const encounter = await startEncounter(state.sessionId, { timestamp: segment.timestamp });
+      console.log(`⚔️ Combat started with ${encounter.combatants.length} combatants`);
+      return encounter;
+    });
+  }
+
+  // === PLAYER CALLS (initiative and death save rolls, first-person resource uses) ===
+  handleSpeakerCalls(state, socket, segment);
+
+  // === AUTO-AUDIO PROCESSING (AI-driven audio selection) ===
+  // Process segment for automatic sound effects and music
+  state.autoAudioService.processSegment(segment.text)
+    .catch(err => console.error('Auto-audio processing error:', err));
+
+  // === AI ENHANCEMENTS (batched to avoid API overload) ===
+  const segmentCount = state.transcriptSegments.length;
+
+  // Scene detection every 5 segments
+  if (segmentCount >= state.lastSceneDetectionIndex + 5) {
+    state.lastSceneDetectionIndex = segmentCount;
+    const recentText = state.transcriptSegments
+      .slice(-5)
+      .map(s => s.text)
+      .join(' ');
+
+    try {
+      const sceneResult = await state.aiService.detectScene(recentText);
+      console.log(`🎭 Scene detected: ${sceneResult.scene} (${Math.round(sceneResult.confidence * 100)}% confidence)`);
+      socket.emit('scene:detected', sceneResult);
+      state.audioTriggerService.handleSceneChange(sceneResult.scene, sceneResult.confidence);
+
+      // Also notify auto-audio service of scene change for music selection
+      state.autoAudioService.handleSceneChange(
+        sceneResult.scene as 'combat' | 'exploration' | 'social' | 'tense' | 'dramatic' | 'tavern' | 'forest' | 'dungeon' | 'ambient',
+        sceneResult.confidence
+      ).catch(err => console.error('Auto-audio scene change error:', err));
+    } catch (error) {
+      console.error('Scene detection error:', error);
+    }
+  }
+
+  // RETROACTIVE speaker attribution every 4 segments
+  // Processes the last 16 segments to fix mistakes as more context is available
+  if (segmentCount >= state.lastSpeakerAttributionIndex + 4) {
+    state.lastSpeakerAttributionIndex = segmentCount;
+
+    // Get up to 16 recent segments for retroactive correction
+    const retroactiveStart = Math.max(0, segmentCount - 16);
+    const segmentsToAttribute = state.transcriptSegments.slice(retroactiveStart, segmentCount);
+
+    // Run attribution in background (don't await to avoid blocking transcription)
+    state.aiService.attributeSpeakers(segmentsToAttribute)
+      .then(attributed => {
+        // Update ALL processed segments (retroactive)
+        attributed.forEach((attr, i) => {
+          const globalIndex = retroactiveStart + i;
+          const currentSegment = state.transcriptSegments[globalIndex];
+
+          // Update if AI provided a meaningful speaker name different from current.
+          // Manual attributions and edits always win over the AI, and so do voice
+          // matches (though the AI may still refine "DM" to "DM (as NPC)").
+          const voiceName = currentSegment && state.voiceMatcher?.getMatch(currentSegment.speakerLabel);
+          if (currentSegment && !currentSegment.isEdited && attr.speakerName && 
+              attr.speakerName !== currentSegment.speakerName &&
+              (!voiceName || attr.speakerName.startsWith(voiceName))) {
+            const oldSpeaker = currentSegment.speakerName || currentSegment.speakerLabel;
+            currentSegment.speakerName = attr.speakerName;
+            state.transcriptWriter.touch(currentSegment.id);
+            handleSpeakerNamed(state, socket, currentSegment);
+
+            // Only emit update if it's a meaningful change
+            if (oldSpeaker !== attr.speakerName) {
+              socket.emit('speaker:updated', {
+                segmentId: currentSegment.id,
+                speakerName: attr.speakerName,
+              });
+            }
+          }
+        });
+
+        // === MERGE CONSECUTIVE SEGMENTS FROM SAME SPEAKER ===
+        // Only merge segments that are "settled" (not the most recent 4, which might still change)
+        const settledEnd = Math.max(0, state.transcriptSegments.length - 4);
+        if (settledEnd > 1) {
+          mergeConsecutiveSegments(state.transcriptSegments, 0, settledEnd, socket, state.mergedSegmentIds, state.transcriptWriter);
+        }
+      })
+      .catch(error => {
+        console.error('Speaker attribution error:', error);
+      });
+  }
+
+  // Health event extraction - only if text likely contains health info. Enemies in the
+  // running encounter are named to the AI so damage to them is attributed too.
+  const healthKeywords = /damage|hit|heal|hp|hit point|unconscious|poison|charm|stun|blind|deaf|prone|restrain|frighten|grappl|paralyz|petrif|incapacitat|invisible|takes?\s+\d+|loses?\s+\d+|regains?\s+\d+/i;
+  if (healthKeywords.test(segment.text)) {
+    // Run in background to not block transcription
+    loadActiveEncounter(state.sessionId)
+      .then(encounter => state.aiService.extractHealthEvents(
+        segment.text,
+        encounter?.combatants.filter(c => c.kind === 'monster').map(c => c.name) ?? []
+      ))
+      .then(extracted => {
+        if (extracted.length === 0) return;
+        queueCombatUpdate(state, socket, async () => {
+          const { events, encounter } = await recordHealthEvents(
+            state.sessionId,
+            state.campaign.players,
+            extracted,
+            segment.timestamp
+          );
+          for (const event of events) {
+            socket.emit('health:event', event);
+          }
+          return encounter;
+        });
+      })
+      .catch(error => {
+        console.error('Health extraction error:', error);
+      });
+  }
+
+  // Resource extraction - spells cast with a slot, limited-use features and hit dice,
+  // queued for the DM like health events. "I" is whoever is speaking; when that isn't
+  // known yet, first-person uses are picked up once attribution names them.
+  if (RESOURCE_KEYWORDS.test(segment.text)) {
+    extractSegmentResourceUses(state, socket, segment, findSpeakingPlayer(state, segment));
+  }
+}
+
+// Helper to queue the resources spent in a segment. Run again once the speaker is named,
+// only the speaker's own uses are kept, as the others were queued the first time.
+function extractSegmentResourceUses(
+  state: SessionState,
+  socket: Socket,
+  segment: TranscriptSegment,
+  speaker: SessionCampaign['players'][number] | undefined,
+  speakerOnly = false
+) {
+  state.aiService.extractResourceUses(segment.text, speaker?.characterName ?? null)
+    .then(uses => {
+      const extracted = speakerOnly ? uses.filter(u => u.characterName === speaker?.characterName) : uses;
+      if (extracted.length === 0) return;
+      queueCombatUpdate(state, socket, async () => {
+        const events = await recordResourceUses(state.sessionId, state.campaign.players, extracted, segment.timestamp);
+        for (const event of events) {
+          socket.emit('resource:event', event);
+        }
+        return null;
+      });
+    })
+    .catch(error => {
+      console.error('Resource extraction error:', error);
+    });
+}
+
+// Helper for the calls a player makes about themselves. With the speaker known they are
+// handled straight away. Otherwise a roll goes to the only player who could be making it
+// (the one dying player, the one player yet to roll initiative), and anything left waits
+// for speaker attribution to name who said it (see handleSpeakerNamed).
+function handleSpeakerCalls(state: SessionState, socket: Socket, segment: TranscriptSegment) {
+  const calls: SpeakerCalls = {
+    initiative: callsForInitiative(segment.text) ? null : parseInitiativeRoll(segment.text),
+    deathSave: parseDeathSaveRoll(segment.text),
+    resourceUse: RESOURCE_KEYWORDS.test(segment.text) && FIRST_PERSON.test(segment.text),
+  };
+  if (calls.initiative === null && calls.deathSave === null && !calls.resourceUse) return;
+
+  const player = findSpeakingPlayer(state, segment);
+  if (player) {
+    // First-person resource uses were already extracted with the speaker
+    applySpeakerCalls(state, socket, segment, player, { ...calls, resourceUse: false });
+    return;
+  }
+
+  state.awaitingSpeaker.set(segment.id, { segment, calls });
+  for (const id of state.awaitingSpeaker.keys()) {
+    if (state.awaitingSpeaker.size <= MAX_AWAITING_SPEAKER) break;
+    state.awaitingSpeaker.delete(id);
+  }
+
+  if (calls.initiative === null && calls.deathSave === null) return;
+  queueCombatUpdate(state, socket, async () => {
+    const awaiting = state.awaitingSpeaker.get(segment.id);
+    if (!awaiting) return null; // Attribution named the speaker first
+
+    const { initiative, deathSave } = awaiting.calls;
+    const rolling = await findOnlyRollingPlayer(state, awaiting.calls);
+    if (!rolling) return null;
+
+    awaiting.calls = { ...awaiting.calls, initiative: null, deathSave: null };
+    if (!awaiting.calls.resourceUse) state.awaitingSpeaker.delete(segment.id);
+    applySpeakerCalls(state, socket, segment, rolling, { initiative, deathSave, resourceUse: false });
+    return null;
+  });
+}
+
+// The one player a roll can be from when the speaker isn't known: the only dying player
+// for a death save, the only player still to roll for initiative. Undefined if there are
+// none or several.
+async function findOnlyRollingPlayer(state: SessionState, calls: SpeakerCalls) {
+  let candidates: string[] = [];
+  if (calls.deathSave !== null) {
+    const downed = await prisma.player.findMany({ where: { campaignId: state.campaignId, currentHp: 0 } });
+    candidates = downed.filter(isDying).map(p => p.id);
+  } else if (calls.initiative !== null) {
+    const encounter = await loadActiveEncounter(state.sessionId);
+    if (encounter && !encounter.activeCombatantId) {
+      candidates = encounter.combatants.filter(c => c.playerId && c.initiative === null).map(c => c.playerId!);
+    }
+  }
+  return candidates.length === 1 ? state.campaign.players.find(p => p.id === candidates[0]) : undefined;
+}
+
+function applySpeakerCalls(
+  state: SessionState,
+  socket: Socket,
+  segment: TranscriptSegment,
+  player: SessionCampaign['players'][number],
+  calls: SpeakerCalls
+) {
+  const { initiative, deathSave } = calls;
+  if (initiative !== null) {
+    queueCombatUpdate(state, socket, () => recordInitiativeRoll(state.sessionId, player.id, initiative));
+  }
+
+  // A dying player calling out their roll, queued for the DM
+  if (deathSave !== null) {
+    queueCombatUpdate(state, socket, async () => {
+      const event = await recordDeathSaveRoll(
+        state.sessionId,
+        player.id,
+        deathSave,
+        `${player.characterName} rolls ${deathSave} on a death save`,
+        segment.timestamp
+      );
+      if (event) socket.emit('health:event', event);
+      return null;
+    });
+  }
+
+  if (calls.resourceUse) {
+    extractSegmentResourceUses(state, socket, segment, player, true);
+  }
+}
+
+// Helper to pick up a segment's player calls once attribution (by voice, the AI or the DM)
+// names a player as its speaker
+function handleSpeakerNamed(state: SessionState, socket: Socket, segment: TranscriptSegment) {
+  const awaiting = state.awaitingSpeaker.get(segment.id);
+  const player = awaiting && findSpeakingPlayer(state, segment);
+  if (!awaiting || !player) return;
+
+  state.awaitingSpeaker.delete(segment.id);
+  applySpeakerCalls(state, socket, segment, player, awaiting.calls);
+}
+
+// Helper to send the party's resources after any of them changed
+async function emitPartyResources(state: SessionState, socket: Socket) {
+  socket.emit('resources:updated', await loadPartyResources(state.campaign.id));
+}
+
 export function setupWebSocket(io: Server) {
   io.on('connection', (socket: Socket) => {
     console.log(`Client connected: ${socket.id}`);
@@ -139,7 +620,7 @@ export function setupWebSocket(io: Server) {
     });
 
     // Start a session
-    socket.on('session:start', async (data: { sessionId: string }) => {
+    socket.on('session:start', async (data: { sessionId: string; replay?: ReplayOptions }) => {
       try {
         const { sessionId } = data;
         
@@ -158,8 +639,7 @@ export function setupWebSocket(io: Server) {
           include: {
             campaign: {
               include: {
-                players: true,
-                npcs: true,
+                ...AI_CAMPAIGN_INCLUDE,
                 soundMappings: true,
               },
             },
@@ -178,14 +658,11 @@ export function setupWebSocket(io: Server) {
           data: { status: 'in_progress' },
         });
 
-        // Initialize transcript storage
-        const transcriptSegments: TranscriptSegment[] = [];
-        const mergedSegmentIds = new Set<string>(); // Track which segment pairs have been merged
-        let lastSceneDetectionIndex = 0;
-        let lastSpeakerAttributionIndex = 0;
-        
-        // Create AI service early so we can use it in the callback
-        const aiServiceInstance = new AIService(session.campaign);
+        // Create AI service early so the segment pipeline can use it. The LLM client is
+        // shared with auto-audio so both follow the campaign's provider choice.
+        const llm = createLLMClient(resolveLLMProvider(session.campaign));
+        console.log(`🧠 LLM provider: ${llm.name}`);
+        const aiServiceInstance = new AIService(session.campaign, llm);
         
         // Create audio trigger service early
         const audioTriggerServiceInstance = new AudioTriggerService(
@@ -205,201 +682,99 @@ export function setupWebSocket(io: Server) {
             reason: event.reason,
           });
           console.log(`🎵 Auto-audio: ${event.track.name} (${event.reason})`);
-        });
+        }, new AIAudioAnalyzer(llm));
         autoAudioServiceInstance.reset();
-        
-        // Create transcription service for this session (only if API key is configured)
-        let transcriptionService: TranscriptionService | null = null;
-        if (process.env.DEEPGRAM_API_KEY) {
-          transcriptionService = new TranscriptionService(
-            session.campaign,
-            async (segment) => {
-              // === INSTANT LOCAL CORRECTIONS (cached, no API) ===
-              segment.text = aiServiceInstance.correctTranscriptText(segment.text);
-              
-              // Store the segment
-              transcriptSegments.push(segment);
-              const segmentIndex = transcriptSegments.length - 1;
-              
-              // Emit to client immediately (may be corrected later)
-              socket.emit('transcript:segment', segment);
-              console.log(`📝 Transcript segment ${transcriptSegments.length}: "${segment.text.substring(0, 50)}..."`);
-              
-              // === AI-POWERED CORRECTION (runs in background) ===
-              // Get recent context for better correction
-              const recentContext = transcriptSegments
-                .slice(-5, -1)
-                .map(s => s.text)
-                .join(' ');
-              
-              aiServiceInstance.correctTranscriptWithAI(segment.text, recentContext)
-                .then(correctedText => {
-                  if (correctedText !== segment.text) {
-                    // Update the segment
-                    transcriptSegments[segmentIndex].text = correctedText;
-                    // Emit correction to client
-                    socket.emit('transcript:corrected', {
-                      segmentId: segment.id,
-                      text: correctedText,
-                    });
-                  }
-                })
-                .catch(err => console.error('AI correction error:', err));
-              
-              // === KEYWORD TRIGGERS (fast, no API call) ===
-              audioTriggerServiceInstance.checkKeywordTriggers(segment.text);
-              
-              // === AUTO-AUDIO PROCESSING (AI-driven audio selection) ===
-              // Process segment for automatic sound effects and music
-              autoAudioServiceInstance.processSegment(segment.text)
-                .catch(err => console.error('Auto-audio processing error:', err));
-              
-              // === AI ENHANCEMENTS (batched to avoid API overload) ===
-              const segmentCount = transcriptSegments.length;
-              
-              // Scene detection every 5 segments
-              if (segmentCount >= lastSceneDetectionIndex + 5) {
-                lastSceneDetectionIndex = segmentCount;
-                const recentText = transcriptSegments
-                  .slice(-5)
-                  .map(s => s.text)
-                  .join(' ');
-                
-                try {
-                  const sceneResult = await aiServiceInstance.detectScene(recentText);
-                  console.log(`🎭 Scene detected: ${sceneResult.scene} (${Math.round(sceneResult.confidence * 100)}% confidence)`);
-                  socket.emit('scene:detected', sceneResult);
-                  audioTriggerServiceInstance.handleSceneChange(sceneResult.scene, sceneResult.confidence);
-                  
-                  // Also notify auto-audio service of scene change for music selection
-                  autoAudioServiceInstance.handleSceneChange(
-                    sceneResult.scene as 'combat' | 'exploration' | 'social' | 'tense' | 'dramatic' | 'tavern' | 'forest' | 'dungeon' | 'ambient',
-                    sceneResult.confidence
-                  ).catch(err => console.error('Auto-audio scene change error:', err));
-                } catch (error) {
-                  console.error('Scene detection error:', error);
-                }
-              }
-              
-              // RETROACTIVE speaker attribution every 4 segments
-              // Processes the last 16 segments to fix mistakes as more context is available
-              if (segmentCount >= lastSpeakerAttributionIndex + 4) {
-                lastSpeakerAttributionIndex = segmentCount;
-                
-                // Get up to 16 recent segments for retroactive correction
-                const retroactiveStart = Math.max(0, segmentCount - 16);
-                const segmentsToAttribute = transcriptSegments.slice(retroactiveStart, segmentCount);
-                
-                // Run attribution in background (don't await to avoid blocking transcription)
-                aiServiceInstance.attributeSpeakers(segmentsToAttribute)
-                  .then(attributed => {
-                    // Update ALL processed segments (retroactive)
-                    attributed.forEach((attr, i) => {
-                      const globalIndex = retroactiveStart + i;
-                      const currentSegment = transcriptSegments[globalIndex];
-                      
-                      // Update if AI provided a meaningful speaker name different from current
-                      if (currentSegment && attr.speakerName && 
-                          attr.speakerName !== currentSegment.speakerName) {
-                        const oldSpeaker = currentSegment.speakerName || currentSegment.speakerLabel;
-                        currentSegment.speakerName = attr.speakerName;
-                        
-                        // Only emit update if it's a meaningful change
-                        if (oldSpeaker !== attr.speakerName) {
-                          socket.emit('speaker:updated', {
-                            segmentId: currentSegment.id,
-                            speakerName: attr.speakerName,
-                          });
-                        }
-                      }
-                    });
-                    
-                    // === MERGE CONSECUTIVE SEGMENTS FROM SAME SPEAKER ===
-                    // Only merge segments that are "settled" (not the most recent 4, which might still change)
-                    const settledEnd = Math.max(0, transcriptSegments.length - 4);
-                    if (settledEnd > 1) {
-                      mergeConsecutiveSegments(transcriptSegments, 0, settledEnd, socket, mergedSegmentIds);
-                    }
-                  })
-                  .catch(error => {
-                    console.error('Speaker attribution error:', error);
-                  });
-              }
-              
-              // Health event extraction - only if text likely contains health info
-              const healthKeywords = /damage|hit|heal|hp|hit point|unconscious|poison|charm|stun|blind|deaf|prone|restrain|frighten|takes?\s+\d+|loses?\s+\d+|regains?\s+\d+/i;
-              if (healthKeywords.test(segment.text)) {
-                // Run in background to not block transcription
-                aiServiceInstance.extractHealthEvents(segment.text)
-                  .then(async (healthEvents) => {
-                    for (const event of healthEvents) {
-                      // Find the player
-                      const player = session.campaign.players.find(
-                        p => p.characterName.toLowerCase() === event.characterName.toLowerCase()
-                      );
-                      
-                      if (player) {
-                        // Create pending health event
-                        const healthEvent = await prisma.healthEvent.create({
-                          data: {
-                            sessionId: sessionId,
-                            playerId: player.id,
-                            type: event.type,
-                            value: event.value || null,
-                            statusEffect: event.statusEffect || null,
-                            description: event.description,
-                            timestamp: Date.now(),
-                            confirmed: false,
-                          },
-                        });
-                        
-                        socket.emit('health:event', {
-                          id: healthEvent.id,
-                          playerId: player.id,
-                          type: event.type,
-                          value: event.value,
-                          description: event.description,
-                          confirmed: false,
-                        });
-                        console.log(`💊 Health event: ${event.characterName} - ${event.type} ${event.value || event.statusEffect}`);
-                      }
-                    }
-                  })
-                  .catch(error => {
-                    console.error('Health extraction error:', error);
-                  });
-              }
-            }
-          );
-        } else {
-          console.warn('Deepgram API key not configured - transcription disabled');
-        }
 
-        // Set up periodic transcript saving (every 30 seconds)
-        const saveInterval = setInterval(async () => {
-          if (transcriptSegments.length > 0) {
-            await saveTranscript(sessionId, transcriptSegments);
-          }
-        }, 30000);
-
-        // Store session state
-        currentSessionState = {
+        // Store session state (transcription is attached below)
+        const state: SessionState = {
           sessionId,
           campaignId: session.campaignId,
           userId: session.campaign.userId,
+          campaign: session.campaign,
           isActive: true,
           startTime: Date.now(),
-          transcriptionService,
-          transcriptSegments,
-          saveInterval,
+          clockBaseMs: session.elapsedMs,
+          transcriptionService: null,
+          replayer: null,
+          audioBaseMs: (await audioStore?.getDurationMs(sessionId)) ?? 0,
+          voiceMatcher: isVoiceProfilingEnabled()
+            ? new VoiceMatcher(sessionId, await loadVoiceProfiles(session.campaignId))
+            : null,
+          transcriptSegments: [],
+          transcriptWriter: new TranscriptWriter(sessionId),
+          saveInterval: null,
           aiService: aiServiceInstance,
           audioTriggerService: audioTriggerServiceInstance,
           autoAudioService: autoAudioServiceInstance,
-          lastSceneDetectionIndex,
-          lastSpeakerAttributionIndex,
-          mergedSegmentIds,
+          lastSceneDetectionIndex: 0,
+          lastSpeakerAttributionIndex: 0,
+          mergedSegmentIds: new Set<string>(), // Track which segment pairs have been merged
+          combatQueue: Promise.resolve(),
+          awaitingSpeaker: new Map(),
+        };
+        
+        const onSegment = (segment: TranscriptSegment) => {
+          handleTranscriptSegment(state, socket, segment)
+            .catch(err => console.error('Error handling transcript segment:', err));
         };
+        const onReplayFinished = () => {
+          console.log(`⏹️ Replay finished for session ${sessionId}`);
+          socket.emit('session:replay-finished', { sessionId });
+        };
+
+        if (data.replay) {
+          // Replay mode: drive the pipeline from a recording instead of the microphone
+          const replayPath = resolveReplayFile(data.replay.file);
+          
+          if (isTranscriptReplay(replayPath)) {
+            const replayProvider = new TranscriptReplayProvider(
+              await loadReplayTranscript(replayPath),
+              data.replay.speed,
+              onReplayFinished
+            );
+            state.replayer = replayProvider;
+            state.transcriptionService = new TranscriptionService(session.campaign, onSegment, replayProvider);
+          } else if (isTranscriptionProviderConfigured(config.transcriptionProvider)) {
+            const transcriptionService = new TranscriptionService(session.campaign, onSegment, config.transcriptionProvider);
+            const audioReplayer = new AudioFileReplayer(
+              await loadReplayAudio(replayPath),
+              data.replay.speed,
+              (chunk) => {
+                storeAudioChunk(sessionId, chunk);
+                return transcriptionService.processAudioChunk(chunk, Date.now());
+              },
+              onReplayFinished
+            );
+            state.transcriptionService = transcriptionService;
+            state.replayer = audioReplayer;
+            audioReplayer.start();
+          } else {
+            throw new Error(`Audio replay needs a configured transcription provider (${config.transcriptionProvider})`);
+          }
+          
+          console.log(`⏯️ Replay mode: ${data.replay.file} at ${data.replay.speed || 1}x`);
+        } else if (isTranscriptionProviderConfigured(config.transcriptionProvider)) {
+          // Create transcription service for this session (only if the selected provider is configured)
+          state.transcriptionService = new TranscriptionService(session.campaign, onSegment, config.transcriptionProvider);
+        } else {
+          console.warn(`Transcription provider "${config.transcriptionProvider}" not configured - transcription disabled`);
+        }
+
+        // New segments are written as they arrive; later changes to them are flushed periodically
+        state.saveInterval = setInterval(() => {
+          state.transcriptWriter.flush(state.transcriptSegments);
+          // The clock is saved as it runs, so a session that drops without ending resumes on time
+          prisma.session.update({ where: { id: sessionId }, data: { elapsedMs: sessionTime(state) } })
+            .catch(error => console.error('Error saving session time:', error));
+          if (state.isActive) {
+            queueCombatUpdate(state, socket, async () => {
+              await expireSessionConditions(state, socket);
+              return null;
+            });
+          }
+        }, 10000);
 
+        currentSessionState = state;
         activeSessions.set(socket.id, currentSessionState);
 
         // Join session room for broadcasts
@@ -408,24 +783,55 @@ export function setupWebSocket(io: Server) {
         socket.emit('session:started', {
           sessionId,
           startTime: currentSessionState.startTime,
+          elapsedMs: state.clockBaseMs,
+        });
+
+        // Resuming mid-fight picks the tracker back up, with any conditions still in effect
+        queueCombatUpdate(state, socket, async () => {
+          await recordStartingSnapshots(sessionId);
+          return null;
+        });
+        queueCombatUpdate(state, socket, async () => {
+          await syncCampaignResources(session.campaignId);
+          await emitPartyResources(state, socket);
+          return null;
+        });
+        queueCombatUpdate(state, socket, () => loadActiveEncounter(sessionId));
+        queueCombatUpdate(state, socket, async () => {
+          await expireSessionConditions(state, socket, true);
+          return null;
         });
 
         console.log(`Session started: ${sessionId}`);
       } catch (error) {
         console.error('Error starting session:', error);
-        socket.emit('error', { message: 'Failed to start session' });
+        socket.emit('error', {
+          message: data.replay ? `Failed to start replay: ${(error as Error).message}` : 'Failed to start session',
+        });
       }
     });
 
     // Receive audio chunk
     socket.on('audio:chunk', async (data: { audio: ArrayBuffer; timestamp: number }) => {
-      if (!currentSessionState?.isActive || !currentSessionState.transcriptionService) {
+      if (!currentSessionState?.isActive) {
+        return;
+      }
+      
+      // Microphone audio is ignored while a recording is being replayed
+      if (currentSessionState.replayer) {
+        return;
+      }
+
+      const audio = Buffer.from(data.audio);
+      storeAudioChunk(currentSessionState.sessionId, audio);
+
+      if (!currentSessionState.transcriptionService) {
         return;
       }
 
       try {
         await currentSessionState.transcriptionService.processAudioChunk(
-          Buffer.from(data.audio),
+          audio,
           data.timestamp
         );
       } catch (error) {
@@ -453,13 +859,15 @@ export function setupWebSocket(io: Server) {
           };
           
           // Save to database
-          await saveTranscript(currentSessionState.sessionId, currentSessionState.transcriptSegments);
+          currentSessionState.transcriptWriter.touch(data.segmentId);
+          await currentSessionState.transcriptWriter.flush(currentSessionState.transcriptSegments);
 
           // Broadcast to all clients in the session
           io.to(`session:${currentSessionState.sessionId}`).emit('speaker:updated', {
             segmentId: data.segmentId,
             speakerName: data.speakerName,
           });
+          handleSpeakerNamed(currentSessionState, socket, currentSessionState.transcriptSegments[segmentIndex]);
         }
       } catch (error) {
         console.error('Error updating speaker attribution:', error);
@@ -534,46 +942,208 @@ export function setupWebSocket(io: Server) {
       }
     });
 
-    // Health event confirmation
-    socket.on('health:confirm', async (data: { eventId: string; confirmed: boolean; modifiedValue?: number }) => {
-      try {
-        const event = await prisma.healthEvent.update({
-          where: { id: data.eventId },
-          data: {
-            confirmed: data.confirmed,
-            value: data.modifiedValue,
-          },
-          include: { player: true },
-        });
-
-        if (data.confirmed && event.value !== null) {
-          // Apply the health change to the player
-          let newHp = event.player.currentHp;
-          if (event.type === 'damage') {
-            newHp = Math.max(0, event.player.currentHp - event.value);
-          } else if (event.type === 'healing') {
-            newHp = Math.min(event.player.maxHp, event.player.currentHp + event.value);
-          }
+    // Health event confirmation, for players and enemies alike
+    socket.on('health:confirm', (data: { eventId: string; confirmed: boolean; modifiedValue?: number | null }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, async () => {
+        const modifiedValue = data.modifiedValue === undefined || data.modifiedValue === null
+          ? undefined
+          : Math.trunc(data.modifiedValue);
+        if (modifiedValue !== undefined && !(modifiedValue >= 0 && modifiedValue === data.modifiedValue)) {
+          throw new AppError(400, 'A corrected value is a whole number of 0 or more');
+        }
+        const { player, encounter, conditionsChanged } = await confirmHealthEvent(
+          state.sessionId,
+          data.eventId,
+          data.confirmed === true,
+          modifiedValue
+        );
+        if (player) {
+          socket.emit('player:updated', player);
+        }
+        if (conditionsChanged) {
+          await expireSessionConditions(state, socket, true);
+        }
+        return encounter;
+      });
+    });
 
-          await prisma.player.update({
-            where: { id: event.playerId },
-            data: { currentHp: newHp },
-          });
+    // Taking back an applied event, e.g. damage that was misheard
+    socket.on('health:undo', (data: { eventId: string }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, async () => {
+        const { player, encounter, conditionsChanged } = await undoHealthEvent(state.sessionId, data.eventId);
+        if (player) {
+          socket.emit('player:updated', player);
+        }
+        if (conditionsChanged) {
+          await expireSessionConditions(state, socket, true);
+        }
+        socket.emit('health:undone', { eventId: data.eventId });
+        return encounter;
+      });
+    });
 
-          socket.emit('player:updated', {
-            playerId: event.playerId,
-            currentHp: newHp,
-          });
+    socket.on('resource:confirm', (data: { eventId: string; confirmed: boolean }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, async () => {
+        if (await confirmResourceUse(state.sessionId, data.eventId, data.confirmed)) {
+          await emitPartyResources(state, socket);
         }
-      } catch (error) {
-        console.error('Error confirming health event:', error);
-      }
+        return null;
+      });
+    });
+
+    // Corrections by hand from a player's card
+    socket.on('resource:set', (data: { playerId: string; resourceId: string; used: number }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, async () => {
+        if (!state.campaign.players.some(p => p.id === data.playerId)) throw new AppError(404, 'Player not found');
+        await setResourceUsed(data.playerId, data.resourceId, data.used);
+        await emitPartyResources(state, socket);
+        return null;
+      });
+    });
+
+    // A short or long rest, for one player or (without a playerId) the whole party
+    socket.on('rest:take', (data: { type: 'short' | 'long'; playerId?: string }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, async () => {
+        if (data.type !== 'short' && data.type !== 'long') throw new AppError(400, 'A rest is short or long');
+        const playerIds = state.campaign.players.map(p => p.id).filter(id => !data.playerId || id === data.playerId);
+        await takeRest(playerIds, data.type);
+        await emitPartyResources(state, socket);
+        return null;
+      });
+    });
+
+    // Death saves the DM enters from a dying player's card
+    socket.on('death-save:roll', (data: { playerId: string; roll: number }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, async () => {
+        const roll = Math.trunc(data.roll);
+        if (!(roll >= 1 && roll <= 20)) throw new AppError(400, 'A death save is a d20 roll');
+        const timestamp = sessionTime(state);
+        const player = state.campaign.players.find(p => p.id === data.playerId);
+        const event = await recordDeathSaveRoll(
+          state.sessionId,
+          data.playerId,
+          roll,
+          `${player?.characterName ?? 'Player'} rolls ${roll} on a death save`,
+          timestamp
+        );
+        if (!event) throw new AppError(409, `${player?.characterName ?? 'That player'} isn't making death saves`);
+
+        const { player: updated, conditionsChanged } = await confirmHealthEvent(state.sessionId, event.id, true);
+        if (updated) socket.emit('player:updated', updated);
+        if (conditionsChanged) await expireSessionConditions(state, socket, true);
+        return null;
+      });
+    });
+
+    socket.on('death-save:fail', (data: { playerId: string }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, async () => {
+        socket.emit('player:updated', await addDeathSaveFailure(state.sessionId, data.playerId, sessionTime(state)));
+        return null;
+      });
+    });
+
+    socket.on('death-save:stabilize', (data: { playerId: string }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, async () => {
+        socket.emit('player:updated', await stabilizePlayer(state.sessionId, data.playerId));
+        return null;
+      });
+    });
+
+    // Combat tracker controls
+    socket.on('combat:start', (data: { name?: string } = {}) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, () => startEncounter(state.sessionId, {
+        name: data.name?.trim().slice(0, 100),
+        timestamp: sessionTime(state),
+      }));
+    });
+
+    socket.on('combat:add-combatant', (data: { encounterId: string; combatant: unknown }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, () =>
+        addCombatant(state.sessionId, data.encounterId, combatantInputSchema.parse(data.combatant))
+      );
+    });
+
+    socket.on('combat:update-combatant', (data: { combatantId: string; patch: unknown }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, () =>
+        updateCombatant(state.sessionId, data.combatantId, combatantUpdateSchema.parse(data.patch))
+      );
+    });
+
+    socket.on('combat:remove-combatant', (data: { combatantId: string }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, () => removeCombatant(state.sessionId, data.combatantId));
+    });
+
+    socket.on('combat:turn', (data: { encounterId: string; step: 1 | -1 }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, async () => {
+        const encounter = await advanceTurn(state.sessionId, data.encounterId, data.step === -1 ? -1 : 1);
+        await expireSessionConditions(state, socket);
+        return encounter;
+      });
+    });
+
+    socket.on('combat:end', (data: { encounterId: string }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, async () => {
+        const encounter = await endEncounter(state.sessionId, data.encounterId, sessionTime(state));
+        console.log(`🏁 Combat ended after ${encounter.round} rounds`);
+        await expireSessionConditions(state, socket);
+        return encounter;
+      });
+    });
+
+    // Conditions the DM puts on or takes off by hand
+    socket.on('condition:add', (data: unknown) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, async () => {
+        await applyCondition(state.sessionId, conditionInputSchema.parse(data), sessionTime(state));
+        await expireSessionConditions(state, socket, true);
+        return null;
+      });
+    });
+
+    socket.on('condition:remove', (data: { conditionId: string }) => {
+      const state = currentSessionState;
+      if (!state) return;
+      queueCombatUpdate(state, socket, async () => {
+        await removeCondition(state.sessionId, data.conditionId, sessionTime(state));
+        await expireSessionConditions(state, socket, true);
+        return null;
+      });
     });
 
     // Pause session
     socket.on('session:pause', () => {
       if (currentSessionState) {
         currentSessionState.isActive = false;
+        currentSessionState.replayer?.pause();
         socket.emit('session:paused');
       }
     });
@@ -582,6 +1152,7 @@ export function setupWebSocket(io: Server) {
     socket.on('session:resume', () => {
       if (currentSessionState) {
         currentSessionState.isActive = true;
+        currentSessionState.replayer?.resume();
         socket.emit('session:resumed');
       }
     });
@@ -598,23 +1169,48 @@ export function setupWebSocket(io: Server) {
           clearInterval(currentSessionState.saveInterval);
         }
         
-        // Close transcription service
+        // Stop any replay and close transcription service
+        await currentSessionState.replayer?.stop();
         if (currentSessionState.transcriptionService) {
           await currentSessionState.transcriptionService.close();
         }
 
-        // Save final transcript
+        // A fight still running when the session ends is closed with it
+        const endingState = currentSessionState;
+        queueCombatUpdate(endingState, socket, async () => {
+          const encounter = await loadActiveEncounter(endingState.sessionId);
+          return encounter && endEncounter(endingState.sessionId, encounter.id, sessionTime(endingState));
+        });
+        await endingState.combatQueue;
+
+        // Save final transcript changes
         console.log(`📝 Saving final transcript with ${currentSessionState.transcriptSegments.length} segments`);
-        await saveTranscript(currentSessionState.sessionId, currentSessionState.transcriptSegments);
+        await currentSessionState.transcriptWriter.flush(currentSessionState.transcriptSegments);
 
         // Update session status
         await prisma.session.update({
           where: { id: currentSessionState.sessionId },
-          data: { status: 'completed' },
+          data: { status: 'completed', elapsedMs: sessionTime(currentSessionState) },
         });
 
-        // Generate recap (async, don't wait)
-        generateSessionRecap(currentSessionState.sessionId).catch(console.error);
+        // Generate recap (async, don't wait). With re-transcription enabled the recap
+        // waits for the higher-accuracy transcript. Voice profiles learn from the
+        // final transcript's confirmed attributions. The recap extends the campaign's
+        // story so far, new NPCs, places and plot threads are proposed for the DM to
+        // review, and the finished session is indexed for campaign questions last.
+        const endedSessionId = currentSessionState.sessionId;
+        const retranscription = config.retranscribeAfterSession && isRetranscriptionConfigured() && !currentSessionState.replayer
+          ? retranscribeSession(endedSessionId).catch(err => console.error('Re-transcription failed:', err))
+          : Promise.resolve();
+        retranscription
+          .then(() => isVoiceProfilingEnabled()
+            ? updateVoiceProfilesFromSession(endedSessionId).catch(err => console.error('Voice profile update failed:', err))
+            : undefined)
+          .then(() => generateSessionRecap(endedSessionId).catch(err => console.error('Recap generation failed:', err)))
+          .then(() => foldSessionIntoStory(endedSessionId).catch(err => console.error('Story so far update failed:', err)))
+          .then(() => extractSessionLore(endedSessionId).catch(err => console.error('Lore extraction failed:', err)))
+          .then(() => indexSession(endedSessionId))
+          .catch(console.error);
 
         socket.emit('session:ended', {
           sessionId: currentSessionState.sessionId,
@@ -642,13 +1238,12 @@ export function setupWebSocket(io: Server) {
           clearInterval(currentSessionState.saveInterval);
         }
         
-        // Save transcript before disconnecting
-        if (currentSessionState.transcriptSegments.length > 0) {
-          console.log(`📝 Saving transcript on disconnect: ${currentSessionState.transcriptSegments.length} segments`);
-          await saveTranscript(currentSessionState.sessionId, currentSessionState.transcriptSegments);
-        }
+        // Save pending transcript changes before disconnecting
+        console.log(`📝 Saving transcript on disconnect: ${currentSessionState.transcriptSegments.length} segments`);
+        await currentSessionState.transcriptWriter.flush(currentSessionState.transcriptSegments);
         
-        // Cleanup transcription service
+        // Cleanup replay and transcription service
+        await currentSessionState.replayer?.stop();
         if (currentSessionState.transcriptionService) {
           await currentSessionState.transcriptionService.close();
         }
@@ -658,33 +1253,3 @@ export function setupWebSocket(io: Server) {
   });
 }
 
-async function generateSessionRecap(sessionId: string) {
-  try {
-    const session = await prisma.session.findUnique({
-      where: { id: sessionId },
-      include: {
-        campaign: {
-          include: {
-            players: true,
-            npcs: true,
-          },
-        },
-      },
-    });
-
-    if (!session) return;
-
-    const aiService = new AIService(session.campaign);
-    const recap = await aiService.generateRecap(session.transcript as never[]);
-
-    await prisma.session.update({
-      where: { id: sessionId },
-      data: { recap },
-    });
-
-    console.log(`Recap generated for session ${sessionId}`);
-  } catch (error) {
-    console.error('Error generating recap:', error);
-  }
-}
-
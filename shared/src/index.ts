@@ -7,11 +7,25 @@ export interface Campaign {
   name: string;
   description: string | null;
   worldContext: string | null;
+  recapStyle: RecapStyle;
+  recapLength: RecapLength;
+  storySoFar: string | null; // Rolling summary, extended as each session completes
+  storySoFarThrough: number | null; // Last session number folded into storySoFar
+  storySoFarUpdatedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   userId: string;
 }
 
+export type RecapStyle = 'narrative' | 'bard' | 'newspaper' | 'bullets' | 'letter';
+export type RecapLength = 'short' | 'medium' | 'long';
+
+export interface StorySoFar {
+  story: string | null;
+  throughSessionNumber: number | null;
+  updatedAt: Date | null;
+}
+
 export interface CreateCampaignInput {
   name: string;
   description?: string;
@@ -34,14 +48,25 @@ export interface Session {
   sessionNumber: number;
   title: string | null;
   date: Date;
-  transcript: TranscriptSegment[];
+  segmentCount: number; // Segments are paged from GET /api/sessions/:id/transcript
   notes: string | null;
   recap: string | null;
+  summary: SessionSummary | null;
   status: SessionStatus;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface SessionSummary {
+  keyEvents: { description: string; segmentId: string | null; timestamp: number | null }[];
+  decisions: string[];
+  loot: { item: string; recipient: string | null }[];
+  xp: number | null; // Experience awarded to each character
+  npcsMet: string[];
+  combats: { description: string; outcome: string | null }[];
+  openThreads: string[];
+}
+
 export interface CreateSessionInput {
   campaignId: string;
   title?: string;
@@ -52,6 +77,7 @@ export interface UpdateSessionInput {
   title?: string;
   notes?: string;
   recap?: string;
+  summary?: SessionSummary | null;
   status?: SessionStatus;
 }
 
@@ -66,11 +92,97 @@ export interface Player {
   characterRace: string | null;
   maxHp: number;
   currentHp: number;
+  tempHp: number; // Lost before currentHp
+  resistances: DamageType[];
+  immunities: DamageType[];
+  vulnerabilities: DamageType[];
+  deathSaveSuccesses: number; // While at 0 HP; both counts reset on healing or becoming stable
+  deathSaveFailures: number; // Three and the character is dead
+  stable: boolean;
   notes: string | null;
+  characterSheet?: CharacterSheet | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type Ability = 'strength' | 'dexterity' | 'constitution' | 'intelligence' | 'wisdom' | 'charisma';
+
+export type Skill =
+  | 'acrobatics' | 'animal_handling' | 'arcana' | 'athletics' | 'deception' | 'history'
+  | 'insight' | 'intimidation' | 'investigation' | 'medicine' | 'nature' | 'perception'
+  | 'performance' | 'persuasion' | 'religion' | 'sleight_of_hand' | 'stealth' | 'survival';
+
+// Modifiers and the proficiency bonus are worked out from the scores and level
+export interface CharacterSheet {
+  level: number;
+  background: string | null;
+  alignment: string | null;
+  armorClass: number;
+  speed: number; // feet
+  strength: number;
+  dexterity: number;
+  constitution: number;
+  intelligence: number;
+  wisdom: number;
+  charisma: number;
+  savingThrows: Ability[]; // Proficient saves
+  skillProficiencies: Skill[];
+  skillExpertise: Skill[];
+  spellcastingAbility: Ability | null;
+  spellSlots: number[]; // Slots per spell level, 1st to 9th
+  inventory: { name: string; quantity: number; notes: string | null }[];
+  // Features with uses (e.g. Action Surge, 1 per short rest) are tracked as resources
+  features: { name: string; source: string | null; description: string | null; uses: number | null; recharge: RestType | null }[];
+}
+
+export type RestType = 'short' | 'long';
+
+export type ResourceKind = 'spell_slot' | 'feature' | 'hit_dice';
+
+// Kept in step with the sheet: a row per level of spell slots, per feature with uses, and hit dice
+export interface CharacterResource {
+  id: string;
+  kind: ResourceKind;
+  name: string; // The feature's name; "Level 3" for spell slots, "Hit Dice"
+  spellLevel: number | null;
+  max: number;
+  used: number;
+  recharge: RestType; // A long rest restores everything, but only half the hit dice
+  createdAt: Date;
+  updatedAt: Date;
+  playerId: string;
+}
+
+// A resource a character was heard spending, applied once the DM confirms it
+export interface ResourceEvent {
+  id: string;
+  amount: number;
+  description: string;
+  timestamp: number;
+  confirmed: boolean;
+  createdAt: Date;
+  sessionId: string;
+  resourceId: string;
+}
+
+// The file GET /api/players/:id/sheet/export downloads and /sheet/import takes back
+export interface CharacterExport {
+  format: 'dnd-companion-character';
+  version: 1;
+  character: Pick<Player, 'characterName' | 'characterClass' | 'characterRace' | 'maxHp' | 'resistances' | 'immunities' | 'vulnerabilities'>;
+  sheet: CharacterSheet;
+}
+
+// Character files the importer reads: our own export, D&D Beyond's character JSON, Foundry VTT dnd5e actors
+export type CharacterFileFormat = 'dnd-companion' | 'dndbeyond' | 'foundry';
+
+export interface CharacterImportPreview {
+  format: CharacterFileFormat;
+  character: CharacterExport['character'];
+  sheet: CharacterSheet;
+  changes: { field: string; label: string; before: string | null; after: string | null }[];
+}
+
 export interface CreatePlayerInput {
   campaignId: string;
   playerName: string;
@@ -79,6 +191,10 @@ export interface CreatePlayerInput {
   characterRace?: string;
   maxHp?: number;
   currentHp?: number;
+  tempHp?: number;
+  resistances?: DamageType[];
+  immunities?: DamageType[];
+  vulnerabilities?: DamageType[];
 }
 
 export interface UpdatePlayerInput {
@@ -88,6 +204,10 @@ export interface UpdatePlayerInput {
   characterRace?: string;
   maxHp?: number;
   currentHp?: number;
+  tempHp?: number;
+  resistances?: DamageType[];
+  immunities?: DamageType[];
+  vulnerabilities?: DamageType[];
   notes?: string;
 }
 
@@ -116,6 +236,88 @@ export interface UpdateNPCInput {
   speechPatterns?: string;
 }
 
+// ============ World Types ============
+
+export interface WorldEntityLinks {
+  npcs: { id: string; name: string }[];
+  sessions: { id: string; sessionNumber: number; title: string | null }[];
+}
+
+export interface Location extends WorldEntityLinks {
+  id: string;
+  campaignId: string;
+  name: string;
+  kind: string | null; // e.g. "city", "dungeon", "tavern"
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Faction extends WorldEntityLinks {
+  id: string;
+  campaignId: string;
+  name: string;
+  description: string | null;
+  goals: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Item extends WorldEntityLinks {
+  id: string;
+  campaignId: string;
+  name: string;
+  description: string | null;
+  holder: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type QuestStatus = 'active' | 'completed' | 'failed';
+
+export interface Quest extends WorldEntityLinks {
+  id: string;
+  campaignId: string;
+  name: string;
+  description: string | null;
+  status: QuestStatus;
+  reward: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============ Lore Proposal Types ============
+
+export type LoreKind = 'npc' | 'location' | 'faction' | 'item' | 'quest';
+export type ProposalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface LoreProposal {
+  id: string;
+  campaignId: string;
+  sessionId: string;
+  kind: LoreKind;
+  name: string;
+  description: string | null;
+  details: Record<string, string>; // speechPatterns, kind, goals, holder or reward, by kind
+  segmentIds: string[]; // Transcript segments it was mentioned in
+  status: ProposalStatus;
+  entityId: string | null; // Record created on approval
+  reviewedAt: Date | null;
+  createdAt: Date;
+}
+
+// ============ Voice Profile Types ============
+
+export interface VoiceProfile {
+  id: string;
+  campaignId: string;
+  playerId: string | null; // null for the DM
+  speakerName: string;
+  sampleMs: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // ============ Sound Mapping Types ============
 
 export type TriggerType = 'keyword' | 'scene' | 'manual';
@@ -156,6 +358,33 @@ export interface TranscriptSegment {
   text: string;
   confidence: number;
   isEdited: boolean;
+  audioOffset?: number; // milliseconds into the session's stored audio
+  audioDuration?: number;
+  words?: TranscriptWord[];
+  speakerConfidence?: number; // 0-1, mean diarization confidence of the words
+}
+
+export interface TranscriptWord {
+  text: string;
+  start: number; // milliseconds into the session's stored audio
+  end: number;
+  confidence?: number;
+  speaker?: string; // Diarization label (Speaker A, Speaker B, etc.)
+  speakerConfidence?: number;
+}
+
+export type TranscriptEditOperation = 'edit_text' | 'reassign_speaker' | 'split' | 'merge' | 'delete';
+
+export interface TranscriptRevision {
+  id: string;
+  sessionId: string;
+  userId: string;
+  operation: TranscriptEditOperation;
+  anchorId: string | null; // Segment just before the edited run
+  before: TranscriptSegment[];
+  after: TranscriptSegment[];
+  undoneAt: Date | null;
+  createdAt: Date;
 }
 
 export interface SpeakerAttribution {
@@ -163,33 +392,203 @@ export interface SpeakerAttribution {
   speakerName: string;
 }
 
+// ============ Search Types ============
+
+export interface SearchContextLine {
+  speakerLabel: string;
+  speakerName: string | null;
+  text: string;
+}
+
+export interface TranscriptSearchHit {
+  sessionId: string;
+  sessionNumber: number;
+  sessionTitle: string | null;
+  sessionDate: Date;
+  segmentId: string;
+  timestamp: number;
+  speakerLabel: string;
+  speakerName: string | null;
+  text: string;
+  headline: string; // Text with matched terms wrapped in <mark></mark>
+  before: SearchContextLine[];
+  after: SearchContextLine[];
+}
+
+export interface SessionTextSearchHit {
+  sessionId: string;
+  sessionNumber: number;
+  sessionTitle: string | null;
+  sessionDate: Date;
+  field: 'notes' | 'recap';
+  headline: string;
+}
+
+export interface CampaignSearchResults {
+  query: string;
+  segments: PaginatedResponse<TranscriptSearchHit>;
+  sessionText: SessionTextSearchHit[];
+}
+
+// ============ Campaign Knowledge Types ============
+
+export type KnowledgeSource = 'transcript' | 'recap' | 'npc' | 'world';
+
+export interface RetrievedPassage {
+  id: string;
+  source: KnowledgeSource;
+  score: number;
+  text: string;
+  segmentIds: string[];
+  sessionId: string | null;
+  sessionNumber: number | null;
+  sessionTitle: string | null;
+  npcId: string | null;
+}
+
+export interface KnowledgeCitation {
+  ref: number; // Cited in the answer as [ref]
+  label: string;
+  text: string;
+  source: KnowledgeSource;
+  sessionId: string | null;
+  sessionNumber: number | null;
+  segmentId: string | null;
+  timestamp: number | null;
+  speaker: string | null;
+  npcId: string | null;
+}
+
+export interface CampaignAnswer {
+  question: string;
+  answer: string;
+  citations: KnowledgeCitation[];
+}
+
 // ============ Health Event Types ============
 
-export type HealthEventType = 'damage' | 'healing' | 'status' | 'death' | 'revive';
+// death_save values are the d20 roll; death and revive are recorded as their consequences
+export type HealthEventType = 'damage' | 'healing' | 'status' | 'temp_hp' | 'death_save' | 'death' | 'revive';
+
+export type DamageType =
+  | 'acid' | 'bludgeoning' | 'cold' | 'fire' | 'force' | 'lightning' | 'necrotic'
+  | 'piercing' | 'poison' | 'psychic' | 'radiant' | 'slashing' | 'thunder';
 
 export interface HealthEvent {
   id: string;
   sessionId: string;
-  playerId: string;
+  playerId: string | null;
+  combatantId: string | null; // Set instead of playerId for enemies
   type: HealthEventType;
   value: number | null;
   statusEffect: string | null;
+  damageType: DamageType | null; // For damage, when it was said
+  durationRounds: number | null; // For status events, when a duration was said
+  durationMinutes: number | null;
   description: string;
   timestamp: number;
   confirmed: boolean;
+  appliedAt: Date | null;
+  undoneAt: Date | null;
+  causeId: string | null; // The event a death or revival followed from
   createdAt: Date;
 }
 
 export interface CreateHealthEventInput {
   sessionId: string;
-  playerId: string;
+  playerId?: string;
+  combatantId?: string;
   type: HealthEventType;
   value?: number;
   statusEffect?: string;
+  damageType?: DamageType;
+  durationRounds?: number;
+  durationMinutes?: number;
   description: string;
   timestamp: number;
 }
 
+export interface HealthTimelinePoint {
+  timestamp: number;
+  hp: number;
+  tempHp: number;
+  healthEventId: string | null; // null for the HP a player started the session with
+}
+
+export interface HealthTimeline {
+  players: { playerId: string; characterName: string; maxHp: number; points: HealthTimelinePoint[] }[];
+  events: {
+    id: string;
+    type: HealthEventType;
+    value: number | null;
+    damageType: DamageType | null;
+    statusEffect: string | null;
+    description: string;
+    timestamp: number;
+    target: string;
+    playerId: string | null;
+    undoneAt: Date | null;
+    causeId: string | null;
+    undoable: boolean;
+  }[];
+}
+
+// ============ Combat Types ============
+
+export type EncounterStatus = 'active' | 'ended';
+export type CombatantKind = 'player' | 'monster';
+
+export interface Combatant {
+  id: string;
+  name: string;
+  kind: CombatantKind;
+  initiative: number | null;
+  maxHp: number | null; // Enemies only; player HP lives on Player
+  damageTaken: number; // Counted even before maxHp is known
+  defeated: boolean; // Skipped in the turn order
+  createdAt: Date;
+  encounterId: string;
+  playerId: string | null;
+}
+
+export interface Encounter {
+  id: string;
+  name: string | null;
+  status: EncounterStatus;
+  round: number;
+  activeCombatantId: string | null; // Null while initiative is being rolled
+  startedAt: number; // milliseconds from session start
+  endedAt: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+  sessionId: string;
+  combatants: Combatant[]; // In initiative order
+}
+
+// ============ Condition Types ============
+
+export type StandardCondition =
+  | 'blinded' | 'charmed' | 'deafened' | 'exhaustion' | 'frightened'
+  | 'grappled' | 'incapacitated' | 'invisible' | 'paralyzed' | 'petrified'
+  | 'poisoned' | 'prone' | 'restrained' | 'stunned' | 'unconscious';
+
+export interface Condition {
+  id: string;
+  name: StandardCondition | string; // Custom conditions keep the name they were given
+  source: string | null;
+  startedAt: number; // milliseconds from session start
+  startRound: number | null; // Encounter round it started in
+  durationRounds: number | null;
+  durationMinutes: number | null;
+  endedAt: number | null; // Null while in effect
+  createdAt: Date;
+  sessionId: string;
+  playerId: string | null;
+  combatantId: string | null; // Set instead of playerId for enemies
+  encounterId: string | null; // Round durations count this encounter's rounds
+  healthEventId: string | null; // The confirmed status event it came from
+}
+
 // ============ WebSocket Event Types ============
 
 export interface WSAudioChunk {